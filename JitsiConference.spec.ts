@@ -1,6 +1,9 @@
 import { XMPPEvents } from './service/xmpp/XMPPEvents';
+import { VideoType } from './service/RTC/VideoType';
+import JitsiConference from './JitsiConference';
 import { JitsiConferenceEvents } from './JitsiConferenceEvents';
 import JitsiConferenceEventManager from './JitsiConferenceEventManager';
+import { JitsiTrackErrors } from './JitsiTrackErrors';
 
 describe('JitsiConference', () => {
     describe('JitsiConferenceEvents message handling', () => {
@@ -109,7 +112,8 @@ describe('JitsiConference', () => {
                 true,                   // isVisitor
                 'msg123',              // messageId
                 undefined,             // source (undefined for visitor)
-                undefined              // replyToId
+                undefined,             // replyToId
+                false                  // isEncrypted
             );
         });
 
@@ -140,7 +144,8 @@ describe('JitsiConference', () => {
                 false,                  // isVisitor
                 'msg124',              // messageId
                 'token',               // source
-                undefined              // replyToId
+                undefined,             // replyToId
+                false                  // isEncrypted
             );
         });
 
@@ -171,7 +176,8 @@ describe('JitsiConference', () => {
                 false,                  // isVisitor
                 'msg125',              // messageId
                 'guest',               // source
-                undefined              // replyToId
+                undefined,             // replyToId
+                false                  // isEncrypted
             );
         });
 
@@ -202,7 +208,8 @@ describe('JitsiConference', () => {
                 false,                  // isVisitor
                 'msg126',              // messageId
                 undefined,             // source
-                undefined              // replyToId
+                undefined,             // replyToId
+                false                  // isEncrypted
             );
         });
 
@@ -232,7 +239,8 @@ describe('JitsiConference', () => {
                 'msg127',                     // messageId
                 'Visitor Name',               // displayName
                 true,                         // isVisitor
-                undefined                     // replyToId
+                undefined,                    // replyToId
+                false                         // isEncrypted
             );
         });
 
@@ -262,8 +270,73 @@ describe('JitsiConference', () => {
                 'msg128',                     // messageId
                 undefined,                    // displayName
                 false,                        // isVisitor
-                undefined                     // replyToId
+                undefined,                    // replyToId
+                false                         // isEncrypted
             );
         });
     });
+
+    describe('screen sharing approval', () => {
+        let conference;
+        let doReplaceTrackSpy;
+        let approved;
+
+        const track = videoType => ({
+            getType: () => 'video',
+            getVideoType: () => videoType,
+            setSourceName: () => {}
+        });
+
+        beforeEach(() => {
+            approved = false;
+            conference = {
+                _isTrackApproved: JitsiConference.prototype['_isTrackApproved'],
+                _doReplaceTrack: () => Promise.reject(new Error('replaced')),
+                getLocalTracks: () => [],
+                myUserId: () => 'mockuser',
+                room: {
+                    getAVModeration: () => ({
+                        isApproved: () => approved
+                    })
+                }
+            };
+            doReplaceTrackSpy = spyOn(conference, '_doReplaceTrack').and.callThrough();
+        });
+
+        it('rejects replacing a track with an unapproved desktop track', async () => {
+            await expectAsync(JitsiConference.prototype.replaceTrack.call(conference, null, track(VideoType.DESKTOP)))
+                .toBeRejectedWith(jasmine.objectContaining({ name: JitsiTrackErrors.TRACK_NOT_APPROVED }));
+            expect(doReplaceTrackSpy).not.toHaveBeenCalled();
+        });
+
+        it('replaces a track with an approved desktop track', async () => {
+            approved = true;
+
+            await expectAsync(JitsiConference.prototype.replaceTrack.call(conference, null, track(VideoType.DESKTOP)))
+                .toBeRejectedWithError('replaced');
+            expect(doReplaceTrackSpy).toHaveBeenCalled();
+        });
+    });
+
+    describe('endpoint messages', () => {
+        it('reports the encrypted messages which could not be sent without rejecting', async () => {
+            const conference = {
+                _e2eEncryption: {
+                    encryptEndpointMessage: () => Promise.reject(new Error('e2ee.endpoint-message.missing-key')),
+                    isEndpointMessageEncryptionEnabled: () => true
+                },
+                eventEmitter: jasmine.createSpyObj('eventEmitter', [ 'emit' ]),
+                rtc: jasmine.createSpyObj('rtc', [ 'sendChannelMessage' ]),
+                sendEndpointMessageAsync: JitsiConference.prototype.sendEndpointMessageAsync
+            };
+
+            expect(JitsiConference.prototype.sendEndpointMessage.call(conference, 'bob', {})).toBeUndefined();
+
+            await new Promise(resolve => setTimeout(resolve));
+
+            expect(conference.rtc.sendChannelMessage).not.toHaveBeenCalled();
+            expect(conference.eventEmitter.emit).toHaveBeenCalledWith(
+                JitsiConferenceEvents.E2EE_ENDPOINT_MESSAGE_SEND_FAILED, 'bob', 'e2ee.endpoint-message.missing-key');
+        });
+    });
 });
\ No newline at end of file
@@ -26,34 +26,48 @@ import P2PDominantSpeakerDetection from './modules/detection/P2PDominantSpeakerD
 import VADAudioAnalyser, { IVADProcessor } from './modules/detection/VADAudioAnalyser';
 import VADNoiseDetection from './modules/detection/VADNoiseDetection';
 import VADTalkMutedDetection from './modules/detection/VADTalkMutedDetection';
+import type { FrameFormat } from './modules/e2ee/Context';
+import { E2EEErrors } from './modules/e2ee/E2EEErrors';
 import { E2EEncryption } from './modules/e2ee/E2EEncryption';
+import type { IEncryptedEndpointMessage } from './modules/e2ee/EndpointMessageCipher';
+import type { IKeyProvider } from './modules/e2ee/KeyProvider';
+import type { IKeyRotationPolicy } from './modules/e2ee/KeyRotationPolicy';
+import type { SFrameCipherSuite } from './modules/e2ee/sframe-utils';
 import E2ePing from './modules/e2eping/e2eping';
+import FileTransfer from './modules/filetransfer/FileTransfer';
 import FeatureFlags from './modules/flags/FeatureFlags';
 import { LiteModeContext } from './modules/litemode/LiteModeContext';
 import { QualityController } from './modules/qualitycontrol/QualityController';
 import { IReceiverVideoConstraints } from './modules/qualitycontrol/ReceiveVideoController';
-import JibriSession from './modules/recording/JibriSession';
-import RecordingManager, { IRecordingOptions } from './modules/recording/RecordingManager';
+import JibriSession, { IRecordingMarker } from './modules/recording/JibriSession';
+import LocalRecorder, { ILocalRecordingOptions } from './modules/recording/LocalRecorder';
+import RecordingManager, { IRecordingHistoryEntry, IRecordingOptions } from './modules/recording/RecordingManager';
+import { RecordingStatus } from './modules/recording/recordingConstants';
 import Settings from './modules/settings/Settings';
 import AvgRTPStatsReporter from './modules/statistics/AvgRTPStatsReporter';
 import LocalStatsCollector from './modules/statistics/LocalStatsCollector';
 import SpeakerStats from './modules/statistics/SpeakerStats';
 import SpeakerStatsCollector from './modules/statistics/SpeakerStatsCollector';
 import Statistics from './modules/statistics/statistics';
+import TranscriptionManager from './modules/transcription/TranscriptionManager';
 import Listenable from './modules/util/Listenable';
 import { isValidNumber, safeSubtract } from './modules/util/MathUtil';
 import RandomUtil from './modules/util/RandomUtil';
 import { getJitterDelay } from './modules/util/Retry';
 import $ from './modules/util/XMLParser';
 import ComponentsVersions from './modules/version/ComponentsVersions';
-import JitsiVideoSIPGWSession from './modules/videosipgw/JitsiVideoSIPGWSession';
+import JitsiVideoSIPGWSession, { IVideoSIPGWRetryOptions } from './modules/videosipgw/JitsiVideoSIPGWSession';
 import VideoSIPGW from './modules/videosipgw/VideoSIPGW';
 import * as VideoSIPGWConstants from './modules/videosipgw/VideoSIPGWConstants';
+import type { ISpeakRequest } from './modules/xmpp/AVModeration';
 import BreakoutRooms from './modules/xmpp/BreakoutRooms';
+import type { IChatMessage } from './modules/xmpp/ChatMessages';
 import type { ChatRoom, PresenceHandler } from './modules/xmpp/ChatRoom';
-import FileSharing from './modules/xmpp/FileSharing';
+import FileSharing, { IFileSharingPolicy } from './modules/xmpp/FileSharing';
 import type JingleSessionPC from './modules/xmpp/JingleSessionPC';
 import { MediaSessionEvents } from './modules/xmpp/MediaSessionEvents';
+import type { IMessageHistoryOptions, IMessageHistoryResult } from './modules/xmpp/MessageArchive';
+import Polls from './modules/xmpp/Polls';
 import RoomMetadata from './modules/xmpp/RoomMetadata';
 import SignalingLayerImpl from './modules/xmpp/SignalingLayerImpl';
 import XMPP, {
@@ -100,12 +114,36 @@ export interface IConferenceOptions {
         disableAudioLevels?: boolean;
         disableLocalStats?: boolean;
         disableLocalStatsBroadcast?: boolean;
+        e2ee?: {
+            disabled?: boolean;
+            encryptChat?: boolean;
+            externallyManagedKey?: boolean;
+            frameFormat?: FrameFormat;
+            keyProvider?: IKeyProvider;
+            keyRotationInterval?: number;
+            keyRotationPolicy?: IKeyRotationPolicy;
+            maxFramesPerKey?: number;
+            persistIdentity?: boolean;
+            rememberVerifiedParticipants?: boolean;
+            sasEmojiLanguage?: string;
+            sframeCipherSuite?: SFrameCipherSuite;
+        };
         e2eping?: {
             enabled?: boolean;
         };
         enableNoAudioDetection?: boolean;
         enableNoisyMicDetection?: boolean;
         enableTalkWhileMuted?: boolean;
+        fileSharing?: IFileSharingPolicy;
+        fileTransfer?: {
+            chunkSize?: number;
+            enabled?: boolean;
+            incomingTimeout?: number;
+            maxBufferedAmount?: number;
+            maxFileSize?: number;
+            maxIncomingTransfers?: number;
+            minChunkSize?: number;
+        };
         hiddenDomain?: string;
         p2p?: {
             backToP2PDelay?: number;
@@ -133,6 +171,9 @@ export interface IConferenceOptions {
             lastNRampupTime?: number;
             p2pTestMode?: boolean;
         };
+        transcription?: {
+            maxSegments?: number;
+        };
         transcriptionLanguage?: string;
         videoQuality?: {
             codecPreferenceOrder?: string[];
@@ -143,12 +184,44 @@ export interface IConferenceOptions {
             preferredCodec?: string;
             screenshareCodec?: string;
         };
+        videoSIPGW?: IVideoSIPGWRetryOptions;
     };
     connection: JitsiConnection;
     customDomain?: string;
     name: string;
 }
 
+/**
+ * A participant knocking in the lobby, as tracked by moderators.
+ */
+export interface ILobbyQueueEntry {
+    avatar?: string;
+    email?: string;
+    id: string;
+    identity?: {
+        group?: string;
+        user?: {
+            avatar?: string;
+            email?: string;
+            id?: string;
+            name?: string;
+        };
+    };
+    joinedAt: number;
+    name?: string;
+    note: string;
+}
+
+/**
+ * Participants waiting in the lobby who match the policy are approved as soon as they knock.
+ */
+export interface ILobbyAutoAdmitPolicy {
+    authenticated?: boolean;
+    emailDomains?: string[];
+    filter?: (entry: ILobbyQueueEntry) => boolean;
+    identityGroups?: string[];
+}
+
 export interface IStartMutedPolicy {
     audio: boolean;
     video: boolean;
@@ -273,6 +346,7 @@ export default class JitsiConference extends Listenable {
     private _conferenceJoinAnalyticsEventSent?: number;
     private _e2eEncryption?: E2EEncryption;
     private _liteModeContext?: LiteModeContext;
+    private _localRecorder?: LocalRecorder;
     private _audioSenderLimitReached?: boolean;
     private _videoSenderLimitReached?: boolean;
     private _firefoxP2pEnabled: boolean;
@@ -315,6 +389,8 @@ export default class JitsiConference extends Listenable {
     public recordingManager: RecordingManager;
     public room?: ChatRoom;
     public e2eping?: E2ePing;
+    public fileTransfer?: FileTransfer;
+    public transcriptionManager?: TranscriptionManager;
     public rtc?: RTC;
     public qualityController?: QualityController;
     public statistics?: Statistics;
@@ -471,7 +547,7 @@ export default class JitsiConference extends Listenable {
          */
         this.p2pJingleSession = null;
 
-        this.videoSIPGWHandler = new VideoSIPGW(this.room);
+        this.videoSIPGWHandler = new VideoSIPGW(this.room, this.options.config.videoSIPGW);
         this.recordingManager = new RecordingManager(this.room);
 
         /**
@@ -626,6 +702,12 @@ export default class JitsiConference extends Listenable {
                 });
         }
 
+        if (config.fileTransfer?.enabled) {
+            this.fileTransfer = new FileTransfer(this, config);
+        }
+
+        this.transcriptionManager = new TranscriptionManager(this, config);
+
         if (!this.rtc) {
             this.rtc = new RTC(this, options);
             this.eventManager.setupRTCListeners();
@@ -1034,6 +1116,19 @@ export default class JitsiConference extends Listenable {
         return videoTypeChanged;
     }
 
+    /**
+     * Checks whether a track may be sent. Desktop tracks need the approval of a moderator when screen sharing is
+     * moderated.
+     * @param {JitsiLocalTrack} track - The track.
+     * @returns {boolean}
+     * @private
+     */
+    private _isTrackApproved(track: JitsiLocalTrack): boolean {
+        return track.getVideoType() !== VideoType.DESKTOP
+            || !this.room
+            || this.room.getAVModeration().isApproved(MediaType.DESKTOP);
+    }
+
     /**
      * Maybe clears the timeout which emits {@link ACTION_JINGLE_SI_TIMEOUT}
      * analytics event.
@@ -2479,6 +2574,21 @@ export default class JitsiConference extends Listenable {
             this.e2eping = null;
         }
 
+        if (this.fileTransfer) {
+            this.fileTransfer.stop();
+            this.fileTransfer = null;
+        }
+
+        if (this.transcriptionManager) {
+            this.transcriptionManager.stop();
+            this.transcriptionManager = null;
+        }
+
+        if (this._localRecorder) {
+            this._localRecorder.stop().catch(error => logger.error('Failed to stop the local recording', error));
+            this._localRecorder = undefined;
+        }
+
         this.getLocalTracks().forEach(track => this.onLocalTrackRemoved(track));
 
         this.rtc.closeBridgeChannel();
@@ -2516,6 +2626,12 @@ export default class JitsiConference extends Listenable {
         }
 
         const room = this.room;
+        const breakoutRoomsRemainingTime = this.getBreakoutRooms()?.getRemainingTime();
+
+        // The timer only runs in this client and is cancelled when the room is disposed.
+        if (breakoutRoomsRemainingTime !== undefined) {
+            this.eventEmitter.emit(JitsiConferenceEvents.BREAKOUT_ROOMS_TIMER_CANCELLED, breakoutRoomsRemainingTime);
+        }
 
         // Unregister connection state listeners
         room.removeListener(
@@ -2732,15 +2848,19 @@ export default class JitsiConference extends Listenable {
 
     /**
     /**
-   * Sends text message to the other participants in the conference.
+   * Sends text message to the other participants in the conference. When chat encryption is enabled the message is
+   * sent through the E2EE Olm sessions instead of the MUC.
    * @param {string} message - The text message.
    * @param {string} [elementName='body'] - The element name to encapsulate the message.
    * @param {string} [replyToId] - The ID of the message being replied to.
+   * @param {string} [messageId] - The ID to use for the message, needed to later edit or delete it.
    * @deprecated Use 'sendMessage' instead. TODO: this should be private.
    */
-    public sendTextMessage(message: string, elementName: string = 'body', replyToId?: string): void {
-        if (this.room) {
-            this.room.sendMessage(message, elementName, replyToId);
+    public sendTextMessage(message: string, elementName: string = 'body', replyToId?: string, messageId?: string): void {
+        if (this._e2eEncryption?.isChatEncryptionEnabled() && elementName === 'body') {
+            this._e2eEncryption.sendChatMessage(message, undefined, replyToId, messageId);
+        } else if (this.room) {
+            this.room.sendMessage(message, elementName, replyToId, messageId);
         }
     }
 
@@ -2757,18 +2877,121 @@ export default class JitsiConference extends Listenable {
     }
 
     /**
-   * Sends private text message to another participant of the conference.
+   * Sends private text message to another participant of the conference. When chat encryption is enabled the
+   * message is sent through the E2EE Olm session with the participant.
    * @param {string} id - The ID of the participant to send a private message.
    * @param {string} message - The text message.
    * @param {string} [elementName='body'] - The element name to encapsulate the message.
    * @param {boolean} [useFullJid=false] - Whether to use the full JID.
    * @param {string} [replyToId] - The ID of the message being replied to.
+   * @param {string} [messageId] - The ID to use for the message, needed to later edit or delete it.
    * @deprecated Use 'sendMessage' instead. TODO: this should be private.
    */
-    public sendPrivateTextMessage(id: string, message: string, elementName: string = 'body', useFullJid = false, replyToId?: string): void {
+    public sendPrivateTextMessage(
+            id: string,
+            message: string,
+            elementName: string = 'body',
+            useFullJid = false,
+            replyToId?: string,
+            messageId?: string): void {
+        if (this._e2eEncryption?.isChatEncryptionEnabled() && elementName === 'body' && !useFullJid) {
+            this._e2eEncryption.sendChatMessage(message, id, replyToId, messageId);
+        } else if (this.room) {
+            this.room.sendPrivateMessage(id, message, elementName, useFullJid, replyToId, messageId);
+        }
+    }
+
+    /**
+     * Edits a text message previously sent by the local participant (XEP-0308). Not possible while chat encryption
+     * is enabled.
+     * @param {string} messageId - The ID of the message to edit.
+     * @param {string} message - The new text of the message.
+     * @param {string} [to=''] - The ID of the recipient if the message was private.
+     */
+    public editMessage(messageId: string, message: string, to: string = ''): void {
+        if (this._e2eEncryption?.isChatEncryptionEnabled()) {
+            // Edits would travel in cleartext through the MUC.
+            logger.warn('Cannot edit messages while chat encryption is enabled');
+        } else if (this.room) {
+            this.room.editMessage(messageId, message, to || undefined);
+        }
+    }
+
+    /**
+     * Deletes a text message previously sent by the local participant (XEP-0424). Not possible while chat encryption
+     * is enabled.
+     * @param {string} messageId - The ID of the message to delete.
+     * @param {string} [to=''] - The ID of the recipient if the message was private.
+     */
+    public deleteMessage(messageId: string, to: string = ''): void {
+        if (this._e2eEncryption?.isChatEncryptionEnabled()) {
+            // Retractions would travel in cleartext through the MUC, like edits.
+            logger.warn('Cannot delete messages while chat encryption is enabled');
+        } else if (this.room) {
+            this.room.retractMessage(messageId, to || undefined);
+        }
+    }
+
+    /**
+     * Returns the messages of the thread a message belongs to. A thread starts with a message which is not a reply
+     * and groups all the replies to it, including replies to replies, in the order they were received.
+     * @param {string} messageId - The ID of any message in the thread.
+     * @returns {IChatMessage[]} The messages in the thread, empty if unknown.
+     */
+    public getMessageThread(messageId: string): IChatMessage[] {
+        return this.room?.getChatMessages().getThread(messageId) ?? [];
+    }
+
+    /**
+     * Reports typing activity of the local participant to the others (XEP-0085). Should be called whenever the
+     * message being composed changes, and with {@code false} when it is cleared. Notifications are only sent when
+     * the state changes and a paused state is sent automatically when typing stops.
+     * @param {boolean} isTyping - Whether the local participant is typing.
+     * @param {string} [to=''] - The ID of the recipient if the message being composed is private.
+     */
+    public setTyping(isTyping: boolean, to: string = ''): void {
+        if (this.room) {
+            this.room.getChatStates().setComposing(isTyping, to);
+        }
+    }
+
+    /**
+     * Notifies the sender that a message was displayed to the local participant (XEP-0333). Markers are coalesced,
+     * so this can be called for every message which becomes visible.
+     * @param {string} messageId - The ID of the displayed message.
+     * @param {string} [to=''] - The ID of the sender if the message was private.
+     */
+    public markMessageDisplayed(messageId: string, to: string = ''): void {
+        if (this.room) {
+            this.room.getChatStates().markDisplayed(messageId, to);
+        }
+    }
+
+    /**
+     * Returns the participants who displayed (read) a message, as reported through
+     * {@link JitsiConferenceEvents.MESSAGE_DISPLAYED}.
+     * @param {string} messageId - The ID of the message.
+     * @returns {string[]} The IDs of the participants who displayed the message.
+     */
+    public getMessageReceipts(messageId: string): string[] {
+        const message = this.room?.getChatMessages().get(messageId);
+
+        return message ? message.displayedBy.map(jid => Strophe.getResourceFromJid(jid)) : [];
+    }
+
+    /**
+     * Fetches a page of the chat history of the conference from the server archive (XEP-0313). Messages already
+     * delivered through {@link JitsiConferenceEvents.MESSAGE_RECEIVED} are left out. To scroll further back, pass
+     * the {@code first} field of the previous result as {@code before}.
+     * @param {IMessageHistoryOptions} [options] - Paging options.
+     * @returns {Promise<IMessageHistoryResult>} A promise that resolves with the page or rejects with an error.
+     */
+    public fetchMessageHistory(options: IMessageHistoryOptions = {}): Promise<IMessageHistoryResult> {
         if (this.room) {
-            this.room.sendPrivateMessage(id, message, elementName, useFullJid, replyToId);
+            return this.room.getMessageArchive().fetch(options);
         }
+
+        return Promise.reject(new Error('The conference is not created yet!'));
     }
 
     /**
@@ -2864,12 +3087,20 @@ export default class JitsiConference extends Listenable {
    * @returns {Promise<void>}
    * @throws {Error} If the specified track is a video track and there is already
    * another video track in the conference.
+   * Rejects with a {@link JitsiTrackError} named {@link JitsiTrackErrors.TRACK_NOT_APPROVED} when the track is a
+   * desktop track, screen sharing is moderated and the local participant was not approved.
    */
     public addTrack(track: JitsiLocalTrack): Promise<void> {
         if (!track) {
             throw new Error('addTrack - a track is required');
         }
 
+        if (!this._isTrackApproved(track)) {
+            logger.warn(`Cannot add ${track}, screen sharing was not approved by a moderator`);
+
+            return Promise.reject(new JitsiTrackError(JitsiTrackErrors.TRACK_NOT_APPROVED));
+        }
+
         const mediaType = track.getType();
         const localTracks = this.rtc.getLocalTracks(mediaType);
 
@@ -2955,13 +3186,21 @@ export default class JitsiConference extends Listenable {
    * effectively just removes 'oldTrack'
    * @param {JitsiLocalTrack} oldTrack - The current stream in use to be replaced.
    * @param {JitsiLocalTrack} newTrack - The new stream to use.
-   * @returns {Promise} Resolves when the replacement is finished.
+   * @returns {Promise} Resolves when the replacement is finished. Rejects with a {@link JitsiTrackError} named
+   * {@link JitsiTrackErrors.TRACK_NOT_APPROVED} when the new track is a desktop track, screen sharing is moderated
+   * and the local participant was not approved.
    */
     public replaceTrack(oldTrack?: JitsiLocalTrack, newTrack?: JitsiLocalTrack): Promise<void> {
         const oldVideoType = oldTrack?.getVideoType();
         const mediaType = oldTrack?.getType() || newTrack?.getType();
         const newVideoType = newTrack?.getVideoType();
 
+        if (newTrack && !this._isTrackApproved(newTrack)) {
+            logger.warn(`Cannot replace with ${newTrack}, screen sharing was not approved by a moderator`);
+
+            return Promise.reject(new JitsiTrackError(JitsiTrackErrors.TRACK_NOT_APPROVED));
+        }
+
         if (oldTrack && newTrack && oldVideoType !== newVideoType) {
             throw new Error(
                 `Replacing a track of videoType=${oldVideoType} with a track of videoType=${newVideoType} is`
@@ -3767,6 +4006,60 @@ export default class JitsiConference extends Listenable {
         return Promise.reject(new Error('The conference is not created yet!'));
     }
 
+    /**
+     * Lists every recording session run by Jibri in the conference, including the stopped ones, with who started and
+     * stopped them and for how long they recorded.
+     *
+     * @returns {IRecordingHistoryEntry[]}
+     */
+    public getRecordingHistory(): IRecordingHistoryEntry[] {
+        return this.recordingManager?.getRecordingHistory() ?? [];
+    }
+
+    /**
+     * Starts recording the current conference in the browser, without Jibri. Only one local recording can be active
+     * at a time.
+     *
+     * @param {ILocalRecordingOptions} [options] - Configuration for the local recording.
+     * @returns {Promise<LocalRecorder>} Resolves with the recorder once it records, rejects otherwise.
+     */
+    public async startLocalRecording(options?: ILocalRecordingOptions): Promise<LocalRecorder> {
+        if (this._localRecorder && this._localRecorder.getStatus() !== RecordingStatus.OFF) {
+            throw new Error('A local recording is already active');
+        }
+
+        const recorder = new LocalRecorder(this, options);
+
+        this._localRecorder = recorder;
+
+        try {
+            await recorder.start();
+        } catch (error) {
+            this._localRecorder = undefined;
+
+            throw error;
+        }
+
+        return recorder;
+    }
+
+    /**
+     * Stops the local recording.
+     *
+     * @returns {Promise<Blob|undefined>} Resolves with the whole recording, undefined if its chunks were not retained.
+     */
+    public stopLocalRecording(): Promise<Optional<Blob>> {
+        const recorder = this._localRecorder;
+
+        if (!recorder) {
+            return Promise.reject(new Error('No local recording is active'));
+        }
+
+        this._localRecorder = undefined;
+
+        return recorder.stop();
+    }
+
     /**
      * Stops a recording session.
      *
@@ -3781,6 +4074,86 @@ export default class JitsiConference extends Listenable {
         return Promise.reject(new Error('The conference is not created yet!'));
     }
 
+    /**
+     * Pauses an active recording session, a local one or one run by Jibri. The recordings run by Jibri can only be
+     * paused when jicofo supports it, see {@link isRecordingPauseSupported}.
+     *
+     * @param {string} sessionID - The ID of the recording session to pause.
+     * @returns {Promise} Resolves when the recording is paused, rejects otherwise.
+     */
+    public async pauseRecording(sessionID: string): Promise<void> {
+        if (this._localRecorder?.getID() === sessionID) {
+            return this._localRecorder.pause();
+        }
+
+        if (!this.room) {
+            throw new Error('The conference is not created yet!');
+        }
+
+        return this.recordingManager.pauseRecording(sessionID);
+    }
+
+    /**
+     * Resumes a paused recording session, a local one or one run by Jibri. See {@link pauseRecording}.
+     *
+     * @param {string} sessionID - The ID of the recording session to resume.
+     * @returns {Promise} Resolves when the recording is resumed, rejects otherwise.
+     */
+    public async resumeRecording(sessionID: string): Promise<void> {
+        if (this._localRecorder?.getID() === sessionID) {
+            return this._localRecorder.resume();
+        }
+
+        if (!this.room) {
+            throw new Error('The conference is not created yet!');
+        }
+
+        return this.recordingManager.resumeRecording(sessionID);
+    }
+
+    /**
+     * Inserts a chapter marker in a recording session. Only moderators can add markers to the recordings run by
+     * Jibri, and only when jicofo supports it, see {@link isRecordingMarkerSupported}.
+     *
+     * @param {string} sessionID - The ID of the recording session.
+     * @param {string} label - The label of the chapter.
+     * @returns {Promise<IRecordingMarker>} Resolves with the marker once it was added, rejects otherwise.
+     */
+    public async addRecordingMarker(sessionID: string, label: string): Promise<IRecordingMarker> {
+        if (this._localRecorder?.getID() === sessionID) {
+            return this._localRecorder.addMarker(label);
+        }
+
+        if (!this.room) {
+            throw new Error('The conference is not created yet!');
+        }
+
+        if (!this.isModerator()) {
+            throw new Error('You are not moderator.');
+        }
+
+        return this.recordingManager.addRecordingMarker(sessionID, label);
+    }
+
+    /**
+     * Checks whether chapter markers can be added to the recordings run by Jibri. Local recordings always support
+     * them.
+     *
+     * @returns {boolean}
+     */
+    public isRecordingMarkerSupported(): boolean {
+        return Boolean(this.room && this.recordingManager.isMarkerSupported());
+    }
+
+    /**
+     * Checks whether the recordings run by Jibri can be paused and resumed. Local recordings can always be paused.
+     *
+     * @returns {boolean}
+     */
+    public isRecordingPauseSupported(): boolean {
+        return Boolean(this.room && this.recordingManager.isPauseSupported());
+    }
+
     /**
      * Returns true if SIP calls are supported, false otherwise.
      * @returns {boolean} True if SIP calling is supported, false otherwise.
@@ -4010,13 +4383,55 @@ export default class JitsiConference extends Listenable {
      * Sends a message via the data channel.
      * @param {string} to - The ID of the endpoint to receive the message, or empty string to broadcast.
      * @param {object} payload - The payload of the message.
-     * @throws {NetworkError|InvalidStateError|Error} If the operation fails.
+     * @throws {NetworkError|InvalidStateError|Error} If the operation fails. When E2EE is enabled the message is
+     * encrypted first and sent asynchronously, failures are then reported with
+     * {@link JitsiConferenceEvents.E2EE_ENDPOINT_MESSAGE_SEND_FAILED}.
      * @deprecated Use 'sendMessage' instead. TODO: this should be private.
      */
     public sendEndpointMessage(to: string, payload: object): void {
+        if (this._e2eEncryption?.isEndpointMessageEncryptionEnabled()) {
+            this.sendEndpointMessageAsync(to, payload).catch(error => {
+                logger.error(`Failed to send an encrypted endpoint message: ${error.message}`);
+                this.eventEmitter.emit(JitsiConferenceEvents.E2EE_ENDPOINT_MESSAGE_SEND_FAILED, to, error.message);
+            });
+
+            return;
+        }
+
         this.rtc.sendChannelMessage(to, payload);
     }
 
+    /**
+     * Sends a message via the data channel, encrypting it first when E2EE is enabled.
+     * @param {string} to - The ID of the endpoint to receive the message, or empty string to broadcast.
+     * @param {object} payload - The payload of the message.
+     * @returns {Promise<void>} Resolved once the message was handed to the data channel, rejected when it could not
+     * be encrypted or sent.
+     * @internal
+     */
+    public async sendEndpointMessageAsync(to: string, payload: object): Promise<void> {
+        const message = this._e2eEncryption?.isEndpointMessageEncryptionEnabled()
+            ? await this._e2eEncryption.encryptEndpointMessage(payload, to)
+            : payload;
+
+        this.rtc.sendChannelMessage(to, message);
+    }
+
+    /**
+     * Decrypts an endpoint message encrypted by the sender with its E2EE media key.
+     * @param {string} participantId - The ID of the sender.
+     * @param {IEncryptedEndpointMessage} message - The encrypted message.
+     * @returns {Promise<object>} The original payload.
+     * @internal
+     */
+    decryptEndpointMessage(participantId: string, message: IEncryptedEndpointMessage): Promise<object> {
+        if (!this._e2eEncryption) {
+            return Promise.reject(new Error(E2EEErrors.E2EE_ENDPOINT_MESSAGE_MISSING_KEY));
+        }
+
+        return this._e2eEncryption.decryptEndpointMessage(participantId, message);
+    }
+
     /**
      * Sends local stats via the bridge channel to other endpoints selectively.
      * @param {Object} payload - The payload of the message.
@@ -4030,7 +4445,7 @@ export default class JitsiConference extends Listenable {
     /**
      * Sends a broadcast message via the data channel.
      * @param {object} payload - The payload of the message.
-     * @throws {NetworkError|InvalidStateError|Error} If the operation fails.
+     * @throws {NetworkError|InvalidStateError|Error} If the operation fails, see {@link sendEndpointMessage}.
      * @deprecated Use 'sendMessage' instead. TODO: this should be private.
      */
     public broadcastEndpointMessage(payload: object): void {
@@ -4043,8 +4458,9 @@ export default class JitsiConference extends Listenable {
      * @param {string} [to=''] - The ID of the recipient endpoint, or empty string to broadcast.
      * @param {boolean} [sendThroughVideobridge=false] - Whether to send through jitsi-videobridge.
      * @param {string} [replyToId] - The ID of the message being replied to.
+     * @param {string} [messageId] - The ID to use for a chat message, needed to later edit or delete it.
      */
-    public sendMessage(message: any, to = '', sendThroughVideobridge = false, replyToId?: string): void {
+    public sendMessage(message: any, to = '', sendThroughVideobridge = false, replyToId?: string, messageId?: string): void {
         const messageType = typeof message;
 
         // Through videobridge we support only objects. Through XMPP we support
@@ -4084,10 +4500,10 @@ export default class JitsiConference extends Listenable {
             }
 
             if (to) {
-                this.sendPrivateTextMessage(to, messageToSend, elementName, false, replyToId);
+                this.sendPrivateTextMessage(to, messageToSend, elementName, false, replyToId, messageId);
             } else {
                 // Broadcast
-                this.sendTextMessage(messageToSend, elementName, replyToId);
+                this.sendTextMessage(messageToSend, elementName, replyToId, messageId);
             }
         }
     }
@@ -4326,6 +4742,31 @@ export default class JitsiConference extends Listenable {
         this._e2eEncryption.setEnabled(enabled);
     }
 
+    /**
+     * Changes whether the E2EE media key is ratcheted, rotated or left alone when participants join or leave, when the
+     * rotation interval elapses and when a key encrypted the maximum number of frames.
+     *
+     * @param {IKeyRotationPolicy} policy the actions to change.
+     * @returns {void}
+     */
+    public setE2EEKeyRotationPolicy(policy: IKeyRotationPolicy): void {
+        this._e2eEncryption?.setKeyRotationPolicy(policy);
+    }
+
+    /**
+     * Gets a new E2EE media key for the local participant from the configured key provider. Its ID is published first
+     * and the key is used after a short grace period, the previous key is revoked later.
+     *
+     * @returns {Promise<void>} Resolved once the new key is used.
+     */
+    public rotateE2EEKey(): Promise<void> {
+        if (!this._e2eEncryption) {
+            return Promise.reject(new Error('E2EE is not supported'));
+        }
+
+        return this._e2eEncryption.rotateKey();
+    }
+
     /**
      * Sets the key and index for End-to-End encryption.
      *
@@ -4371,6 +4812,35 @@ export default class JitsiConference extends Listenable {
         this._e2eEncryption.markParticipantVerified(participant, isVerified);
     }
 
+    /**
+     * Verifies a participant with the QR code they show, instead of comparing the SAS. The code is the qr field of
+     * the SAS passed with {@link JitsiConferenceEvents.E2EE_VERIFICATION_READY}. The participant who shows the code
+     * confirms it was scanned with {@link markParticipantVerified}, then MAC verification is performed as usual.
+     *
+     * @param {string} participantId The participant who shows the code.
+     * @param {string} qrPayload - the string read from the code.
+     * @returns {void}
+     */
+    public verifyParticipantQrCode(participantId: string, qrPayload: string): void {
+        const participant = this.getParticipantById(participantId);
+
+        if (!participant) {
+            return;
+        }
+
+        this._e2eEncryption.verifyQrCode(participant, qrPayload);
+    }
+
+    /**
+     * Forgets the participants verified in earlier meetings and the identity keys trusted on first use, see the
+     * e2ee.rememberVerifiedParticipants and e2ee.persistIdentity options.
+     *
+     * @returns {void}
+     */
+    public clearVerifiedParticipants(): void {
+        this._e2eEncryption?.clearVerifiedParticipants();
+    }
+
     /**
      * Returns <tt>true</tt> if lobby support is enabled in the backend.
      *
@@ -4500,12 +4970,12 @@ export default class JitsiConference extends Listenable {
 
     /**
      * Denies an occupant in the lobby room access to the conference.
-     * @param {string} id The participant id.
+     * @param {string|Array<string>} param The participant id or an array of ids.
      * @returns {void}
      */
-    public lobbyDenyAccess(id: string): void {
+    public lobbyDenyAccess(param: string | string[]): void {
         if (this.room) {
-            this.room.getLobby().denyAccess(id);
+            this.room.getLobby().denyAccess(param);
         }
     }
 
@@ -4521,6 +4991,38 @@ export default class JitsiConference extends Listenable {
         }
     }
 
+    /**
+     * Returns the participants waiting in the lobby, in the order they joined, with how long they have been waiting.
+     * Only available to moderators.
+     *
+     * @returns {Array<ILobbyQueueEntry>} The waiting participants, the waiting time is in milliseconds.
+     */
+    public getLobbyQueue(): Array<ILobbyQueueEntry & { waitingTime: number; }> {
+        return this.room?.getLobby().getQueue() ?? [];
+    }
+
+    /**
+     * Attaches a note to a participant waiting in the lobby.
+     *
+     * @param {string} id - The participant id.
+     * @param {string} note - The note.
+     * @returns {void}
+     */
+    public setLobbyNote(id: string, note: string): void {
+        this.room?.getLobby().setNote(id, note);
+    }
+
+    /**
+     * Sets the policy used to approve participants waiting in the lobby automatically, for example by the domain of
+     * their e-mail address or by their token identity.
+     *
+     * @param {ILobbyAutoAdmitPolicy|undefined} policy - The policy, undefined to disable automatic approval.
+     * @returns {void}
+     */
+    public setLobbyAutoAdmitPolicy(policy?: ILobbyAutoAdmitPolicy): void {
+        this.room?.getLobby().setAutoAdmitPolicy(policy);
+    }
+
     /**
      * Returns <tt>true</tt> if AV Moderation support is enabled in the backend.
      *
@@ -4563,7 +5065,7 @@ export default class JitsiConference extends Listenable {
     }
 
     /**
-     * Approve participant access to certain media, allows unmuting audio or video.
+     * Approve participant access to certain media, allows unmuting audio or video or sharing the screen.
      *
      * @param {MediaType} mediaType "audio", "desktop" or "video"
      * @param id the id of the participant.
@@ -4588,7 +5090,7 @@ export default class JitsiConference extends Listenable {
     }
 
     /**
-     * Reject participant access to certain media, blocks unmuting audio or video.
+     * Reject participant access to certain media, blocks unmuting audio or video or sharing the screen.
      *
      * @param {MediaType} mediaType "audio", "desktop" or "video"
      * @param id the id of the participant.
@@ -4612,6 +5114,65 @@ export default class JitsiConference extends Listenable {
         }
     }
 
+    /**
+     * Raises the hand of the local participant, asking the moderators for permission to unmute.
+     *
+     * @param {MediaType} mediaType "audio", "desktop" or "video"
+     * @returns {void}
+     */
+    public avModerationRequestToSpeak(mediaType: MediaType): void {
+        this.room?.getAVModeration().requestToSpeak(mediaType);
+    }
+
+    /**
+     * Lowers the hand of the local participant, withdrawing a request to unmute.
+     *
+     * @param {MediaType} mediaType "audio", "desktop" or "video"
+     * @returns {void}
+     */
+    public avModerationCancelRequest(mediaType: MediaType): void {
+        this.room?.getAVModeration().cancelRequest(mediaType);
+    }
+
+    /**
+     * Returns the requests to unmute in the order they were made.
+     *
+     * @returns {ISpeakRequest[]}
+     */
+    public avModerationGetQueue(): ISpeakRequest[] {
+        return this.room?.getAVModeration().getQueue() ?? [];
+    }
+
+    /**
+     * Approves a participant to unmute for a limited time, after which the approval is revoked.
+     *
+     * @param {MediaType} mediaType "audio", "desktop" or "video"
+     * @param {string} id the id of the participant.
+     * @param {number} [duration] the length of the speaking slot in seconds, unlimited when not set.
+     * @returns {void}
+     */
+    public avModerationGrantSpeakingSlot(mediaType: MediaType, id: string, duration?: number): void {
+        if (this.room && this.isModerator() && this.getParticipantById(id)) {
+            this.room.getAVModeration().grantSpeakingSlot(mediaType, id, duration);
+        } else {
+            logger.warn(`AV moderation speaking slot skipped, ${this.room ? '' : 'not in a room, '}${
+                this.isModerator() ? '' : 'participant is not a moderator, '}`);
+        }
+    }
+
+    /**
+     * Removes a request to unmute from the queue without approving it.
+     *
+     * @param {MediaType} mediaType "audio", "desktop" or "video"
+     * @param {string} id the id of the participant.
+     * @returns {void}
+     */
+    public avModerationDismissRequest(mediaType: MediaType, id: string): void {
+        if (this.room && this.isModerator()) {
+            this.room.getAVModeration().dismissRequest(mediaType, id);
+        }
+    }
+
     /**
      * Returns the breakout rooms manager object.
      *
@@ -4630,6 +5191,34 @@ export default class JitsiConference extends Listenable {
         return this.room?.getFileSharing();
     }
 
+    /**
+     * Returns the manager of the files sent directly to other participants through the bridge channel. Only
+     * available when enabled with the fileTransfer.enabled config option.
+     *
+     * @returns {Optional<FileTransfer>} the file transfer manager.
+     */
+    public getFileTransfer(): Optional<FileTransfer> {
+        return this.fileTransfer;
+    }
+
+    /**
+     * Returns the manager of the transcription results, which parses the transcripts of the participants' speech.
+     *
+     * @returns {Optional<TranscriptionManager>} the transcription manager.
+     */
+    public getTranscriptionManager(): Optional<TranscriptionManager> {
+        return this.transcriptionManager;
+    }
+
+    /**
+     * Returns the polls manager object.
+     *
+     * @returns {Optional<Polls>} the polls manager.
+     */
+    public getPolls(): Optional<Polls> {
+        return this.room?.getPolls();
+    }
+
     /**
      * Returns the metadata handler object.
      *
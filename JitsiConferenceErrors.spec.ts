@@ -16,6 +16,7 @@ describe( "/JitsiConferenceErrors members", () => {
         NOT_ALLOWED_ERROR,
         MEMBERS_ONLY_ERROR,
         CONFERENCE_ACCESS_DENIED,
+        FILE_SHARING_REJECTED,
         FOCUS_DISCONNECTED,
         FOCUS_LEFT,
         GRACEFUL_SHUTDOWN,
@@ -46,6 +47,7 @@ describe( "/JitsiConferenceErrors members", () => {
         expect( NOT_ALLOWED_ERROR ).toBe( 'conference.connectionError.notAllowed' );
         expect( MEMBERS_ONLY_ERROR ).toBe( 'conference.connectionError.membersOnly' );
         expect( CONFERENCE_ACCESS_DENIED ).toBe( 'conference.connectionError.accessDenied' );
+        expect( FILE_SHARING_REJECTED ).toBe( 'conference.fileSharingRejected' );
         expect( FOCUS_DISCONNECTED ).toBe( 'conference.focusDisconnected' );
         expect( FOCUS_LEFT ).toBe( 'conference.focusLeft' );
         expect( GRACEFUL_SHUTDOWN ).toBe( 'conference.gracefulShutdown' );
@@ -69,6 +71,7 @@ describe( "/JitsiConferenceErrors members", () => {
         expect( JitsiConferenceErrors.NOT_ALLOWED_ERROR ).toBe( 'conference.connectionError.notAllowed' );
         expect( JitsiConferenceErrors.MEMBERS_ONLY_ERROR ).toBe( 'conference.connectionError.membersOnly' );
         expect( JitsiConferenceErrors.CONFERENCE_ACCESS_DENIED ).toBe( 'conference.connectionError.accessDenied' );
+        expect( JitsiConferenceErrors.FILE_SHARING_REJECTED ).toBe( 'conference.fileSharingRejected' );
         expect( JitsiConferenceErrors.FOCUS_DISCONNECTED ).toBe( 'conference.focusDisconnected' );
         expect( JitsiConferenceErrors.FOCUS_LEFT ).toBe( 'conference.focusLeft' );
         expect( JitsiConferenceErrors.GRACEFUL_SHUTDOWN ).toBe( 'conference.gracefulShutdown' );
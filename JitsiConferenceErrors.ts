@@ -42,6 +42,13 @@ export enum JitsiConferenceErrors {
      */
     DISPLAY_NAME_REQUIRED = 'conference.display_name_required',
 
+    /**
+     * Indicates that a file was not shared or removed because of the file sharing policy of the conference.
+     * @param {FileSharingRejectionReason} reason - Why the operation was refused.
+     * @param {string} fileId - The ID of the file.
+     */
+    FILE_SHARING_REJECTED = 'conference.fileSharingRejected',
+
     /**
      * Indicates that focus error happened.
      */
@@ -133,6 +140,7 @@ export const NOT_ALLOWED_ERROR = JitsiConferenceErrors.NOT_ALLOWED_ERROR;
 export const MEMBERS_ONLY_ERROR = JitsiConferenceErrors.MEMBERS_ONLY_ERROR;
 export const CONFERENCE_ACCESS_DENIED = JitsiConferenceErrors.CONFERENCE_ACCESS_DENIED;
 export const DISPLAY_NAME_REQUIRED = JitsiConferenceErrors.DISPLAY_NAME_REQUIRED;
+export const FILE_SHARING_REJECTED = JitsiConferenceErrors.FILE_SHARING_REJECTED;
 export const FOCUS_DISCONNECTED = JitsiConferenceErrors.FOCUS_DISCONNECTED;
 export const FOCUS_LEFT = JitsiConferenceErrors.FOCUS_LEFT;
 export const GRACEFUL_SHUTDOWN = JitsiConferenceErrors.GRACEFUL_SHUTDOWN;
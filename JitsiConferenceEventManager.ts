@@ -9,10 +9,13 @@ import JitsiRemoteTrack from './modules/RTC/JitsiRemoteTrack';
 import TraceablePeerConnection from './modules/RTC/TraceablePeerConnection';
 import RTCStats from './modules/RTCStats/RTCStats';
 import { RTCStatsEvents } from './modules/RTCStats/RTCStatsEvents';
+import { EndpointMessageCipher } from './modules/e2ee/EndpointMessageCipher';
 import JibriSession from './modules/recording/JibriSession';
+import { RecordingStatus } from './modules/recording/recordingConstants';
 import { SPEAKERS_AUDIO_LEVELS } from './modules/statistics/constants';
 import Statistics from './modules/statistics/statistics';
 import EventEmitterForwarder from './modules/util/EventEmitterForwarder';
+import type { ISpeakRequest } from './modules/xmpp/AVModeration';
 import JingleSessionPC from './modules/xmpp/JingleSessionPC';
 import { MediaType } from './service/RTC/MediaType';
 import { RTCEvents } from './service/RTC/RTCEvents';
@@ -259,6 +262,10 @@ export default class JitsiConferenceEventManager {
             JitsiConferenceEvents.CONFERENCE_ERROR,
             JitsiConferenceErrors.CHAT_ERROR);
 
+        this.chatRoomForwarder.forward(XMPPEvents.FILE_SHARING_REJECTED,
+            JitsiConferenceEvents.CONFERENCE_ERROR,
+            JitsiConferenceErrors.FILE_SHARING_REJECTED);
+
         this.chatRoomForwarder.forward(XMPPEvents.SETTINGS_ERROR_RECEIVED,
             JitsiConferenceEvents.CONFERENCE_ERROR,
             JitsiConferenceErrors.SETTINGS_ERROR);
@@ -290,9 +297,9 @@ export default class JitsiConferenceEventManager {
                     const resource = Strophe.getResourceFromJid(jid);
                     const participant = conference.getParticipantById(resource) || resource;
 
-                    if (session.getStatus() === 'off') {
+                    if (session.getStatus() === RecordingStatus.OFF) {
                         session.setTerminator(participant);
-                    } else if (session.getStatus() === 'on') {
+                    } else if (session.getStatus() === RecordingStatus.ON) {
                         session.setInitiator(participant);
                     }
                 }
@@ -388,7 +395,47 @@ export default class JitsiConferenceEventManager {
 
                 conference.eventEmitter.emit(
                     JitsiConferenceEvents.MESSAGE_RECEIVED,
-                    participantId, txt, ts, displayName, isVisitor, messageId, source, replyToId);
+                    participantId, txt, ts, displayName, isVisitor, messageId, source, replyToId, false);
+            });
+
+        chatRoom.addListener(
+            XMPPEvents.MESSAGE_EDITED,
+            (jid: string, messageId: string, txt: string, isPrivate: boolean) => {
+                const participantId = Strophe.getResourceFromJid(jid);
+
+                conference.eventEmitter.emit(
+                    JitsiConferenceEvents.MESSAGE_EDITED,
+                    participantId, messageId, txt, isPrivate);
+            });
+
+        chatRoom.addListener(
+            XMPPEvents.MESSAGE_DELETED,
+            (jid: string, messageId: string, isPrivate: boolean) => {
+                const participantId = Strophe.getResourceFromJid(jid);
+
+                conference.eventEmitter.emit(
+                    JitsiConferenceEvents.MESSAGE_DELETED,
+                    participantId, messageId, isPrivate);
+            });
+
+        chatRoom.addListener(
+            XMPPEvents.CHAT_STATE_RECEIVED,
+            (jid: string, state: string, isPrivate: boolean) => {
+                const participantId = Strophe.getResourceFromJid(jid);
+
+                conference.eventEmitter.emit(
+                    JitsiConferenceEvents.CHAT_STATE_CHANGED,
+                    participantId, state, isPrivate);
+            });
+
+        chatRoom.addListener(
+            XMPPEvents.CHAT_MARKER_RECEIVED,
+            (jid: string, messageId: string, isPrivate: boolean) => {
+                const participantId = Strophe.getResourceFromJid(jid);
+
+                conference.eventEmitter.emit(
+                    JitsiConferenceEvents.MESSAGE_DISPLAYED,
+                    participantId, messageId, isPrivate);
             });
 
         chatRoom.addListener(
@@ -412,7 +459,7 @@ export default class JitsiConferenceEventManager {
 
                 conference.eventEmitter.emit(
                     JitsiConferenceEvents.PRIVATE_MESSAGE_RECEIVED,
-                    participantId, txt, ts, messageId, displayName, isVisitor, replyToId);
+                    participantId, txt, ts, messageId, displayName, isVisitor, replyToId, false);
             });
 
         chatRoom.addListener(XMPPEvents.PRESENCE_STATUS,
@@ -445,6 +492,10 @@ export default class JitsiConferenceEventManager {
             });
 
         // Breakout rooms.
+        this.chatRoomForwarder.forward(XMPPEvents.BREAKOUT_ROOMS_CLOSING,
+            JitsiConferenceEvents.BREAKOUT_ROOMS_CLOSING);
+        this.chatRoomForwarder.forward(XMPPEvents.BREAKOUT_ROOMS_MESSAGE,
+            JitsiConferenceEvents.BREAKOUT_ROOMS_MESSAGE);
         this.chatRoomForwarder.forward(XMPPEvents.BREAKOUT_ROOMS_MOVE_TO_ROOM,
             JitsiConferenceEvents.BREAKOUT_ROOMS_MOVE_TO_ROOM);
         this.chatRoomForwarder.forward(XMPPEvents.BREAKOUT_ROOMS_UPDATED,
@@ -458,6 +509,12 @@ export default class JitsiConferenceEventManager {
         this.chatRoomForwarder.forward(XMPPEvents.FILE_SHARING_FILE_REMOVED,
             JitsiConferenceEvents.FILE_SHARING_FILE_REMOVED);
 
+        // Polls.
+        this.chatRoomForwarder.forward(XMPPEvents.POLL_CREATED,
+            JitsiConferenceEvents.POLL_CREATED);
+        this.chatRoomForwarder.forward(XMPPEvents.POLL_UPDATED,
+            JitsiConferenceEvents.POLL_UPDATED);
+
         // Room metadata.
         chatRoom.addListener(XMPPEvents.ROOM_METADATA_UPDATED, (metadata: any) => {
             if (metadata.startMuted) {
@@ -473,6 +530,8 @@ export default class JitsiConferenceEventManager {
             }
             conference.eventEmitter.emit(JitsiConferenceEvents.METADATA_UPDATED, metadata);
         });
+        this.chatRoomForwarder.forward(XMPPEvents.ROOM_METADATA_CHANGED,
+            JitsiConferenceEvents.METADATA_CHANGED);
     }
 
     /**
@@ -556,7 +615,13 @@ export default class JitsiConferenceEventManager {
             (from: string, payload: any) => {
                 const participant = conference.getParticipantById(from);
 
-                if (participant) {
+                if (participant && EndpointMessageCipher.isEncrypted(payload)) {
+                    conference.decryptEndpointMessage(from, payload)
+                        .then(decrypted => conference.eventEmitter.emit(
+                            JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, participant, decrypted))
+                        .catch(error => conference.eventEmitter.emit(
+                            JitsiConferenceEvents.E2EE_ENDPOINT_MESSAGE_DECRYPTION_FAILED, participant, error.message));
+                } else if (participant) {
                     conference.eventEmitter.emit(
                         JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED,
                         participant, payload);
@@ -675,6 +740,8 @@ export default class JitsiConferenceEventManager {
                     });
                 }
             });
+        this._addConferenceXMPPListener(XMPPEvents.AV_MODERATION_QUEUE_CHANGED,
+            (queue: ISpeakRequest[]) => conference.eventEmitter.emit(JitsiConferenceEvents.AV_MODERATION_QUEUE_CHANGED, queue));
         this._addConferenceXMPPListener(XMPPEvents.AV_MODERATION_APPROVED,
             (value: MediaType) => conference.eventEmitter.emit(JitsiConferenceEvents.AV_MODERATION_APPROVED, { mediaType: value }));
         this._addConferenceXMPPListener(XMPPEvents.AV_MODERATION_REJECTED,
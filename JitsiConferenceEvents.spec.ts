@@ -37,8 +37,13 @@ describe( "/JitsiConferenceEvents members", () => {
         expect( JitsiConferenceEvents.FILE_SHARING_FILES_RECEIVED ).toBe( 'conference.file_sharing.files_received' );
         expect( JitsiConferenceEvents.FILE_SHARING_FILE_ADDED ).toBe( 'conference.file_sharing.file_added' );
         expect( JitsiConferenceEvents.FILE_SHARING_FILE_REMOVED ).toBe( 'conference.file_sharing.file_removed' );
+        expect( JitsiConferenceEvents.FILE_SHARING_TRANSFER_FAILED ).toBe( 'conference.file_sharing.transfer_failed' );
+        expect( JitsiConferenceEvents.FILE_SHARING_TRANSFER_FINISHED ).toBe( 'conference.file_sharing.transfer_finished' );
+        expect( JitsiConferenceEvents.FILE_SHARING_TRANSFER_PROGRESS ).toBe( 'conference.file_sharing.transfer_progress' );
+        expect( JitsiConferenceEvents.FILE_SHARING_TRANSFER_STARTED ).toBe( 'conference.file_sharing.transfer_started' );
         expect( JitsiConferenceEvents.KICKED ).toBe( 'conference.kicked' );
         expect( JitsiConferenceEvents.PARTICIPANT_KICKED ).toBe( 'conference.participant_kicked' );
+        expect( JitsiConferenceEvents.PARTICIPANT_IDENTITY_KEY_CHANGED ).toBe( 'conference.participant_identity_key_changed' );
         expect( JitsiConferenceEvents.LAST_N_ENDPOINTS_CHANGED ).toBe( 'conference.lastNEndpointsChanged' );
         expect( JitsiConferenceEvents.FORWARDED_SOURCES_CHANGED ).toBe( 'conference.forwardedSourcesChanged' );
         expect( JitsiConferenceEvents.LOCK_STATE_CHANGED ).toBe( 'conference.lock_state_changed' );
@@ -47,6 +52,10 @@ describe( "/JitsiConferenceEvents members", () => {
         expect( JitsiConferenceEvents._MEDIA_SESSION_ACTIVE_CHANGED ).toBe( 'conference.media_session.active_changed' );
         expect( JitsiConferenceEvents.MEMBERS_ONLY_CHANGED ).toBe( 'conference.membersOnlyChanged' );
         expect( JitsiConferenceEvents.MESSAGE_RECEIVED ).toBe( 'conference.messageReceived' );
+        expect( JitsiConferenceEvents.MESSAGE_EDITED ).toBe( 'conference.messageEdited' );
+        expect( JitsiConferenceEvents.MESSAGE_DELETED ).toBe( 'conference.messageDeleted' );
+        expect( JitsiConferenceEvents.MESSAGE_DISPLAYED ).toBe( 'conference.messageDisplayed' );
+        expect( JitsiConferenceEvents.CHAT_STATE_CHANGED ).toBe( 'conference.chatStateChanged' );
         expect( JitsiConferenceEvents.NO_AUDIO_INPUT ).toBe( 'conference.no_audio_input' );
         expect( JitsiConferenceEvents.NOISY_MIC ).toBe( 'conference.noisy_mic' );
         expect( JitsiConferenceEvents.NON_PARTICIPANT_MESSAGE_RECEIVED ).toBe( 'conference.non_participant_message_received' );
@@ -55,6 +64,8 @@ describe( "/JitsiConferenceEvents members", () => {
         expect( JitsiConferenceEvents.PARTICIPANT_PROPERTY_CHANGED ).toBe( 'conference.participant_property_changed' );
         expect( JitsiConferenceEvents.P2P_STATUS ).toBe( 'conference.p2pStatus' );
         expect( JitsiConferenceEvents.PHONE_NUMBER_CHANGED ).toBe( 'conference.phoneNumberChanged' );
+        expect( JitsiConferenceEvents.POLL_CREATED ).toBe( 'conference.polls.created' );
+        expect( JitsiConferenceEvents.POLL_UPDATED ).toBe( 'conference.polls.updated' );
         expect( JitsiConferenceEvents.PROPERTIES_CHANGED ).toBe( 'conference.propertiesChanged' );
         expect( JitsiConferenceEvents.RECORDER_STATE_CHANGED ).toBe( 'conference.recorderStateChanged' );
         expect( JitsiConferenceEvents.VIDEO_SIP_GW_AVAILABILITY_CHANGED ).toBe( 'conference.videoSIPGWAvailabilityChanged' );
@@ -69,6 +80,7 @@ describe( "/JitsiConferenceEvents members", () => {
         expect( JitsiConferenceEvents.TRACK_REMOVED ).toBe( 'conference.trackRemoved' );
         expect( JitsiConferenceEvents.TRACK_UNMUTE_REJECTED ).toBe( 'conference.trackUnmuteRejected' );
         expect( JitsiConferenceEvents.TRANSCRIPTION_STATUS_CHANGED ).toBe( 'conference.transcriptionStatusChanged' );
+        expect( JitsiConferenceEvents.TRANSCRIPT_SEGMENT ).toBe( 'conference.transcriptSegment' );
         expect( JitsiConferenceEvents.USER_JOINED ).toBe( 'conference.userJoined' );
         expect( JitsiConferenceEvents.USER_LEFT ).toBe( 'conference.userLeft' );
         expect( JitsiConferenceEvents.USER_ROLE_CHANGED ).toBe( 'conference.roleChanged' );
@@ -79,17 +91,28 @@ describe( "/JitsiConferenceEvents members", () => {
         expect( JitsiConferenceEvents.LOBBY_USER_JOINED ).toBe( 'conference.lobby.userJoined' );
         expect( JitsiConferenceEvents.LOBBY_USER_UPDATED ).toBe( 'conference.lobby.userUpdated' );
         expect( JitsiConferenceEvents.LOBBY_USER_LEFT ).toBe( 'conference.lobby.userLeft' );
+        expect( JitsiConferenceEvents.LOCAL_RECORDING_DATA_AVAILABLE ).toBe( 'conference.localRecording.dataAvailable' );
         expect( JitsiConferenceEvents.AV_MODERATION_APPROVED ).toBe( 'conference.av_moderation.approved' );
         expect( JitsiConferenceEvents.AV_MODERATION_REJECTED ).toBe( 'conference.av_moderation.rejected' );
         expect( JitsiConferenceEvents.AV_MODERATION_CHANGED ).toBe( 'conference.av_moderation.changed' );
         expect( JitsiConferenceEvents.AV_MODERATION_PARTICIPANT_APPROVED ).toBe( 'conference.av_moderation.participant.approved' );
         expect( JitsiConferenceEvents.AV_MODERATION_PARTICIPANT_REJECTED ).toBe( 'conference.av_moderation.participant.rejected' );
+        expect( JitsiConferenceEvents.AV_MODERATION_QUEUE_CHANGED ).toBe( 'conference.av_moderation.queue.changed' );
+        expect( JitsiConferenceEvents.BREAKOUT_ROOMS_CLOSING ).toBe( 'conference.breakout-rooms.closing' );
+        expect( JitsiConferenceEvents.BREAKOUT_ROOMS_MESSAGE ).toBe( 'conference.breakout-rooms.message' );
         expect( JitsiConferenceEvents.BREAKOUT_ROOMS_MOVE_TO_ROOM ).toBe( 'conference.breakout-rooms.move-to-room' );
+        expect( JitsiConferenceEvents.BREAKOUT_ROOMS_TIMER_CANCELLED ).toBe( 'conference.breakout-rooms.timer-cancelled' );
         expect( JitsiConferenceEvents.BREAKOUT_ROOMS_UPDATED ).toBe( 'conference.breakout-rooms.updated' );
+        expect( JitsiConferenceEvents.METADATA_CHANGED ).toBe( 'conference.metadata.changed' );
         expect( JitsiConferenceEvents.METADATA_UPDATED ).toBe( 'conference.metadata.updated' );
         expect( JitsiConferenceEvents.SILENT_STATUS_CHANGED ).toBe( 'conference.silentStatusChanged' );
         expect( JitsiConferenceEvents.E2EE_VERIFICATION_READY ).toBe( 'conference.e2ee.verification.ready' );
         expect( JitsiConferenceEvents.E2EE_VERIFICATION_COMPLETED ).toBe( 'conference.e2ee.verification.completed' );
+        expect( JitsiConferenceEvents.E2EE_CHAT_MESSAGE_NOT_DELIVERED ).toBe( 'conference.e2ee.chat_message.not_delivered' );
+        expect( JitsiConferenceEvents.E2EE_ENDPOINT_MESSAGE_DECRYPTION_FAILED ).toBe( 'conference.e2ee.endpoint_message.decryption_failed' );
+        expect( JitsiConferenceEvents.E2EE_ENDPOINT_MESSAGE_SEND_FAILED ).toBe( 'conference.e2ee.endpoint_message.send_failed' );
+        expect( JitsiConferenceEvents.E2EE_FRAME_FORMAT_MISMATCH ).toBe( 'conference.e2ee.frame_format.mismatch' );
+        expect( JitsiConferenceEvents.E2EE_KEY_CHANGED ).toBe( 'conference.e2ee.key.changed' );
         expect( JitsiConferenceEvents.E2EE_VERIFICATION_AVAILABLE ).toBe( 'conference.e2ee.verification.available' );
         expect( JitsiConferenceEvents.REACTION_RECEIVED ).toBe( 'conference.reactionReceived' );
     } );
@@ -55,6 +55,13 @@ export enum JitsiConferenceEvents {
      */
     AV_MODERATION_PARTICIPANT_REJECTED = 'conference.av_moderation.participant.rejected',
 
+    /**
+     * AV Moderation, the queue of participants asking to unmute changed.
+     * @param {Array<ISpeakRequest>} queue - The requests to unmute in the order they were made, each with the
+     * participantId, the mediaType and the requestedAt timestamp.
+     */
+    AV_MODERATION_QUEUE_CHANGED = 'conference.av_moderation.queue.changed',
+
     /**
      * The local participant was blocked to be able to unmute.
      * @param {options} event - {
@@ -74,11 +81,31 @@ export enum JitsiConferenceEvents {
      */
     BOT_TYPE_CHANGED = 'conference.bot_type_changed',
 
+    /**
+     * Event fired when the breakout rooms are about to be closed and the participants sent back to the main room.
+     * @param {number} remainingTime - The number of seconds before the rooms are closed.
+     */
+    BREAKOUT_ROOMS_CLOSING = 'conference.breakout-rooms.closing',
+
+    /**
+     * Event fired when a moderator broadcasts a message to all the breakout rooms.
+     * @param {string} message - The text of the message.
+     */
+    BREAKOUT_ROOMS_MESSAGE = 'conference.breakout-rooms.message',
+
     /**
      * Event fired when a participant is requested to join a given (breakout) room.
      */
     BREAKOUT_ROOMS_MOVE_TO_ROOM = 'conference.breakout-rooms.move-to-room',
 
+    /**
+     * Event fired when the breakout rooms timer started by the local participant is cancelled because they leave
+     * the room, so the rooms will not be closed automatically. The application may start a new timer with the
+     * remaining time from a moderator who stays in the main room.
+     * @param {number} remainingTime - The number of seconds that were left.
+     */
+    BREAKOUT_ROOMS_TIMER_CANCELLED = 'conference.breakout-rooms.timer-cancelled',
+
     /**
      * Event fired when the breakout rooms data was updated.
      */
@@ -89,6 +116,14 @@ export enum JitsiConferenceEvents {
      */
     BRIDGE_BWE_STATS_RECEIVED = 'conference.bridgeBweStatsReceived',
 
+    /**
+     * The chat state of a participant changed, e.g. they started or stopped typing.
+     * @param {string} participantId - The ID of the participant.
+     * @param {string} state - The new chat state, one of 'active', 'composing', 'paused', 'inactive' or 'gone'.
+     * @param {boolean} isPrivate - Whether the chat state refers to the private chat with the local participant.
+     */
+    CHAT_STATE_CHANGED = 'conference.chatStateChanged',
+
     /**
      * UTC conference timestamp when first participant joined.
      */
@@ -176,10 +211,59 @@ export enum JitsiConferenceEvents {
      */
     DTMF_SUPPORT_CHANGED = 'conference.dtmfSupportChanged',
 
+    /**
+     * Indicates that an encrypted chat message could not be sent to some participants, because they don't support
+     * E2EE or the E2EE channel with them is not established.
+     * @param {string} messageId - The ID of the message.
+     * @param {Array<string>} participantIds - The IDs of the participants who did not get the message.
+     */
+    E2EE_CHAT_MESSAGE_NOT_DELIVERED = 'conference.e2ee.chat_message.not_delivered',
+
+    /**
+     * Indicates that an endpoint message encrypted end to end could not be decrypted.
+     * @param {JitsiParticipant} participant - The sender.
+     * @param {E2EEErrors} error - Why the decryption failed.
+     */
+    E2EE_ENDPOINT_MESSAGE_DECRYPTION_FAILED = 'conference.e2ee.endpoint_message.decryption_failed',
+
+    /**
+     * Indicates that an endpoint message could not be encrypted end to end or sent.
+     * @param {string} to - The ID of the recipient, empty for a broadcast message.
+     * @param {E2EEErrors|string} error - Why sending failed.
+     */
+    E2EE_ENDPOINT_MESSAGE_SEND_FAILED = 'conference.e2ee.endpoint_message.send_failed',
+
+    /**
+     * Indicates that a participant encrypts their media with another frame format than the local one, so their media
+     * cannot be decrypted and they cannot decrypt the local media. See the e2ee.frameFormat option.
+     * @param {string} participantId - The ID of the participant.
+     * @param {FrameFormat} frameFormat - The frame format used by the participant.
+     */
+    E2EE_FRAME_FORMAT_MISMATCH = 'conference.e2ee.frame_format.mismatch',
+
+    /**
+     * Indicates that the local E2EE media key was ratcheted or rotated.
+     * @param {options} event - {
+     *     {KeyRotationAction} action,
+     *     {number} index - the index of the new key,
+     *     {string} [keyId] - the ID of the new key, when the keys come from an IKeyProvider,
+     *     {KeyRotationTrigger} [trigger] - not set when the application rotated the key
+     * }.
+     */
+    E2EE_KEY_CHANGED = 'conference.e2ee.key.changed',
+
     E2EE_VERIFICATION_AVAILABLE = 'conference.e2ee.verification.available',
 
     E2EE_VERIFICATION_COMPLETED = 'conference.e2ee.verification.completed',
 
+    /**
+     * The SAS of a verification is ready to be compared. The event provides the participant ID and the SAS:
+     * {
+     *     {number[]} decimal,
+     *     {[string, string][]} emoji - the emojis and their names, see the e2ee.sasEmojiLanguage option,
+     *     {string} [qr] - the payload of a QR code the other participant can scan instead of comparing
+     * }.
+     */
     E2EE_VERIFICATION_READY = 'conference.e2ee.verification.ready',
 
     /**
@@ -217,6 +301,35 @@ export enum JitsiConferenceEvents {
      */
     FILE_SHARING_FILE_REMOVED = 'conference.file_sharing.file_removed',
 
+    /**
+     * Event emitted when a file transfer failed or was cancelled, either locally or by the remote side.
+     * @param {String} transferId - The ID of the transfer.
+     * @param {FileTransferError} reason - Why the transfer did not complete.
+     */
+    FILE_SHARING_TRANSFER_FAILED = 'conference.file_sharing.transfer_failed',
+
+    /**
+     * Event emitted when a file transfer completed. For incoming transfers the received file is passed along, after
+     * its hash was verified.
+     * @param {String} transferId - The ID of the transfer.
+     * @param {Blob|undefined} file - The received file, undefined for outgoing transfers.
+     */
+    FILE_SHARING_TRANSFER_FINISHED = 'conference.file_sharing.transfer_finished',
+
+    /**
+     * Event emitted periodically while the bytes of a file are sent or received.
+     * @param {String} transferId - The ID of the transfer.
+     * @param {number} transferredBytes - The number of bytes transferred so far.
+     * @param {number} totalBytes - The size of the file.
+     */
+    FILE_SHARING_TRANSFER_PROGRESS = 'conference.file_sharing.transfer_progress',
+
+    /**
+     * Event emitted when a participant starts sending a file to the local participant.
+     * @param {IFileTransfer} transfer - The metadata of the incoming transfer.
+     */
+    FILE_SHARING_TRANSFER_STARTED = 'conference.file_sharing.transfer_started',
+
     /**
      * The forwarded sources set is changed.
      *
@@ -245,6 +358,10 @@ export enum JitsiConferenceEvents {
 
     /**
      * A new user joined the lobby room.
+     * @param {string} id - The ID of the user in the lobby room.
+     * @param {string} name - The display name.
+     * @param {string} avatar - The avatar from the token identity, if any.
+     * @param {number} joinedAt - When the user joined, used to order the waiting users.
      */
     LOBBY_USER_JOINED = 'conference.lobby.userJoined',
 
@@ -258,6 +375,13 @@ export enum JitsiConferenceEvents {
      */
     LOBBY_USER_UPDATED = 'conference.lobby.userUpdated',
 
+    /**
+     * A chunk of a local recording is available.
+     * @param {LocalRecorder} recorder - The recorder which produced the chunk.
+     * @param {Blob} data - The recorded chunk.
+     */
+    LOCAL_RECORDING_DATA_AVAILABLE = 'conference.localRecording.dataAvailable',
+
     /**
      * Indicates that the room has been locked or unlocked.
      */
@@ -271,11 +395,52 @@ export enum JitsiConferenceEvents {
      */
     MEMBERS_ONLY_CHANGED = 'conference.membersOnlyChanged',
 
+    /**
+     * A text message was deleted (retracted) by its sender.
+     * @param {string} participantId - The ID of the sender.
+     * @param {string} messageId - The ID of the deleted message.
+     * @param {boolean} isPrivate - Whether the deleted message was a private one.
+     */
+    MESSAGE_DELETED = 'conference.messageDeleted',
+
+    /**
+     * A text message was displayed (read) by a participant. For the group chat this implies all the previous
+     * messages were displayed as well.
+     * @param {string} participantId - The ID of the participant who displayed the message.
+     * @param {string} messageId - The ID of the displayed message.
+     * @param {boolean} isPrivate - Whether the displayed message was a private one.
+     */
+    MESSAGE_DISPLAYED = 'conference.messageDisplayed',
+
+    /**
+     * A text message was edited (corrected) by its sender.
+     * @param {string} participantId - The ID of the sender.
+     * @param {string} messageId - The ID of the edited message.
+     * @param {string} text - The new text of the message.
+     * @param {boolean} isPrivate - Whether the edited message was a private one.
+     */
+    MESSAGE_EDITED = 'conference.messageEdited',
+
     /**
      * New text message was received.
+     * @param {string} participantId - The ID of the sender.
+     * @param {string} text - The text of the message.
+     * @param {string} [ts] - When the message was sent, if it was delayed.
+     * @param {string} [displayName] - The display name of the sender, for visitors.
+     * @param {boolean} isVisitor - Whether the sender is a visitor.
+     * @param {string} messageId - The ID of the message.
+     * @param {string} [source] - The source of the message.
+     * @param {string} [replyToId] - The ID of the message being replied to.
+     * @param {boolean} encrypted - Whether the message was encrypted end to end.
      */
     MESSAGE_RECEIVED = 'conference.messageReceived',
 
+    /**
+     * Event fired when keys of the conference metadata change, after METADATA_UPDATED.
+     * @param {IRoomMetadataChange[]} changes - The keys which changed, with their old and new values.
+     */
+    METADATA_CHANGED = 'conference.metadata.changed',
+
     /**
      * Event fired when the conference metadata is updated.
      */
@@ -310,6 +475,14 @@ export enum JitsiConferenceEvents {
      */
     PARTCIPANT_FEATURES_CHANGED = 'conference.partcipant_features_changed',
 
+    /**
+     * A user showed up with an identity key different from the ones seen for them earlier, for example from a new
+     * device, see the e2ee.persistIdentity option. The key is trusted once the participant is verified.
+     * @param {string} participantId - the ID of the participant.
+     * @param {string} userId - the user ID from the JWT.
+     */
+    PARTICIPANT_IDENTITY_KEY_CHANGED = 'conference.participant_identity_key_changed',
+
     /**
      * Participant was kicked from the conference.
      * @param {JitsiParticipant} the participant that initiated the kick.
@@ -338,8 +511,28 @@ export enum JitsiConferenceEvents {
      */
     PHONE_NUMBER_CHANGED = 'conference.phoneNumberChanged',
 
+    /**
+     * A poll was created, or replayed to the local participant after joining.
+     * @param {IPoll} poll - The poll.
+     */
+    POLL_CREATED = 'conference.polls.created',
+
+    /**
+     * The votes or the state of a poll changed.
+     * @param {IPoll} poll - The poll.
+     */
+    POLL_UPDATED = 'conference.polls.updated',
+
     /**
      * New private text message was received.
+     * @param {string} participantId - The ID of the sender.
+     * @param {string} text - The text of the message.
+     * @param {string} [ts] - When the message was sent, if it was delayed.
+     * @param {string} messageId - The ID of the message.
+     * @param {string} [displayName] - The display name of the sender, for visitors.
+     * @param {boolean} isVisitor - Whether the sender is a visitor.
+     * @param {string} [replyToId] - The ID of the message being replied to.
+     * @param {boolean} encrypted - Whether the message was encrypted end to end.
      */
     PRIVATE_MESSAGE_RECEIVED = 'conference.privateMessageReceived',
 
@@ -431,6 +624,12 @@ export enum JitsiConferenceEvents {
      */
     TRANSCRIPTION_STATUS_CHANGED = 'conference.transcriptionStatusChanged',
 
+    /**
+     * An interim or final segment of the speech of a participant was transcribed.
+     * @param {ITranscriptSegment} segment - The transcribed segment.
+     */
+    TRANSCRIPT_SEGMENT = 'conference.transcriptSegment',
+
     /**
      * A new user joined the conference.
      */
@@ -468,7 +667,12 @@ export enum JitsiConferenceEvents {
      *     {string} address,
      *     {VideoSIPGWConstants} oldState,
      *     {VideoSIPGWConstants} newState,
-     *     {string} displayName
+     *     {string} displayName,
+     *     {string} remoteDisplayName,
+     *     {number} duration - For how long the call was up, in milliseconds,
+     *     {VideoSIPGWFailureCauseConstants} failureCause,
+     *     {string} failureReason,
+     *     {number} retryCount
      * }.
      */
     VIDEO_SIP_GW_SESSION_STATE_CHANGED = 'conference.videoSIPGWSessionStateChanged',
@@ -30,10 +30,12 @@ import Settings from './modules/settings/Settings';
 import LocalStatsCollector from './modules/statistics/LocalStatsCollector';
 import runPreCallTest, { IIceServer, IPreCallResult } from './modules/statistics/PreCallTest';
 import Statistics from './modules/statistics/statistics';
+import { TranscriptFormat } from './modules/transcription/transcriptFormats';
 import Deferred from './modules/util/Deferred';
 import ScriptUtil from './modules/util/ScriptUtil';
 import * as VideoSIPGWConstants from './modules/videosipgw/VideoSIPGWConstants';
 import AudioMixer from './modules/webaudio/AudioMixer';
+import { ChatState } from './modules/xmpp/ChatStates';
 import { MediaType } from './service/RTC/MediaType';
 import { VideoType } from './service/RTC/VideoType';
 import { ConnectionQualityEvents } from './service/connectivity/ConnectionQualityEvents';
@@ -157,9 +159,11 @@ const JitsiMeetJS = {
      * Constants used throughout the library.
      */
     constants: {
+        chatStates: ChatState,
         recording: recordingConstants,
         sipVideoGW: VideoSIPGWConstants,
         trackStreamingStatus: TrackStreamingStatus,
+        transcriptFormats: TranscriptFormat,
         transcriptionStatus: JitsiTranscriptionStatus,
     },
 
@@ -37,6 +37,7 @@ const TRACK_ERROR_TO_MESSAGE_MAP: { [key: string]: string; } = {
     [JitsiTrackErrors.CONSTRAINT_FAILED]: 'Constraint could not be satisfied: ',
     [JitsiTrackErrors.TIMEOUT]: 'Could not start media source. Timeout occurred!',
     [JitsiTrackErrors.TRACK_IS_DISPOSED]: 'Track has been already disposed',
+    [JitsiTrackErrors.TRACK_NOT_APPROVED]: 'Not approved by a moderator to share this media',
     [JitsiTrackErrors.TRACK_NO_STREAM_FOUND]: 'Track does not have an associated Media Stream'
 };
 
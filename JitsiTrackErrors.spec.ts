@@ -19,6 +19,7 @@ describe( "/JitsiTrackErrors members", () => {
         UNSUPPORTED_RESOLUTION,
         TRACK_TOO_MANY_TRACKS_IN_STREAM,
         TRACK_NO_STREAM_TRACKS_FOUND,
+        TRACK_NOT_APPROVED,
         JitsiTrackErrors,
         ...others
     } = exported;
@@ -39,6 +40,7 @@ describe( "/JitsiTrackErrors members", () => {
         expect( UNSUPPORTED_RESOLUTION ).toBe( 'gum.unsupported_resolution' );
         expect( TRACK_TOO_MANY_TRACKS_IN_STREAM ).toBe( 'track.too_many_tracks_in_stream' );
         expect( TRACK_NO_STREAM_TRACKS_FOUND ).toBe( 'track.no_stream_tracks_found' );
+        expect( TRACK_NOT_APPROVED ).toBe( 'track.not_approved' );
 
         expect( JitsiTrackErrors ).toBeDefined();
 
@@ -57,6 +59,7 @@ describe( "/JitsiTrackErrors members", () => {
         expect( JitsiTrackErrors.UNSUPPORTED_RESOLUTION ).toBe( 'gum.unsupported_resolution' );
         expect( JitsiTrackErrors.TRACK_TOO_MANY_TRACKS_IN_STREAM ).toBe( 'track.too_many_tracks_in_stream' );
         expect( JitsiTrackErrors.TRACK_NO_STREAM_TRACKS_FOUND ).toBe( 'track.no_stream_tracks_found' );
+        expect( JitsiTrackErrors.TRACK_NOT_APPROVED ).toBe( 'track.not_approved' );
     } );
 
     it( "unknown members", () => {
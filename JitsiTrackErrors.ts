@@ -66,6 +66,12 @@ export enum JitsiTrackErrors {
      */
     TRACK_IS_DISPOSED = 'track.track_is_disposed',
 
+    /**
+     * An error which indicates that the track cannot be added to the conference because moderation is enabled for
+     * its media type and the local participant was not approved by a moderator.
+     */
+    TRACK_NOT_APPROVED = 'track.not_approved',
+
     /**
      * An error which indicates that track has no MediaStream associated.
      */
@@ -104,3 +110,4 @@ export const TRACK_NO_STREAM_FOUND = JitsiTrackErrors.TRACK_NO_STREAM_FOUND;
 export const UNSUPPORTED_RESOLUTION = JitsiTrackErrors.UNSUPPORTED_RESOLUTION;
 export const TRACK_TOO_MANY_TRACKS_IN_STREAM = JitsiTrackErrors.TRACK_TOO_MANY_TRACKS_IN_STREAM;
 export const TRACK_NO_STREAM_TRACKS_FOUND = JitsiTrackErrors.TRACK_NO_STREAM_TRACKS_FOUND;
+export const TRACK_NOT_APPROVED = JitsiTrackErrors.TRACK_NOT_APPROVED;
@@ -217,6 +217,15 @@ export default class BridgeChannel {
             || this._channel.readyState === WebSocket.OPEN);
     }
 
+    /**
+     * Returns the number of bytes queued on the underlying RTCDataChannel or WebSocket which have not been
+     * transmitted yet.
+     * @return {number}
+     */
+    getBufferedAmount(): number {
+        return this._channel?.bufferedAmount ?? 0;
+    }
+
     /**
      * Sends local stats via the bridge channel.
      * @param {Object} payload The payload of the message.
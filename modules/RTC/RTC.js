@@ -725,6 +725,14 @@ export default class RTC extends Listenable {
         }
     }
 
+    /**
+     * Returns the number of bytes queued on the bridge channel which have not been transmitted yet.
+     * @returns {number}
+     */
+    getChannelBufferedAmount() {
+        return this._channel ? this._channel.getBufferedAmount() : 0;
+    }
+
     /**
      * Sends the local stats via the bridge channel.
      * @param {Object} payload The payload of the message.
@@ -1,6 +1,7 @@
 /* eslint-disable no-bitwise */
-import { Context } from './Context';
+import { Context, FrameFormat } from './Context';
 import { importKey, ratchet } from './crypto-utils';
+import { SFrameCipherSuite, encodeSFrameHeader, parseSFrameHeader } from './sframe-utils';
 
 /*
 function hexdump(buffer) {
@@ -175,4 +176,171 @@ describe('E2EE Context', () => {
             encodeFunction();
         });
     });
+
+    describe('max frames per key', () => {
+        let onKeyExhausted;
+
+        beforeEach(async () => {
+            onKeyExhausted = jasmine.createSpy('onKeyExhausted');
+            sender = new Context({
+                maxFramesPerKey: 2,
+                onKeyExhausted
+            });
+            sender.setEnabled(true);
+            await sender.setKey(key, 3);
+        });
+
+        it('reports the key once it encrypted the maximum number of frames', async () => {
+            const controller = { enqueue: () => {} }; // eslint-disable-line no-empty-function
+
+            for (let i = 0; i < 3; i++) {
+                await sender.encodeFunction(makeAudioFrame(), controller);
+            }
+
+            expect(onKeyExhausted).toHaveBeenCalledOnceWith(3);
+
+            await sender.setKey(key, 4);
+            await sender.encodeFunction(makeAudioFrame(), controller);
+            await sender.encodeFunction(makeAudioFrame(), controller);
+
+            expect(onKeyExhausted).toHaveBeenCalledWith(4);
+        });
+    });
+
+    describe('SFrame format', () => {
+        /**
+         * Encrypts a frame with the sender and decrypts it with the receiver.
+         */
+        async function roundTrip(frame) {
+            let encrypted;
+            let decrypted;
+
+            await sender.encodeFunction(frame, { enqueue: f => {
+                encrypted = new Uint8Array(f.data.slice(0));
+                decrypted = f;
+            } });
+
+            await receiver.decodeFunction(decrypted, { enqueue: f => {
+                decrypted = f;
+            } });
+
+            return {
+                decrypted: Array.from(new Uint8Array(decrypted.data)),
+                encrypted
+            };
+        }
+
+        it('encodes and parses headers', () => {
+            expect(Array.from(encodeSFrameHeader(3, 5))).toEqual([ 0x35 ]);
+            expect(Array.from(encodeSFrameHeader(9, 300))).toEqual([ 0x89, 0x09, 0x01, 0x2c ]);
+            expect(parseSFrameHeader(encodeSFrameHeader(9, 300))).toEqual({
+                counter: 300,
+                keyId: 9,
+                length: 4
+            });
+            expect(parseSFrameHeader(new Uint8Array([ 0x89, 0x09 ]))).toBeUndefined();
+        });
+
+        for (const cipherSuite of [
+            SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_80,
+            SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_64,
+            SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_32,
+            SFrameCipherSuite.AES_128_GCM_SHA256_128,
+            SFrameCipherSuite.AES_256_GCM_SHA512_128
+        ]) {
+            describe(`with cipher suite ${cipherSuite}`, () => {
+                beforeEach(async () => {
+                    sender = new Context({
+                        frameFormat: FrameFormat.SFRAME,
+                        sframeCipherSuite: cipherSuite
+                    });
+                    sender.setEnabled(true);
+                    receiver = new Context({
+                        frameFormat: FrameFormat.SFRAME,
+                        sframeCipherSuite: cipherSuite
+                    });
+                    receiver.setEnabled(true);
+                    await sender.setKey(key, 9);
+                    await receiver.setKey(key, 9);
+                });
+
+                it('round-trips audio and video frames', async () => {
+                    const audio = await roundTrip(makeAudioFrame());
+                    const video = await roundTrip(makeVideoFrame());
+
+                    expect(audio.decrypted).toEqual(audioBytes);
+                    expect(video.decrypted).toEqual(videoBytes);
+
+                    // The frame starts with the header, then the whole frame is encrypted.
+                    expect(parseSFrameHeader(audio.encrypted)).toEqual({
+                        counter: 0,
+                        keyId: 9,
+                        length: 2
+                    });
+                    expect(Array.from(audio.encrypted.subarray(2, 2 + audioBytes.length))).not.toEqual(audioBytes);
+                    expect(parseSFrameHeader(video.encrypted).counter).toBe(1);
+                    expect(Array.from(video.encrypted.subarray(2, 2 + videoBytes.length))).not.toEqual(videoBytes);
+                });
+
+                it('authenticates the header', async () => {
+                    const frame = makeVideoFrame();
+                    let encrypted;
+                    const enqueue = jasmine.createSpy('enqueue');
+
+                    await sender.encodeFunction(frame, { enqueue: f => {
+                        encrypted = f;
+                    } });
+                    // Changes the counter.
+                    new Uint8Array(encrypted.data)[0] ^= 1;
+                    await receiver.decodeFunction(encrypted, { enqueue });
+
+                    expect(enqueue).not.toHaveBeenCalled();
+                });
+
+                it('follows a ratcheted sender key', async () => {
+                    const material = await importKey(key.buffer);
+
+                    await sender.setKey(await ratchet(material), 9);
+
+                    expect((await roundTrip(makeAudioFrame())).decrypted).toEqual(audioBytes);
+                });
+            });
+        }
+
+        it('drops frames with an unknown key ID', async () => {
+            sender = new Context({ frameFormat: FrameFormat.SFRAME });
+            sender.setEnabled(true);
+            receiver = new Context({ frameFormat: FrameFormat.SFRAME });
+            receiver.setEnabled(true);
+            await sender.setKey(key, 1);
+            await receiver.setKey(key, 2);
+
+            let encrypted;
+            const enqueue = jasmine.createSpy('enqueue');
+
+            await sender.encodeFunction(makeAudioFrame(), { enqueue: f => {
+                encrypted = f;
+            } });
+            await receiver.decodeFunction(encrypted, { enqueue });
+
+            expect(enqueue).not.toHaveBeenCalled();
+        });
+
+        it('is not decrypted by a receiver using the default format', async () => {
+            sender = new Context({ frameFormat: FrameFormat.SFRAME });
+            sender.setEnabled(true);
+            await sender.setKey(key, 0);
+            await receiver.setKey(key, 0);
+
+            let encrypted;
+            const enqueue = jasmine.createSpy('enqueue');
+
+            await sender.encodeFunction(makeAudioFrame(), { enqueue: f => {
+                encrypted = f;
+            } });
+            await receiver.decodeFunction(encrypted, { enqueue });
+
+            expect(enqueue).not.toHaveBeenCalled();
+        });
+    });
 });
@@ -1,6 +1,15 @@
 /* eslint-disable no-bitwise */
 
 import { deriveKeys, importKey, ratchet } from './crypto-utils';
+import {
+    ISFrameKeyData,
+    SFrameCipherSuite,
+    decryptSFrame,
+    deriveSFrameKeys,
+    encodeSFrameHeader,
+    encryptSFrame,
+    parseSFrameHeader
+} from './sframe-utils';
 
 // We use a ringbuffer of keys so we can change them and still decode packets that were
 // encrypted with an old key. We use a size of 16 which corresponds to the four bits
@@ -30,7 +39,45 @@ const IV_LENGTH = 12;
 
 const RATCHET_WINDOW_SIZE = 8;
 
+/**
+ * The layout of the encrypted frames.
+ */
+export enum FrameFormat {
+
+    /**
+     * The first bytes of the frame are left unencrypted and the IV and key index are appended in a trailer, see
+     * {@link Context.encodeFunction}. This is the default.
+     */
+    JFRAME = 'jframe',
+
+    /**
+     * The frame is encrypted as described in https://www.rfc-editor.org/rfc/rfc9605, with the key index as the KID.
+     * The whole frame is encrypted, so unlike with {@link JFRAME} no codec bytes are visible to the bridge.
+     */
+    SFRAME = 'sframe'
+}
+
 export interface IContextOptions {
+
+    /**
+     * The layout of the encrypted frames, {@link FrameFormat.JFRAME} when not set.
+     */
+    frameFormat?: FrameFormat;
+
+    /**
+     * How many frames can be encrypted with a key before {@link onKeyExhausted} is called, unlimited when not set.
+     */
+    maxFramesPerKey?: number;
+
+    /**
+     * Called once when the current key encrypted {@link maxFramesPerKey} frames, with the index of the key.
+     */
+    onKeyExhausted?: (keyIndex: number) => void;
+
+    /**
+     * The cipher suite used with {@link FrameFormat.SFRAME}, AES_128_GCM_SHA256_128 when not set.
+     */
+    sframeCipherSuite?: SFrameCipherSuite;
     sharedKey?: boolean | ArrayBuffer;
 }
 
@@ -48,6 +95,7 @@ export interface ITransformStreamDefaultController {
 export interface ICryptoKeyData {
     encryptionKey: CryptoKey;
     material: CryptoKey;
+    sframe?: ISFrameKeyData;
 }
 
 /**
@@ -57,19 +105,39 @@ export interface ICryptoKeyData {
 export class Context {
     private _cryptoKeyRing: (ICryptoKeyData | false)[];
     private _currentKeyIndex: number;
+    private _encryptedFrames: number;
+    private _frameFormat: FrameFormat;
+    private _maxFramesPerKey: number;
+    private _onKeyExhausted?: (keyIndex: number) => void;
     private _sendCounts: Map<number, number>;
+    private _sframeCipherSuite: SFrameCipherSuite;
+    private _sframeCounter: number;
     private _sharedKey: ArrayBuffer | boolean;
     private _enabled: boolean;
 
     /**
      * @param {Object} options
      */
-    constructor({ sharedKey = false }: IContextOptions = {}) {
+    constructor({
+        frameFormat = FrameFormat.JFRAME,
+        maxFramesPerKey = 0,
+        onKeyExhausted,
+        sframeCipherSuite = SFrameCipherSuite.AES_128_GCM_SHA256_128,
+        sharedKey = false
+    }: IContextOptions = {}) {
         // An array (ring) of keys that we use for sending and receiving.
         this._cryptoKeyRing = new Array(KEYRING_SIZE);
         // A pointer to the currently used key.
         this._currentKeyIndex = -1;
+        // The number of frames encrypted with the current key.
+        this._encryptedFrames = 0;
+        this._frameFormat = frameFormat;
+        this._maxFramesPerKey = maxFramesPerKey;
+        this._onKeyExhausted = onKeyExhausted;
         this._sendCounts = new Map<number, number>();
+        this._sframeCipherSuite = sframeCipherSuite;
+        // The SFrame CTR, it is never reset so no nonce is used twice.
+        this._sframeCounter = 0;
         this._sharedKey = sharedKey;
         this._enabled = false;
     }
@@ -92,7 +160,6 @@ export class Context {
             ratchetCount: number = 0): Promise<Optional<IEncodedFrame>> {
 
         const keyData = this._cryptoKeyRing[keyIndex] as ICryptoKeyData;
-        const { encryptionKey } = keyData;
         let { material } = keyData;
 
         // Construct frame trailer. Similar to the frame header described in
@@ -104,6 +171,10 @@ export class Context {
         // ---------+-------------------------+-+---------+----
 
         try {
+            if (this._frameFormat === FrameFormat.SFRAME) {
+                return await this._decryptSFrame(encodedFrame, keyData);
+            }
+
             const frameHeader = new Uint8Array(encodedFrame.data, 0, UNENCRYPTED_BYTES[encodedFrame.type]);
             const frameTrailer = new Uint8Array(encodedFrame.data, encodedFrame.data.byteLength - 2, 2);
 
@@ -122,7 +193,7 @@ export class Context {
                 iv,
                 name: 'AES-GCM'
             },
-                encryptionKey,
+                keyData.encryptionKey,
                 new Uint8Array(encodedFrame.data, cipherTextStart, cipherTextLength));
 
             const newData = new ArrayBuffer(frameHeader.byteLength + plainText.byteLength);
@@ -144,7 +215,7 @@ export class Context {
 
                 material = await importKey(await ratchet(material));
 
-                const newKey = await deriveKeys(material);
+                const newKey = await this._deriveKeys(material, keyIndex);
 
                 this._setKeys(newKey);
 
@@ -168,6 +239,88 @@ export class Context {
     }
 
 
+    /**
+     * Decrypts a frame in the SFrame format.
+     *
+     * @param {RTCEncodedVideoFrame|RTCEncodedAudioFrame} encodedFrame - Encoded video frame.
+     * @param {ICryptoKeyData} keyData - the key of the KID in the SFrame header.
+     * @returns {Promise<RTCEncodedVideoFrame|RTCEncodedAudioFrame>} - The decrypted frame.
+     * @private
+     */
+    private async _decryptSFrame(encodedFrame: IEncodedFrame, keyData: ICryptoKeyData): Promise<IEncodedFrame> {
+        const data = new Uint8Array(encodedFrame.data);
+        const header = parseSFrameHeader(data);
+
+        encodedFrame.data = await decryptSFrame(
+            keyData.sframe,
+            header.counter,
+            data.subarray(0, header.length),
+            data.subarray(header.length));
+
+        return encodedFrame;
+    }
+
+    /**
+     * Derives the keys used for a key index from the key material.
+     *
+     * @param {CryptoKey} material - the key material.
+     * @param {number} keyIndex - the key index, used as the SFrame KID.
+     * @returns {Promise<ICryptoKeyData>}
+     * @private
+     */
+    private async _deriveKeys(material: CryptoKey, keyIndex: number): Promise<ICryptoKeyData> {
+        const keyData: ICryptoKeyData = await deriveKeys(material);
+
+        if (this._frameFormat === FrameFormat.SFRAME) {
+            keyData.sframe = await deriveSFrameKeys(material, keyIndex, this._sframeCipherSuite);
+        }
+
+        return keyData;
+    }
+
+    /**
+     * Encrypts a frame in the SFrame format: the SFrame header, which carries the key index as KID and a counter from
+     * which the nonce is formed, then the whole frame encrypted. The header is authenticated.
+     *
+     * -------------+-----------------------
+     * SFrame header|ciphertext...|auth tag
+     * -------------+-----------------------
+     *
+     * @param {RTCEncodedVideoFrame|RTCEncodedAudioFrame} encodedFrame - Encoded video frame.
+     * @param {ICryptoKeyData} keyData - the current key.
+     * @param {number} keyIndex - the index of the current key.
+     * @returns {Promise<void>}
+     * @private
+     */
+    private async _encryptSFrame(
+            encodedFrame: IEncodedFrame,
+            keyData: ICryptoKeyData,
+            keyIndex: number): Promise<void> {
+        const counter = this._sframeCounter++;
+        const header = encodeSFrameHeader(keyIndex, counter);
+        const cipherText = await encryptSFrame(keyData.sframe, counter, header, new Uint8Array(encodedFrame.data));
+        const newData = new ArrayBuffer(header.byteLength + cipherText.byteLength);
+        const newUint8 = new Uint8Array(newData);
+
+        newUint8.set(header);
+        newUint8.set(cipherText, header.byteLength);
+
+        encodedFrame.data = newData;
+    }
+
+    /**
+     * Calls {@link _onKeyExhausted} once the current key encrypted the maximum number of frames.
+     *
+     * @param {number} keyIndex - the index of the current key.
+     * @returns {void}
+     * @private
+     */
+    private _onFrameEncrypted(keyIndex: number): void {
+        if (this._maxFramesPerKey && ++this._encryptedFrames === this._maxFramesPerKey) {
+            this._onKeyExhausted?.(keyIndex);
+        }
+    }
+
     /**
      * Construct the IV used for AES-GCM and sent (in plain) with the packet similar to
      * https://tools.ietf.org/html/rfc7714#section-8.1
@@ -257,11 +410,13 @@ export class Context {
                 }
                 const material = await importKey(keyBuffer);
 
-                newKey = await deriveKeys(material);
+                newKey = await this._deriveKeys(
+                    material, keyIndex >= 0 ? keyIndex % KEYRING_SIZE : this._currentKeyIndex);
             }
         }
 
         this._setKeys(newKey, keyIndex);
+        this._encryptedFrames = 0;
     }
 
     /**
@@ -285,6 +440,8 @@ export class Context {
      * 7) Append the IV.
      * 8) Append a single byte for the key identifier.
      * 9) Enqueue the encrypted frame for sending.
+     *
+     * With {@link FrameFormat.SFRAME} the frame is instead formed as described in {@link _encryptSFrame}.
      */
     public encodeFunction(encodedFrame: IEncodedFrame, controller: ITransformStreamDefaultController): Promise<void> | void {
         if (!this._enabled) {
@@ -294,6 +451,19 @@ export class Context {
         const keyIndex = this._currentKeyIndex;
         const currentKey = this._cryptoKeyRing[keyIndex] as ICryptoKeyData | false;
 
+        if (currentKey && this._frameFormat === FrameFormat.SFRAME) {
+            return this._encryptSFrame(encodedFrame, currentKey, keyIndex)
+                .then(() => {
+                    this._onFrameEncrypted(keyIndex);
+
+                    return controller.enqueue(encodedFrame);
+                }, e => {
+                    console.error(e);
+
+                    // We are not enqueuing the frame here on purpose.
+                });
+        }
+
         if (currentKey) {
             const iv = this._makeIV(encodedFrame.getMetadata().synchronizationSource, encodedFrame.timestamp);
 
@@ -336,6 +506,8 @@ export class Context {
 
                 encodedFrame.data = newData;
 
+                this._onFrameEncrypted(keyIndex);
+
                 return controller.enqueue(encodedFrame);
             }, e => {
                 // TODO: surface this to the app.
@@ -358,9 +530,14 @@ export class Context {
         }
 
         const data = new Uint8Array(encodedFrame.data);
-        const keyIndex = data[encodedFrame.data.byteLength - 1];
+        let keyIndex = data[encodedFrame.data.byteLength - 1];
+
+        if (this._frameFormat === FrameFormat.SFRAME) {
+            // Frames with an unknown KID or without a valid header are dropped.
+            keyIndex = parseSFrameHeader(data)?.keyId ?? KEYRING_SIZE;
+        }
 
-        if (this._cryptoKeyRing[keyIndex]) {
+        if (keyIndex < KEYRING_SIZE && this._cryptoKeyRing[keyIndex]) {
             const decodedFrame = await this._decryptFrame(
                 encodedFrame,
                 keyIndex);
@@ -24,8 +24,13 @@ export default class E2EEcontext {
     /**
      * Build a new E2EE context instance, which will be used in a given conference.
      * @param {boolean} [options.sharedKey] - whether there is a uniques key shared amoung all participants.
+     * @param {FrameFormat} [options.frameFormat] - the layout of the encrypted frames, ignored with a shared key.
+     * @param {SFrameCipherSuite} [options.sframeCipherSuite] - the cipher suite used with the SFrame format.
+     * @param {number} [options.maxFramesPerKey] - how many frames can be encrypted with the local key.
+     * @param {Function} [options.onKeyExhausted] - called with the participant ID and the key index when a key
+     * encrypted maxFramesPerKey frames.
      */
-    constructor({ sharedKey } = {}) {
+    constructor({ frameFormat, maxFramesPerKey, onKeyExhausted, sframeCipherSuite, sharedKey } = {}) {
         // Determine the URL for the worker script. Relative URLs are relative to
         // the entry point, not the script that launches the worker.
         let baseUrl = '';
@@ -54,9 +59,17 @@ export default class E2EEcontext {
         this._worker = new Worker(workerUrl, { name: 'E2EE Worker' });
 
         this._worker.onerror = e => logger.error(e);
+        this._worker.onmessage = ({ data }) => {
+            if (data?.operation === 'keyExhausted') {
+                onKeyExhausted?.(data.participantId, data.keyIndex);
+            }
+        };
 
         this._worker.postMessage({
+            frameFormat,
+            maxFramesPerKey,
             operation: 'initialize',
+            sframeCipherSuite,
             sharedKey
         });
     }
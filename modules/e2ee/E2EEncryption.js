@@ -1,8 +1,14 @@
+import { getLogger } from '@jitsi/logger';
+
 import browser from '../browser';
 
+import { E2EEErrors } from './E2EEErrors';
 import { ExternallyManagedKeyHandler } from './ExternallyManagedKeyHandler';
 import { ManagedKeyHandler } from './ManagedKeyHandler';
 import { OlmAdapter } from './OlmAdapter';
+import { ProviderKeyHandler } from './ProviderKeyHandler';
+
+const logger = getLogger('e2ee:E2EEncryption');
 
 /**
  * This module integrates {@link KeyHandler} with {@link JitsiConference} in order to enable E2E encryption.
@@ -15,12 +21,29 @@ export class E2EEncryption {
     constructor(conference) {
         const { e2ee = {} } = conference.options.config;
 
+        this._encryptChat = Boolean(e2ee.encryptChat);
         this._externallyManaged = e2ee.externallyManagedKey;
+        this._keyProvided = !this._externallyManaged && Boolean(e2ee.keyProvider);
 
         if (this._externallyManaged) {
+            e2ee.frameFormat && logger.warn('The frame format cannot be changed, keys are managed externally');
             this._keyHandler = new ExternallyManagedKeyHandler(conference);
+        } else if (this._keyProvided) {
+            this._keyHandler = new ProviderKeyHandler(conference, e2ee.keyProvider, {
+                frameFormat: e2ee.frameFormat,
+                sframeCipherSuite: e2ee.sframeCipherSuite
+            });
         } else {
-            this._keyHandler = new ManagedKeyHandler(conference);
+            this._keyHandler = new ManagedKeyHandler(conference, {
+                frameFormat: e2ee.frameFormat,
+                keyRotationInterval: e2ee.keyRotationInterval,
+                keyRotationPolicy: e2ee.keyRotationPolicy,
+                maxFramesPerKey: e2ee.maxFramesPerKey,
+                persistIdentity: e2ee.persistIdentity,
+                rememberVerifiedParticipants: e2ee.rememberVerifiedParticipants,
+                sasEmojiLanguage: e2ee.sasEmojiLanguage,
+                sframeCipherSuite: e2ee.sframeCipherSuite
+            });
         }
     }
 
@@ -33,7 +56,7 @@ export class E2EEncryption {
     static isSupported(config) {
         const { e2ee = {} } = config;
 
-        if (!e2ee.externallyManagedKey && !OlmAdapter.isSupported()) {
+        if (!e2ee.externallyManagedKey && !e2ee.keyProvider && !OlmAdapter.isSupported()) {
             return false;
         }
 
@@ -75,6 +98,118 @@ export class E2EEncryption {
         this._keyHandler.setKey(keyInfo);
     }
 
+    /**
+     * Indicates whether chat messages are encrypted. They are when enabled with the e2ee.encryptChat config option,
+     * E2EE is enabled and the keys are distributed through Olm.
+     *
+     * @returns {boolean}
+     */
+    isChatEncryptionEnabled() {
+        return this._encryptChat && !this._externallyManaged && !this._keyProvided && this.isEnabled();
+    }
+
+    /**
+     * Sends a chat message encrypted end to end through the Olm sessions.
+     *
+     * @param {string} message - the text of the message.
+     * @param {string} [to] - the ID of the recipient of a private message.
+     * @param {string} [replyToId] - the ID of the message being replied to.
+     * @param {string} [messageId] - the ID of the message.
+     * @returns {void}
+     */
+    sendChatMessage(message, to, replyToId, messageId) {
+        this._keyHandler.sendChatMessage(message, to, replyToId, messageId);
+    }
+
+    /**
+     * Indicates whether endpoint messages are encrypted. They are when E2EE is enabled and the keys are distributed
+     * through Olm, externally managed and provided keys are only used for media.
+     *
+     * @returns {boolean}
+     */
+    isEndpointMessageEncryptionEnabled() {
+        return !this._externallyManaged && !this._keyProvided && this.isEnabled();
+    }
+
+    /**
+     * Encrypts an endpoint message with the local media key.
+     *
+     * @param {object} payload - the message.
+     * @param {string} to - the ID of the recipient, empty for a broadcast message.
+     * @returns {Promise<IEncryptedEndpointMessage>}
+     */
+    encryptEndpointMessage(payload, to) {
+        return this._keyHandler.encryptEndpointMessage(payload, to);
+    }
+
+    /**
+     * Decrypts an endpoint message with the media key of its sender.
+     *
+     * @param {string} participantId - the sender.
+     * @param {IEncryptedEndpointMessage} message - the encrypted message.
+     * @returns {Promise<object>} rejected with an error whose message is an {@link E2EEErrors} when the message
+     * cannot be decrypted.
+     */
+    decryptEndpointMessage(participantId, message) {
+        if (this._externallyManaged || this._keyProvided) {
+            return Promise.reject(new Error(E2EEErrors.E2EE_ENDPOINT_MESSAGE_MISSING_KEY));
+        }
+
+        return this._keyHandler.decryptEndpointMessage(participantId, message);
+    }
+
+    /**
+     * Returns the action taken for each key rotation trigger. Only available when the keys are distributed through Olm.
+     *
+     * @returns {IKeyRotationPolicy|undefined}
+     */
+    getKeyRotationPolicy() {
+        return this._keyHandler.getKeyRotationPolicy?.();
+    }
+
+    /**
+     * Changes whether the key is ratcheted or rotated, or left alone, for some of the key rotation triggers.
+     *
+     * @param {IKeyRotationPolicy} policy - the actions to change.
+     * @returns {void}
+     */
+    setKeyRotationPolicy(policy) {
+        if (this._externallyManaged || this._keyProvided) {
+            logger.warn('Cannot set the key rotation policy, keys are managed externally');
+
+            return;
+        }
+
+        this._keyHandler.setKeyRotationPolicy(policy);
+    }
+
+    /**
+     * Gets a new key for the local participant from the e2ee.keyProvider, see {@link ProviderKeyHandler#rotateKey}.
+     *
+     * @returns {Promise<void>}
+     */
+    rotateKey() {
+        if (!this._keyProvided) {
+            return Promise.reject(new Error('Keys are not managed by a key provider'));
+        }
+
+        return this._keyHandler.rotateKey();
+    }
+
+    /**
+     * Revokes a key of the local participant in the e2ee.keyProvider.
+     *
+     * @param {string} keyId - the ID of the key.
+     * @returns {Promise<void>}
+     */
+    revokeKey(keyId) {
+        if (!this._keyProvided) {
+            return Promise.reject(new Error('Keys are not managed by a key provider'));
+        }
+
+        return this._keyHandler.revokeKey(keyId);
+    }
+
     /**
      * Starts the verification process of the participant
      *
@@ -95,4 +230,24 @@ export class E2EEncryption {
     markParticipantVerified(participant, isVerified) {
         this._keyHandler.sasVerification?.markParticipantVerified(participant, isVerified);
     }
+
+    /**
+     * Checks the QR code shown by a participant during a verification.
+     *
+     * @param {Participant} participant - the participant who shows the code.
+     * @param {string} qrPayload - the string read from the code.
+     * @returns {void}
+     */
+    verifyQrCode(participant, qrPayload) {
+        this._keyHandler.sasVerification?.verifyQrCode(participant, qrPayload);
+    }
+
+    /**
+     * Forgets the participants verified in earlier meetings and the identity keys trusted on first use.
+     *
+     * @returns {void}
+     */
+    clearVerifiedParticipants() {
+        this._keyHandler.sasVerification?.clearVerifiedParticipants();
+    }
 }
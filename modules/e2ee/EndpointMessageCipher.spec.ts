@@ -0,0 +1,94 @@
+import base64js from 'base64-js';
+
+import { E2EEErrors } from './E2EEErrors';
+import { EndpointMessageCipher } from './EndpointMessageCipher';
+import { deriveKeys, importKey, ratchet } from './crypto-utils';
+
+describe('EndpointMessageCipher', () => {
+    let sender: EndpointMessageCipher;
+    let receiver: EndpointMessageCipher;
+    const key = new Uint8Array(32).fill(7);
+
+    beforeEach(async () => {
+        sender = new EndpointMessageCipher();
+        receiver = new EndpointMessageCipher();
+        await sender.setKey('alice', key, 1);
+        await receiver.setKey('alice', key, 1);
+    });
+
+    it('round-trips a message without exposing it', async () => {
+        const encrypted = await sender.encrypt('alice', { text: 'hello' });
+
+        expect(EndpointMessageCipher.isEncrypted(encrypted)).toBeTrue();
+        expect(JSON.stringify(encrypted)).not.toContain('hello');
+        expect(encrypted.keyIndex).toBe(1);
+        expect(await receiver.decrypt('alice', encrypted, 'bob')).toEqual({ text: 'hello' });
+    });
+
+    it('follows a ratcheted sender key', async () => {
+        const ratcheted = new Uint8Array(await ratchet(await importKey(key.buffer)));
+
+        await sender.setKey('alice', ratcheted, 1);
+
+        expect(await receiver.decrypt('alice', await sender.encrypt('alice', { n: 1 }), 'bob')).toEqual({ n: 1 });
+    });
+
+    it('fails when the message is attributed to someone else', async () => {
+        const encrypted = await sender.encrypt('alice', { text: 'hello' });
+
+        await receiver.setKey('bob', key, 1);
+
+        await expectAsync(receiver.decrypt('bob', encrypted, 'bob'))
+            .toBeRejectedWithError(E2EEErrors.E2EE_ENDPOINT_MESSAGE_DECRYPTION_FAILED);
+    });
+
+    it('fails when the message is delivered to someone else', async () => {
+        const encrypted = await sender.encrypt('alice', { text: 'hello' }, 'bob');
+
+        expect(await receiver.decrypt('alice', encrypted, 'bob')).toEqual({ text: 'hello' });
+
+        const carol = new EndpointMessageCipher();
+
+        await carol.setKey('alice', key, 1);
+
+        await expectAsync(carol.decrypt('alice', encrypted, 'carol'))
+            .toBeRejectedWithError(E2EEErrors.E2EE_ENDPOINT_MESSAGE_DECRYPTION_FAILED);
+        await expectAsync(carol.decrypt('alice', { ...encrypted, to: '' }, 'carol'))
+            .toBeRejectedWithError(E2EEErrors.E2EE_ENDPOINT_MESSAGE_DECRYPTION_FAILED);
+    });
+
+    it('fails when a message is delivered again', async () => {
+        const first = await sender.encrypt('alice', { n: 1 });
+        const second = await sender.encrypt('alice', { n: 2 });
+
+        expect(second.seq).toBeGreaterThan(first.seq);
+        expect(await receiver.decrypt('alice', second, 'bob')).toEqual({ n: 2 });
+
+        await expectAsync(receiver.decrypt('alice', second, 'bob'))
+            .toBeRejectedWithError(E2EEErrors.E2EE_ENDPOINT_MESSAGE_DECRYPTION_FAILED);
+        await expectAsync(receiver.decrypt('alice', first, 'bob'))
+            .toBeRejectedWithError(E2EEErrors.E2EE_ENDPOINT_MESSAGE_DECRYPTION_FAILED);
+        await expectAsync(receiver.decrypt('alice', { ...first, seq: second.seq + 1 }, 'bob'))
+            .toBeRejectedWithError(E2EEErrors.E2EE_ENDPOINT_MESSAGE_DECRYPTION_FAILED);
+    });
+
+    it('does not encrypt with the media key', async () => {
+        const encrypted = await sender.encrypt('alice', { text: 'hello' });
+        const { encryptionKey } = await deriveKeys(await importKey(key.buffer));
+
+        await expectAsync(crypto.subtle.decrypt({
+            additionalData: new TextEncoder().encode(JSON.stringify([ 'alice', '', encrypted.seq ])),
+            iv: base64js.toByteArray(encrypted.iv),
+            name: 'AES-GCM'
+        }, encryptionKey, base64js.toByteArray(encrypted.ciphertext))).toBeRejected();
+    });
+
+    it('fails without the key of the sender', async () => {
+        const encrypted = await sender.encrypt('alice', { text: 'hello' });
+
+        receiver.cleanup('alice');
+
+        await expectAsync(receiver.decrypt('alice', encrypted, 'bob'))
+            .toBeRejectedWithError(E2EEErrors.E2EE_ENDPOINT_MESSAGE_MISSING_KEY);
+    });
+});
@@ -0,0 +1,251 @@
+import base64js from 'base64-js';
+
+import { ICryptoKeyData } from './Context';
+import { E2EEErrors } from './E2EEErrors';
+import { deriveKeys, importKey, ratchet } from './crypto-utils';
+
+// Same as the media keys, see Context.ts.
+const KEYRING_SIZE = 16;
+const IV_LENGTH = 12;
+const RATCHET_WINDOW_SIZE = 8;
+
+// The HKDF info label of the endpoint message keys, so they differ from the media keys derived from the same material.
+const ENDPOINT_MESSAGE_KEY_INFO = 'JitsiEndpointMessage';
+
+/**
+ * The value of the type field of encrypted endpoint messages.
+ */
+export const ENCRYPTED_ENDPOINT_MESSAGE_TYPE = 'e2ee-endpoint-message';
+
+/**
+ * An endpoint message as seen by the bridge once encrypted.
+ */
+export interface IEncryptedEndpointMessage {
+    ciphertext: string;
+    iv: string;
+    keyIndex: number;
+
+    /**
+     * Increases with every message of the sender, so that a message cannot be replayed.
+     */
+    seq: number;
+
+    /**
+     * The ID of the recipient, empty for a broadcast message.
+     */
+    to: string;
+    type: typeof ENCRYPTED_ENDPOINT_MESSAGE_TYPE;
+}
+
+/**
+ * Encrypts and decrypts endpoint messages with keys derived from the media keys of the participants. The IDs of the
+ * sender and the recipient and the sequence number of the message are authenticated, so the bridge cannot attribute
+ * a message to someone else, deliver it to someone else or deliver it again.
+ */
+export class EndpointMessageCipher {
+    private _keyRings: Map<string, (ICryptoKeyData | false)[]>;
+    private _currentKeyIndexes: Map<string, number>;
+    private _lastSeqs: Map<string, number>;
+    private _seq: number;
+    private _textDecoder: TextDecoder;
+    private _textEncoder: TextEncoder;
+
+    /**
+     * Creates a cipher without any key.
+     */
+    constructor() {
+        this._keyRings = new Map();
+        this._currentKeyIndexes = new Map();
+        this._lastSeqs = new Map();
+        this._seq = 0;
+        this._textDecoder = new TextDecoder();
+        this._textEncoder = new TextEncoder();
+    }
+
+    /**
+     * Returns the additional data authenticated with a message.
+     *
+     * @param {string} participantId - The sender.
+     * @param {string} to - The recipient, empty for a broadcast message.
+     * @param {number} seq - The sequence number of the message.
+     * @returns {Uint8Array}
+     */
+    private _getAdditionalData(participantId: string, to: string, seq: number): Uint8Array {
+        return this._textEncoder.encode(JSON.stringify([ participantId, to, seq ]));
+    }
+
+    /**
+     * Returns the key ring of a participant, creating it if necessary.
+     *
+     * @param {string} participantId - The participant.
+     * @returns {Array}
+     */
+    private _getKeyRing(participantId: string): (ICryptoKeyData | false)[] {
+        if (!this._keyRings.has(participantId)) {
+            this._keyRings.set(participantId, new Array(KEYRING_SIZE));
+        }
+
+        return this._keyRings.get(participantId);
+    }
+
+    /**
+     * Decrypts a message, ratcheting the key of the sender when it does not match in case the sender advanced it.
+     *
+     * @param {string} participantId - The sender.
+     * @param {IEncryptedEndpointMessage} message - The encrypted message.
+     * @param {ICryptoKeyData} keyData - The key to try.
+     * @param {number} ratchetCount - How many times the key was ratcheted already.
+     * @returns {Promise<ArrayBuffer>} The plaintext.
+     */
+    private async _decrypt(
+            participantId: string,
+            message: IEncryptedEndpointMessage,
+            keyData: ICryptoKeyData,
+            ratchetCount = 0): Promise<ArrayBuffer> {
+        try {
+            const plainText = await crypto.subtle.decrypt({
+                additionalData: this._getAdditionalData(participantId, message.to, message.seq),
+                iv: base64js.toByteArray(message.iv),
+                name: 'AES-GCM'
+            }, keyData.encryptionKey, base64js.toByteArray(message.ciphertext));
+
+            // Keep the ratcheted key so the next messages decrypt on the first attempt.
+            if (ratchetCount) {
+                this._getKeyRing(participantId)[message.keyIndex % KEYRING_SIZE] = keyData;
+            }
+
+            return plainText;
+        } catch (error) {
+            if (ratchetCount >= RATCHET_WINDOW_SIZE) {
+                throw new Error(E2EEErrors.E2EE_ENDPOINT_MESSAGE_DECRYPTION_FAILED);
+            }
+
+            const material = await importKey(await ratchet(keyData.material));
+
+            return this._decrypt(
+                participantId, message, await deriveKeys(material, ENDPOINT_MESSAGE_KEY_INFO), ratchetCount + 1);
+        }
+    }
+
+    /**
+     * Sets the key of a participant.
+     *
+     * @param {string} participantId - The participant.
+     * @param {Uint8Array|false} key - The key bytes, false when the participant disabled E2EE.
+     * @param {number} keyIndex - The index of the key.
+     * @returns {Promise<void>}
+     */
+    async setKey(participantId: string, key: Uint8Array | false, keyIndex: number): Promise<void> {
+        let keyData: ICryptoKeyData | false = false;
+
+        if (key) {
+            const keyBuffer = new ArrayBuffer(key.length);
+
+            new Uint8Array(keyBuffer).set(key);
+            keyData = await deriveKeys(await importKey(keyBuffer), ENDPOINT_MESSAGE_KEY_INFO);
+        }
+
+        this._getKeyRing(participantId)[keyIndex % KEYRING_SIZE] = keyData;
+        this._currentKeyIndexes.set(participantId, keyIndex);
+    }
+
+    /**
+     * Removes the keys of a participant.
+     *
+     * @param {string} participantId - The participant.
+     * @returns {void}
+     */
+    cleanup(participantId: string): void {
+        this._keyRings.delete(participantId);
+        this._currentKeyIndexes.delete(participantId);
+        this._lastSeqs.delete(participantId);
+    }
+
+    /**
+     * Removes all the keys.
+     *
+     * @returns {void}
+     */
+    cleanupAll(): void {
+        this._keyRings.clear();
+        this._currentKeyIndexes.clear();
+        this._lastSeqs.clear();
+    }
+
+    /**
+     * Encrypts a message with the current key of the sender.
+     *
+     * @param {string} participantId - The sender, normally the local participant.
+     * @param {object} payload - The message.
+     * @param {string} [to] - The recipient, empty for a broadcast message.
+     * @returns {Promise<IEncryptedEndpointMessage>}
+     */
+    async encrypt(participantId: string, payload: object, to = ''): Promise<IEncryptedEndpointMessage> {
+        const keyIndex = this._currentKeyIndexes.get(participantId);
+        const keyData = keyIndex === undefined ? false : this._getKeyRing(participantId)[keyIndex % KEYRING_SIZE];
+
+        if (!keyData) {
+            throw new Error(E2EEErrors.E2EE_ENDPOINT_MESSAGE_MISSING_KEY);
+        }
+
+        // Based on the time, so that it keeps increasing if the cipher is created again, e.g. when E2EE is re-enabled.
+        const seq = this._seq = Math.max(Date.now(), this._seq + 1);
+        const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+        const cipherText = await crypto.subtle.encrypt({
+            additionalData: this._getAdditionalData(participantId, to, seq),
+            iv,
+            name: 'AES-GCM'
+        }, keyData.encryptionKey, this._textEncoder.encode(JSON.stringify(payload)));
+
+        return {
+            ciphertext: base64js.fromByteArray(new Uint8Array(cipherText)),
+            iv: base64js.fromByteArray(iv),
+            keyIndex,
+            seq,
+            to,
+            type: ENCRYPTED_ENDPOINT_MESSAGE_TYPE
+        };
+    }
+
+    /**
+     * Decrypts a message with the key of the sender. Messages for another recipient, and messages not newer than the
+     * last one received from the sender, are refused.
+     *
+     * @param {string} participantId - The sender.
+     * @param {IEncryptedEndpointMessage} message - The encrypted message.
+     * @param {string} localId - The ID of the local participant.
+     * @returns {Promise<object>} The original payload.
+     */
+    async decrypt(participantId: string, message: IEncryptedEndpointMessage, localId: string): Promise<object> {
+        const keyData = this._keyRings.get(participantId)?.[message.keyIndex % KEYRING_SIZE];
+
+        if (!keyData) {
+            throw new Error(E2EEErrors.E2EE_ENDPOINT_MESSAGE_MISSING_KEY);
+        }
+
+        if ((message.to !== '' && message.to !== localId) || !Number.isSafeInteger(message.seq)
+                || message.seq <= (this._lastSeqs.get(participantId) ?? -1)) {
+            throw new Error(E2EEErrors.E2EE_ENDPOINT_MESSAGE_DECRYPTION_FAILED);
+        }
+
+        const plainText = await this._decrypt(participantId, message, keyData);
+
+        this._lastSeqs.set(participantId, message.seq);
+
+        try {
+            return JSON.parse(this._textDecoder.decode(plainText));
+        } catch (error) {
+            throw new Error(E2EEErrors.E2EE_ENDPOINT_MESSAGE_DECRYPTION_FAILED);
+        }
+    }
+
+    /**
+     * Whether an endpoint message was encrypted by {@link encrypt}.
+     *
+     * @param {any} payload - The message.
+     * @returns {boolean}
+     */
+    static isEncrypted(payload: any): payload is IEncryptedEndpointMessage {
+        return payload?.type === ENCRYPTED_ENDPOINT_MESSAGE_TYPE;
+    }
+}
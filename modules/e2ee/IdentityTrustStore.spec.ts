@@ -0,0 +1,63 @@
+import { IdentityTrustStore } from './IdentityTrustStore';
+
+/**
+ * A Storage keeping the items in memory.
+ */
+function makeStorage(): Storage {
+    const items = new Map<string, string>();
+
+    return {
+        clear: () => items.clear(),
+        getItem: key => items.get(key) ?? null,
+        key: index => Array.from(items.keys())[index] ?? null,
+        get length() {
+            return items.size;
+        },
+        removeItem: key => items.delete(key),
+        setItem: (key, value) => items.set(key, value)
+    } as Storage;
+}
+
+describe('IdentityTrustStore', () => {
+    let storage: Storage;
+    let store: IdentityTrustStore;
+
+    beforeEach(() => {
+        storage = makeStorage();
+        store = new IdentityTrustStore(storage);
+    });
+
+    it('trusts the first key of a user', () => {
+        expect(store.checkKey('alice', 'key1')).toBeTrue();
+        expect(store.checkKey('alice', 'key1')).toBeTrue();
+        expect(store.getKeys('alice')).toEqual([ 'key1' ]);
+    });
+
+    it('reports a different key without trusting it', () => {
+        store.checkKey('alice', 'key1');
+
+        expect(store.checkKey('alice', 'key2')).toBeFalse();
+        expect(store.getKeys('alice')).toEqual([ 'key1' ]);
+    });
+
+    it('trusts the verified keys of all the devices of a user', () => {
+        store.checkKey('alice', 'key1');
+        store.addKey('alice', 'key2');
+
+        expect(store.checkKey('alice', 'key1')).toBeTrue();
+        expect(store.checkKey('alice', 'key2')).toBeTrue();
+        expect(store.checkKey('alice', 'key3')).toBeFalse();
+    });
+
+    it('keeps the keys across instances', () => {
+        store.checkKey('alice', 'key1');
+        store.addKey('alice', 'key2');
+
+        expect(new IdentityTrustStore(storage).getKeys('alice')).toEqual([ 'key1', 'key2' ]);
+        expect(new IdentityTrustStore(storage).checkKey('alice', 'key3')).toBeFalse();
+
+        store.clear();
+
+        expect(new IdentityTrustStore(storage).getKeys('alice')).toEqual([]);
+    });
+});
@@ -0,0 +1,103 @@
+import { safeJsonParse } from '@jitsi/js-utils/json';
+import { getLogger } from '@jitsi/logger';
+
+import Settings from '../settings/Settings';
+
+const logger = getLogger('e2ee:IdentityTrustStore');
+
+// The storage item which holds the identity keys.
+const STORAGE_KEY = 'e2ee.trustedIdentityKeys';
+
+/**
+ * A trust-on-first-use store of the curve25519 identity keys of the users, identified by the user ID of their JWT.
+ * The key is the one proven by the olm session with the participant, since the keys shown in presence can be copied.
+ * The first key seen for a user is trusted, a different key shown later is reported until it gets verified. A user
+ * joining from several devices ends up with one trusted key per device.
+ */
+export class IdentityTrustStore {
+    private _keys: Map<string, string[]>;
+    private _storage: Storage;
+
+    /**
+     * Loads the keys seen earlier.
+     *
+     * @param {Storage} [storage] - Where the keys are kept, the {@link Settings} storage when not set.
+     */
+    constructor(storage: Storage = Settings._storage) {
+        this._storage = storage;
+
+        const keys = safeJsonParse(this._storage.getItem(STORAGE_KEY) ?? '{}');
+
+        this._keys = new Map(keys && typeof keys === 'object'
+            ? Object.entries(keys).filter((entry): entry is [ string, string[] ] => Array.isArray(entry[1]))
+            : []);
+    }
+
+    /**
+     * Saves the keys.
+     *
+     * @returns {void}
+     */
+    private _save(): void {
+        try {
+            this._storage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(this._keys)));
+        } catch (error) {
+            logger.error('Failed to save the identity keys', error);
+        }
+    }
+
+    /**
+     * Trusts one more key for a user. Used once a user has been verified on a new device.
+     *
+     * @param {string} userId - The user ID from the JWT.
+     * @param {string} key - The curve25519 identity key.
+     * @returns {void}
+     */
+    addKey(userId: string, key: string): void {
+        const keys = this.getKeys(userId);
+
+        if (!keys.includes(key)) {
+            this._keys.set(userId, [ ...keys, key ]);
+            this._save();
+        }
+    }
+
+    /**
+     * Checks the key shown by a user, trusting it if the user was never seen before.
+     *
+     * @param {string} userId - The user ID from the JWT.
+     * @param {string} key - The curve25519 identity key.
+     * @returns {boolean} False if the user was seen with other keys only.
+     */
+    checkKey(userId: string, key: string): boolean {
+        const keys = this.getKeys(userId);
+
+        if (!keys.length) {
+            this.addKey(userId, key);
+
+            return true;
+        }
+
+        return keys.includes(key);
+    }
+
+    /**
+     * Forgets all the users.
+     *
+     * @returns {void}
+     */
+    clear(): void {
+        this._keys.clear();
+        this._storage.removeItem(STORAGE_KEY);
+    }
+
+    /**
+     * Returns the trusted keys of a user.
+     *
+     * @param {string} userId - The user ID from the JWT.
+     * @returns {string[]}
+     */
+    getKeys(userId: string): string[] {
+        return this._keys.get(userId) ?? [];
+    }
+}
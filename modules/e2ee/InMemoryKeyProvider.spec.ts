@@ -0,0 +1,49 @@
+import { InMemoryKeyProvider } from './InMemoryKeyProvider';
+
+describe('InMemoryKeyProvider', () => {
+    let provider: InMemoryKeyProvider;
+
+    beforeEach(() => {
+        provider = new InMemoryKeyProvider();
+    });
+
+    it('has no key before the first rotation', async () => {
+        expect(await provider.getKey('alice')).toBeUndefined();
+    });
+
+    it('makes the rotated key the current one', async () => {
+        const first = await provider.rotateKey('alice');
+        const second = await provider.rotateKey('alice');
+
+        expect(first.key.length).toBe(32);
+        expect(second.keyId).not.toBe(first.keyId);
+        expect(second.index).toBe(first.index + 1);
+        expect(await provider.getKey('alice')).toEqual(second);
+        expect(await provider.getKey('alice', first.keyId)).toEqual(first);
+        expect(await provider.getKey('bob')).toBeUndefined();
+    });
+
+    it('cycles through the key indexes', async () => {
+        let providedKey = await provider.rotateKey('alice');
+
+        for (let i = 0; i < 16; i++) {
+            providedKey = await provider.rotateKey('alice');
+        }
+
+        expect(providedKey.index).toBe(0);
+    });
+
+    it('does not hand out revoked keys', async () => {
+        const first = await provider.rotateKey('alice');
+        const second = await provider.rotateKey('alice');
+
+        await provider.revokeKey('alice', first.keyId);
+
+        expect(await provider.getKey('alice', first.keyId)).toBeUndefined();
+        expect(await provider.getKey('alice')).toEqual(second);
+
+        await provider.revokeKey('alice', second.keyId);
+
+        expect(await provider.getKey('alice')).toBeUndefined();
+    });
+});
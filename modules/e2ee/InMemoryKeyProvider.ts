@@ -0,0 +1,75 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import { IKeyProvider, IProvidedKey } from './KeyProvider';
+
+// Same as the number of keys each participant context keeps, see Context.ts.
+const KEYRING_SIZE = 16;
+
+/**
+ * A reference {@link IKeyProvider} which keeps the keys in memory. All the participants of a conference need to use
+ * the same instance, so it's only useful for tests and as an example for implementing a provider backed by a KMS.
+ */
+export class InMemoryKeyProvider implements IKeyProvider {
+    private _currentKeyIds: Map<string, string>;
+    private _keys: Map<string, Map<string, IProvidedKey>>;
+
+    /**
+     * Creates a provider without any key.
+     */
+    constructor() {
+        this._currentKeyIds = new Map();
+        this._keys = new Map();
+    }
+
+    /**
+     * Fetches a key of a participant.
+     *
+     * @param {string} participantId - The participant who owns the key.
+     * @param {string} [keyId] - The identifier of the key, the current key of the participant when not set.
+     * @returns {Promise<IProvidedKey|undefined>}
+     */
+    async getKey(participantId: string, keyId?: string): Promise<Optional<IProvidedKey>> {
+        const id = keyId ?? this._currentKeyIds.get(participantId);
+
+        return id === undefined ? undefined : this._keys.get(participantId)?.get(id);
+    }
+
+    /**
+     * Revokes a key.
+     *
+     * @param {string} participantId - The participant who owns the key.
+     * @param {string} keyId - The identifier of the key.
+     * @returns {Promise<void>}
+     */
+    async revokeKey(participantId: string, keyId: string): Promise<void> {
+        this._keys.get(participantId)?.delete(keyId);
+
+        if (this._currentKeyIds.get(participantId) === keyId) {
+            this._currentKeyIds.delete(participantId);
+        }
+    }
+
+    /**
+     * Creates a new random key for a participant.
+     *
+     * @param {string} participantId - The participant who will own the key.
+     * @returns {Promise<IProvidedKey>}
+     */
+    async rotateKey(participantId: string): Promise<IProvidedKey> {
+        const current = await this.getKey(participantId);
+        const providedKey = {
+            index: current ? (current.index + 1) % KEYRING_SIZE : 0,
+            key: crypto.getRandomValues(new Uint8Array(32)),
+            keyId: uuidv4()
+        };
+
+        if (!this._keys.has(participantId)) {
+            this._keys.set(participantId, new Map());
+        }
+
+        this._keys.get(participantId).set(providedKey.keyId, providedKey);
+        this._currentKeyIds.set(participantId, providedKey.keyId);
+
+        return providedKey;
+    }
+}
@@ -6,10 +6,16 @@ import browser from '../browser';
 import Deferred from '../util/Deferred';
 import Listenable from '../util/Listenable';
 
+import { FrameFormat } from './Context';
 import E2EEContext from './E2EEContext';
 
 const logger = getLogger('e2ee:KeyHandler');
 
+/**
+ * The presence property in which the layout of the encrypted frames is advertised.
+ */
+const FRAME_FORMAT_PROPERTY = 'e2ee.frameFormat';
+
 /**
  * Abstract class that integrates {@link E2EEContext} with a key management system.
  */
@@ -23,12 +29,18 @@ export class KeyHandler extends Listenable {
         super();
 
         this.conference = conference;
-        this.e2eeCtx = new E2EEContext(options);
+        this.e2eeCtx = new E2EEContext({
+            ...options,
+            onKeyExhausted: (participantId, keyIndex) => this._onKeyExhausted?.(participantId, keyIndex)
+        });
 
         this.enabled = false;
         this._enabling = undefined;
         this._firstEnable = false;
 
+        // The frame format is not advertised with a shared key, it's up to the application to set it everywhere.
+        this._frameFormat = options.sharedKey ? undefined : options.frameFormat ?? FrameFormat.JFRAME;
+
         // Conference media events in order to attach the encryptor / decryptor.
         // FIXME add events to TraceablePeerConnection which will allow to see when there's new receiver or sender
         // added instead of shenanigans around conference track events and track muted.
@@ -46,6 +58,12 @@ export class KeyHandler extends Listenable {
         this.conference.on(
             JitsiConferenceEvents.TRACK_MUTE_CHANGED,
             this._trackMuteChanged.bind(this));
+
+        if (this._frameFormat) {
+            this.conference.on(
+                JitsiConferenceEvents.PARTICIPANT_PROPERTY_CHANGED,
+                this._checkFrameFormat.bind(this));
+        }
     }
 
     /**
@@ -77,6 +95,15 @@ export class KeyHandler extends Listenable {
         this._setEnabled && await this._setEnabled(enabled);
 
         this.conference.setLocalParticipantProperty('e2ee.enabled', enabled);
+        this._frameFormat && this.conference.setLocalParticipantProperty(
+            FRAME_FORMAT_PROPERTY, enabled ? this._frameFormat : '');
+
+        if (enabled && this._frameFormat) {
+            for (const participant of this.conference.getParticipants()) {
+                this._checkFrameFormat(
+                    participant, FRAME_FORMAT_PROPERTY, undefined, participant.getProperty(FRAME_FORMAT_PROPERTY));
+            }
+        }
 
         // Only restart media sessions if E2EE is enabled. If it's later disabled
         // we'll continue to use the existing media sessions with an empty transform.
@@ -90,6 +117,26 @@ export class KeyHandler extends Listenable {
         this._enabling.resolve();
     }
 
+    /**
+     * Warns when a participant encrypts their frames with a different layout, their media cannot be decrypted then.
+     *
+     * @param {JitsiParticipant} participant - The participant.
+     * @param {string} name - The name of the property that changed.
+     * @param {*} oldValue - The property's previous value.
+     * @param {*} newValue - The property's new value.
+     * @private
+     */
+    _checkFrameFormat(participant, name, oldValue, newValue) {
+        if (name !== FRAME_FORMAT_PROPERTY || !this.enabled || !newValue || newValue === this._frameFormat) {
+            return;
+        }
+
+        logger.warn(`Participant ${participant.getId()} uses the ${newValue} frame format instead of `
+            + `${this._frameFormat}, their media cannot be decrypted`);
+        this.conference.eventEmitter.emit(
+            JitsiConferenceEvents.E2EE_FRAME_FORMAT_MISMATCH, participant.getId(), newValue);
+    }
+
     /**
      * Setup E2EE on the new track that has been added to the conference, apply it on all the open peerconnections.
      * @param {JitsiLocalTrack} track - the new track that's being added to the conference.
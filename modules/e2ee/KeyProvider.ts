@@ -0,0 +1,55 @@
+/**
+ * A media key handed out by an {@link IKeyProvider}.
+ */
+export interface IProvidedKey {
+
+    /**
+     * The index of the key, signalled in every encrypted frame. Only the 4 lower bits are used, so providers are
+     * expected to cycle through 0-15 as the keys of a participant are rotated.
+     */
+    index: number;
+
+    /**
+     * The raw key material, 256 bits.
+     */
+    key: Uint8Array;
+
+    /**
+     * The identifier of the key in the key management system. It is published in presence so other participants can
+     * fetch the key.
+     */
+    keyId: string;
+}
+
+/**
+ * A key management system which stores the media keys of the participants. Implement it to have the keys of a
+ * conference managed by an external KMS, and pass it as the e2ee.keyProvider config option.
+ */
+export interface IKeyProvider {
+
+    /**
+     * Fetches a key of a participant.
+     *
+     * @param {string} participantId - The participant who owns the key.
+     * @param {string} [keyId] - The identifier of the key, the current key of the participant when not set.
+     * @returns {Promise<IProvidedKey|undefined>} Undefined if there is no such key or it was revoked.
+     */
+    getKey: (participantId: string, keyId?: string) => Promise<Optional<IProvidedKey>>;
+
+    /**
+     * Revokes a key, which can no longer be fetched afterwards.
+     *
+     * @param {string} participantId - The participant who owns the key.
+     * @param {string} keyId - The identifier of the key.
+     * @returns {Promise<void>}
+     */
+    revokeKey: (participantId: string, keyId: string) => Promise<void>;
+
+    /**
+     * Creates a new key for a participant, which becomes their current key.
+     *
+     * @param {string} participantId - The participant who will own the key.
+     * @returns {Promise<IProvidedKey>}
+     */
+    rotateKey: (participantId: string) => Promise<IProvidedKey>;
+}
@@ -0,0 +1,72 @@
+/**
+ * What to do with the local media key when a {@link KeyRotationTrigger} happens.
+ */
+export enum KeyRotationAction {
+
+    /**
+     * Keep using the current key.
+     */
+    NONE = 'none',
+
+    /**
+     * Derive the next key from the current one. Receivers follow without the key being sent to them.
+     */
+    RATCHET = 'ratchet',
+
+    /**
+     * Generate a new random key and distribute it to all participants.
+     */
+    ROTATE = 'rotate'
+}
+
+/**
+ * The events which can advance the local media key.
+ */
+export enum KeyRotationTrigger {
+
+    /**
+     * E2EE was enabled and the first key was generated.
+     */
+    ENABLED = 'enabled',
+
+    /**
+     * The configured rotation interval elapsed.
+     */
+    INTERVAL = 'interval',
+
+    /**
+     * The current key encrypted the configured maximum number of frames.
+     */
+    MAX_FRAMES = 'max-frames',
+
+    /**
+     * A participant joined the conference.
+     */
+    PARTICIPANT_JOINED = 'participant-joined',
+
+    /**
+     * A participant left the conference.
+     */
+    PARTICIPANT_LEFT = 'participant-left'
+}
+
+/**
+ * Picks the action taken for each trigger. The first key generated when E2EE is enabled is not subject to the policy.
+ */
+export interface IKeyRotationPolicy {
+    [KeyRotationTrigger.INTERVAL]?: KeyRotationAction;
+    [KeyRotationTrigger.MAX_FRAMES]?: KeyRotationAction;
+    [KeyRotationTrigger.PARTICIPANT_JOINED]?: KeyRotationAction;
+    [KeyRotationTrigger.PARTICIPANT_LEFT]?: KeyRotationAction;
+}
+
+/**
+ * The policy used when none is configured. Joining participants cannot decrypt past media since the key is ratcheted
+ * and leaving participants cannot decrypt future media since the key is replaced.
+ */
+export const DEFAULT_KEY_ROTATION_POLICY: IKeyRotationPolicy = {
+    [KeyRotationTrigger.INTERVAL]: KeyRotationAction.ROTATE,
+    [KeyRotationTrigger.MAX_FRAMES]: KeyRotationAction.ROTATE,
+    [KeyRotationTrigger.PARTICIPANT_JOINED]: KeyRotationAction.RATCHET,
+    [KeyRotationTrigger.PARTICIPANT_LEFT]: KeyRotationAction.ROTATE
+};
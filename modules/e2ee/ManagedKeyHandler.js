@@ -1,9 +1,12 @@
 import { getLogger } from '@jitsi/logger';
 import { debounce } from 'lodash-es';
+import { v4 as uuidv4 } from 'uuid';
 
 import { JitsiConferenceEvents } from '../../JitsiConferenceEvents';
 
+import { EndpointMessageCipher } from './EndpointMessageCipher';
 import { KeyHandler } from './KeyHandler';
+import { DEFAULT_KEY_ROTATION_POLICY, KeyRotationAction, KeyRotationTrigger } from './KeyRotationPolicy';
 import { OlmAdapter } from './OlmAdapter';
 import { importKey, ratchet } from './crypto-utils';
 
@@ -19,14 +22,43 @@ const DEBOUNCE_PERIOD = 5000;
 export class ManagedKeyHandler extends KeyHandler {
     /**
      * Build a new AutomaticKeyHandler instance, which will be used in a given conference.
+     *
+     * @param {JitsiConference} conference - the current conference.
+     * @param {object} [options] - the key rotation, frame format and verification options.
+     * @param {FrameFormat} [options.frameFormat] - the layout of the encrypted frames.
+     * @param {number} [options.keyRotationInterval] - how often the key is advanced, in milliseconds.
+     * @param {IKeyRotationPolicy} [options.keyRotationPolicy] - the action taken for each trigger.
+     * @param {number} [options.maxFramesPerKey] - how many frames can be encrypted with a key before it's advanced.
+     * @param {boolean} [options.persistIdentity] - whether the identity keys are persisted and trusted on first use.
+     * @param {boolean} [options.rememberVerifiedParticipants] - whether verified participants are persisted.
+     * @param {string} [options.sasEmojiLanguage] - the language of the names of the SAS emojis.
+     * @param {SFrameCipherSuite} [options.sframeCipherSuite] - the cipher suite used with the SFrame format.
      */
-    constructor(conference) {
-        super(conference);
+    constructor(conference, options = {}) {
+        super(conference, {
+            frameFormat: options.frameFormat,
+            maxFramesPerKey: options.maxFramesPerKey,
+            sframeCipherSuite: options.sframeCipherSuite
+        });
 
         this._key = undefined;
         this._conferenceJoined = false;
-
-        this._olmAdapter = new OlmAdapter(conference);
+        this._keyRotationInterval = options.keyRotationInterval;
+        this._keyRotationTimer = undefined;
+        this._policy = {
+            ...DEFAULT_KEY_ROTATION_POLICY,
+            ...options.keyRotationPolicy
+        };
+
+        this._olmAdapter = new OlmAdapter(conference, {
+            persistIdentity: options.persistIdentity,
+            rememberVerifiedParticipants: options.rememberVerifiedParticipants,
+            sasEmojiLanguage: options.sasEmojiLanguage
+        });
+        this._endpointMessageCipher = new EndpointMessageCipher();
+
+        // Endpoint messages are encrypted and decrypted one at a time so they keep their order.
+        this._endpointMessageQueue = Promise.resolve();
 
         this._rotateKey = debounce(this._rotateKeyImpl, DEBOUNCE_PERIOD);
         this._ratchetKey = debounce(this._ratchetKeyImpl, DEBOUNCE_PERIOD);
@@ -36,6 +68,10 @@ export class ManagedKeyHandler extends KeyHandler {
             OlmAdapter.events.PARTICIPANT_KEY_UPDATED,
             this._onParticipantKeyUpdated.bind(this));
 
+        this._olmAdapter.on(
+            OlmAdapter.events.PARTICIPANT_CHAT_MESSAGE_RECEIVED,
+            this._onParticipantChatMessage.bind(this));
+
         this._olmAdapter.on(
             OlmAdapter.events.PARTICIPANT_SAS_READY,
             this._onParticipantSasReady.bind(this));
@@ -48,6 +84,10 @@ export class ManagedKeyHandler extends KeyHandler {
             OlmAdapter.events.PARTICIPANT_VERIFICATION_COMPLETED,
             this._onParticipantVerificationCompleted.bind(this));
 
+        this._olmAdapter.on(
+            OlmAdapter.events.PARTICIPANT_IDENTITY_KEY_CHANGED,
+            this._onParticipantIdentityKeyChanged.bind(this));
+
         this.conference.on(
             JitsiConferenceEvents.PARTICIPANT_PROPERTY_CHANGED,
             this._onParticipantPropertyChanged.bind(this));
@@ -62,6 +102,9 @@ export class ManagedKeyHandler extends KeyHandler {
                 () => {
                     this._conferenceJoined = true;
                 });
+        this.conference.on(
+                JitsiConferenceEvents.CONFERENCE_LEFT,
+                () => this._stopKeyRotationTimer());
     }
 
     /**
@@ -73,6 +116,28 @@ export class ManagedKeyHandler extends KeyHandler {
         return this._olmAdapter;
     }
 
+    /**
+     * Returns the action taken for each key rotation trigger.
+     *
+     * @returns {IKeyRotationPolicy}
+     */
+    getKeyRotationPolicy() {
+        return { ...this._policy };
+    }
+
+    /**
+     * Changes the action taken for some of the key rotation triggers.
+     *
+     * @param {IKeyRotationPolicy} policy - the actions to change.
+     * @returns {void}
+     */
+    setKeyRotationPolicy(policy) {
+        this._policy = {
+            ...this._policy,
+            ...policy
+        };
+    }
+
     /**
      * When E2EE is enabled it initializes sessions and sets the key.
      * Cleans up the sessions when disabled.
@@ -85,6 +150,7 @@ export class ManagedKeyHandler extends KeyHandler {
             await this._olmAdapter.initSessions();
         } else {
             this._olmAdapter.clearAllParticipantsSessions();
+            this._enqueueEndpointMessageTask(() => this._endpointMessageCipher.cleanupAll());
         }
 
         // Generate a random key in case we are enabling.
@@ -94,7 +160,132 @@ export class ManagedKeyHandler extends KeyHandler {
         const index = await this._olmAdapter.updateKey(this._key);
 
         // Set our key so we begin encrypting.
-        this.e2eeCtx.setKey(this.conference.myUserId(), this._key, index);
+        this._setLocalKey(index);
+
+        if (enabled) {
+            this._emitKeyChanged(KeyRotationAction.ROTATE, KeyRotationTrigger.ENABLED, index);
+            this._startKeyRotationTimer();
+        } else {
+            this._stopKeyRotationTimer();
+        }
+    }
+
+    /**
+     * Starts using the current local key for media and endpoint messages.
+     *
+     * @param {number} index - the index of the key.
+     * @returns {void}
+     * @private
+     */
+    _setLocalKey(index) {
+        const key = this._key;
+
+        this.e2eeCtx.setKey(this.conference.myUserId(), key, index);
+        this._enqueueEndpointMessageTask(
+            () => this._endpointMessageCipher.setKey(this.conference.myUserId(), key, index));
+    }
+
+    /**
+     * Runs a task once the previous endpoint message tasks completed.
+     *
+     * @param {Function} task - returns a promise.
+     * @returns {Promise}
+     * @private
+     */
+    _enqueueEndpointMessageTask(task) {
+        const result = this._endpointMessageQueue.then(task);
+
+        this._endpointMessageQueue = result.catch(() => undefined);
+
+        return result;
+    }
+
+    /**
+     * Starts advancing the key periodically, if configured.
+     *
+     * @returns {void}
+     * @private
+     */
+    _startKeyRotationTimer() {
+        this._stopKeyRotationTimer();
+
+        if (this._keyRotationInterval > 0) {
+            this._keyRotationTimer = setInterval(
+                () => this._applyPolicy(KeyRotationTrigger.INTERVAL, true),
+                this._keyRotationInterval);
+        }
+    }
+
+    /**
+     * Stops advancing the key periodically.
+     *
+     * @returns {void}
+     * @private
+     */
+    _stopKeyRotationTimer() {
+        clearInterval(this._keyRotationTimer);
+        this._keyRotationTimer = undefined;
+    }
+
+    /**
+     * Ratchets or rotates the key as the policy dictates for the given trigger.
+     *
+     * @param {KeyRotationTrigger} trigger - what happened.
+     * @param {boolean} [immediate] - whether to skip the debouncing used for membership changes.
+     * @returns {void}
+     * @private
+     */
+    _applyPolicy(trigger, immediate = false) {
+        if (!this.enabled) {
+            return;
+        }
+
+        switch (this._policy[trigger]) {
+        case KeyRotationAction.RATCHET:
+            immediate
+                ? this._ratchetKeyImpl(trigger).catch(e => logger.error('Failed to ratchet key', e))
+                : this._ratchetKey(trigger);
+            break;
+        case KeyRotationAction.ROTATE:
+            immediate
+                ? this._rotateKeyImpl(trigger).catch(e => logger.error('Failed to rotate key', e))
+                : this._rotateKey(trigger);
+            break;
+        }
+    }
+
+    /**
+     * Advances the key once our key encrypted the configured maximum number of frames.
+     *
+     * @param {string} participantId - the participant whose key was exhausted.
+     * @param {number} keyIndex - the index of the key.
+     * @returns {void}
+     * @private
+     */
+    _onKeyExhausted(participantId, keyIndex) {
+        if (participantId !== this.conference.myUserId()) {
+            return;
+        }
+
+        logger.info(`Key ${keyIndex} reached the maximum number of frames`);
+        this._applyPolicy(KeyRotationTrigger.MAX_FRAMES, true);
+    }
+
+    /**
+     * Notifies that the local key changed.
+     *
+     * @param {KeyRotationAction} action - whether the key was ratcheted or rotated.
+     * @param {KeyRotationTrigger} trigger - what caused the change.
+     * @param {number} index - the index of the new key.
+     * @returns {void}
+     * @private
+     */
+    _emitKeyChanged(action, trigger, index) {
+        this.conference.eventEmitter.emit(JitsiConferenceEvents.E2EE_KEY_CHANGED, {
+            action,
+            index,
+            trigger
+        });
     }
 
     /**
@@ -124,45 +315,47 @@ export class ManagedKeyHandler extends KeyHandler {
      * @private
      */
     _onParticipantJoined() {
-        if (this._conferenceJoined && this.enabled) {
-            this._ratchetKey();
+        if (this._conferenceJoined) {
+            this._applyPolicy(KeyRotationTrigger.PARTICIPANT_JOINED);
         }
     }
 
     /**
-     * Rotates the current key when a participant leaves the conference.
+     * Advances the current key when a participant leaves the conference, rotating it by default.
      * @private
      */
     _onParticipantLeft(id) {
         this.e2eeCtx.cleanup(id);
+        this._enqueueEndpointMessageTask(() => this._endpointMessageCipher.cleanup(id));
 
-        if (this.enabled) {
-            this._rotateKey();
-        }
+        this._applyPolicy(KeyRotationTrigger.PARTICIPANT_LEFT);
     }
 
     /**
      * Rotates the local key. Rotating the key implies creating a new one, then distributing it
      * to all participants and once they all received it, start using it.
      *
+     * @param {KeyRotationTrigger} trigger - what caused the rotation.
      * @private
      */
-    async _rotateKeyImpl() {
-        logger.debug('Rotating key');
+    async _rotateKeyImpl(trigger) {
+        logger.debug(`Rotating key, trigger: ${trigger}`);
 
         this._key = this._generateKey();
         const index = await this._olmAdapter.updateKey(this._key);
 
-        this.e2eeCtx.setKey(this.conference.myUserId(), this._key, index);
+        this._setLocalKey(index);
+        this._emitKeyChanged(KeyRotationAction.ROTATE, trigger, index);
     }
 
     /**
      * Advances the current key by using ratcheting.
      *
+     * @param {KeyRotationTrigger} trigger - what caused the ratchet.
      * @private
      */
-    async _ratchetKeyImpl() {
-        logger.debug('Ratchetting key');
+    async _ratchetKeyImpl(trigger) {
+        logger.debug(`Ratchetting key, trigger: ${trigger}`);
 
         const material = await importKey(this._key);
         const newKey = await ratchet(material);
@@ -171,7 +364,8 @@ export class ManagedKeyHandler extends KeyHandler {
 
         const index = this._olmAdapter.updateCurrentMediaKey(this._key);
 
-        this.e2eeCtx.setKey(this.conference.myUserId(), this._key, index);
+        this._setLocalKey(index);
+        this._emitKeyChanged(KeyRotationAction.RATCHET, trigger, index);
     }
 
     /**
@@ -186,6 +380,112 @@ export class ManagedKeyHandler extends KeyHandler {
         logger.debug(`Participant ${id} updated their key`);
 
         this.e2eeCtx.setKey(id, key, index);
+        this._enqueueEndpointMessageTask(() => this._endpointMessageCipher.setKey(id, key, index));
+    }
+
+    /**
+     * Encrypts an endpoint message with the local key.
+     *
+     * @param {object} payload - the message.
+     * @param {string} to - the ID of the recipient, empty for a broadcast message.
+     * @returns {Promise<IEncryptedEndpointMessage>}
+     */
+    encryptEndpointMessage(payload, to) {
+        return this._enqueueEndpointMessageTask(
+            () => this._endpointMessageCipher.encrypt(this.conference.myUserId(), payload, to));
+    }
+
+    /**
+     * Decrypts an endpoint message with the key of its sender.
+     *
+     * @param {string} participantId - the sender.
+     * @param {IEncryptedEndpointMessage} message - the encrypted message.
+     * @returns {Promise<object>}
+     */
+    decryptEndpointMessage(participantId, message) {
+        return this._enqueueEndpointMessageTask(
+            () => this._endpointMessageCipher.decrypt(participantId, message, this.conference.myUserId()));
+    }
+
+    /**
+     * Handles a chat message received through an olm session.
+     *
+     * @param {string} pId - The participant ID.
+     * @param {object} chat - The decrypted message.
+     * @private
+     */
+    _onParticipantChatMessage(pId, { isPrivate, message, messageId, replyToId }) {
+        const participant = this.conference.getParticipantById(pId);
+        const displayName = participant?.getDisplayName();
+
+        // Keep track of the message like the ones received through the MUC, for receipts and threads.
+        messageId && participant && this.conference.room?.getChatMessages().add({
+            from: participant.getJid(),
+            isPrivate: Boolean(isPrivate),
+            messageId,
+            replyToId,
+            text: message
+        });
+
+        if (isPrivate) {
+            this.conference.eventEmitter.emit(JitsiConferenceEvents.PRIVATE_MESSAGE_RECEIVED,
+                pId, message, undefined, messageId, displayName, false, replyToId, true);
+        } else {
+            this.conference.eventEmitter.emit(JitsiConferenceEvents.MESSAGE_RECEIVED,
+                pId, message, undefined, displayName, false, messageId, undefined, replyToId, true);
+        }
+    }
+
+    /**
+     * Sends a chat message encrypted for each recipient with their olm session. Participants without a session don't
+     * get the message and are reported with {@link JitsiConferenceEvents.E2EE_CHAT_MESSAGE_NOT_DELIVERED}.
+     *
+     * @param {string} message - The text of the message.
+     * @param {string} [to] - The ID of the recipient of a private message, the message goes to everyone when not set.
+     * @param {string} [replyToId] - The ID of the message being replied to.
+     * @param {string} [messageId] - The ID of the message.
+     * @returns {void}
+     */
+    sendChatMessage(message, to, replyToId, messageId = uuidv4()) {
+        const participants = to
+            ? [ this.conference.getParticipantById(to) ].filter(Boolean)
+            : this.conference.getParticipants();
+        const undelivered = this._olmAdapter.sendChatMessage({
+            isPrivate: Boolean(to),
+            message,
+            messageId,
+            replyToId
+        }, participants);
+
+        if (to && !participants.length) {
+            undelivered.push(to);
+        }
+
+        const room = this.conference.room;
+
+        // The message is not sent through the MUC, so do its bookkeeping here.
+        if (room) {
+            room.getChatStates().onMessageSent(to || undefined);
+            room.getChatMessages().add({
+                from: room.myroomjid,
+                isPrivate: Boolean(to),
+                messageId,
+                replyToId,
+                text: message
+            });
+        }
+
+        // Group messages are not echoed back by the MUC, so emit ours the way it would.
+        if (!to) {
+            this.conference.eventEmitter.emit(JitsiConferenceEvents.MESSAGE_RECEIVED, this.conference.myUserId(),
+                message, undefined, undefined, false, messageId, undefined, replyToId, true);
+        }
+
+        if (undelivered.length) {
+            logger.warn(`Encrypted chat message ${messageId} not delivered to ${undelivered.join(', ')}`);
+            this.conference.eventEmitter.emit(
+                JitsiConferenceEvents.E2EE_CHAT_MESSAGE_NOT_DELIVERED, messageId, undelivered);
+        }
     }
 
     /**
@@ -220,6 +520,17 @@ export class ManagedKeyHandler extends KeyHandler {
         this.conference.eventEmitter.emit(JitsiConferenceEvents.E2EE_VERIFICATION_COMPLETED, pId, success, message);
     }
 
+    /**
+     * Handles a user showing up with a different identity key.
+     *
+     * @param {string} pId - The participant ID.
+     * @param {string} userId - The user ID from the JWT.
+     * @private
+     */
+    _onParticipantIdentityKeyChanged(pId, userId) {
+        this.conference.eventEmitter.emit(JitsiConferenceEvents.PARTICIPANT_IDENTITY_KEY_CHANGED, pId, userId);
+    }
+
     /**
      * Generates a new 256 bit random key.
      *
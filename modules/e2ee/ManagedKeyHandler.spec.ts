@@ -0,0 +1,304 @@
+import { JitsiConferenceEvents } from '../../JitsiConferenceEvents';
+import EventEmitter from '../util/EventEmitter';
+import ChatMessages from '../xmpp/ChatMessages';
+
+import { KeyRotationAction, KeyRotationTrigger } from './KeyRotationPolicy';
+import { ManagedKeyHandler } from './ManagedKeyHandler';
+import { OlmAdapter } from './OlmAdapter';
+
+const KEY_ROTATION_INTERVAL = 60000;
+
+/**
+ * A remote participant.
+ */
+class MockParticipant {
+    id: string;
+    supportsE2EE: boolean;
+
+    /**
+     * @param {string} id - The ID of the participant.
+     * @param {boolean} supportsE2EE - Whether the participant supports E2EE.
+     */
+    constructor(id: string, supportsE2EE = true) {
+        this.id = id;
+        this.supportsE2EE = supportsE2EE;
+    }
+
+    /**
+     * Returns the display name.
+     */
+    getDisplayName() {
+        return this.id.toUpperCase();
+    }
+
+    /**
+     * Returns the ID.
+     */
+    getId() {
+        return this.id;
+    }
+
+    /**
+     * Returns the MUC jid.
+     */
+    getJid() {
+        return `room@muc/${this.id}`;
+    }
+
+    /**
+     * Only E2EE is checked.
+     */
+    hasFeature() {
+        return this.supportsE2EE;
+    }
+}
+
+/**
+ * A conference, with no other participants unless added by the test.
+ */
+class MockConference extends EventEmitter {
+    eventEmitter = this;
+    participants: MockParticipant[] = [];
+    room = {
+        chatMessages: new ChatMessages(),
+        chatStates: jasmine.createSpyObj('ChatStates', [ 'onMessageSent' ]),
+        getChatMessages() {
+            return this.chatMessages;
+        },
+        getChatStates() {
+            return this.chatStates;
+        },
+        myroomjid: 'room@muc/me'
+    };
+    rtc = new EventEmitter();
+
+    /**
+     * There are no media sessions.
+     */
+    getMediaSessions() {
+        return [];
+    }
+
+    /**
+     * Returns a participant.
+     */
+    getParticipantById(id: string) {
+        return this.participants.find(p => p.getId() === id);
+    }
+
+    /**
+     * Returns the other participants.
+     */
+    getParticipants() {
+        return this.participants;
+    }
+
+    /**
+     * The ID of the local participant.
+     */
+    myUserId() {
+        return 'me';
+    }
+
+    /**
+     * Media sessions are not restarted.
+     */
+    _restartMediaSessions() {} // eslint-disable-line @typescript-eslint/no-empty-function
+
+    /**
+     * Presence is not sent.
+     */
+    setLocalParticipantProperty() {} // eslint-disable-line @typescript-eslint/no-empty-function
+}
+
+describe('ManagedKeyHandler', () => {
+    let conference: MockConference;
+    let ratchetSpy: jasmine.Spy;
+    let rotateSpy: jasmine.Spy;
+    let worker: { onmessage?: (event: object) => void; postMessage: jasmine.Spy; };
+
+    /**
+     * Makes the given trigger happen.
+     */
+    const triggers: Record<string, () => void> = {
+        [KeyRotationTrigger.INTERVAL]: () => jasmine.clock().tick(KEY_ROTATION_INTERVAL),
+        [KeyRotationTrigger.MAX_FRAMES]: () => worker.onmessage({
+            data: {
+                keyIndex: 0,
+                operation: 'keyExhausted',
+                participantId: 'me'
+            }
+        }),
+        [KeyRotationTrigger.PARTICIPANT_JOINED]: () => {
+            conference.emit(JitsiConferenceEvents.USER_JOINED, 'bob');
+            jasmine.clock().tick(5000);
+        },
+        [KeyRotationTrigger.PARTICIPANT_LEFT]: () => {
+            conference.emit(JitsiConferenceEvents.USER_LEFT, 'bob', { getId: () => 'bob' });
+            jasmine.clock().tick(5000);
+        }
+    };
+
+    /**
+     * Creates a handler with the given policy and enables E2EE.
+     */
+    async function createHandler(keyRotationPolicy: object) {
+        const handler = new ManagedKeyHandler(conference, {
+            keyRotationInterval: KEY_ROTATION_INTERVAL,
+            keyRotationPolicy
+        });
+
+        conference.emit(JitsiConferenceEvents.CONFERENCE_JOINED);
+        await handler.setEnabled(true);
+
+        return handler;
+    }
+
+    beforeEach(() => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date(2024, 0, 1));
+
+        conference = new MockConference();
+        worker = { postMessage: jasmine.createSpy('postMessage') };
+        spyOn(window, 'Worker').and.returnValue(worker as unknown as Worker);
+        spyOn(OlmAdapter, 'isSupported').and.returnValue(true);
+        spyOn(OlmAdapter.prototype as any, '_bootstrapOlm');
+        spyOn(OlmAdapter.prototype, 'initSessions').and.resolveTo();
+        spyOn(OlmAdapter.prototype, 'updateKey').and.resolveTo(0);
+        ratchetSpy = spyOn(ManagedKeyHandler.prototype as any, '_ratchetKeyImpl').and.resolveTo();
+        rotateSpy = spyOn(ManagedKeyHandler.prototype as any, '_rotateKeyImpl').and.resolveTo();
+    });
+
+    afterEach(() => {
+        jasmine.clock().uninstall();
+    });
+
+    for (const trigger of Object.keys(triggers)) {
+        for (const action of [ KeyRotationAction.NONE, KeyRotationAction.RATCHET, KeyRotationAction.ROTATE ]) {
+            it(`takes the ${action} action on ${trigger}`, async () => {
+                await createHandler({ [trigger]: action });
+                triggers[trigger]();
+
+                expect(ratchetSpy.calls.allArgs()).toEqual(action === KeyRotationAction.RATCHET ? [ [ trigger ] ] : []);
+                expect(rotateSpy.calls.allArgs()).toEqual(action === KeyRotationAction.ROTATE ? [ [ trigger ] ] : []);
+            });
+        }
+    }
+
+    it('applies the policy changed while enabled', async () => {
+        const handler = await createHandler({ [KeyRotationTrigger.PARTICIPANT_LEFT]: KeyRotationAction.ROTATE });
+
+        handler.setKeyRotationPolicy({ [KeyRotationTrigger.PARTICIPANT_LEFT]: KeyRotationAction.RATCHET });
+        triggers[KeyRotationTrigger.PARTICIPANT_LEFT]();
+
+        expect(ratchetSpy).toHaveBeenCalledOnceWith(KeyRotationTrigger.PARTICIPANT_LEFT);
+        expect(rotateSpy).not.toHaveBeenCalled();
+        expect(handler.getKeyRotationPolicy()[KeyRotationTrigger.PARTICIPANT_JOINED])
+            .toBe(KeyRotationAction.RATCHET);
+    });
+
+    it('ignores the exhausted keys of the other participants', async () => {
+        await createHandler({ [KeyRotationTrigger.MAX_FRAMES]: KeyRotationAction.ROTATE });
+        worker.onmessage({
+            data: {
+                keyIndex: 0,
+                operation: 'keyExhausted',
+                participantId: 'bob'
+            }
+        });
+
+        expect(rotateSpy).not.toHaveBeenCalled();
+    });
+
+    it('does not advance the key while disabled', async () => {
+        const handler = await createHandler({ [KeyRotationTrigger.PARTICIPANT_LEFT]: KeyRotationAction.ROTATE });
+
+        await handler.setEnabled(false);
+        triggers[KeyRotationTrigger.INTERVAL]();
+        triggers[KeyRotationTrigger.PARTICIPANT_LEFT]();
+
+        expect(rotateSpy).not.toHaveBeenCalled();
+    });
+
+    describe('encrypted chat', () => {
+        let emitSpy: jasmine.Spy;
+        let handler: ManagedKeyHandler;
+
+        beforeEach(() => {
+            conference.participants = [ new MockParticipant('bob'), new MockParticipant('carol') ];
+            handler = new ManagedKeyHandler(conference);
+            emitSpy = spyOn(conference, 'emit').and.callThrough();
+        });
+
+        it('sends group messages through the olm sessions and tracks them', () => {
+            const sendSpy = spyOn(OlmAdapter.prototype, 'sendChatMessage').and.returnValue([]);
+
+            handler.sendChatMessage('hello', undefined, undefined, 'm1');
+            handler.sendChatMessage('reply', undefined, 'm1', 'm2');
+
+            expect(sendSpy).toHaveBeenCalledWith({
+                isPrivate: false,
+                message: 'reply',
+                messageId: 'm2',
+                replyToId: 'm1'
+            }, conference.participants);
+            expect(emitSpy).toHaveBeenCalledWith(JitsiConferenceEvents.MESSAGE_RECEIVED,
+                'me', 'hello', undefined, undefined, false, 'm1', undefined, undefined, true);
+            expect(conference.room.chatStates.onMessageSent).toHaveBeenCalledWith(undefined);
+            expect(conference.room.chatMessages.getThread('m2').map(({ from, text }) => [ from, text ])).toEqual([
+                [ 'room@muc/me', 'hello' ],
+                [ 'room@muc/me', 'reply' ]
+            ]);
+        });
+
+        it('sends private messages to the recipient only', () => {
+            const sendSpy = spyOn(OlmAdapter.prototype, 'sendChatMessage').and.returnValue([]);
+
+            handler.sendChatMessage('psst', 'bob', undefined, 'm1');
+
+            expect(sendSpy).toHaveBeenCalledOnceWith(jasmine.objectContaining({ isPrivate: true }),
+                [ conference.participants[0] ]);
+            expect(emitSpy.calls.allArgs().map(([ event ]) => event))
+                .not.toContain(JitsiConferenceEvents.MESSAGE_RECEIVED);
+            expect(conference.room.chatStates.onMessageSent).toHaveBeenCalledOnceWith('bob');
+            expect(conference.room.chatMessages.get('m1').isPrivate).toBeTrue();
+        });
+
+        it('reports the recipients without an olm session', () => {
+            conference.participants.push(new MockParticipant('dave', false));
+            handler.sendChatMessage('hello', undefined, undefined, 'm1');
+            handler.sendChatMessage('psst', 'erin', undefined, 'm2');
+
+            expect(emitSpy).toHaveBeenCalledWith(
+                JitsiConferenceEvents.E2EE_CHAT_MESSAGE_NOT_DELIVERED, 'm1', [ 'bob', 'carol', 'dave' ]);
+            expect(emitSpy).toHaveBeenCalledWith(
+                JitsiConferenceEvents.E2EE_CHAT_MESSAGE_NOT_DELIVERED, 'm2', [ 'erin' ]);
+        });
+
+        it('emits and tracks the received messages', () => {
+            const olmAdapter = handler.sasVerification as OlmAdapter;
+
+            olmAdapter.eventEmitter.emit(OlmAdapter.events.PARTICIPANT_CHAT_MESSAGE_RECEIVED, 'bob', {
+                isPrivate: false,
+                message: 'hello',
+                messageId: 'm1'
+            });
+            olmAdapter.eventEmitter.emit(OlmAdapter.events.PARTICIPANT_CHAT_MESSAGE_RECEIVED, 'carol', {
+                isPrivate: true,
+                message: 'psst',
+                messageId: 'm2',
+                replyToId: 'm1'
+            });
+
+            expect(emitSpy).toHaveBeenCalledWith(JitsiConferenceEvents.MESSAGE_RECEIVED,
+                'bob', 'hello', undefined, 'BOB', false, 'm1', undefined, undefined, true);
+            expect(emitSpy).toHaveBeenCalledWith(JitsiConferenceEvents.PRIVATE_MESSAGE_RECEIVED,
+                'carol', 'psst', undefined, 'm2', 'CAROL', false, 'm1', true);
+            expect(conference.room.chatMessages.getThread('m1').map(({ from, isPrivate }) => [ from, isPrivate ]))
+                .toEqual([
+                    [ 'room@muc/bob', false ],
+                    [ 'room@muc/carol', true ]
+                ]);
+        });
+    });
+});
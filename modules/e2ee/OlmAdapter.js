@@ -7,18 +7,22 @@ import { isEqual } from 'lodash-es';
 import { v4 as uuidv4 } from 'uuid';
 
 import { JitsiConferenceEvents } from '../../JitsiConferenceEvents';
+import Settings from '../settings/Settings';
 import Deferred from '../util/Deferred';
 import Listenable from '../util/Listenable';
 import { FEATURE_E2EE, JITSI_MEET_MUC_TYPE } from '../xmpp/xmpp';
 
 import { E2EEErrors } from './E2EEErrors';
-import { generateSas } from './SAS';
+import { IdentityTrustStore } from './IdentityTrustStore';
+import { generateQrPayload, generateSas, parseQrPayload } from './SAS';
+import { VerifiedKeyStore } from './VerifiedKeyStore';
 
 const logger = getLogger('e2ee:OlmAdapter');
 
 const REQ_TIMEOUT = 5 * 1000;
 const OLM_MESSAGE_TYPE = 'olm';
 const OLM_MESSAGE_TYPES = {
+    CHAT: 'chat',
     ERROR: 'error',
     KEY_INFO: 'key-info',
     KEY_INFO_ACK: 'key-info-ack',
@@ -34,10 +38,18 @@ const OLM_SAS_NUM_BYTES = 6;
 const OLM_KEY_VERIFICATION_MAC_INFO = 'Jitsi-KEY_VERIFICATION_MAC';
 const OLM_KEY_VERIFICATION_MAC_KEY_IDS = 'Jitsi-KEY_IDS';
 
+// The storage item which holds the pickled Olm account, when the identity is persisted.
+const OLM_ACCOUNT_STORAGE_KEY = 'e2ee.olmAccount';
+
+// The account is kept in local storage, which is already trusted, so the pickle key adds no protection.
+const OLM_ACCOUNT_PICKLE_KEY = 'jitsi-e2ee';
+
 const kOlmData = Symbol('OlmData');
 
 const OlmAdapterEvents = {
+    PARTICIPANT_CHAT_MESSAGE_RECEIVED: 'olm.participant_chat_message_received',
     PARTICIPANT_E2EE_CHANNEL_READY: 'olm.participant_e2ee_channel_ready',
+    PARTICIPANT_IDENTITY_KEY_CHANGED: 'olm.participant_identity_key_changed',
     PARTICIPANT_KEY_UPDATED: 'olm.partitipant_key_updated',
     PARTICIPANT_SAS_AVAILABLE: 'olm.participant_sas_available',
     PARTICIPANT_SAS_READY: 'olm.participant_sas_ready',
@@ -55,10 +67,12 @@ const OlmAdapterEvents = {
  * - session-init: Initiates an olm session establishment procedure. This message will be sent
  *                 by the participant who just joined, to everyone else.
  * - session-ack: Completes the olm session etablishment. This messsage may contain ancilliary
- *                encrypted data, more specifically the sender's current key.
+ *                encrypted data, more specifically the sender's current key. It includes the sender's
+ *                curve25519 identity key, which the olm session gets bound to.
  * - key-info: Includes the sender's most up to date key information.
  * - key-info-ack: Acknowledges the reception of a key-info request. In addition, it may contain
  *                 the sender's key information, if available.
+ * - chat: Includes a chat message, encrypted separately for every recipient.
  * - error: Indicates a request processing error has occurred.
  *
  * These requessts and responses are transport independent. Currently they are sent using XMPP
@@ -67,11 +81,23 @@ const OlmAdapterEvents = {
 export class OlmAdapter extends Listenable {
     /**
      * Creates an adapter instance for the given conference.
+     *
+     * @param {JitsiConference} conference - the current conference.
+     * @param {object} [options] - the identity and verification options.
+     * @param {boolean} [options.persistIdentity] - whether the local identity keys are persisted and the identity keys
+     * of the other users are trusted on first use, a different key shown later by a user is reported.
+     * @param {boolean} [options.rememberVerifiedParticipants] - whether the local identity keys and the keys of the
+     * verified participants are persisted, so participants don't need to be verified again in later meetings.
+     * @param {string} [options.sasEmojiLanguage] - the language of the names of the SAS emojis.
      */
-    constructor(conference) {
+    constructor(conference, options = {}) {
         super();
 
         this._conf = conference;
+        this._persistIdentity = Boolean(options.persistIdentity || options.rememberVerifiedParticipants);
+        this._sasEmojiLanguage = options.sasEmojiLanguage;
+        this._trustStore = options.persistIdentity ? new IdentityTrustStore() : undefined;
+        this._verifiedKeys = options.rememberVerifiedParticipants ? new VerifiedKeyStore() : undefined;
         this._init = new Deferred();
         this._mediaKey = undefined;
         this._mediaKeyIndex = -1;
@@ -206,6 +232,42 @@ export class OlmAdapter extends Listenable {
         return this._mediaKeyIndex;
     }
 
+    /**
+     * Sends a chat message to the given participants through their olm sessions.
+     *
+     * @param {object} chat - The message, with the text and the metadata of the chat message.
+     * @param {Array<JitsiParticipant>} participants - The recipients.
+     * @returns {Array<string>} The IDs of the recipients which could not receive the message because they don't
+     * support E2EE or we have no session with them.
+     */
+    sendChatMessage(chat, participants) {
+        const undelivered = [];
+
+        for (const participant of participants) {
+            const pId = participant.getId();
+            const olmData = this._getParticipantOlmData(participant);
+
+            if (!participant.hasFeature(FEATURE_E2EE) || !olmData.session) {
+                undelivered.push(pId);
+
+                // eslint-disable-next-line no-continue
+                continue;
+            }
+
+            this._sendMessage({
+                [JITSI_MEET_MUC_TYPE]: OLM_MESSAGE_TYPE,
+                olm: {
+                    data: {
+                        ciphertext: olmData.session.encrypt(JSON.stringify(chat))
+                    },
+                    type: OLM_MESSAGE_TYPES.CHAT
+                }
+            }, pId);
+        }
+
+        return undelivered;
+    }
+
     /**
      * Frees the olmData session for the given participant.
      *
@@ -217,6 +279,9 @@ export class OlmAdapter extends Listenable {
             olmData.session.free();
             olmData.session = undefined;
         }
+
+        olmData.curve25519 = undefined;
+        olmData.sessionIdKey = undefined;
     }
 
     /**
@@ -284,7 +349,16 @@ export class OlmAdapter extends Listenable {
             await Olm.init();
 
             this._olmAccount = new Olm.Account();
-            this._olmAccount.create();
+
+            const pickledAccount = this._persistIdentity && Settings._storage.getItem(OLM_ACCOUNT_STORAGE_KEY);
+
+            if (pickledAccount) {
+                this._olmAccount.unpickle(OLM_ACCOUNT_PICKLE_KEY, pickledAccount);
+            } else {
+                this._olmAccount.create();
+                this._persistIdentity && Settings._storage.setItem(
+                    OLM_ACCOUNT_STORAGE_KEY, this._olmAccount.pickle(OLM_ACCOUNT_PICKLE_KEY));
+            }
 
             this._idKeys = _safeJsonParse(this._olmAccount.identity_keys());
 
@@ -364,6 +438,119 @@ export class OlmAdapter extends Listenable {
         this._sendMessage(startMessage, pId);
     }
 
+    /**
+     * Checks the QR code shown by a participant during a verification, as an alternative to comparing the SAS. The
+     * participant is marked as verified when it matches.
+     *
+     * @param {JitsiParticipant} participant - The participant who shows the code.
+     * @param {string} qrPayload - The string read from the code.
+     * @returns {void}
+     */
+    verifyQrCode(participant, qrPayload) {
+        const pId = participant.getId();
+        const olmData = this._getParticipantOlmData(participant);
+        const { sasBytes, transactionId } = olmData.sasVerification ?? {};
+
+        if (!sasBytes) {
+            logger.warn(`Participant ${pId} does not have a verification ready`);
+            this.eventEmitter.emit(
+                OlmAdapterEvents.PARTICIPANT_VERIFICATION_COMPLETED,
+                pId,
+                false,
+                E2EEErrors.E2EE_SAS_INVALID_SAS_VERIFICATION);
+
+            return;
+        }
+
+        const payload = parseQrPayload(qrPayload);
+
+        if (payload?.participantId !== pId
+                || payload.transactionId !== transactionId
+                || payload.ownKey !== olmData.ed25519
+                || payload.theirKey !== this._idKeys.ed25519
+                || payload.secret !== base64js.fromByteArray(sasBytes)) {
+            logger.warn(`QR code of participant ${pId} does not match`);
+            olmData.sasVerification = undefined;
+            this.eventEmitter.emit(
+                OlmAdapterEvents.PARTICIPANT_VERIFICATION_COMPLETED,
+                pId,
+                false,
+                E2EEErrors.E2EE_SAS_QR_CODE_MISMATCH);
+
+            return;
+        }
+
+        this.markParticipantVerified(participant, true);
+    }
+
+    /**
+     * Forgets the participants verified in earlier meetings and the identity keys trusted on first use.
+     *
+     * @returns {void}
+     */
+    clearVerifiedParticipants() {
+        this._verifiedKeys?.clear();
+        this._trustStore?.clear();
+    }
+
+    /**
+     * Checks the identity key of a participant against the ones seen earlier for the same user.
+     *
+     * @param {JitsiParticipant} participant - The participant.
+     * @param {string} key - The curve25519 identity key proven by the olm session with the participant.
+     * @returns {void}
+     * @private
+     */
+    _checkIdentityKey(participant, key) {
+        const userId = participant.getIdentity()?.user?.id;
+
+        if (!this._trustStore || !userId || this._trustStore.checkKey(userId, key)) {
+            return;
+        }
+
+        logger.warn(`User ${userId} shows an unknown identity key, participant ${participant.getId()}`);
+        this.eventEmitter.emit(OlmAdapterEvents.PARTICIPANT_IDENTITY_KEY_CHANGED, participant.getId(), userId);
+    }
+
+    /**
+     * Reports a participant verified in an earlier meeting. The ed25519 key shown in presence can be copied by anyone,
+     * so it only counts along with the curve25519 key the participant proved to own in the olm session.
+     *
+     * @param {JitsiParticipant} participant - The participant.
+     * @returns {void}
+     * @private
+     */
+    _checkVerifiedKeys(participant) {
+        const { curve25519, ed25519 } = this._getParticipantOlmData(participant);
+
+        if (curve25519 && ed25519 && this._verifiedKeys?.has(ed25519, curve25519)) {
+            logger.info(`Participant ${participant.getId()} was verified in an earlier meeting`);
+            this.eventEmitter.emit(OlmAdapterEvents.PARTICIPANT_VERIFICATION_COMPLETED, participant.getId(), true);
+        }
+    }
+
+    /**
+     * Decrypts a message received in the olm session with a participant. Only the owner of the curve25519 key the
+     * session was created with can send such a message, so the key is proven once the first one is decrypted.
+     *
+     * @param {JitsiParticipant} participant - The sender.
+     * @param {object} ciphertext - The encrypted message.
+     * @returns {string} The decrypted message.
+     * @private
+     */
+    _decryptMessage(participant, ciphertext) {
+        const olmData = this._getParticipantOlmData(participant);
+        const data = olmData.session.decrypt(ciphertext.type, ciphertext.body);
+
+        if (olmData.sessionIdKey && !olmData.curve25519) {
+            olmData.curve25519 = olmData.sessionIdKey;
+            this._checkIdentityKey(participant, olmData.curve25519);
+            this._checkVerifiedKeys(participant);
+        }
+
+        return data;
+    }
+
     /**
      * Publishes our own Olmn id key in presence.
      * @private
@@ -476,6 +663,7 @@ export class OlmAdapter extends Listenable {
 
                 session.create_outbound(this._olmAccount, msg.data.idKey, msg.data.otKey);
                 olmData.session = session;
+                olmData.sessionIdKey = msg.data.idKey;
 
                 // Send ACK
                 const ack = {
@@ -483,6 +671,7 @@ export class OlmAdapter extends Listenable {
                     olm: {
                         data: {
                             ciphertext: this._encryptKeyInfo(session),
+                            idKey: this._idKeys.curve25519,
                             uuid: msg.data.uuid
                         },
                         type: OLM_MESSAGE_TYPES.SESSION_ACK
@@ -501,19 +690,26 @@ export class OlmAdapter extends Listenable {
 
                 this._sendError(participant, 'No session found');
             } else if (msg.data.uuid === olmData.pendingSessionUuid) {
-                const { ciphertext } = msg.data;
+                const { ciphertext, idKey } = msg.data;
                 const d = this._reqs.get(msg.data.uuid);
                 const session = new Olm.Session();
 
-                session.create_inbound(this._olmAccount, ciphertext.body);
+                // Older clients don't send their identity key, the session is not bound to it then.
+                if (idKey) {
+                    session.create_inbound_from(this._olmAccount, idKey, ciphertext.body);
+                } else {
+                    session.create_inbound(this._olmAccount, ciphertext.body);
+                }
 
                 // Remove OT keys that have been used to setup this session.
                 this._olmAccount.remove_one_time_keys(session);
 
+                olmData.session = session;
+                olmData.sessionIdKey = idKey;
+
                 // Decrypt first message.
-                const data = session.decrypt(ciphertext.type, ciphertext.body);
+                const data = this._decryptMessage(participant, ciphertext);
 
-                olmData.session = session;
                 olmData.pendingSessionUuid = undefined;
 
                 this._onParticipantE2EEChannelReady(pId);
@@ -545,7 +741,7 @@ export class OlmAdapter extends Listenable {
         case OLM_MESSAGE_TYPES.KEY_INFO: {
             if (olmData.session) {
                 const { ciphertext } = msg.data;
-                const data = olmData.session.decrypt(ciphertext.type, ciphertext.body);
+                const data = this._decryptMessage(participant, ciphertext);
                 const json = safeJsonParse(data);
 
                 if (json.key !== undefined && json.keyIndex !== undefined) {
@@ -581,7 +777,7 @@ export class OlmAdapter extends Listenable {
         case OLM_MESSAGE_TYPES.KEY_INFO_ACK: {
             if (olmData.session) {
                 const { ciphertext } = msg.data;
-                const data = olmData.session.decrypt(ciphertext.type, ciphertext.body);
+                const data = this._decryptMessage(participant, ciphertext);
                 const json = safeJsonParse(data);
 
                 if (json.key !== undefined && json.keyIndex !== undefined) {
@@ -605,6 +801,27 @@ export class OlmAdapter extends Listenable {
             }
             break;
         }
+        case OLM_MESSAGE_TYPES.CHAT: {
+            if (!olmData.session) {
+                logger.debug(`Received chat message from ${pId} but we have no session for them!`);
+
+                this._sendError(participant, 'No session found while processing chat');
+
+                return;
+            }
+
+            try {
+                const { ciphertext } = msg.data;
+                const json = safeJsonParse(this._decryptMessage(participant, ciphertext));
+
+                if (typeof json.message === 'string') {
+                    this.eventEmitter.emit(OlmAdapterEvents.PARTICIPANT_CHAT_MESSAGE_RECEIVED, pId, json);
+                }
+            } catch (error) {
+                logger.warn(`Failed to decrypt chat message from ${pId}`, error);
+            }
+            break;
+        }
         case OLM_MESSAGE_TYPES.SAS_START: {
             if (!olmData.session) {
                 logger.debug(`Received sas init message from ${pId} but we have no session for them!`);
@@ -764,7 +981,18 @@ export class OlmAdapter extends Listenable {
             const info = isInitiator ? `${myInfo}|${theirInfo}` : `${theirInfo}|${myInfo}`;
 
             const sasBytes = sas.generate_bytes(info, OLM_SAS_NUM_BYTES);
-            const generatedSas = generateSas(sasBytes);
+            const generatedSas = generateSas(sasBytes, this._sasEmojiLanguage);
+
+            olmData.sasVerification.sasBytes = sasBytes;
+
+            if (olmData.ed25519) {
+                generatedSas.qr = generateQrPayload(sasBytes, {
+                    ownKey: this._idKeys.ed25519,
+                    participantId: this.myId,
+                    theirKey: olmData.ed25519,
+                    transactionId
+                });
+            }
 
             this.eventEmitter.emit(OlmAdapterEvents.PARTICIPANT_SAS_READY, pId, generatedSas);
 
@@ -844,8 +1072,9 @@ export class OlmAdapter extends Listenable {
             }
 
             for (const [ keyInfo, computedMac ] of Object.entries(mac)) {
-                const ourComputedMac = sas.calculate_mac(
-                    olmData.ed25519,
+                const key = keyInfo.startsWith('curve25519:') ? olmData.sessionIdKey : olmData.ed25519;
+                const ourComputedMac = key && sas.calculate_mac(
+                    key,
                     baseInfo + keyInfo
                 );
 
@@ -862,6 +1091,19 @@ export class OlmAdapter extends Listenable {
             }
 
             logger.info(`SAS MAC verified for participant ${pId}`);
+
+            // The curve25519 key is needed to recognize the participant later, older clients don't send its MAC.
+            if (Object.keys(mac).some(keyInfo => keyInfo.startsWith('curve25519:'))) {
+                const userId = participant.getIdentity()?.user?.id;
+
+                this._verifiedKeys?.add(olmData.ed25519, olmData.sessionIdKey);
+
+                // A verified key is trusted along with the ones of the other devices of the user.
+                userId && this._trustStore?.addKey(userId, olmData.sessionIdKey);
+            } else {
+                logger.info(`Participant ${pId} cannot be remembered, their curve25519 key was not verified`);
+            }
+
             this.eventEmitter.emit(OlmAdapterEvents.PARTICIPANT_VERIFICATION_COMPLETED, pId, true);
 
             break;
@@ -934,6 +1176,7 @@ export class OlmAdapter extends Listenable {
         case 'e2ee.idKey.ed25519':
             olmData.ed25519 = newValue;
             this.eventEmitter.emit(OlmAdapterEvents.PARTICIPANT_SAS_AVAILABLE, participantId);
+            this._checkVerifiedKeys(participant);
             break;
         }
     }
@@ -1060,6 +1303,14 @@ export class OlmAdapter extends Listenable {
             baseInfo + deviceKeyId);
         keyList.push(deviceKeyId);
 
+        // The key the olm sessions are bound to, so the participant can recognize us in later meetings.
+        const sessionKeyId = `curve25519:${pId}`;
+
+        mac[sessionKeyId] = sas.calculate_mac(
+            this._idKeys.curve25519,
+            baseInfo + sessionKeyId);
+        keyList.push(sessionKeyId);
+
         const keys = sas.calculate_mac(
             keyList.sort().join(','),
             baseInfo + OLM_KEY_VERIFICATION_MAC_KEY_IDS
@@ -0,0 +1,306 @@
+import { JitsiConferenceEvents } from '../../JitsiConferenceEvents';
+import EventEmitter from '../util/EventEmitter';
+import { JITSI_MEET_MUC_TYPE } from '../xmpp/xmpp';
+
+import { IdentityTrustStore } from './IdentityTrustStore';
+import { OlmAdapter } from './OlmAdapter';
+import { VerifiedKeyStore } from './VerifiedKeyStore';
+
+/**
+ * An olm session in which a message can only be decrypted if it was encrypted by the owner of the curve25519 key the
+ * session was created with.
+ */
+class FakeSession {
+    theirKey: string;
+
+    /**
+     * Binds the session to a key.
+     */
+    create_inbound_from(_account: object, idKey: string, body: { from: string; }) {
+        if (body.from !== idKey) {
+            throw new Error('BAD_MESSAGE_KEY_ID');
+        }
+        this.theirKey = idKey;
+    }
+
+    /**
+     * Binds the session to a key.
+     */
+    create_outbound(_account: object, idKey: string) {
+        this.theirKey = idKey;
+    }
+
+    /**
+     * Decrypts a message.
+     */
+    decrypt(_type: number, body: { from: string; plaintext: string; }) {
+        if (body.from !== this.theirKey) {
+            throw new Error('BAD_MESSAGE_MAC');
+        }
+
+        return body.plaintext;
+    }
+
+    /**
+     * Encrypts a message.
+     */
+    encrypt(plaintext: string) {
+        return { body: { from: 'myCurve',
+            plaintext },
+        type: 1 };
+    }
+
+    /**
+     * Nothing to free.
+     */
+    free() {} // eslint-disable-line @typescript-eslint/no-empty-function
+}
+
+/**
+ * A remote participant.
+ */
+class MockParticipant {
+    id: string;
+    userId: string;
+
+    /**
+     * @param {string} id - The ID of the participant.
+     * @param {string} [userId] - The user ID from the JWT.
+     */
+    constructor(id: string, userId?: string) {
+        this.id = id;
+        this.userId = userId;
+    }
+
+    /**
+     * Returns the ID.
+     */
+    getId() {
+        return this.id;
+    }
+
+    /**
+     * Returns the JWT identity, if there's a user ID.
+     */
+    getIdentity() {
+        return this.userId && { user: { id: this.userId } };
+    }
+}
+
+/**
+ * A conference which records the messages sent to the other participants.
+ */
+class MockConference extends EventEmitter {
+    sendMessage = jasmine.createSpy('sendMessage');
+
+    /**
+     * There are no other participants.
+     */
+    getParticipants() {
+        return [];
+    }
+
+    /**
+     * The ID of the local participant.
+     */
+    myUserId() {
+        return 'me';
+    }
+
+    /**
+     * Presence is not sent.
+     */
+    setLocalParticipantProperty() {} // eslint-disable-line @typescript-eslint/no-empty-function
+}
+
+describe('OlmAdapter', () => {
+    let adapter: any;
+    let conference: MockConference;
+    let keyChangedSpy: jasmine.Spy;
+    let verifiedSpy: jasmine.Spy;
+
+    /**
+     * Handles an olm message sent by a participant.
+     */
+    function receive(participant: MockParticipant, type: string, data: object) {
+        return adapter._onEndpointMessageReceived(participant, {
+            [JITSI_MEET_MUC_TYPE]: 'olm',
+            olm: { data,
+                type }
+        });
+    }
+
+    /**
+     * Makes a participant show an ed25519 key in presence.
+     */
+    function showKey(participant: MockParticipant, key: string) {
+        conference.emit(JitsiConferenceEvents.PARTICIPANT_PROPERTY_CHANGED, participant, 'e2ee.idKey.ed25519',
+            undefined, key);
+    }
+
+    /**
+     * Opens a session with a participant, who then sends a key-info message from the given curve25519 key.
+     */
+    async function openSession(participant: MockParticipant, claimedKey: string, ownedKey = claimedKey) {
+        await receive(participant, 'session-init', { idKey: claimedKey,
+            otKey: 'otKey',
+            uuid: 'uuid1' });
+
+        return receive(participant, 'key-info', {
+            ciphertext: { body: { from: ownedKey,
+                plaintext: '{}' },
+            type: 1 },
+            uuid: 'uuid2'
+        });
+    }
+
+    beforeEach(() => {
+        (window as any).Olm = { Session: FakeSession };
+        spyOn(OlmAdapter.prototype as any, '_bootstrapOlm');
+        new VerifiedKeyStore().add('aliceEd', 'aliceCurve');
+
+        conference = new MockConference();
+        adapter = new OlmAdapter(conference, {
+            persistIdentity: true,
+            rememberVerifiedParticipants: true
+        });
+        adapter._idKeys = { curve25519: 'myCurve',
+            ed25519: 'myEd' };
+        adapter._olmAccount = {};
+        adapter._init.resolve();
+        keyChangedSpy = jasmine.createSpy('keyChanged');
+        verifiedSpy = jasmine.createSpy('verified');
+        adapter.on(OlmAdapter.events.PARTICIPANT_IDENTITY_KEY_CHANGED, keyChangedSpy);
+        adapter.on(OlmAdapter.events.PARTICIPANT_VERIFICATION_COMPLETED, verifiedSpy);
+    });
+
+    afterEach(() => {
+        new IdentityTrustStore().clear();
+        new VerifiedKeyStore().clear();
+        delete (window as any).Olm;
+    });
+
+    it('recognizes a participant verified earlier once the session proves their key', async () => {
+        const alice = new MockParticipant('alice');
+
+        showKey(alice, 'aliceEd');
+
+        expect(verifiedSpy).not.toHaveBeenCalled();
+
+        await openSession(alice, 'aliceCurve');
+
+        expect(verifiedSpy).toHaveBeenCalledOnceWith('alice', true);
+    });
+
+    it('does not trust a spoofed ed25519 key', async () => {
+        const mallory = new MockParticipant('mallory');
+
+        showKey(mallory, 'aliceEd');
+        await openSession(mallory, 'malloryCurve');
+
+        expect(verifiedSpy).not.toHaveBeenCalled();
+    });
+
+    it('does not trust a session created with a key the participant does not own', async () => {
+        const mallory = new MockParticipant('mallory');
+
+        showKey(mallory, 'aliceEd');
+        await expectAsync(openSession(mallory, 'aliceCurve', 'malloryCurve')).toBeRejected();
+
+        expect(verifiedSpy).not.toHaveBeenCalled();
+    });
+
+    it('rejects a session-ack not sent by the owner of the key it includes', async () => {
+        const bob = new MockParticipant('bob');
+
+        adapter._getParticipantOlmData(bob).pendingSessionUuid = 'uuid1';
+        adapter._reqs.set('uuid1', { resolve: jasmine.createSpy('resolve') });
+
+        await expectAsync(receive(bob, 'session-ack', {
+            ciphertext: { body: { from: 'malloryCurve',
+                plaintext: '{}' },
+            type: 0 },
+            idKey: 'bobCurve',
+            uuid: 'uuid1'
+        })).toBeRejected();
+
+        expect(adapter._getParticipantOlmData(bob).session).toBeUndefined();
+    });
+
+    it('remembers both keys of a participant verified through SAS', async () => {
+        const bob = new MockParticipant('bob');
+        const calculateMac = (input: string, info: string) => `${input}|${info}`;
+        const baseInfo = 'Jitsi-KEY_VERIFICATION_MACbobmetx';
+
+        showKey(bob, 'bobEd');
+        await openSession(bob, 'bobCurve');
+        adapter._getParticipantOlmData(bob).sasVerification = { sas: { calculate_mac: calculateMac } };
+
+        await receive(bob, 'sas-mac', {
+            keys: calculateMac('curve25519:me,ed25519:me', `${baseInfo}Jitsi-KEY_IDS`),
+            mac: {
+                'curve25519:me': calculateMac('bobCurve', `${baseInfo}curve25519:me`),
+                'ed25519:me': calculateMac('bobEd', `${baseInfo}ed25519:me`)
+            },
+            transactionId: 'tx'
+        });
+
+        expect(verifiedSpy).toHaveBeenCalledOnceWith('bob', true);
+        expect(new VerifiedKeyStore().has('bobEd', 'bobCurve')).toBeTrue();
+        expect(new VerifiedKeyStore().has('bobEd', 'malloryCurve')).toBeFalse();
+    });
+
+    describe('trust on first use', () => {
+        it('trusts the key of the session and reports a different one', async () => {
+            await openSession(new MockParticipant('alice1', 'alice'), 'aliceCurve');
+
+            expect(keyChangedSpy).not.toHaveBeenCalled();
+            expect(new IdentityTrustStore().getKeys('alice')).toEqual([ 'aliceCurve' ]);
+
+            await openSession(new MockParticipant('alice2', 'alice'), 'otherCurve');
+
+            expect(keyChangedSpy).toHaveBeenCalledOnceWith('alice2', 'alice');
+        });
+
+        it('does not check the keys shown in presence', async () => {
+            const mallory = new MockParticipant('mallory', 'alice');
+
+            await openSession(new MockParticipant('alice1', 'alice'), 'aliceCurve');
+            showKey(mallory, 'aliceEd');
+            await expectAsync(openSession(mallory, 'aliceCurve', 'malloryCurve')).toBeRejected();
+
+            expect(keyChangedSpy).not.toHaveBeenCalled();
+
+            await openSession(new MockParticipant('mallory2', 'alice'), 'malloryCurve');
+
+            expect(keyChangedSpy).toHaveBeenCalledOnceWith('mallory2', 'alice');
+        });
+
+        it('trusts every verified device of a user', async () => {
+            const laptop = new MockParticipant('laptop', 'alice');
+            const phone = new MockParticipant('phone', 'alice');
+            const calculateMac = (input: string, info: string) => `${input}|${info}`;
+            const baseInfo = 'Jitsi-KEY_VERIFICATION_MACphonemetx';
+
+            await openSession(laptop, 'laptopCurve');
+            showKey(phone, 'phoneEd');
+            await openSession(phone, 'phoneCurve');
+            adapter._getParticipantOlmData(phone).sasVerification = { sas: { calculate_mac: calculateMac } };
+            await receive(phone, 'sas-mac', {
+                keys: calculateMac('curve25519:me,ed25519:me', `${baseInfo}Jitsi-KEY_IDS`),
+                mac: {
+                    'curve25519:me': calculateMac('phoneCurve', `${baseInfo}curve25519:me`),
+                    'ed25519:me': calculateMac('phoneEd', `${baseInfo}ed25519:me`)
+                },
+                transactionId: 'tx'
+            });
+
+            expect(keyChangedSpy).toHaveBeenCalledTimes(1);
+
+            await openSession(new MockParticipant('laptop2', 'alice'), 'laptopCurve');
+            await openSession(new MockParticipant('phone2', 'alice'), 'phoneCurve');
+
+            expect(keyChangedSpy).toHaveBeenCalledTimes(1);
+        });
+    });
+});
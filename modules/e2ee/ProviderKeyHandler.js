@@ -0,0 +1,256 @@
+import { getLogger } from '@jitsi/logger';
+import { debounce } from 'lodash-es';
+
+import { JitsiConferenceEvents } from '../../JitsiConferenceEvents';
+
+import { KeyHandler } from './KeyHandler';
+import { KeyRotationAction, KeyRotationTrigger } from './KeyRotationPolicy';
+
+const logger = getLogger('e2ee:ProviderKeyHandler');
+
+// Period which we'll wait before rotating our key when a participant joins or leaves.
+const DEBOUNCE_PERIOD = 5000;
+
+// The participant property which carries the ID of the current key of a participant.
+const KEY_ID_PROPERTY = 'e2ee.keyId';
+
+// Period between publishing the ID of a new key and encrypting with it, so the others can fetch it first.
+const KEY_SWITCH_DELAY = 2000;
+
+// Period during which a replaced key can still be fetched, for frames encrypted with it which are still in flight and
+// for participants who fetch keys slowly.
+const KEY_REVOKE_DELAY = 10000;
+
+/**
+ * This module integrates {@link E2EEContext} with a key management system implementing {@link IKeyProvider}. Every
+ * participant stores their key in the provider and publishes its ID in presence, the others fetch it from there.
+ */
+export class ProviderKeyHandler extends KeyHandler {
+    /**
+     * Build a new ProviderKeyHandler instance, which will be used in a given conference.
+     *
+     * @param {JitsiConference} conference - the current conference.
+     * @param {IKeyProvider} keyProvider - the key management system.
+     * @param {object} [options] - the options passed to {E2EEContext}, see implemention.
+     */
+    constructor(conference, keyProvider, options = {}) {
+        super(conference, options);
+
+        this._keyProvider = keyProvider;
+
+        // The key published in presence and the key encrypting our media, they differ during a rotation.
+        this._keyId = undefined;
+        this._activeKeyId = undefined;
+        this._conferenceJoined = false;
+        this._conferenceLeft = false;
+
+        // The ID under which our keys are stored, the conference does not know it anymore once left.
+        this._myId = undefined;
+
+        this._rotateKey = debounce(trigger => {
+            this.rotateKey(trigger).catch(e => logger.error('Failed to rotate key', e));
+        }, DEBOUNCE_PERIOD);
+
+        this.conference.on(
+            JitsiConferenceEvents.PARTICIPANT_PROPERTY_CHANGED,
+            this._onParticipantPropertyChanged.bind(this));
+        this.conference.on(
+            JitsiConferenceEvents.USER_JOINED,
+            this._onParticipantJoined.bind(this));
+        this.conference.on(
+            JitsiConferenceEvents.USER_LEFT,
+            this._onParticipantLeft.bind(this));
+        this.conference.on(
+            JitsiConferenceEvents.CONFERENCE_JOINED,
+            () => {
+                this._conferenceJoined = true;
+            });
+        this.conference.on(
+            JitsiConferenceEvents.CONFERENCE_LEFT,
+            () => {
+                this._conferenceLeft = true;
+                this._revokeKeys();
+            });
+    }
+
+    /**
+     * Gets a key from the provider and starts using it for the local participant when enabling, stops encrypting
+     * when disabling.
+     *
+     * @param {boolean} enabled - whether E2EE should be enabled or not.
+     * @returns {Promise<void>}
+     * @private
+     */
+    async _setEnabled(enabled) {
+        if (!enabled) {
+            this._revokeKeys();
+            this.e2eeCtx.setKey(this.conference.myUserId(), false, 0);
+            this.conference.setLocalParticipantProperty(KEY_ID_PROPERTY, '');
+
+            return;
+        }
+
+        await this.rotateKey(KeyRotationTrigger.ENABLED);
+
+        for (const participant of this.conference.getParticipants()) {
+            const keyId = participant.getProperty(KEY_ID_PROPERTY);
+
+            keyId && this._fetchParticipantKey(participant.getId(), keyId);
+        }
+    }
+
+    /**
+     * Stops rotating the key and revokes the keys of the local participant, the one in use and the one waiting for
+     * the grace period of a rotation.
+     *
+     * @returns {void}
+     * @private
+     */
+    _revokeKeys() {
+        this._rotateKey.cancel();
+
+        for (const keyId of new Set([ this._keyId, this._activeKeyId ])) {
+            keyId && this.revokeKey(keyId, this._myId);
+        }
+
+        this._keyId = undefined;
+        this._activeKeyId = undefined;
+    }
+
+    /**
+     * Fetches the key of a participant and starts using it to decrypt their media.
+     *
+     * @param {string} participantId - the participant.
+     * @param {string} keyId - the ID of the key.
+     * @returns {Promise<void>}
+     * @private
+     */
+    async _fetchParticipantKey(participantId, keyId) {
+        try {
+            const providedKey = await this._keyProvider.getKey(participantId, keyId);
+
+            if (!providedKey) {
+                logger.warn(`Key ${keyId} of participant ${participantId} not found`);
+
+                return;
+            }
+
+            this.e2eeCtx.setKey(participantId, providedKey.key, providedKey.index);
+        } catch (error) {
+            logger.error(`Failed to get key ${keyId} of participant ${participantId}`, error);
+        }
+    }
+
+    /**
+     * Fetches the key of a participant when they publish a new key ID, stops decrypting when they disable E2EE.
+     *
+     * @param {JitsiParticipant} participant - The participant.
+     * @param {string} name - The name of the property that changed.
+     * @param {*} oldValue - The property's previous value.
+     * @param {*} newValue - The property's new value.
+     * @private
+     */
+    _onParticipantPropertyChanged(participant, name, oldValue, newValue) {
+        if (name !== KEY_ID_PROPERTY || !this.enabled) {
+            return;
+        }
+
+        if (newValue) {
+            this._fetchParticipantKey(participant.getId(), newValue);
+        } else {
+            this.e2eeCtx.cleanup(participant.getId());
+        }
+    }
+
+    /**
+     * Rotates the key when a participant joins, so they cannot decrypt earlier media.
+     *
+     * @private
+     */
+    _onParticipantJoined() {
+        if (this._conferenceJoined && this.enabled) {
+            this._rotateKey(KeyRotationTrigger.PARTICIPANT_JOINED);
+        }
+    }
+
+    /**
+     * Rotates the key when a participant leaves, so they cannot decrypt later media.
+     *
+     * @param {string} id - the ID of the participant.
+     * @private
+     */
+    _onParticipantLeft(id) {
+        this.e2eeCtx.cleanup(id);
+
+        if (this.enabled) {
+            this._rotateKey(KeyRotationTrigger.PARTICIPANT_LEFT);
+        }
+    }
+
+    /**
+     * Asks the provider for a new key and publishes its ID. When replacing a key, the new one is used after a grace
+     * period which lets the others fetch it, and the previous one is revoked later, once the frames encrypted with it
+     * were received. The first key is used right away since there is nothing to decrypt before it.
+     *
+     * @param {KeyRotationTrigger} [trigger] - what caused the rotation, not set when requested by the application.
+     * @returns {Promise<void>} Resolved once the new key is used, or when it was replaced before that.
+     */
+    async rotateKey(trigger) {
+        const myId = this.conference.myUserId();
+        const providedKey = await this._keyProvider.rotateKey(myId);
+
+        logger.debug(`Rotated key, new key ID: ${providedKey.keyId}`);
+
+        // E2EE was disabled or the conference was left while the provider created the key.
+        if (!this.enabled || this._conferenceLeft) {
+            await this.revokeKey(providedKey.keyId, myId);
+
+            return;
+        }
+
+        this._keyId = providedKey.keyId;
+        this._myId = myId;
+        this.conference.setLocalParticipantProperty(KEY_ID_PROPERTY, providedKey.keyId);
+
+        const replacedKeyId = this._activeKeyId;
+
+        if (replacedKeyId) {
+            await new Promise(resolve => setTimeout(resolve, KEY_SWITCH_DELAY));
+
+            // A newer key was published in the meantime, so this one is never used. When E2EE was disabled or the
+            // conference was left instead, it was revoked already.
+            if (this._keyId !== providedKey.keyId) {
+                this._keyId && await this.revokeKey(providedKey.keyId, myId);
+
+                return;
+            }
+
+            setTimeout(() => this.revokeKey(replacedKeyId, myId), KEY_REVOKE_DELAY);
+        }
+
+        this._activeKeyId = providedKey.keyId;
+        this.e2eeCtx.setKey(myId, providedKey.key, providedKey.index);
+        this.conference.eventEmitter.emit(JitsiConferenceEvents.E2EE_KEY_CHANGED, {
+            action: KeyRotationAction.ROTATE,
+            index: providedKey.index,
+            keyId: providedKey.keyId,
+            trigger
+        });
+    }
+
+    /**
+     * Revokes a key of the local participant in the provider.
+     *
+     * @param {string} keyId - the ID of the key.
+     * @param {string} [participantId] - the ID under which the key is stored, the current ID of the local participant
+     * when not set.
+     * @returns {Promise<void>}
+     */
+    async revokeKey(keyId, participantId = this.conference.myUserId()) {
+        try {
+            await this._keyProvider.revokeKey(participantId, keyId);
+        } catch (error) {
+            logger.error(`Failed to revoke key ${keyId}`, error);
+        }
+    }
+}
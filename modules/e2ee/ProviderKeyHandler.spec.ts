@@ -0,0 +1,279 @@
+import { JitsiConferenceEvents } from '../../JitsiConferenceEvents';
+import EventEmitter from '../util/EventEmitter';
+import { nextTick } from '../util/TestUtils';
+
+import { FrameFormat } from './Context';
+import E2EEContext from './E2EEContext';
+import { InMemoryKeyProvider } from './InMemoryKeyProvider';
+import { KeyRotationAction, KeyRotationTrigger } from './KeyRotationPolicy';
+import { ProviderKeyHandler } from './ProviderKeyHandler';
+
+/**
+ * A remote participant, with the presence properties set by the test.
+ */
+class MockParticipant {
+    id: string;
+    properties: Record<string, string> = {};
+
+    /**
+     * @param {string} id - The ID of the participant.
+     */
+    constructor(id: string) {
+        this.id = id;
+    }
+
+    /**
+     * Returns the ID.
+     */
+    getId() {
+        return this.id;
+    }
+
+    /**
+     * Returns a presence property.
+     */
+    getProperty(name: string) {
+        return this.properties[name];
+    }
+}
+
+/**
+ * A conference which records the presence properties of the local participant.
+ */
+class MockConference extends EventEmitter {
+    eventEmitter = this;
+    localProperties: Record<string, string> = {};
+    participants: MockParticipant[] = [];
+    rtc = new EventEmitter();
+
+    /**
+     * There are no media sessions.
+     */
+    getMediaSessions() {
+        return [];
+    }
+
+    /**
+     * Returns the other participants.
+     */
+    getParticipants() {
+        return this.participants;
+    }
+
+    /**
+     * The ID of the local participant.
+     */
+    myUserId() {
+        return 'me';
+    }
+
+    /**
+     * Media sessions are not restarted.
+     */
+    _restartMediaSessions() {} // eslint-disable-line @typescript-eslint/no-empty-function
+
+    /**
+     * Records a presence property.
+     */
+    setLocalParticipantProperty(name: string, value: string) {
+        this.localProperties[name] = value;
+    }
+}
+
+describe('ProviderKeyHandler', () => {
+    let conference: MockConference;
+    let handler: ProviderKeyHandler;
+    let keyProvider: InMemoryKeyProvider;
+    let setKeySpy: jasmine.Spy;
+
+    /**
+     * Returns the ID of the key published by the local participant.
+     */
+    function publishedKeyId() {
+        return conference.localProperties['e2ee.keyId'];
+    }
+
+    beforeEach(() => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date(2024, 0, 1));
+
+        spyOn(window, 'Worker').and.returnValue({ postMessage: () => undefined } as unknown as Worker);
+        setKeySpy = spyOn(E2EEContext.prototype, 'setKey');
+
+        conference = new MockConference();
+        keyProvider = new InMemoryKeyProvider();
+        handler = new ProviderKeyHandler(conference, keyProvider);
+    });
+
+    afterEach(() => {
+        jasmine.clock().uninstall();
+    });
+
+    it('uses and publishes a key when enabled, and fetches the keys of the others', async () => {
+        const bob = new MockParticipant('bob');
+        const bobKey = await keyProvider.rotateKey('bob');
+
+        bob.properties['e2ee.keyId'] = bobKey.keyId;
+        conference.participants.push(bob);
+
+        await handler.setEnabled(true);
+        await nextTick();
+
+        const myKey = await keyProvider.getKey('me');
+
+        expect(publishedKeyId()).toBe(myKey.keyId);
+        expect(setKeySpy).toHaveBeenCalledWith('me', myKey.key, myKey.index);
+        expect(setKeySpy).toHaveBeenCalledWith('bob', bobKey.key, bobKey.index);
+    });
+
+    it('advertises the frame format and reports the participants using another one', async () => {
+        const bob = new MockParticipant('bob');
+        const carol = new MockParticipant('carol');
+        const mismatchSpy = jasmine.createSpy('mismatch');
+
+        bob.properties['e2ee.frameFormat'] = FrameFormat.SFRAME;
+        carol.properties['e2ee.frameFormat'] = FrameFormat.JFRAME;
+        conference.participants.push(bob, carol);
+        conference.on(JitsiConferenceEvents.E2EE_FRAME_FORMAT_MISMATCH, mismatchSpy);
+
+        await handler.setEnabled(true);
+
+        expect(conference.localProperties['e2ee.frameFormat']).toBe(FrameFormat.JFRAME);
+        expect(mismatchSpy).toHaveBeenCalledOnceWith('bob', FrameFormat.SFRAME);
+
+        conference.emit(JitsiConferenceEvents.PARTICIPANT_PROPERTY_CHANGED, carol, 'e2ee.frameFormat',
+            FrameFormat.JFRAME, FrameFormat.SFRAME);
+
+        expect(mismatchSpy).toHaveBeenCalledWith('carol', FrameFormat.SFRAME);
+
+        await handler.setEnabled(false);
+
+        expect(conference.localProperties['e2ee.frameFormat']).toBe('');
+    });
+
+    it('publishes a new key before using it and revokes the replaced one later', async () => {
+        const keyChangedSpy = jasmine.createSpy('keyChanged');
+
+        conference.on(JitsiConferenceEvents.E2EE_KEY_CHANGED, keyChangedSpy);
+        await handler.setEnabled(true);
+
+        const firstKey = await keyProvider.getKey('me');
+        const rotation = handler.rotateKey();
+
+        await nextTick();
+
+        const secondKey = await keyProvider.getKey('me');
+
+        expect(publishedKeyId()).toBe(secondKey.keyId);
+        expect(setKeySpy).not.toHaveBeenCalledWith('me', secondKey.key, secondKey.index);
+
+        await nextTick(2000);
+        await rotation;
+
+        expect(setKeySpy).toHaveBeenCalledWith('me', secondKey.key, secondKey.index);
+        expect(keyChangedSpy).toHaveBeenCalledWith({
+            action: KeyRotationAction.ROTATE,
+            index: secondKey.index,
+            keyId: secondKey.keyId,
+            trigger: undefined
+        });
+        expect(await keyProvider.getKey('me', firstKey.keyId)).toEqual(firstKey);
+
+        await nextTick(10000);
+
+        expect(await keyProvider.getKey('me', firstKey.keyId)).toBeUndefined();
+    });
+
+    it('does not use a key replaced before the grace period ended', async () => {
+        await handler.setEnabled(true);
+
+        const firstRotation = handler.rotateKey();
+
+        await nextTick();
+
+        const unusedKey = await keyProvider.getKey('me');
+        const secondRotation = handler.rotateKey();
+
+        await nextTick();
+        await nextTick(2000);
+        await Promise.all([ firstRotation, secondRotation ]);
+
+        const lastKey = await keyProvider.getKey('me');
+
+        expect(setKeySpy).not.toHaveBeenCalledWith('me', unusedKey.key, unusedKey.index);
+        expect(setKeySpy).toHaveBeenCalledWith('me', lastKey.key, lastKey.index);
+        expect(await keyProvider.getKey('me', unusedKey.keyId)).toBeUndefined();
+    });
+
+    it('fetches the new keys of the others and forgets them when they stop encrypting', async () => {
+        const bob = new MockParticipant('bob');
+        const cleanupSpy = spyOn(E2EEContext.prototype, 'cleanup');
+
+        await handler.setEnabled(true);
+
+        const bobKey = await keyProvider.rotateKey('bob');
+
+        conference.emit(JitsiConferenceEvents.PARTICIPANT_PROPERTY_CHANGED, bob, 'e2ee.keyId', undefined, bobKey.keyId);
+        await nextTick();
+
+        expect(setKeySpy).toHaveBeenCalledWith('bob', bobKey.key, bobKey.index);
+
+        conference.emit(JitsiConferenceEvents.PARTICIPANT_PROPERTY_CHANGED, bob, 'e2ee.keyId', bobKey.keyId, '');
+
+        expect(cleanupSpy).toHaveBeenCalledWith('bob');
+    });
+
+    it('rotates the key when a participant leaves and clears it when disabled', async () => {
+        const cleanupSpy = spyOn(E2EEContext.prototype, 'cleanup');
+        const rotateSpy = spyOn(handler, 'rotateKey').and.callThrough();
+
+        await handler.setEnabled(true);
+        conference.emit(JitsiConferenceEvents.USER_LEFT, 'bob');
+        jasmine.clock().tick(5000);
+
+        expect(cleanupSpy).toHaveBeenCalledWith('bob');
+        expect(rotateSpy).toHaveBeenCalledWith(KeyRotationTrigger.PARTICIPANT_LEFT);
+
+        await handler.setEnabled(false);
+
+        expect(setKeySpy).toHaveBeenCalledWith('me', false, 0);
+        expect(publishedKeyId()).toBe('');
+    });
+
+    it('revokes the used and the pending key when disabled', async () => {
+        await handler.setEnabled(true);
+
+        const usedKey = await keyProvider.getKey('me');
+        const rotation = handler.rotateKey();
+
+        await nextTick();
+
+        const pendingKey = await keyProvider.getKey('me');
+
+        await handler.setEnabled(false);
+        await nextTick();
+
+        expect(await keyProvider.getKey('me', usedKey.keyId)).toBeUndefined();
+        expect(await keyProvider.getKey('me', pendingKey.keyId)).toBeUndefined();
+
+        await nextTick(2000);
+        await rotation;
+
+        expect(setKeySpy).not.toHaveBeenCalledWith('me', pendingKey.key, pendingKey.index);
+    });
+
+    it('revokes the key when the conference is left', async () => {
+        const revokeSpy = spyOn(keyProvider, 'revokeKey').and.callThrough();
+
+        await handler.setEnabled(true);
+
+        const usedKey = await keyProvider.getKey('me');
+
+        spyOn(conference, 'myUserId').and.returnValue(null);
+        conference.emit(JitsiConferenceEvents.CONFERENCE_LEFT);
+        await nextTick();
+
+        expect(revokeSpy).toHaveBeenCalledOnceWith('me', usedKey.keyId);
+        expect(await keyProvider.getKey('me', usedKey.keyId)).toBeUndefined();
+    });
+});
@@ -0,0 +1,56 @@
+import { SAS_EMOJI_LANGUAGES, generateQrPayload, generateSas, parseQrPayload } from './SAS';
+
+describe('SAS', () => {
+    const sasBytes = new Uint8Array([ 0, 1, 2, 3, 4, 5 ]);
+
+    describe('generateSas', () => {
+        it('generates decimal and English emoji SAS', () => {
+            const sas = generateSas(sasBytes);
+
+            expect(sas.decimal).toEqual([ 1000, 2032, 1386 ]);
+            expect(sas.emoji).toEqual([
+                [ '🐶', 'dog' ],
+                [ '🐶', 'dog' ],
+                [ '🦄', 'unicorn' ],
+                [ '🦁', 'lion' ],
+                [ '🐶', 'dog' ],
+                [ '🔨', 'hammer' ],
+                [ '🌳', 'tree' ]
+            ]);
+        });
+
+        it('names the same emojis in another language', () => {
+            const sas = generateSas(sasBytes, 'de');
+
+            expect(SAS_EMOJI_LANGUAGES).toContain('de');
+            expect((sas.emoji as [string, string][]).map(([ emoji ]) => emoji))
+                .toEqual((generateSas(sasBytes).emoji as [string, string][]).map(([ emoji ]) => emoji));
+            expect(sas.emoji[2]).toEqual([ '🦄', 'Einhorn' ]);
+        });
+
+        it('falls back to English for unknown languages', () => {
+            expect(generateSas(sasBytes, 'xx')).toEqual(generateSas(sasBytes));
+        });
+    });
+
+    describe('QR code payload', () => {
+        const payload = {
+            ownKey: 'aliceKey',
+            participantId: 'alice',
+            theirKey: 'bobKey',
+            transactionId: 'transaction'
+        };
+
+        it('round-trips', () => {
+            expect(parseQrPayload(generateQrPayload(sasBytes, payload))).toEqual({
+                ...payload,
+                secret: 'AAECAwQF'
+            });
+        });
+
+        it('rejects other strings', () => {
+            expect(parseQrPayload('https://meet.jit.si')).toBeUndefined();
+            expect(parseQrPayload(generateQrPayload(sasBytes, payload).replace('|1|', '|2|'))).toBeUndefined();
+        });
+    });
+});
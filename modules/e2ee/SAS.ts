@@ -1,6 +1,13 @@
 /* eslint-disable no-bitwise */
 /* eslint-disable no-mixed-operators */
 
+import base64js from 'base64-js';
+
+// The prefix and version of the QR code verification payload.
+const QR_PAYLOAD_PREFIX = 'JITSI-E2EE-VERIFY';
+const QR_PAYLOAD_VERSION = 1;
+const QR_PAYLOAD_SEPARATOR = '|';
+
 /**
  * Generates a SAS composed of decimal numbers.
  * Borrowed from the Matrix JS SDK.
@@ -91,14 +98,51 @@ const emojiMapping: [string, string][] = [
     [ '📌', 'pin' ]
 ];
 
+// The names of the emojis above, in the same order, for languages other than English.
+const emojiNames: { [language: string]: string[]; } = {
+    de: [
+        'Hund', 'Katze', 'Löwe', 'Pferd', 'Einhorn', 'Schwein', 'Elefant', 'Hase', 'Panda', 'Hahn', 'Pinguin',
+        'Schildkröte', 'Fisch', 'Oktopus', 'Schmetterling', 'Blume', 'Baum', 'Kaktus', 'Pilz', 'Globus', 'Mond',
+        'Wolke', 'Feuer', 'Banane', 'Apfel', 'Erdbeere', 'Mais', 'Pizza', 'Kuchen', 'Herz', 'Smiley', 'Roboter',
+        'Hut', 'Brille', 'Schraubenschlüssel', 'Weihnachtsmann', 'Daumen hoch', 'Regenschirm', 'Sanduhr', 'Wecker',
+        'Geschenk', 'Glühbirne', 'Buch', 'Bleistift', 'Büroklammer', 'Schere', 'Schloss', 'Schlüssel', 'Hammer',
+        'Telefon', 'Flagge', 'Zug', 'Fahrrad', 'Flugzeug', 'Rakete', 'Pokal', 'Ball', 'Gitarre', 'Trompete',
+        'Glocke', 'Anker', 'Kopfhörer', 'Ordner', 'Stecknadel'
+    ],
+    es: [
+        'perro', 'gato', 'león', 'caballo', 'unicornio', 'cerdo', 'elefante', 'conejo', 'panda', 'gallo',
+        'pingüino', 'tortuga', 'pez', 'pulpo', 'mariposa', 'flor', 'árbol', 'cactus', 'seta', 'globo terráqueo',
+        'luna', 'nube', 'fuego', 'plátano', 'manzana', 'fresa', 'maíz', 'pizza', 'tarta', 'corazón', 'sonrisa',
+        'robot', 'sombrero', 'gafas', 'llave inglesa', 'Papá Noel', 'pulgar arriba', 'paraguas', 'reloj de arena',
+        'reloj', 'regalo', 'bombilla', 'libro', 'lápiz', 'clip', 'tijeras', 'candado', 'llave', 'martillo',
+        'teléfono', 'bandera', 'tren', 'bicicleta', 'avión', 'cohete', 'trofeo', 'balón', 'guitarra', 'trompeta',
+        'campana', 'ancla', 'auriculares', 'carpeta', 'chincheta'
+    ],
+    fr: [
+        'chien', 'chat', 'lion', 'cheval', 'licorne', 'cochon', 'éléphant', 'lapin', 'panda', 'coq', 'manchot',
+        'tortue', 'poisson', 'poulpe', 'papillon', 'fleur', 'arbre', 'cactus', 'champignon', 'globe', 'lune',
+        'nuage', 'feu', 'banane', 'pomme', 'fraise', 'maïs', 'pizza', 'gâteau', 'cœur', 'smiley', 'robot',
+        'chapeau', 'lunettes', 'clé à molette', 'père Noël', 'pouce levé', 'parapluie', 'sablier', 'réveil',
+        'cadeau', 'ampoule', 'livre', 'crayon', 'trombone', 'ciseaux', 'cadenas', 'clé', 'marteau', 'téléphone',
+        'drapeau', 'train', 'vélo', 'avion', 'fusée', 'trophée', 'ballon', 'guitare', 'trompette', 'cloche',
+        'ancre', 'casque audio', 'dossier', 'punaise'
+    ]
+};
+
 /**
- * Generates a SAS composed of defimal numbers.
+ * The languages in which the names of the emojis of the SAS are available.
+ */
+export const SAS_EMOJI_LANGUAGES = [ 'en', ...Object.keys(emojiNames) ];
+
+/**
+ * Generates a SAS composed of emojis and their names.
  * Borrowed from the Matrix JS SDK.
  *
  * @param {Uint8Array} sasBytes - The bytes from sas.generate_bytes.
- * @returns Array<number>
+ * @param {string} language - The language of the names, English when not available.
+ * @returns Array<[string, string]>
  */
-function generateEmojiSas(sasBytes: Uint8Array): [string, string][] {
+function generateEmojiSas(sasBytes: Uint8Array, language: string): [string, string][] {
     // Just like base64.
     const emojis = [
         sasBytes[0] >> 2,
@@ -110,30 +154,109 @@ function generateEmojiSas(sasBytes: Uint8Array): [string, string][] {
         (sasBytes[4] & 0xf) << 2 | sasBytes[5] >> 6
     ];
 
-    return emojis.map(num => emojiMapping[num]);
+    const names = emojiNames[language];
+
+    return emojis.map(num => names ? [ emojiMapping[num][0], names[num] ] : emojiMapping[num]);
 }
 
-const sasGenerators: { [key: string]: (sasBytes: Uint8Array) => number[] | [string, string][]; } = {
+const sasGenerators: {
+    [key: string]: (sasBytes: Uint8Array, language: string) => number[] | [string, string][];
+} = {
     decimal: generateDecimalSas,
     emoji: generateEmojiSas
 };
 
 export interface ISas {
-    [key: string]: number[] | [string, string][];
+    [key: string]: number[] | [string, string][] | string;
+}
+
+/**
+ * The content of a QR code shown by a participant to verify the participant who scans it.
+ */
+export interface IQrPayload {
+
+    /**
+     * The ed25519 identity key of the participant who shows the code.
+     */
+    ownKey: string;
+
+    /**
+     * The ID of the participant who shows the code.
+     */
+    participantId: string;
+
+    /**
+     * The SAS bytes, base64 encoded. Only the two participants of the verification know them.
+     */
+    secret: string;
+
+    /**
+     * The ed25519 identity key the participant who shows the code has for the participant who scans it.
+     */
+    theirKey: string;
+
+    /**
+     * The ID of the verification.
+     */
+    transactionId: string;
 }
 
 /**
  * Generates multiple SAS for the given bytes.
  *
  * @param {Uint8Array} sasBytes - The bytes from sas.generate_bytes.
+ * @param {string} [language] - The language of the names of the emojis, see {@link SAS_EMOJI_LANGUAGES}.
  * @returns {ISas}
  */
-export function generateSas(sasBytes: Uint8Array): ISas {
+export function generateSas(sasBytes: Uint8Array, language = 'en'): ISas {
     const sas: ISas = {};
 
     Object.keys(sasGenerators).forEach(method => {
-        sas[method] = sasGenerators[method](sasBytes);
+        sas[method] = sasGenerators[method](sasBytes, language);
     });
 
     return sas;
 }
+
+/**
+ * Generates the string to render as a QR code, an alternative to comparing the SAS.
+ *
+ * @param {Uint8Array} sasBytes - The bytes from sas.generate_bytes.
+ * @param {Omit<IQrPayload, 'secret'>} payload - The rest of the content.
+ * @returns {string}
+ */
+export function generateQrPayload(sasBytes: Uint8Array, payload: Omit<IQrPayload, 'secret'>): string {
+    return [
+        QR_PAYLOAD_PREFIX,
+        QR_PAYLOAD_VERSION,
+        payload.transactionId,
+        payload.participantId,
+        payload.ownKey,
+        payload.theirKey,
+        base64js.fromByteArray(sasBytes)
+    ].join(QR_PAYLOAD_SEPARATOR);
+}
+
+/**
+ * Parses the string read from a QR code generated by {@link generateQrPayload}.
+ *
+ * @param {string} qrPayload - The string.
+ * @returns {IQrPayload|undefined} Undefined if the string is not a verification payload.
+ */
+export function parseQrPayload(qrPayload: string): Optional<IQrPayload> {
+    const fields = qrPayload.split(QR_PAYLOAD_SEPARATOR);
+
+    if (fields.length !== 7 || fields[0] !== QR_PAYLOAD_PREFIX || fields[1] !== String(QR_PAYLOAD_VERSION)) {
+        return;
+    }
+
+    const [ , , transactionId, participantId, ownKey, theirKey, secret ] = fields;
+
+    return {
+        ownKey,
+        participantId,
+        secret,
+        theirKey,
+        transactionId
+    };
+}
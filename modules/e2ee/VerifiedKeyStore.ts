@@ -0,0 +1,92 @@
+import { safeJsonParse } from '@jitsi/js-utils/json';
+import { getLogger } from '@jitsi/logger';
+
+import Settings from '../settings/Settings';
+
+const logger = getLogger('e2ee:VerifiedKeyStore');
+
+// The storage item which holds the verified keys.
+const STORAGE_KEY = 'e2ee.verifiedIdentityKeys';
+
+/**
+ * Persists the identity keys of the participants verified through SAS, so they are recognized in later meetings
+ * without being verified again. The ed25519 key is kept along with the curve25519 key, since only the latter is
+ * proven by the olm session with the participant.
+ */
+export class VerifiedKeyStore {
+    private _keys: Map<string, string>;
+    private _storage: Storage;
+
+    /**
+     * Loads the keys verified earlier.
+     *
+     * @param {Storage} [storage] - Where the keys are kept, the {@link Settings} storage when not set.
+     */
+    constructor(storage: Storage = Settings._storage) {
+        this._storage = storage;
+
+        const keys = safeJsonParse(this._storage.getItem(STORAGE_KEY) ?? '{}');
+
+        this._keys = new Map(keys && typeof keys === 'object' && !Array.isArray(keys) ? Object.entries(keys) : []);
+    }
+
+    /**
+     * Saves the keys.
+     *
+     * @returns {void}
+     */
+    private _save(): void {
+        try {
+            this._storage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(this._keys)));
+        } catch (error) {
+            logger.error('Failed to save the verified identity keys', error);
+        }
+    }
+
+    /**
+     * Remembers the keys of a verified participant.
+     *
+     * @param {string} ed25519 - The ed25519 identity key.
+     * @param {string} curve25519 - The curve25519 identity key.
+     * @returns {void}
+     */
+    add(ed25519: string, curve25519: string): void {
+        if (this._keys.get(ed25519) !== curve25519) {
+            this._keys.set(ed25519, curve25519);
+            this._save();
+        }
+    }
+
+    /**
+     * Forgets all the verified keys.
+     *
+     * @returns {void}
+     */
+    clear(): void {
+        this._keys.clear();
+        this._storage.removeItem(STORAGE_KEY);
+    }
+
+    /**
+     * Whether the keys were verified together.
+     *
+     * @param {string} ed25519 - The ed25519 identity key.
+     * @param {string} curve25519 - The curve25519 identity key.
+     * @returns {boolean}
+     */
+    has(ed25519: string, curve25519: string): boolean {
+        return this._keys.get(ed25519) === curve25519;
+    }
+
+    /**
+     * Forgets the keys of a verified participant.
+     *
+     * @param {string} ed25519 - The ed25519 identity key.
+     * @returns {void}
+     */
+    remove(ed25519: string): void {
+        if (this._keys.delete(ed25519)) {
+            this._save();
+        }
+    }
+}
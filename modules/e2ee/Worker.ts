@@ -2,7 +2,41 @@
 
 // Worker for E2EE/Insertable streams.
 
-import { Context } from './Context';
+import { Context, FrameFormat } from './Context';
+import { SFrameCipherSuite } from './sframe-utils';
+
+interface IWorkerMessageEvent {
+    enabled?: boolean;
+    frameFormat?: FrameFormat;
+    key?: ArrayBuffer | false;
+    keyIndex?: number;
+    maxFramesPerKey?: number;
+    operation: string;
+    participantId?: string;
+    readableStream?: ReadableStream;
+    sframeCipherSuite?: SFrameCipherSuite;
+    sharedKey?: ArrayBuffer;
+    writableStream?: WritableStream;
+}
+
+interface IRTCTransformerEvent extends Event {
+    transformer: {
+        options: {
+            operation: string;
+            participantId: string;
+        };
+        readable: ReadableStream;
+        writable: WritableStream;
+    };
+}
+
+// Declare worker scope types
+declare const self: {
+    RTCTransformEvent?: IRTCTransformerEvent;
+    onmessage: (event: MessageEvent<IWorkerMessageEvent>) => void;
+    onrtctransform?: (event: IRTCTransformerEvent) => void;
+    postMessage: (message: object) => void;
+};
 
 const contexts: Map<string, Context> = new Map(); // Map participant id => context
 
@@ -10,6 +44,12 @@ let sharedContext: Optional<Context>;
 
 let enabled = false;
 
+let maxFramesPerKey = 0;
+
+let frameFormat: Optional<FrameFormat>;
+
+let sframeCipherSuite: Optional<SFrameCipherSuite>;
+
 /**
  * Retrieves the participant {@code Context}, creating it if necessary.
  *
@@ -22,7 +62,16 @@ function getParticipantContext(participantId: string): Context {
     }
 
     if (!contexts.has(participantId)) {
-        const context = new Context();
+        const context = new Context({
+            frameFormat,
+            maxFramesPerKey,
+            onKeyExhausted: keyIndex => self.postMessage({
+                keyIndex,
+                operation: 'keyExhausted',
+                participantId
+            }),
+            sframeCipherSuite
+        });
 
         context.setEnabled(enabled);
         contexts.set(participantId, context);
@@ -59,41 +108,16 @@ function handleTransform(
     }
 }
 
-interface IWorkerMessageEvent {
-    enabled?: boolean;
-    key?: ArrayBuffer | false;
-    keyIndex?: number;
-    operation: string;
-    participantId?: string;
-    readableStream?: ReadableStream;
-    sharedKey?: ArrayBuffer;
-    writableStream?: WritableStream;
-}
-
-interface IRTCTransformerEvent extends Event {
-    transformer: {
-        options: {
-            operation: string;
-            participantId: string;
-        };
-        readable: ReadableStream;
-        writable: WritableStream;
-    };
-}
-
-// Declare worker scope types
-declare const self: {
-    RTCTransformEvent?: IRTCTransformerEvent;
-    onmessage: (event: MessageEvent<IWorkerMessageEvent>) => void;
-    onrtctransform?: (event: IRTCTransformerEvent) => void;
-};
-
 onmessage = (event: MessageEvent<IWorkerMessageEvent>) => {
     const { operation } = event.data;
 
     if (operation === 'initialize') {
         const { sharedKey } = event.data;
 
+        maxFramesPerKey = event.data.maxFramesPerKey ?? 0;
+        frameFormat = event.data.frameFormat;
+        sframeCipherSuite = event.data.sframeCipherSuite;
+
         if (sharedKey) {
             sharedContext = new Context({ sharedKey });
         }
@@ -1,18 +1,21 @@
 /**
  * Derives a set of keys from the master key.
  * @param {CryptoKey} material - master key to derive from
+ * @param {string} [info] - the HKDF info label, which separates keys derived from the same material for
+ * different purposes. Empty for the media keys.
  *
  * See https://tools.ietf.org/html/draft-omara-sframe-00#section-4.3.1
  */
-export async function deriveKeys(material: CryptoKey): Promise<{ encryptionKey: CryptoKey; material: CryptoKey; }> {
-    const info = new ArrayBuffer();
+export async function deriveKeys(
+        material: CryptoKey,
+        info = ''): Promise<{ encryptionKey: CryptoKey; material: CryptoKey; }> {
     const textEncoder = new TextEncoder();
 
     // https://developer.mozilla.org/en-US/docs/Web/API/SubtleCrypto/deriveKey#HKDF
     // https://developer.mozilla.org/en-US/docs/Web/API/HkdfParams
     const encryptionKey = await crypto.subtle.deriveKey({
         hash: 'SHA-256',
-        info,
+        info: textEncoder.encode(info),
         name: 'HKDF',
         salt: textEncoder.encode('JFrameEncryptionKey')
     }, material, {
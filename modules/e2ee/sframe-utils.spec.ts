@@ -0,0 +1,115 @@
+import { importKey } from './crypto-utils';
+import {
+    SFrameCipherSuite,
+    decryptSFrame,
+    deriveSFrameKeys,
+    encodeSFrameHeader,
+    encryptSFrame,
+    parseSFrameHeader
+} from './sframe-utils';
+
+/**
+ * Decodes a hex string.
+ */
+function fromHex(hex: string): Uint8Array {
+    return new Uint8Array(hex.match(/../g).map(byte => parseInt(byte, 16)));
+}
+
+/**
+ * Encodes bytes as a hex string.
+ */
+function toHex(bytes: ArrayBuffer | Uint8Array): string {
+    return Array.from(new Uint8Array(bytes), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// The inputs of the SFrame encryption test vectors, see https://www.rfc-editor.org/rfc/rfc9605#appendix-C.4.
+const BASE_KEY = '000102030405060708090a0b0c0d0e0f';
+const KEY_ID = 0x123;
+const COUNTER = 0x4567;
+const METADATA = '4945544620534672616d65205747';
+const PLAIN_TEXT = '64726166742d696574662d736672616d652d656e63';
+
+const VECTORS = [
+    {
+        cipherSuite: SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_80,
+        cipherText: '449408b6f490086165b9d6f62b24ae1a59a56486b4ae8ed036b88912e24f11',
+        salt: '50b29329a04dc0f184ac3168'
+    },
+    {
+        cipherSuite: SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_64,
+        cipherText: '3f31438db4d09434e43afa0f8a2f00867a2be085046a9f5cb4f101d607',
+        salt: 'e68ac8dd3d02fbcd368c5577'
+    },
+    {
+        cipherSuite: SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_32,
+        cipherText: '17fc8af28a5a695afcfc6c8df6358a17e26b2fcb3bae32e443',
+        salt: '38c16e4f5159700c00c7f350'
+    },
+    {
+        cipherSuite: SFrameCipherSuite.AES_128_GCM_SHA256_128,
+        cipherText: 'b7412c2513a1b66dbb48841bbaf17f598751176ad847681a69c6d0b091c07018ce4adb34eb',
+        salt: '75234edefe07819026751816'
+    },
+    {
+        cipherSuite: SFrameCipherSuite.AES_256_GCM_SHA512_128,
+        cipherText: '94f509d36e9beacb0e261d99c7d1e972f1fed787d4049f17ca21353c1cc24d56ceabced279',
+        salt: '84991c167b8cd23c93708ec7'
+    }
+];
+
+describe('SFrame utils', () => {
+    it('encodes the header fields in the fewest bytes', () => {
+        const headers: [ number, number, string ][] = [
+            [ 0, 0, '00' ],
+            [ 7, 7, '77' ],
+            [ 0, 8, '0808' ],
+            [ 8, 0, '8008' ],
+            [ 0xff, 0xff, '88ffff' ],
+            [ 0x100, 0x100, '9901000100' ],
+            [ KEY_ID, COUNTER, '9901234567' ],
+            [ Number.MAX_SAFE_INTEGER, Number.MAX_SAFE_INTEGER, 'ee1fffffffffffff1fffffffffffff' ]
+        ];
+
+        for (const [ keyId, counter, header ] of headers) {
+            expect(toHex(encodeSFrameHeader(keyId, counter))).toBe(header);
+            expect(parseSFrameHeader(fromHex(header))).toEqual({
+                counter,
+                keyId,
+                length: header.length / 2
+            });
+        }
+    });
+
+    for (const { cipherSuite, cipherText, salt } of VECTORS) {
+        describe(`with cipher suite ${cipherSuite}`, () => {
+            const aad = fromHex(`9901234567${METADATA}`);
+
+            /**
+             * Derives the keys of the test vector.
+             */
+            async function deriveKeys() {
+                return deriveSFrameKeys(await importKey(fromHex(BASE_KEY).buffer), KEY_ID, cipherSuite);
+            }
+
+            it('derives the salt', async () => {
+                expect(toHex((await deriveKeys()).salt)).toBe(salt);
+            });
+
+            it('seals and opens a frame', async () => {
+                const keyData = await deriveKeys();
+
+                expect(toHex(await encryptSFrame(keyData, COUNTER, aad, fromHex(PLAIN_TEXT)))).toBe(cipherText);
+                expect(toHex(await decryptSFrame(keyData, COUNTER, aad, fromHex(cipherText)))).toBe(PLAIN_TEXT);
+            });
+
+            it('does not open a frame with other metadata', async () => {
+                const keyData = await deriveKeys();
+                const otherAad = aad.slice();
+
+                otherAad[otherAad.byteLength - 1] ^= 1; // eslint-disable-line no-bitwise
+
+                await expectAsync(decryptSFrame(keyData, COUNTER, otherAad, fromHex(cipherText))).toBeRejected();
+            });
+        });
+    }
+});
@@ -0,0 +1,393 @@
+/* eslint-disable no-bitwise */
+
+/**
+ * Helpers for the SFrame frame format, see https://www.rfc-editor.org/rfc/rfc9605.
+ */
+
+/**
+ * The SFrame cipher suites, see https://www.rfc-editor.org/rfc/rfc9605#section-4.5.
+ */
+export enum SFrameCipherSuite {
+    AES_128_CTR_HMAC_SHA256_80 = 0x0001,
+    AES_128_CTR_HMAC_SHA256_64 = 0x0002,
+    AES_128_CTR_HMAC_SHA256_32 = 0x0003,
+    AES_128_GCM_SHA256_128 = 0x0004,
+    AES_256_GCM_SHA512_128 = 0x0005
+}
+
+/**
+ * The keys of a sender for a given KID, derived from its base key.
+ */
+export interface ISFrameKeyData {
+    authenticationKey?: CryptoKey;
+    cipherSuite: SFrameCipherSuite;
+    encryptionKey: CryptoKey;
+    salt: Uint8Array;
+}
+
+/**
+ * The fields of a parsed SFrame header.
+ */
+export interface ISFrameHeader {
+    counter: number;
+    keyId: number;
+    length: number;
+}
+
+interface ICipherSuiteParameters {
+    hash: string;
+    keyLength: number;
+    nonceLength: number;
+    tagLength: number;
+    useGcm: boolean;
+}
+
+const CIPHER_SUITE_PARAMETERS: { [key in SFrameCipherSuite]: ICipherSuiteParameters; } = {
+    [SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_80]: {
+        hash: 'SHA-256',
+        keyLength: 48,
+        nonceLength: 12,
+        tagLength: 10,
+        useGcm: false
+    },
+    [SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_64]: {
+        hash: 'SHA-256',
+        keyLength: 48,
+        nonceLength: 12,
+        tagLength: 8,
+        useGcm: false
+    },
+    [SFrameCipherSuite.AES_128_CTR_HMAC_SHA256_32]: {
+        hash: 'SHA-256',
+        keyLength: 48,
+        nonceLength: 12,
+        tagLength: 4,
+        useGcm: false
+    },
+    [SFrameCipherSuite.AES_128_GCM_SHA256_128]: {
+        hash: 'SHA-256',
+        keyLength: 16,
+        nonceLength: 12,
+        tagLength: 16,
+        useGcm: true
+    },
+    [SFrameCipherSuite.AES_256_GCM_SHA512_128]: {
+        hash: 'SHA-512',
+        keyLength: 32,
+        nonceLength: 12,
+        tagLength: 16,
+        useGcm: true
+    }
+};
+
+// The length of the AES-CTR key of the AES_128_CTR_HMAC_SHA256 suites, the rest of the key is used for HMAC.
+const CTR_KEY_LENGTH = 16;
+
+// The CTR and KID fields are encoded in up to 8 bytes.
+const MAX_FIELD_LENGTH = 8;
+
+/**
+ * Encodes an unsigned integer in big-endian order.
+ *
+ * @param {number} value - The integer, below 2^53.
+ * @param {number} length - The number of bytes.
+ * @returns {Uint8Array}
+ */
+function encodeBigEndian(value: number, length: number): Uint8Array {
+    const bytes = new Uint8Array(length);
+    let remaining = value;
+
+    for (let i = length - 1; i >= 0; i--) {
+        bytes[i] = remaining % 256;
+        remaining = Math.floor(remaining / 256);
+    }
+
+    return bytes;
+}
+
+/**
+ * Returns the minimum number of bytes needed to encode an unsigned integer.
+ *
+ * @param {number} value - The integer.
+ * @returns {number}
+ */
+function getMinimumLength(value: number): number {
+    let length = 1;
+
+    while (length < MAX_FIELD_LENGTH && value >= 2 ** (8 * length)) {
+        length++;
+    }
+
+    return length;
+}
+
+/**
+ * Builds the label used to derive the key or the salt of a KID.
+ *
+ * @param {string} prefix - The label prefix.
+ * @param {number} keyId - The KID.
+ * @param {SFrameCipherSuite} cipherSuite - The cipher suite.
+ * @returns {Uint8Array}
+ */
+function makeLabel(prefix: string, keyId: number, cipherSuite: SFrameCipherSuite): Uint8Array {
+    const prefixBytes = new TextEncoder().encode(prefix);
+    const label = new Uint8Array(prefixBytes.byteLength + 10);
+
+    label.set(prefixBytes);
+    label.set(encodeBigEndian(keyId, 8), prefixBytes.byteLength);
+    label.set(encodeBigEndian(cipherSuite, 2), prefixBytes.byteLength + 8);
+
+    return label;
+}
+
+/**
+ * Forms the nonce of a frame by XORing the salt with the counter.
+ *
+ * @param {Uint8Array} salt - The salt of the key.
+ * @param {number} counter - The CTR of the frame.
+ * @returns {Uint8Array}
+ */
+function makeNonce(salt: Uint8Array, counter: number): Uint8Array {
+    const nonce = encodeBigEndian(counter, salt.byteLength);
+
+    for (let i = 0; i < nonce.byteLength; i++) {
+        nonce[i] ^= salt[i];
+    }
+
+    return nonce;
+}
+
+/**
+ * Computes the truncated HMAC tag of the AES_128_CTR_HMAC_SHA256 suites.
+ *
+ * @param {ISFrameKeyData} keyData - The keys.
+ * @param {Uint8Array} nonce - The nonce of the frame.
+ * @param {Uint8Array} aad - The additional authenticated data.
+ * @param {Uint8Array} cipherText - The ciphertext, without tag.
+ * @returns {Promise<Uint8Array>}
+ */
+async function computeTag(
+        keyData: ISFrameKeyData,
+        nonce: Uint8Array,
+        aad: Uint8Array,
+        cipherText: Uint8Array): Promise<Uint8Array> {
+    const { tagLength } = CIPHER_SUITE_PARAMETERS[keyData.cipherSuite];
+    const authData = new Uint8Array(24 + nonce.byteLength + aad.byteLength + cipherText.byteLength);
+
+    authData.set(encodeBigEndian(aad.byteLength, 8), 0);
+    authData.set(encodeBigEndian(cipherText.byteLength, 8), 8);
+    authData.set(encodeBigEndian(tagLength, 8), 16);
+    authData.set(nonce, 24);
+    authData.set(aad, 24 + nonce.byteLength);
+    authData.set(cipherText, 24 + nonce.byteLength + aad.byteLength);
+
+    const tag = await crypto.subtle.sign('HMAC', keyData.authenticationKey, authData);
+
+    return new Uint8Array(tag, 0, tagLength);
+}
+
+/**
+ * Derives the key and salt of a KID from the base key of a sender, see
+ * https://www.rfc-editor.org/rfc/rfc9605#section-4.4.2.
+ *
+ * @param {CryptoKey} material - The base key, imported for HKDF.
+ * @param {number} keyId - The KID.
+ * @param {SFrameCipherSuite} cipherSuite - The cipher suite.
+ * @returns {Promise<ISFrameKeyData>}
+ */
+export async function deriveSFrameKeys(
+        material: CryptoKey,
+        keyId: number,
+        cipherSuite: SFrameCipherSuite): Promise<ISFrameKeyData> {
+    const { hash, keyLength, nonceLength, useGcm } = CIPHER_SUITE_PARAMETERS[cipherSuite];
+    const salt = new Uint8Array();
+    const keyBytes = await crypto.subtle.deriveBits({
+        hash,
+        info: makeLabel('SFrame 1.0 Secret key ', keyId, cipherSuite),
+        name: 'HKDF',
+        salt
+    }, material, keyLength * 8);
+    const saltBytes = await crypto.subtle.deriveBits({
+        hash,
+        info: makeLabel('SFrame 1.0 Secret salt ', keyId, cipherSuite),
+        name: 'HKDF',
+        salt
+    }, material, nonceLength * 8);
+
+    if (useGcm) {
+        return {
+            cipherSuite,
+            encryptionKey: await crypto.subtle.importKey('raw', keyBytes, 'AES-GCM', false, [ 'encrypt', 'decrypt' ]),
+            salt: new Uint8Array(saltBytes)
+        };
+    }
+
+    return {
+        authenticationKey: await crypto.subtle.importKey(
+            'raw',
+            keyBytes.slice(CTR_KEY_LENGTH),
+            {
+                hash: 'SHA-256',
+                name: 'HMAC'
+            },
+            false,
+            [ 'sign' ]),
+        cipherSuite,
+        encryptionKey: await crypto.subtle.importKey(
+            'raw', keyBytes.slice(0, CTR_KEY_LENGTH), 'AES-CTR', false, [ 'encrypt', 'decrypt' ]),
+        salt: new Uint8Array(saltBytes)
+    };
+}
+
+/**
+ * Encodes an SFrame header, see https://www.rfc-editor.org/rfc/rfc9605#section-4.3.
+ *
+ * @param {number} keyId - The KID.
+ * @param {number} counter - The CTR.
+ * @returns {Uint8Array}
+ */
+export function encodeSFrameHeader(keyId: number, counter: number): Uint8Array {
+    const keyIdLength = keyId < 8 ? 0 : getMinimumLength(keyId);
+    const counterLength = counter < 8 ? 0 : getMinimumLength(counter);
+    const header = new Uint8Array(1 + keyIdLength + counterLength);
+
+    header[0] = keyIdLength ? 0x80 | ((keyIdLength - 1) << 4) : keyId << 4;
+    header[0] |= counterLength ? 0x08 | (counterLength - 1) : counter;
+    header.set(encodeBigEndian(keyId, keyIdLength), 1);
+    header.set(encodeBigEndian(counter, counterLength), 1 + keyIdLength);
+
+    return header;
+}
+
+/**
+ * Parses the SFrame header at the start of a frame.
+ *
+ * @param {Uint8Array} data - The frame.
+ * @returns {ISFrameHeader|undefined} Undefined if the frame is too short.
+ */
+export function parseSFrameHeader(data: Uint8Array): Optional<ISFrameHeader> {
+    if (!data.byteLength) {
+        return;
+    }
+
+    const config = data[0];
+    const keyIdLength = config & 0x80 ? ((config >> 4) & 0x07) + 1 : 0;
+    const counterLength = config & 0x08 ? (config & 0x07) + 1 : 0;
+    const length = 1 + keyIdLength + counterLength;
+
+    if (data.byteLength < length) {
+        return;
+    }
+
+    let keyId = keyIdLength ? 0 : (config >> 4) & 0x07;
+    let counter = counterLength ? 0 : config & 0x07;
+
+    for (let i = 0; i < keyIdLength; i++) {
+        keyId = (keyId * 256) + data[1 + i];
+    }
+
+    for (let i = 0; i < counterLength; i++) {
+        counter = (counter * 256) + data[1 + keyIdLength + i];
+    }
+
+    return {
+        counter,
+        keyId,
+        length
+    };
+}
+
+/**
+ * Encrypts a frame with the cipher suite of the keys, see https://www.rfc-editor.org/rfc/rfc9605#section-4.4.3.
+ *
+ * @param {ISFrameKeyData} keyData - The keys.
+ * @param {number} counter - The CTR of the frame.
+ * @param {Uint8Array} aad - The additional authenticated data, the SFrame header.
+ * @param {Uint8Array} plainText - The frame.
+ * @returns {Promise<Uint8Array>} The ciphertext followed by the tag.
+ */
+export async function encryptSFrame(
+        keyData: ISFrameKeyData,
+        counter: number,
+        aad: Uint8Array,
+        plainText: Uint8Array): Promise<Uint8Array> {
+    const nonce = makeNonce(keyData.salt, counter);
+
+    if (CIPHER_SUITE_PARAMETERS[keyData.cipherSuite].useGcm) {
+        return new Uint8Array(await crypto.subtle.encrypt({
+            additionalData: aad,
+            iv: nonce,
+            name: 'AES-GCM'
+        }, keyData.encryptionKey, plainText));
+    }
+
+    const initialCounter = new Uint8Array(16);
+
+    initialCounter.set(nonce);
+
+    const cipherText = new Uint8Array(await crypto.subtle.encrypt({
+        counter: initialCounter,
+        length: 32,
+        name: 'AES-CTR'
+    }, keyData.encryptionKey, plainText));
+    const tag = await computeTag(keyData, nonce, aad, cipherText);
+    const result = new Uint8Array(cipherText.byteLength + tag.byteLength);
+
+    result.set(cipherText);
+    result.set(tag, cipherText.byteLength);
+
+    return result;
+}
+
+/**
+ * Decrypts a frame with the cipher suite of the keys.
+ *
+ * @param {ISFrameKeyData} keyData - The keys.
+ * @param {number} counter - The CTR of the frame.
+ * @param {Uint8Array} aad - The additional authenticated data, the SFrame header.
+ * @param {Uint8Array} cipherText - The ciphertext followed by the tag.
+ * @returns {Promise<ArrayBuffer>} The frame, rejected if the authentication fails.
+ */
+export async function decryptSFrame(
+        keyData: ISFrameKeyData,
+        counter: number,
+        aad: Uint8Array,
+        cipherText: Uint8Array): Promise<ArrayBuffer> {
+    const nonce = makeNonce(keyData.salt, counter);
+    const { tagLength, useGcm } = CIPHER_SUITE_PARAMETERS[keyData.cipherSuite];
+
+    if (useGcm) {
+        return crypto.subtle.decrypt({
+            additionalData: aad,
+            iv: nonce,
+            name: 'AES-GCM'
+        }, keyData.encryptionKey, cipherText);
+    }
+
+    if (cipherText.byteLength < tagLength) {
+        throw new Error('SFrame ciphertext is too short');
+    }
+
+    const encrypted = cipherText.subarray(0, cipherText.byteLength - tagLength);
+    const tag = cipherText.subarray(encrypted.byteLength);
+    const expectedTag = await computeTag(keyData, nonce, aad, encrypted);
+    let difference = 0;
+
+    for (let i = 0; i < tagLength; i++) {
+        difference |= tag[i] ^ expectedTag[i];
+    }
+
+    if (difference) {
+        throw new Error('SFrame authentication failed');
+    }
+
+    const initialCounter = new Uint8Array(16);
+
+    initialCounter.set(nonce);
+
+    return crypto.subtle.decrypt({
+        counter: initialCounter,
+        length: 32,
+        name: 'AES-CTR'
+    }, keyData.encryptionKey, encrypted);
+}
@@ -0,0 +1,259 @@
+import { EventEmitter } from 'events';
+
+import JitsiConference from '../../JitsiConference';
+import { JitsiConferenceEvents } from '../../JitsiConferenceEvents';
+
+import FileTransfer, { FileTransferError } from './FileTransfer';
+
+/**
+ * A minimal conference which delivers the endpoint messages sent through it to another conference.
+ */
+class MockConference extends EventEmitter {
+    eventEmitter = this;
+    id: string;
+    peer?: MockConference;
+    rtc = { getChannelBufferedAmount: () => 0 };
+
+    /**
+     * @param {string} id - The ID of the local participant.
+     */
+    constructor(id: string) {
+        super();
+        this.id = id;
+    }
+
+    /**
+     * Returns a participant, only the peer is known.
+     */
+    getParticipantById(id: string) {
+        return this.peer?.id === id ? {} : undefined;
+    }
+
+    /**
+     * Delivers an endpoint message to the peer.
+     */
+    sendEndpointMessageAsync(to: string, message: object) {
+        const from = this.id;
+
+        this.peer?.emit(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, { getId: () => from }, message);
+
+        return Promise.resolve();
+    }
+}
+
+/**
+ * Waits until the given event is emitted.
+ */
+function waitFor(emitter: EventEmitter, event: string): Promise<any[]> {
+    return new Promise(resolve => emitter.once(event, (...args) => resolve(args)));
+}
+
+describe('FileTransfer', () => {
+    let sender: MockConference;
+    let receiver: MockConference;
+    let senderTransfer: FileTransfer;
+    let receiverTransfer: FileTransfer;
+
+    beforeEach(() => {
+        sender = new MockConference('sender');
+        receiver = new MockConference('receiver');
+        sender.peer = receiver;
+        receiver.peer = sender;
+
+        const options = { fileTransfer: { chunkSize: 4,
+            minChunkSize: 4 } };
+
+        senderTransfer = new FileTransfer(sender as any as JitsiConference, options);
+        receiverTransfer = new FileTransfer(receiver as any as JitsiConference, options);
+    });
+
+    afterEach(() => {
+        senderTransfer.stop();
+        receiverTransfer.stop();
+    });
+
+    it('sends a file in chunks and verifies it', async () => {
+        const started = waitFor(receiver, JitsiConferenceEvents.FILE_SHARING_TRANSFER_STARTED);
+        const received = waitFor(receiver, JitsiConferenceEvents.FILE_SHARING_TRANSFER_FINISHED);
+        const sent = waitFor(sender, JitsiConferenceEvents.FILE_SHARING_TRANSFER_FINISHED);
+        const progressSpy = jasmine.createSpy('progress');
+
+        receiver.on(JitsiConferenceEvents.FILE_SHARING_TRANSFER_PROGRESS, progressSpy);
+
+        const transferId = senderTransfer.sendFile(
+            new Blob([ 'hello world' ], { type: 'text/plain' }), [ 'receiver' ]);
+        const [ transfer ] = await started;
+
+        expect(transfer.transferId).toBe(transferId);
+        expect(transfer.senderId).toBe('sender');
+        expect(transfer.fileSize).toBe(11);
+        expect(transfer.totalChunks).toBe(3);
+
+        const [ receivedId, file ] = await received;
+
+        expect(receivedId).toBe(transferId);
+        expect(await file.text()).toBe('hello world');
+        expect(file.type).toBe('text/plain');
+        expect(progressSpy).toHaveBeenCalledWith(transferId, 11, 11);
+        expect(await sent).toEqual([ transferId ]);
+    });
+
+    it('fails when the hash does not match', async () => {
+        const failed = waitFor(receiver, JitsiConferenceEvents.FILE_SHARING_TRANSFER_FAILED);
+
+        receiver.emit(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, { getId: () => 'sender' }, {
+            fileName: 'a.txt',
+            fileSize: 2,
+            fileType: 'text/plain',
+            hash: 'bad',
+            totalChunks: 1,
+            transferId: 't1',
+            type: 'file-transfer-offer'
+        });
+        receiver.emit(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, { getId: () => 'sender' }, {
+            data: 'aGk=',
+            index: 0,
+            transferId: 't1',
+            type: 'file-transfer-chunk'
+        });
+
+        expect(await failed).toEqual([ 't1', FileTransferError.HASH_MISMATCH ]);
+    });
+
+    it('fails when the received file cannot be verified', async () => {
+        const failed = waitFor(receiver, JitsiConferenceEvents.FILE_SHARING_TRANSFER_FAILED);
+
+        spyOn(crypto.subtle, 'digest').and.rejectWith(new Error('NotSupportedError'));
+        receiver.emit(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, { getId: () => 'sender' }, {
+            fileName: 'a.txt',
+            fileSize: 2,
+            fileType: 'text/plain',
+            hash: 'hash',
+            totalChunks: 1,
+            transferId: 't1',
+            type: 'file-transfer-offer'
+        });
+        receiver.emit(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, { getId: () => 'sender' }, {
+            data: 'aGk=',
+            index: 0,
+            transferId: 't1',
+            type: 'file-transfer-chunk'
+        });
+
+        expect(await failed).toEqual([ 't1', FileTransferError.RECEIVE_FAILED ]);
+    });
+
+    describe('incoming offers', () => {
+        let sendSpy: jasmine.Spy;
+        let startedSpy: jasmine.Spy;
+
+        const offer = (transferId: string, fileSize: number, totalChunks: number) =>
+            receiver.emit(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, { getId: () => 'sender' }, {
+                fileName: 'a.txt',
+                fileSize,
+                fileType: 'text/plain',
+                hash: 'hash',
+                totalChunks,
+                transferId,
+                type: 'file-transfer-offer'
+            });
+
+        beforeEach(() => {
+            sendSpy = spyOn(receiver, 'sendEndpointMessageAsync').and.resolveTo();
+            startedSpy = jasmine.createSpy('started');
+            receiver.on(JitsiConferenceEvents.FILE_SHARING_TRANSFER_STARTED, startedSpy);
+        });
+
+        it('ignores offers with a negative size', () => {
+            offer('t1', -1, 1);
+
+            expect(startedSpy).not.toHaveBeenCalled();
+        });
+
+        it('refuses offers with more chunks than the size allows', () => {
+            offer('t1', 8, 3);
+            offer('t2', 8, 2 ** 32);
+
+            expect(startedSpy).not.toHaveBeenCalled();
+            expect(sendSpy.calls.allArgs().map(([ , message ]) => message.transferId)).toEqual([ 't1', 't2' ]);
+        });
+
+        it('refuses too many concurrent offers from one sender', () => {
+            [ 't1', 't2', 't3', 't4' ].forEach(transferId => offer(transferId, 8, 2));
+
+            expect(startedSpy).toHaveBeenCalledTimes(3);
+            expect(sendSpy).toHaveBeenCalledOnceWith('sender', {
+                transferId: 't4',
+                type: 'file-transfer-cancel'
+            });
+        });
+
+        it('aborts a transfer that stalls', () => {
+            const failedSpy = jasmine.createSpy('failed');
+
+            receiver.on(JitsiConferenceEvents.FILE_SHARING_TRANSFER_FAILED, failedSpy);
+            jasmine.clock().install();
+
+            try {
+                offer('t1', 8, 2);
+                jasmine.clock().tick(20000);
+                receiver.emit(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, { getId: () => 'sender' }, {
+                    data: 'aGVsbA==',
+                    index: 0,
+                    transferId: 't1',
+                    type: 'file-transfer-chunk'
+                });
+                jasmine.clock().tick(20000);
+                expect(failedSpy).not.toHaveBeenCalled();
+
+                jasmine.clock().tick(10000);
+                expect(failedSpy).toHaveBeenCalledWith('t1', FileTransferError.TIMED_OUT);
+                expect(sendSpy).toHaveBeenCalledWith('sender', {
+                    transferId: 't1',
+                    type: 'file-transfer-cancel'
+                });
+            } finally {
+                jasmine.clock().uninstall();
+            }
+        });
+    });
+
+    it('stops sending when the receiver cancels', async () => {
+        const failed = waitFor(sender, JitsiConferenceEvents.FILE_SHARING_TRANSFER_FAILED);
+
+        receiver.once(JitsiConferenceEvents.FILE_SHARING_TRANSFER_STARTED,
+            transfer => receiverTransfer.cancel(transfer.transferId));
+
+        const transferId = senderTransfer.sendFile(new Blob([ 'hello world' ]), [ 'receiver' ]);
+
+        expect(await failed).toEqual([ transferId, FileTransferError.CANCELLED ]);
+    });
+
+    it('fails when a message cannot be sent', async () => {
+        const failed = waitFor(sender, JitsiConferenceEvents.FILE_SHARING_TRANSFER_FAILED);
+
+        spyOn(sender, 'sendEndpointMessageAsync').and.rejectWith(new Error('e2ee.endpoint-message.missing-key'));
+
+        const transferId = senderTransfer.sendFile(new Blob([ 'hello world' ]), [ 'receiver' ]);
+
+        expect(await failed).toEqual([ transferId, FileTransferError.SEND_FAILED ]);
+    });
+
+    it('waits for the bridge channel to drain', async () => {
+        let bufferedAmount = 1024 * 1024;
+        const progressSpy = jasmine.createSpy('progress');
+
+        sender.rtc.getChannelBufferedAmount = () => bufferedAmount;
+        sender.on(JitsiConferenceEvents.FILE_SHARING_TRANSFER_PROGRESS, progressSpy);
+
+        const received = waitFor(receiver, JitsiConferenceEvents.FILE_SHARING_TRANSFER_FINISHED);
+
+        senderTransfer.sendFile(new Blob([ 'hi' ]), [ 'receiver' ]);
+        await new Promise(resolve => setTimeout(resolve, 200));
+        expect(progressSpy).not.toHaveBeenCalled();
+
+        bufferedAmount = 0;
+        await received;
+        expect(progressSpy).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,620 @@
+import { getLogger } from '@jitsi/logger';
+import base64js from 'base64-js';
+import { v4 as uuidv4 } from 'uuid';
+
+import JitsiConference from '../../JitsiConference';
+import { JitsiConferenceEvents } from '../../JitsiConferenceEvents';
+import JitsiParticipant from '../../JitsiParticipant';
+
+const logger = getLogger('filetransfer');
+
+/**
+ * The 'type' of a message which announces a file before its chunks are sent.
+ */
+const FILE_TRANSFER_OFFER = 'file-transfer-offer';
+
+/**
+ * The 'type' of a message which carries a chunk of a file.
+ */
+const FILE_TRANSFER_CHUNK = 'file-transfer-chunk';
+
+/**
+ * The 'type' of a message which aborts a transfer, sent by either side.
+ */
+const FILE_TRANSFER_CANCEL = 'file-transfer-cancel';
+
+/**
+ * The number of bytes of a file carried by a single message. Kept small since the chunks are base64 encoded and
+ * share the bridge channel with the media signaling.
+ */
+const DEFAULT_CHUNK_SIZE = 16 * 1024;
+
+/**
+ * The smallest chunk size a sender is expected to use, which bounds the number of chunks a file may be announced
+ * with. Senders using smaller chunks are refused by the receivers.
+ */
+const DEFAULT_MIN_CHUNK_SIZE = 1024;
+
+/**
+ * The number of bytes allowed to be queued on the bridge channel before we stop sending chunks.
+ */
+const DEFAULT_MAX_BUFFERED_AMOUNT = 256 * 1024;
+
+/**
+ * The largest file accepted from other participants.
+ */
+const DEFAULT_MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * The number of files a single participant may be sending us at the same time.
+ */
+const DEFAULT_MAX_INCOMING_TRANSFERS = 3;
+
+/**
+ * How long an incoming transfer may go without receiving a chunk before it is aborted, in milliseconds.
+ */
+const DEFAULT_INCOMING_TIMEOUT = 30000;
+
+/**
+ * How often the bridge channel is checked while the sending of chunks is paused.
+ */
+const BUFFERED_AMOUNT_CHECK_INTERVAL = 50;
+
+/**
+ * The reasons for which a transfer may not complete.
+ */
+export enum FileTransferError {
+    CANCELLED = 'cancelled',
+    HASH_MISMATCH = 'hash-mismatch',
+    INVALID_CHUNK = 'invalid-chunk',
+    PARTICIPANT_LEFT = 'participant-left',
+    RECEIVE_FAILED = 'receive-failed',
+    SEND_FAILED = 'send-failed',
+    TIMED_OUT = 'timed-out'
+}
+
+export interface IFileTransferOptions {
+    fileTransfer?: {
+        chunkSize?: number;
+        enabled?: boolean;
+        incomingTimeout?: number;
+        maxBufferedAmount?: number;
+        maxFileSize?: number;
+        maxIncomingTransfers?: number;
+        minChunkSize?: number;
+    };
+}
+
+/**
+ * The metadata of a file being transferred.
+ */
+export interface IFileTransfer {
+
+    /**
+     * The name of the file.
+     */
+    fileName: string;
+
+    /**
+     * The size of the file in bytes.
+     */
+    fileSize: number;
+
+    /**
+     * The MIME type of the file.
+     */
+    fileType: string;
+
+    /**
+     * The hex encoded SHA-256 hash of the file.
+     */
+    hash: string;
+
+    /**
+     * The ID of the participant sending the file.
+     */
+    senderId: string;
+
+    /**
+     * The number of chunks the file is split into.
+     */
+    totalChunks: number;
+
+    /**
+     * The ID of the transfer.
+     */
+    transferId: string;
+}
+
+interface IOutgoingTransfer {
+    cancelled: boolean;
+    recipients: Set<string>;
+    transferId: string;
+}
+
+interface IIncomingTransfer extends IFileTransfer {
+    chunks: Uint8Array[];
+    receivedBytes: number;
+    receivedChunks: number;
+    timeout?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Computes the hex encoded SHA-256 hash of the given bytes.
+ *
+ * @param {Uint8Array} data - The bytes to hash.
+ * @returns {Promise<string>}
+ */
+async function computeHash(data: Uint8Array): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Implements sending files to other participants directly, in chunks sent as endpoint messages through the
+ * jitsi-videobridge channel. This allows files to be shared in deployments which have no upload service.
+ *
+ * This class:
+ * 1. Announces a file with its size and hash, then sends its chunks to the selected participants, pausing while
+ * the bridge channel has too much data queued.
+ * 2. Reassembles the files sent by other participants and verifies their hash.
+ * 3. Fires progress, completion and failure events for both directions.
+ */
+export default class FileTransfer {
+    private _chunkSize: number;
+    private _conference: JitsiConference;
+    private _incoming: Map<string, IIncomingTransfer>;
+    private _incomingTimeout: number;
+    private _maxBufferedAmount: number;
+    private _maxFileSize: number;
+    private _maxIncomingTransfers: number;
+    private _minChunkSize: number;
+    private _outgoing: Map<string, IOutgoingTransfer>;
+
+    /**
+     * @param {JitsiConference} conference - The conference.
+     * @param {IFileTransferOptions} options - The config options.
+     */
+    constructor(conference: JitsiConference, options: IFileTransferOptions) {
+        this._conference = conference;
+        this._incoming = new Map();
+        this._outgoing = new Map();
+        this._minChunkSize = options.fileTransfer?.minChunkSize ?? DEFAULT_MIN_CHUNK_SIZE;
+        this._chunkSize = Math.max(options.fileTransfer?.chunkSize ?? DEFAULT_CHUNK_SIZE, this._minChunkSize);
+        this._incomingTimeout = options.fileTransfer?.incomingTimeout ?? DEFAULT_INCOMING_TIMEOUT;
+        this._maxBufferedAmount = options.fileTransfer?.maxBufferedAmount ?? DEFAULT_MAX_BUFFERED_AMOUNT;
+        this._maxFileSize = options.fileTransfer?.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+        this._maxIncomingTransfers = options.fileTransfer?.maxIncomingTransfers ?? DEFAULT_MAX_INCOMING_TRANSFERS;
+
+        this._onMessageReceived = this._onMessageReceived.bind(this);
+        this._onParticipantLeft = this._onParticipantLeft.bind(this);
+        conference.on(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, this._onMessageReceived);
+        conference.on(JitsiConferenceEvents.USER_LEFT, this._onParticipantLeft);
+    }
+
+    /**
+     * Sends a message to a participant through the bridge channel.
+     *
+     * @param {string} to - The ID of the participant.
+     * @param {object} message - The message.
+     * @returns {Promise<void>} Rejected when the message could not be sent, including when it could not be encrypted.
+     */
+    private async _sendMessage(to: string, message: object): Promise<void> {
+        await this._conference.sendEndpointMessageAsync(to, message);
+    }
+
+    /**
+     * Sends a message to all the remaining recipients of an outgoing transfer.
+     *
+     * @param {IOutgoingTransfer} transfer - The transfer.
+     * @param {object} message - The message.
+     * @returns {Promise<void>}
+     */
+    private async _sendToRecipients(transfer: IOutgoingTransfer, message: object): Promise<void> {
+        await Promise.all([ ...transfer.recipients ].map(to => this._sendMessage(to, message)));
+    }
+
+    /**
+     * Waits until the bridge channel has drained below the configured limit, so that the chunks do not delay the
+     * media signaling sharing the channel.
+     *
+     * @param {IOutgoingTransfer} transfer - The transfer being sent.
+     * @returns {Promise<void>}
+     */
+    private async _waitForBufferedAmount(transfer: IOutgoingTransfer): Promise<void> {
+        while (!transfer.cancelled && this._conference.rtc.getChannelBufferedAmount() > this._maxBufferedAmount) {
+            await new Promise(resolve => setTimeout(resolve, BUFFERED_AMOUNT_CHECK_INTERVAL));
+        }
+    }
+
+    /**
+     * Sends the offer and then all the chunks of a file.
+     *
+     * @param {IOutgoingTransfer} transfer - The transfer.
+     * @param {Blob} file - The file.
+     * @param {string} fileName - The name of the file.
+     * @returns {Promise<void>}
+     */
+    private async _send(transfer: IOutgoingTransfer, file: Blob, fileName: string): Promise<void> {
+        const { transferId } = transfer;
+        const data = new Uint8Array(await file.arrayBuffer());
+        const hash = await computeHash(data);
+        const totalChunks = Math.max(1, Math.ceil(data.length / this._chunkSize));
+
+        if (transfer.cancelled) {
+            return;
+        }
+
+        await this._sendToRecipients(transfer, {
+            fileName,
+            fileSize: data.length,
+            fileType: file.type,
+            hash,
+            totalChunks,
+            transferId,
+            type: FILE_TRANSFER_OFFER
+        });
+
+        for (let index = 0; index < totalChunks; index++) {
+            await this._waitForBufferedAmount(transfer);
+
+            if (transfer.cancelled) {
+                return;
+            }
+
+            const end = Math.min((index + 1) * this._chunkSize, data.length);
+
+            await this._sendToRecipients(transfer, {
+                data: base64js.fromByteArray(data.subarray(index * this._chunkSize, end)),
+                index,
+                transferId,
+                type: FILE_TRANSFER_CHUNK
+            });
+            this._conference.eventEmitter.emit(
+                JitsiConferenceEvents.FILE_SHARING_TRANSFER_PROGRESS, transferId, end, data.length);
+        }
+
+        this._outgoing.delete(transferId);
+        this._conference.eventEmitter.emit(JitsiConferenceEvents.FILE_SHARING_TRANSFER_FINISHED, transferId);
+    }
+
+    /**
+     * Aborts a transfer in either direction and notifies the application.
+     *
+     * @param {string} transferId - The ID of the transfer.
+     * @param {FileTransferError} reason - Why the transfer was aborted.
+     * @returns {void}
+     */
+    private _fail(transferId: string, reason: FileTransferError): void {
+        const outgoing = this._outgoing.get(transferId);
+
+        if (outgoing) {
+            outgoing.cancelled = true;
+        }
+
+        clearTimeout(this._incoming.get(transferId)?.timeout);
+
+        if (!this._outgoing.delete(transferId) && !this._incoming.delete(transferId)) {
+            return;
+        }
+
+        logger.info(`File transfer ${transferId} failed: ${reason}`);
+        this._conference.eventEmitter.emit(JitsiConferenceEvents.FILE_SHARING_TRANSFER_FAILED, transferId, reason);
+    }
+
+    /**
+     * Stops sending a file to a participant, failing the transfer if nobody is left to receive it.
+     *
+     * @param {IOutgoingTransfer} transfer - The transfer.
+     * @param {string} participantId - The ID of the participant.
+     * @param {FileTransferError} reason - Why the participant no longer receives the file.
+     * @returns {void}
+     */
+    private _removeRecipient(transfer: IOutgoingTransfer, participantId: string, reason: FileTransferError): void {
+        transfer.recipients.delete(participantId);
+
+        if (!transfer.recipients.size) {
+            this._fail(transfer.transferId, reason);
+        }
+    }
+
+    /**
+     * (Re)starts the timer which aborts an incoming transfer when the sender stops sending chunks.
+     *
+     * @param {IIncomingTransfer} transfer - The transfer.
+     * @returns {void}
+     */
+    private _resetTimeout(transfer: IIncomingTransfer): void {
+        clearTimeout(transfer.timeout);
+        transfer.timeout = setTimeout(() => {
+            logger.warn(`File transfer ${transfer.transferId} from ${transfer.senderId} stalled`);
+            this._refuse(transfer.senderId, transfer.transferId);
+            this._fail(transfer.transferId, FileTransferError.TIMED_OUT);
+        }, this._incomingTimeout);
+    }
+
+    /**
+     * Tells a sender that we will not receive a file.
+     *
+     * @param {string} senderId - The ID of the sender.
+     * @param {string} transferId - The ID of the transfer.
+     * @returns {void}
+     */
+    private _refuse(senderId: string, transferId: string): void {
+        this._sendMessage(senderId, {
+            transferId,
+            type: FILE_TRANSFER_CANCEL
+        }).catch(error => logger.warn(`Failed to refuse file transfer ${transferId}`, error));
+    }
+
+    /**
+     * Handles the announcement of a file another participant is about to send.
+     *
+     * @param {string} senderId - The ID of the sender.
+     * @param {any} offer - The offer.
+     * @returns {void}
+     */
+    private _onOffer(senderId: string, offer: any): void {
+        const { fileName, fileSize, fileType, hash, totalChunks, transferId } = offer;
+
+        if (!transferId || this._incoming.has(transferId) || typeof hash !== 'string'
+                || !Number.isInteger(fileSize) || fileSize < 0 || !Number.isInteger(totalChunks) || totalChunks < 1) {
+            logger.warn(`Ignoring invalid file transfer offer from ${senderId}`);
+
+            return;
+        }
+
+        if (fileSize > this._maxFileSize) {
+            logger.warn(`Refusing file transfer ${transferId} from ${senderId}, ${fileSize} bytes is too large`);
+            this._refuse(senderId, transferId);
+
+            return;
+        }
+
+        if (totalChunks > Math.max(1, Math.ceil(fileSize / this._minChunkSize))) {
+            logger.warn(`Refusing file transfer ${transferId} from ${senderId}, too many chunks: ${totalChunks}`);
+            this._refuse(senderId, transferId);
+
+            return;
+        }
+
+        const senderTransfers = Array.from(this._incoming.values()).filter(t => t.senderId === senderId);
+
+        if (senderTransfers.length >= this._maxIncomingTransfers) {
+            logger.warn(`Refusing file transfer ${transferId} from ${senderId}, too many concurrent transfers`);
+            this._refuse(senderId, transferId);
+
+            return;
+        }
+
+        const transfer: IIncomingTransfer = {
+            chunks: new Array(totalChunks),
+            fileName: String(fileName),
+            fileSize,
+            fileType: String(fileType ?? ''),
+            hash,
+            receivedBytes: 0,
+            receivedChunks: 0,
+            senderId,
+            totalChunks,
+            transferId
+        };
+
+        this._incoming.set(transferId, transfer);
+        this._resetTimeout(transfer);
+        this._conference.eventEmitter.emit(JitsiConferenceEvents.FILE_SHARING_TRANSFER_STARTED, {
+            fileName: transfer.fileName,
+            fileSize,
+            fileType: transfer.fileType,
+            hash,
+            senderId,
+            totalChunks,
+            transferId
+        });
+    }
+
+    /**
+     * Handles a chunk of a file and completes the transfer once all the chunks were received.
+     *
+     * @param {string} senderId - The ID of the sender.
+     * @param {any} chunk - The chunk.
+     * @returns {void}
+     */
+    private _onChunk(senderId: string, chunk: any): void {
+        const transfer = this._incoming.get(chunk.transferId);
+
+        if (transfer?.senderId !== senderId) {
+            return;
+        }
+
+        const { index, transferId } = chunk;
+        let data: Optional<Uint8Array>;
+
+        try {
+            data = base64js.toByteArray(chunk.data);
+        } catch (error) {} // eslint-disable-line no-empty
+
+        if (!data || !Number.isInteger(index) || index < 0 || index >= transfer.totalChunks
+                || transfer.chunks[index] || transfer.receivedBytes + data.length > transfer.fileSize) {
+            this._refuse(senderId, transferId);
+            this._fail(transferId, FileTransferError.INVALID_CHUNK);
+
+            return;
+        }
+
+        transfer.chunks[index] = data;
+        transfer.receivedBytes += data.length;
+        transfer.receivedChunks++;
+        this._conference.eventEmitter.emit(
+            JitsiConferenceEvents.FILE_SHARING_TRANSFER_PROGRESS, transferId, transfer.receivedBytes,
+            transfer.fileSize);
+
+        if (transfer.receivedChunks === transfer.totalChunks) {
+            clearTimeout(transfer.timeout);
+            this._complete(transfer).catch(error => {
+                logger.error(`Failed to complete file transfer ${transferId}`, error);
+                this._fail(transferId, FileTransferError.RECEIVE_FAILED);
+            });
+        } else {
+            this._resetTimeout(transfer);
+        }
+    }
+
+    /**
+     * Reassembles a received file and verifies its hash.
+     *
+     * @param {IIncomingTransfer} transfer - The transfer.
+     * @returns {Promise<void>}
+     */
+    private async _complete(transfer: IIncomingTransfer): Promise<void> {
+        const data = new Uint8Array(transfer.receivedBytes);
+        let offset = 0;
+
+        for (const chunk of transfer.chunks) {
+            data.set(chunk, offset);
+            offset += chunk.length;
+        }
+
+        const hash = await computeHash(data);
+
+        if (this._incoming.get(transfer.transferId) !== transfer) {
+            return;
+        }
+
+        if (hash !== transfer.hash || data.length !== transfer.fileSize) {
+            this._fail(transfer.transferId, FileTransferError.HASH_MISMATCH);
+
+            return;
+        }
+
+        this._incoming.delete(transfer.transferId);
+        this._conference.eventEmitter.emit(
+            JitsiConferenceEvents.FILE_SHARING_TRANSFER_FINISHED,
+            transfer.transferId,
+            new Blob([ data ], { type: transfer.fileType }));
+    }
+
+    /**
+     * Handles a transfer aborted by the remote side.
+     *
+     * @param {string} participantId - The ID of the participant who aborted the transfer.
+     * @param {string} transferId - The ID of the transfer.
+     * @returns {void}
+     */
+    private _onCancel(participantId: string, transferId: string): void {
+        const outgoing = this._outgoing.get(transferId);
+
+        if (outgoing?.recipients.has(participantId)) {
+            this._removeRecipient(outgoing, participantId, FileTransferError.CANCELLED);
+        } else if (this._incoming.get(transferId)?.senderId === participantId) {
+            this._fail(transferId, FileTransferError.CANCELLED);
+        }
+    }
+
+    /**
+     * Handles an endpoint message that was received.
+     *
+     * @param {JitsiParticipant} participant - The message sender.
+     * @param {any} payload - The payload of the message.
+     * @returns {void}
+     */
+    private _onMessageReceived(participant: JitsiParticipant, payload: any): void {
+        switch (payload?.type) {
+        case FILE_TRANSFER_OFFER:
+            this._onOffer(participant.getId(), payload);
+            break;
+        case FILE_TRANSFER_CHUNK:
+            this._onChunk(participant.getId(), payload);
+            break;
+        case FILE_TRANSFER_CANCEL:
+            this._onCancel(participant.getId(), payload.transferId);
+            break;
+        }
+    }
+
+    /**
+     * Handles a participant leaving the conference, aborting the transfers from and to them.
+     *
+     * @param {string} id - The ID of the participant.
+     * @returns {void}
+     */
+    private _onParticipantLeft(id: string): void {
+        for (const transfer of Array.from(this._outgoing.values())) {
+            transfer.recipients.has(id) && this._removeRecipient(transfer, id, FileTransferError.PARTICIPANT_LEFT);
+        }
+
+        for (const transfer of Array.from(this._incoming.values())) {
+            transfer.senderId === id && this._fail(transfer.transferId, FileTransferError.PARTICIPANT_LEFT);
+        }
+    }
+
+    /**
+     * Starts sending a file to the given participants. Progress and completion are reported through the
+     * {@link JitsiConferenceEvents.FILE_SHARING_TRANSFER_PROGRESS} and
+     * {@link JitsiConferenceEvents.FILE_SHARING_TRANSFER_FINISHED} events.
+     *
+     * @param {Blob} file - The file to send.
+     * @param {string[]} participantIds - The IDs of the participants who should receive the file.
+     * @returns {string} The ID of the transfer.
+     */
+    sendFile(file: Blob, participantIds: string[]): string {
+        const recipients = new Set(participantIds.filter(id => this._conference.getParticipantById(id)));
+
+        if (!recipients.size) {
+            throw new Error('No participant to send the file to');
+        }
+
+        if (file.size > this._maxFileSize) {
+            throw new Error(`The file is larger than ${this._maxFileSize} bytes`);
+        }
+
+        const transfer: IOutgoingTransfer = {
+            cancelled: false,
+            recipients,
+            transferId: uuidv4()
+        };
+
+        this._outgoing.set(transfer.transferId, transfer);
+        this._send(transfer, file, (file as File).name ?? '').catch(error => {
+            logger.error(`Failed to send file transfer ${transfer.transferId}`, error);
+            this._fail(transfer.transferId, FileTransferError.SEND_FAILED);
+        });
+
+        return transfer.transferId;
+    }
+
+    /**
+     * Cancels a transfer in either direction and notifies the other side.
+     *
+     * @param {string} transferId - The ID of the transfer.
+     * @returns {void}
+     */
+    cancel(transferId: string): void {
+        const message = {
+            transferId,
+            type: FILE_TRANSFER_CANCEL
+        };
+        const outgoing = this._outgoing.get(transferId);
+        const incoming = this._incoming.get(transferId);
+
+        if (outgoing || incoming) {
+            (outgoing ? this._sendToRecipients(outgoing, message) : this._sendMessage(incoming.senderId, message))
+                .catch(error => logger.warn(`Failed to notify the cancellation of file transfer ${transferId}`, error));
+        }
+
+        this._fail(transferId, FileTransferError.CANCELLED);
+    }
+
+    /**
+     * Cancels all the transfers and stops listening for events.
+     */
+    stop(): void {
+        for (const transferId of [ ...this._outgoing.keys(), ...this._incoming.keys() ]) {
+            this.cancel(transferId);
+        }
+
+        this._conference.off(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, this._onMessageReceived);
+        this._conference.off(JitsiConferenceEvents.USER_LEFT, this._onParticipantLeft);
+    }
+}
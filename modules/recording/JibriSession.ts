@@ -4,6 +4,8 @@ import { $iq } from 'strophe.js';
 import JitsiParticipant from '../../JitsiParticipant';
 import XmppConnection from '../xmpp/XmppConnection';
 
+import { RecordingRequest, validateRequest } from './RecordingStateMachine';
+import { RecordingError, RecordingMode, RecordingStatus } from './recordingConstants';
 import { getSessionIdFromIq } from './recordingXMLUtils';
 
 const logger = getLogger('recording:JibriSession');
@@ -11,9 +13,9 @@ const logger = getLogger('recording:JibriSession');
 export interface IJibriSessionOptions {
     connection?: XmppConnection;
     focusMucJid?: string;
-    mode?: string;
+    mode?: RecordingMode;
     sessionID?: string;
-    status?: string;
+    status?: RecordingStatus;
 }
 
 export interface IStartOptions {
@@ -27,12 +29,36 @@ export interface IStopOptions {
     focusMucJid: string;
 }
 
+export interface IMarkerOptions {
+    focusMucJid: string;
+    label: string;
+    timestamp?: number;
+}
+
+/**
+ * A chapter marker inserted in a recording.
+ */
+export interface IRecordingMarker {
+
+    /**
+     * The label of the chapter.
+     */
+    label: string;
+
+    /**
+     * When the marker was added, in milliseconds since the epoch.
+     */
+    timestamp: number;
+}
+
 export interface IQOptions {
-    action?: 'start' | 'stop';
+    action?: RecordingRequest | 'start';
     appData?: string;
     broadcastId?: string;
     focusMucJid: string;
+    label?: string;
     streamId?: string;
+    timestamp?: number;
 }
 
 /**
@@ -40,16 +66,19 @@ export interface IQOptions {
  */
 export default class JibriSession {
     private _connection?: XmppConnection;
-    private _mode?: string;
+    private _mode?: RecordingMode;
     private _jibriJid: Nullable<string> = null;
-    private _statusFromJicofo: string = '';
+    private _statusFromJicofo: RecordingStatus = RecordingStatus.UNKNOWN;
     private _sessionID?: string;
-    private _status?: string;
-    private _error?: string;
+    private _status?: RecordingStatus;
+    private _error?: RecordingError;
     private _liveStreamViewURL?: string;
     private _initiator?: JitsiParticipant | string;
     private _terminator?: JitsiParticipant | string;
     private _focusMucJid?: string;
+    private _markers: IRecordingMarker[] = [];
+    private _startedAt?: number;
+    private _endedAt?: number;
 
     /**
      * Initializes a new JibriSession instance.
@@ -60,18 +89,56 @@ export default class JibriSession {
         this._connection = options.connection;
         this._mode = options.mode;
         this._jibriJid = null;
-        this._statusFromJicofo = '';
+        this._statusFromJicofo = RecordingStatus.UNKNOWN;
         this._setSessionID(options.sessionID);
         this.setStatus(options.status);
         this._focusMucJid = options.focusMucJid;
     }
 
+    /**
+     * Keeps when the session started recording and when it ended, for the recording history. Sessions which were
+     * already on when the local participant joined are seen as started then.
+     *
+     * @returns {void}
+     */
+    private _updateTimes(): void {
+        const status = this.getStatus();
+
+        if (status === RecordingStatus.ON && this._startedAt === undefined) {
+            this._startedAt = Date.now();
+        } else if (status === RecordingStatus.OFF && this._endedAt === undefined) {
+            this._endedAt = Date.now();
+        }
+    }
+
+    /**
+     * Returns for how long the session recorded, in milliseconds, up to now if it is still recording.
+     *
+     * @returns {number}
+     */
+    getDuration(): number {
+        if (this._startedAt === undefined) {
+            return 0;
+        }
+
+        return (this._endedAt ?? Date.now()) - this._startedAt;
+    }
+
+    /**
+     * Returns when the session stopped, in milliseconds since the epoch.
+     *
+     * @returns {Optional<number>}
+     */
+    getEndedAt(): Optional<number> {
+        return this._endedAt;
+    }
+
     /**
      * Returns the error related to the session instance, if any.
      *
-     * @returns {Optional<string>}
+     * @returns {Optional<RecordingError>}
      */
-    getError(): Optional<string> {
+    getError(): Optional<RecordingError> {
         return this._error;
     }
 
@@ -102,12 +169,21 @@ export default class JibriSession {
         return this._liveStreamViewURL;
     }
 
+    /**
+     * Returns when the session started recording, in milliseconds since the epoch.
+     *
+     * @returns {Optional<number>}
+     */
+    getStartedAt(): Optional<number> {
+        return this._startedAt;
+    }
+
     /**
      * Returns the current status of the session.
      *
-     * @returns {Optional<string>}
+     * @returns {RecordingStatus}
      */
-    getStatus(): Optional<string> {
+    getStatus(): RecordingStatus {
         // If _status is not set fallback to the status reported by jicofo.
         if (this._status) {
             return this._status;
@@ -132,23 +208,32 @@ export default class JibriSession {
         return this._terminator;
     }
 
+    /**
+     * Returns the chapter markers added to the session by the local participant.
+     *
+     * @returns {IRecordingMarker[]}
+     */
+    getMarkers(): IRecordingMarker[] {
+        return [ ...this._markers ];
+    }
+
     /**
      * Returns the current recording mode of the session, such as "file".
      *
-     * @returns {string}
+     * @returns {RecordingMode}
      */
-    getMode(): string {
+    getMode(): RecordingMode {
         return this._mode;
     }
 
     /**
      * Sets the last known error message related to the session.
      *
-     * @param {string} error - The error string explaining why the session
+     * @param {RecordingError} error - The error string explaining why the session
      * entered an error state.
      * @returns {void}
      */
-    setError(error: string): void {
+    setError(error: RecordingError): void {
         this._error = error;
     }
 
@@ -166,21 +251,23 @@ export default class JibriSession {
     /**
      * Sets the last known status for this recording session.
      *
-     * @param {string} status - The new status to set.
+     * @param {RecordingStatus} status - The new status to set.
      * @returns {void}
      */
-    setStatus(status?: string): void {
+    setStatus(status?: RecordingStatus): void {
         this._status = status;
+        this._updateTimes();
     }
 
     /**
      * Set the session status reported by jicofo. If a jibri is present in the room,
      * the status is always 'on'. Otherwise, we fallback to the status reported by jicofo.
      *
-     * @param {string} status
+     * @param {RecordingStatus} status
      */
-    setStatusFromJicofo(status: string): void {
+    setStatusFromJicofo(status: RecordingStatus): void {
         this._statusFromJicofo = status;
+        this._updateTimes();
     }
 
     /**
@@ -235,7 +322,7 @@ export default class JibriSession {
                     streamId
                 }),
                 (result: any) => {
-                    this.setStatus('pending');
+                    this.setStatus(RecordingStatus.PENDING);
                     this._setSessionID(
                         getSessionIdFromIq(result)
                     );
@@ -251,6 +338,81 @@ export default class JibriSession {
         });
     }
 
+    /**
+     * Sends a message to insert a chapter marker in the recording. The session must be on or paused. The message is a
+     * jibri IQ with the "marker" action and the label and timestamp attributes, which jicofo only forwards when it
+     * advertises {@link FEATURE_JIBRI_MARKERS}:
+     * <jibri xmlns="http://jitsi.org/protocol/jibri" action="marker" recording_mode="file" label="Intro"
+     *     timestamp="1704067200000"/>.
+     *
+     * @param {Object} options - Additional arguments for the marker.
+     * @param {string} options.focusMucJid - The JID of the focus participant that controls recording.
+     * @param {string} options.label - The label of the chapter.
+     * @param {number} [options.timestamp] - When the chapter starts, in milliseconds since the epoch. Now when not set.
+     * @returns {Promise<IRecordingMarker>} Resolves with the marker once it was added.
+     */
+    async addMarker({ focusMucJid, label, timestamp = Date.now() }: IMarkerOptions): Promise<IRecordingMarker> {
+        validateRequest(this.getStatus(), RecordingRequest.MARKER);
+
+        logger.info('Adding recording marker');
+
+        await this._sendIQ({
+            action: RecordingRequest.MARKER,
+            focusMucJid,
+            label,
+            timestamp
+        });
+
+        const marker = { label, timestamp };
+
+        this._markers.push(marker);
+
+        return marker;
+    }
+
+    /**
+     * Sends a message to pause the recording session. The session must be on. The message is a jibri IQ with the
+     * "pause" action, which jicofo only forwards when it advertises {@link FEATURE_JIBRI_PAUSE}:
+     * <jibri xmlns="http://jitsi.org/protocol/jibri" action="pause" recording_mode="file"/>.
+     * Jicofo then reports the "paused" status in the jibri-recording-status of its presence.
+     *
+     * @param {Object} options - Additional arguments for pausing the recording.
+     * @param {string} options.focusMucJid - The JID of the focus participant that controls recording.
+     * @returns {Promise<void>}
+     */
+    async pause({ focusMucJid }: IStopOptions): Promise<void> {
+        validateRequest(this.getStatus(), RecordingRequest.PAUSE);
+
+        logger.info('Pausing recording session');
+
+        await this._sendIQ({
+            action: RecordingRequest.PAUSE,
+            focusMucJid
+        });
+
+        this.setStatus(RecordingStatus.PAUSED);
+    }
+
+    /**
+     * Sends a message to resume the paused recording session, a jibri IQ with the "resume" action. See {@link pause}.
+     *
+     * @param {Object} options - Additional arguments for resuming the recording.
+     * @param {string} options.focusMucJid - The JID of the focus participant that controls recording.
+     * @returns {Promise<void>}
+     */
+    async resume({ focusMucJid }: IStopOptions): Promise<void> {
+        validateRequest(this.getStatus(), RecordingRequest.RESUME);
+
+        logger.info('Resuming recording session');
+
+        await this._sendIQ({
+            action: RecordingRequest.RESUME,
+            focusMucJid
+        });
+
+        this.setStatus(RecordingStatus.ON);
+    }
+
     /**
      * Sends a message to actually stop the recording session.
      *
@@ -259,12 +421,18 @@ export default class JibriSession {
      * @returns Promise
      */
     stop({ focusMucJid }: IStopOptions): Promise<any> {
+        try {
+            validateRequest(this.getStatus(), RecordingRequest.STOP);
+        } catch (error) {
+            return Promise.reject(error);
+        }
+
         logger.info('Stopping recording session');
 
         return new Promise((resolve, reject) => {
             this._connection?.sendIQ(
                 this._createIQ({
-                    action: 'stop',
+                    action: RecordingRequest.STOP,
                     focusMucJid
                 }),
                 resolve,
@@ -284,12 +452,14 @@ export default class JibriSession {
      * can be viewed.
      * @param {string} options.focusMucJid - The JID of the focus participant
      * that controls recording.
+     * @param {string} [options.label] - The label of a chapter marker.
      * @param {streamId} options.streamId - Necessary for live streaming, this
      * is the stream key needed to start a live streaming session with the
      * streaming service provider.
+     * @param {number} [options.timestamp] - The timestamp of a chapter marker.
      * @returns Object - The XMPP IQ message.
      */
-    _createIQ({ action, appData, broadcastId, focusMucJid, streamId }: IQOptions) {
+    _createIQ({ action, appData, broadcastId, focusMucJid, label, streamId, timestamp }: IQOptions) {
         return $iq({
             to: focusMucJid,
             type: 'set'
@@ -297,14 +467,38 @@ export default class JibriSession {
         .c('jibri', {
             'action': action,
             'app_data': appData,
+            'label': label,
             'recording_mode': this._mode,
             'streamid': streamId,
+            'timestamp': timestamp,
             'xmlns': 'http://jitsi.org/protocol/jibri',
             'you_tube_broadcast_id': broadcastId
         })
         .up();
     }
 
+    /**
+     * Sends a message to change the recording session once it was started. A rejected message leaves the session as
+     * it is, the recording goes on.
+     *
+     * @param {IQOptions} options - The content of the message.
+     * @private
+     * @returns {Promise<Element>} Resolves with the result of the IQ, rejects with its error.
+     */
+    _sendIQ(options: IQOptions): Promise<Element> {
+        return new Promise((resolve, reject) => {
+            this._connection?.sendIQ(
+                this._createIQ(options),
+                resolve,
+                (error: any) => {
+                    logger.warn(`The ${options.action} request was rejected`, error);
+
+                    reject(error);
+                }
+            );
+        });
+    }
+
     /**
      * Handles the error from an iq and stores the error.
      *
@@ -315,7 +509,7 @@ export default class JibriSession {
     _setErrorFromIq(errorIq: any): void {
         const error = errorIq.getElementsByTagName('error')[0];
 
-        this.setError(error.children[0].tagName);
+        this.setError(error.children[0].tagName as RecordingError);
     }
 
     /**
@@ -0,0 +1,148 @@
+import { EventEmitter } from 'events';
+
+import JitsiConference from '../../JitsiConference';
+import { JitsiConferenceEvents } from '../../JitsiConferenceEvents';
+
+import LocalRecorder from './LocalRecorder';
+import recordingConstants from './recordingConstants';
+
+/**
+ * A MediaRecorder which emits the chunks on demand.
+ */
+class FakeMediaRecorder {
+    mimeType = 'audio/webm';
+    ondataavailable?: (event: { data: Blob; }) => void;
+    onerror?: (event: Event) => void;
+    onstop?: () => void;
+    state = 'inactive';
+    stream: MediaStream;
+
+    constructor(stream: MediaStream) {
+        this.stream = stream;
+    }
+
+    emitData(data: string) {
+        this.ondataavailable?.({ data: new Blob([ data ]) });
+    }
+
+    pause() {
+        this.state = 'paused';
+    }
+
+    resume() {
+        this.state = 'recording';
+    }
+
+    start() {
+        this.state = 'recording';
+    }
+
+    stop() {
+        this.state = 'inactive';
+        this.emitData('last');
+        setTimeout(() => this.onstop?.());
+    }
+}
+
+describe('LocalRecorder', () => {
+    let conference: JitsiConference;
+    let eventEmitter: EventEmitter;
+    let originalMediaRecorder: typeof MediaRecorder;
+    let recorder: LocalRecorder;
+    let statuses: string[];
+
+    beforeEach(() => {
+        originalMediaRecorder = window.MediaRecorder;
+        (window as any).MediaRecorder = FakeMediaRecorder;
+
+        eventEmitter = new EventEmitter();
+        conference = {
+            eventEmitter,
+            getLocalAudioTrack: () => null,
+            getParticipants: () => [],
+            myUserId: () => 'local',
+            off: (event: string, listener: (...args: any[]) => void) => eventEmitter.off(event, listener),
+            on: (event: string, listener: (...args: any[]) => void) => eventEmitter.on(event, listener)
+        } as unknown as JitsiConference;
+
+        statuses = [];
+        eventEmitter.on(JitsiConferenceEvents.RECORDER_STATE_CHANGED,
+            (session: LocalRecorder) => statuses.push(session.getStatus()));
+
+        recorder = new LocalRecorder(conference, { timeslice: 1000 });
+    });
+
+    afterEach(() => {
+        window.MediaRecorder = originalMediaRecorder;
+    });
+
+    it('emits the status changes like a recording session', async () => {
+        await recorder.start();
+
+        expect(recorder.getMode()).toBe(recordingConstants.mode.LOCAL);
+        expect(recorder.getInitiator()).toBe('local');
+        expect(recorder.getTerminator()).toBeUndefined();
+
+        recorder.pause();
+        recorder.resume();
+        await recorder.stop();
+
+        expect(statuses).toEqual([
+            recordingConstants.status.PENDING,
+            recordingConstants.status.ON,
+            recordingConstants.status.PAUSED,
+            recordingConstants.status.ON,
+            recordingConstants.status.OFF
+        ]);
+        expect(recorder.getTerminator()).toBe('local');
+        expect(recorder.getError()).toBeUndefined();
+    });
+
+    it('rejects invalid pause and resume calls', async () => {
+        expect(() => recorder.pause()).toThrowError();
+
+        await recorder.start();
+
+        expect(() => recorder.resume()).toThrowError();
+    });
+
+    it('adds markers while recording', async () => {
+        expect(() => recorder.addMarker('intro')).toThrowError();
+
+        await recorder.start();
+        recorder.addMarker('intro', 1000);
+        recorder.pause();
+        recorder.addMarker('questions', 2000);
+
+        expect(recorder.getMarkers()).toEqual([
+            { label: 'intro',
+                timestamp: 1000 },
+            { label: 'questions',
+                timestamp: 2000 }
+        ]);
+    });
+
+    it('emits the chunks and returns the whole recording when stopped', async () => {
+        const chunks: Blob[] = [];
+
+        eventEmitter.on(JitsiConferenceEvents.LOCAL_RECORDING_DATA_AVAILABLE,
+            (_session: LocalRecorder, data: Blob) => chunks.push(data));
+
+        await recorder.start();
+        ((recorder as any)._mediaRecorder as FakeMediaRecorder).emitData('first');
+
+        const blob = await recorder.stop();
+
+        expect(chunks.length).toBe(2);
+        expect(blob?.type).toBe('audio/webm');
+        expect(await blob?.text()).toBe('firstlast');
+    });
+
+    it('does not return the recording when the chunks are not retained', async () => {
+        recorder = new LocalRecorder(conference, { retainChunks: false });
+
+        await recorder.start();
+
+        expect(await recorder.stop()).toBeUndefined();
+    });
+});
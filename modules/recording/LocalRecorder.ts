@@ -0,0 +1,389 @@
+import { getLogger } from '@jitsi/logger';
+import { v4 as uuidv4 } from 'uuid';
+
+import JitsiConference from '../../JitsiConference';
+import { JitsiConferenceEvents } from '../../JitsiConferenceEvents';
+import { MediaType } from '../../service/RTC/MediaType';
+import JitsiTrack from '../RTC/JitsiTrack';
+import AudioMixer from '../webaudio/AudioMixer';
+
+import { IRecordingMarker } from './JibriSession';
+import { RecordingRequest, isValidTransition, validateRequest } from './RecordingStateMachine';
+import { RecordingError, RecordingMode, RecordingStatus } from './recordingConstants';
+
+const logger = getLogger('recording:LocalRecorder');
+
+export interface ILocalRecordingOptions {
+
+    /**
+     * Whether the audio of the local participant is mixed with the remote audio, true when not set.
+     */
+    includeLocalAudio?: boolean;
+
+    /**
+     * The container and codecs of the recording, chosen by the browser when not set.
+     */
+    mimeType?: string;
+
+    /**
+     * Whether the chunks are kept so the whole recording is returned when it stops, true when not set. Disable it
+     * for long recordings saved chunk by chunk.
+     */
+    retainChunks?: boolean;
+
+    /**
+     * How often a chunk of the recording is emitted with {@link JitsiConferenceEvents.LOCAL_RECORDING_DATA_AVAILABLE},
+     * in milliseconds. A single chunk is emitted when the recording stops if not set.
+     */
+    timeslice?: number;
+
+    /**
+     * The video track recorded along with the mixed audio, audio only when not set.
+     */
+    videoTrack?: JitsiTrack;
+}
+
+/**
+ * Records the conference in the browser with MediaRecorder, for deployments without Jibri. All the remote audio,
+ * and the local audio, is mixed through an {@link AudioMixer} and recorded along with an optional video track.
+ *
+ * It exposes the same getters as {@link JibriSession}, with the "local" mode, and its status changes are emitted with
+ * {@link JitsiConferenceEvents.RECORDER_STATE_CHANGED} so local and Jibri recordings can be handled the same way.
+ */
+export default class LocalRecorder {
+    private _audioMixer: AudioMixer;
+    private _chunks: Blob[];
+    private _conference: JitsiConference;
+    private _error?: RecordingError;
+    private _markers: IRecordingMarker[];
+    private _mediaRecorder?: MediaRecorder;
+    private _mixedStreams: Map<JitsiTrack, MediaStream>;
+    private _options: ILocalRecordingOptions;
+    private _sessionID: string;
+    private _status: RecordingStatus;
+    private _stopped?: Promise<Optional<Blob>>;
+
+    /**
+     * Creates a recorder for a conference, call {@link start} to start recording.
+     *
+     * @param {JitsiConference} conference - The conference to record.
+     * @param {ILocalRecordingOptions} [options] - The recording options.
+     */
+    constructor(conference: JitsiConference, options: ILocalRecordingOptions = {}) {
+        this._audioMixer = new AudioMixer();
+        this._chunks = [];
+        this._conference = conference;
+        this._markers = [];
+        this._mixedStreams = new Map();
+        this._options = options;
+        this._sessionID = uuidv4();
+        this._status = RecordingStatus.UNKNOWN;
+
+        this._onTrackAdded = this._onTrackAdded.bind(this);
+        this._onTrackRemoved = this._onTrackRemoved.bind(this);
+    }
+
+    /**
+     * Whether the browser can record locally.
+     *
+     * @returns {boolean}
+     */
+    static isSupported(): boolean {
+        return typeof window.MediaRecorder !== 'undefined';
+    }
+
+    /**
+     * Mixes the audio of a track, if it should be recorded.
+     *
+     * @param {JitsiTrack} track - The track.
+     * @returns {void}
+     */
+    private _addTrack(track: JitsiTrack): void {
+        if (track.getType() !== MediaType.AUDIO || this._mixedStreams.has(track)
+                || (track.isLocal() && this._options.includeLocalAudio === false)) {
+            return;
+        }
+
+        const stream = new MediaStream([ track.getTrack() ]);
+
+        this._mixedStreams.set(track, stream);
+        this._audioMixer.addMediaStream(stream);
+    }
+
+    /**
+     * Releases the mixer and the listeners once the recording stopped.
+     *
+     * @returns {void}
+     */
+    private _cleanup(): void {
+        this._conference.off(JitsiConferenceEvents.TRACK_ADDED, this._onTrackAdded);
+        this._conference.off(JitsiConferenceEvents.TRACK_REMOVED, this._onTrackRemoved);
+        this._audioMixer.reset();
+        this._mixedStreams.clear();
+        this._mediaRecorder = undefined;
+    }
+
+    /**
+     * Emits a chunk of the recording.
+     *
+     * @param {BlobEvent} event - The event of the MediaRecorder.
+     * @returns {void}
+     */
+    private _onDataAvailable({ data }: BlobEvent): void {
+        if (!data.size) {
+            return;
+        }
+
+        if (this._options.retainChunks !== false) {
+            this._chunks.push(data);
+        }
+
+        this._conference.eventEmitter.emit(JitsiConferenceEvents.LOCAL_RECORDING_DATA_AVAILABLE, this, data);
+    }
+
+    /**
+     * Mixes the audio tracks added while recording.
+     *
+     * @param {JitsiTrack} track - The added track.
+     * @returns {void}
+     */
+    private _onTrackAdded(track: JitsiTrack): void {
+        this._addTrack(track);
+    }
+
+    /**
+     * Stops mixing the audio tracks removed while recording.
+     *
+     * @param {JitsiTrack} track - The removed track.
+     * @returns {void}
+     */
+    private _onTrackRemoved(track: JitsiTrack): void {
+        const stream = this._mixedStreams.get(track);
+
+        if (stream) {
+            this._audioMixer.removeMediaStream(stream);
+            this._mixedStreams.delete(track);
+        }
+    }
+
+    /**
+     * Updates the status and notifies the listeners of {@link JitsiConferenceEvents.RECORDER_STATE_CHANGED}.
+     *
+     * @param {RecordingStatus} status - The new status.
+     * @returns {void}
+     */
+    private _setStatus(status: RecordingStatus): void {
+        if (isValidTransition({ from: this._status, to: status })) {
+            this._status = status;
+            this._conference.eventEmitter.emit(JitsiConferenceEvents.RECORDER_STATE_CHANGED, this);
+        }
+    }
+
+    /**
+     * Adds a chapter marker to the recording. The recording must be on or paused.
+     *
+     * @param {string} label - The label of the chapter.
+     * @param {number} [timestamp] - When the chapter starts, in milliseconds since the epoch. Now when not set.
+     * @returns {IRecordingMarker} The marker.
+     */
+    addMarker(label: string, timestamp: number = Date.now()): IRecordingMarker {
+        validateRequest(this._status, RecordingRequest.MARKER);
+
+        const marker = { label, timestamp };
+
+        this._markers.push(marker);
+
+        return marker;
+    }
+
+    /**
+     * Returns the error which stopped the recording, if any.
+     *
+     * @returns {Optional<RecordingError>}
+     */
+    getError(): Optional<RecordingError> {
+        return this._error;
+    }
+
+    /**
+     * Returns the ID of the recording.
+     *
+     * @returns {string}
+     */
+    getID(): string {
+        return this._sessionID;
+    }
+
+    /**
+     * Returns the participant who started the recording, always the local participant.
+     *
+     * @returns {string}
+     */
+    getInitiator(): string {
+        return this._conference.myUserId();
+    }
+
+    /**
+     * Local recordings are not streamed.
+     *
+     * @returns {undefined}
+     */
+    getLiveStreamViewURL(): undefined {
+        return undefined;
+    }
+
+    /**
+     * Returns the chapter markers added to the recording.
+     *
+     * @returns {IRecordingMarker[]}
+     */
+    getMarkers(): IRecordingMarker[] {
+        return [ ...this._markers ];
+    }
+
+    /**
+     * Returns the recording mode, always "local".
+     *
+     * @returns {RecordingMode}
+     */
+    getMode(): RecordingMode {
+        return RecordingMode.LOCAL;
+    }
+
+    /**
+     * Returns the current status of the recording.
+     *
+     * @returns {RecordingStatus}
+     */
+    getStatus(): RecordingStatus {
+        return this._status;
+    }
+
+    /**
+     * Returns the participant who stopped the recording, always the local participant.
+     *
+     * @returns {Optional<string>}
+     */
+    getTerminator(): Optional<string> {
+        return this._status === RecordingStatus.OFF && this._stopped ? this._conference.myUserId() : undefined;
+    }
+
+    /**
+     * Pauses the recording.
+     *
+     * @returns {void}
+     */
+    pause(): void {
+        validateRequest(this._status, RecordingRequest.PAUSE);
+
+        this._mediaRecorder.pause();
+        this._setStatus(RecordingStatus.PAUSED);
+    }
+
+    /**
+     * Resumes a paused recording.
+     *
+     * @returns {void}
+     */
+    resume(): void {
+        validateRequest(this._status, RecordingRequest.RESUME);
+
+        this._mediaRecorder.resume();
+        this._setStatus(RecordingStatus.ON);
+    }
+
+    /**
+     * Starts recording.
+     *
+     * @returns {Promise<void>} Rejected if the browser cannot record or the recording was already started.
+     */
+    async start(): Promise<void> {
+        if (!LocalRecorder.isSupported()) {
+            throw new Error('Local recording is not supported');
+        }
+
+        if (this._status) {
+            throw new Error('The recording was already started');
+        }
+
+        this._setStatus(RecordingStatus.PENDING);
+
+        for (const participant of this._conference.getParticipants()) {
+            participant.getTracksByMediaType(MediaType.AUDIO).forEach(track => this._addTrack(track));
+        }
+
+        const localAudioTrack = this._conference.getLocalAudioTrack();
+
+        localAudioTrack && this._addTrack(localAudioTrack);
+
+        this._conference.on(JitsiConferenceEvents.TRACK_ADDED, this._onTrackAdded);
+        this._conference.on(JitsiConferenceEvents.TRACK_REMOVED, this._onTrackRemoved);
+
+        try {
+            const mixedStream = this._audioMixer.start(true);
+
+            if (!mixedStream) {
+                throw new Error('Audio mixing is not supported');
+            }
+
+            const { mimeType, timeslice, videoTrack } = this._options;
+            const stream = new MediaStream([
+                ...mixedStream.getAudioTracks(),
+                ...videoTrack ? [ videoTrack.getTrack() ] : []
+            ]);
+
+            this._mediaRecorder = new MediaRecorder(stream, { mimeType });
+            this._mediaRecorder.ondataavailable = this._onDataAvailable.bind(this);
+            this._mediaRecorder.onerror = (event: Event) => {
+                logger.error('Local recording failed', event);
+                this._error = RecordingError.ERROR;
+                this._cleanup();
+                this._setStatus(RecordingStatus.OFF);
+            };
+            this._mediaRecorder.start(timeslice);
+        } catch (error) {
+            logger.error('Failed to start local recording', error);
+            this._error = RecordingError.ERROR;
+            this._cleanup();
+            this._setStatus(RecordingStatus.OFF);
+
+            throw error;
+        }
+
+        logger.info(`Local recording ${this._sessionID} started`);
+        this._setStatus(RecordingStatus.ON);
+    }
+
+    /**
+     * Stops recording.
+     *
+     * @returns {Promise<Blob|undefined>} The whole recording, undefined if the chunks were not retained.
+     */
+    stop(): Promise<Optional<Blob>> {
+        if (this._stopped) {
+            return this._stopped;
+        }
+
+        const mediaRecorder = this._mediaRecorder;
+
+        if (!mediaRecorder) {
+            return Promise.reject(new Error('The recording is not active'));
+        }
+
+        this._stopped = new Promise(resolve => {
+            mediaRecorder.onstop = () => {
+                logger.info(`Local recording ${this._sessionID} stopped`);
+                this._cleanup();
+                this._setStatus(RecordingStatus.OFF);
+
+                resolve(this._options.retainChunks === false
+                    ? undefined
+                    : new Blob(this._chunks, { type: mediaRecorder.mimeType }));
+            };
+        });
+
+        mediaRecorder.stop();
+
+        return this._stopped;
+    }
+}
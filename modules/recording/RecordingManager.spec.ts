@@ -0,0 +1,135 @@
+import { EventEmitter } from 'events';
+import { $pres } from 'strophe.js';
+
+import ChatRoom from '../xmpp/ChatRoom';
+import { FEATURE_JIBRI_PAUSE } from '../xmpp/xmpp';
+
+import RecordingManager from './RecordingManager';
+import { RecordingMode, RecordingStatus } from './recordingConstants';
+
+/**
+ * Creates the presence of the focus reporting the status of a recording session.
+ */
+function focusPresence(status: RecordingStatus, error?: string): Element {
+    return $pres({ from: 'room@conference.example.com/focus' })
+        .c('jibri-recording-status', {
+            'failure_reason': error,
+            'initiator': 'room@conference.example.com/alice',
+            'recording_mode': RecordingMode.FILE,
+            'session_id': 'session1',
+            status
+        })
+        .tree();
+}
+
+/**
+ * Creates the presence of the Jibri recording a session.
+ */
+function jibriPresence(): Element {
+    return $pres({ from: 'room@conference.example.com/jibri' })
+        .c('session_id')
+        .t('session1')
+        .up()
+        .c('mode')
+        .t('FILE')
+        .tree();
+}
+
+describe('RecordingManager', () => {
+    let focusFeatures: Set<string>;
+    let recordingManager: RecordingManager;
+    let sendIQ: jasmine.Spy;
+
+    beforeEach(() => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date(2024, 0, 1));
+
+        focusFeatures = new Set();
+        sendIQ = jasmine.createSpy('sendIQ');
+        recordingManager = new RecordingManager({
+            connection: { sendIQ },
+            eventEmitter: new EventEmitter(),
+            focusMucJid: 'room@conference.example.com/focus',
+            isFocusFeatureSupported: (feature: string) => focusFeatures.has(feature),
+            role: 'moderator'
+        } as unknown as ChatRoom);
+    });
+
+    afterEach(() => {
+        jasmine.clock().uninstall();
+    });
+
+    describe('getRecordingHistory', () => {
+        it('is empty without recordings', () => {
+            expect(recordingManager.getRecordingHistory()).toEqual([]);
+        });
+
+        it('lists the stopped sessions with their duration and error', () => {
+            const startedAt = Date.now();
+
+            recordingManager.onPresence({ fromHiddenDomain: false,
+                presence: focusPresence(RecordingStatus.PENDING) });
+            recordingManager.onPresence({ fromHiddenDomain: true,
+                presence: jibriPresence() });
+
+            jasmine.clock().tick(60000);
+
+            expect(recordingManager.getRecordingHistory()[0]).toEqual(jasmine.objectContaining({
+                duration: 60000,
+                mode: RecordingMode.FILE,
+                sessionID: 'session1',
+                startedAt,
+                status: RecordingStatus.ON
+            }));
+
+            recordingManager.onMemberLeft('room@conference.example.com/jibri');
+            recordingManager.onPresence({ fromHiddenDomain: false,
+                presence: focusPresence(RecordingStatus.OFF, 'error') });
+
+            jasmine.clock().tick(60000);
+
+            expect(recordingManager.getRecordingHistory()).toEqual([ jasmine.objectContaining({
+                duration: 60000,
+                endedAt: startedAt + 60000,
+                error: 'error',
+                status: RecordingStatus.OFF
+            }) ]);
+        });
+    });
+
+    describe('pauseRecording', () => {
+        beforeEach(() => {
+            recordingManager.onPresence({ fromHiddenDomain: false,
+                presence: focusPresence(RecordingStatus.ON) });
+            recordingManager.onPresence({ fromHiddenDomain: true,
+                presence: jibriPresence() });
+        });
+
+        it('is not sent if the focus does not support it', async () => {
+            await expectAsync(recordingManager.pauseRecording('session1')).toBeRejected();
+
+            expect(recordingManager.isPauseSupported()).toBeFalse();
+            expect(sendIQ).not.toHaveBeenCalled();
+        });
+
+        it('pauses the session', async () => {
+            focusFeatures.add(FEATURE_JIBRI_PAUSE);
+            sendIQ.and.callFake((_iq, onSuccess) => onSuccess());
+
+            await recordingManager.pauseRecording('session1');
+
+            expect(sendIQ.calls.mostRecent().args[0].tree().firstElementChild.getAttribute('action')).toBe('pause');
+            expect(recordingManager.getSession('session1').getStatus()).toBe(RecordingStatus.PAUSED);
+        });
+
+        it('leaves the session on when the request is rejected', async () => {
+            focusFeatures.add(FEATURE_JIBRI_PAUSE);
+            sendIQ.and.callFake((_iq, _onSuccess, onError) => onError($pres().tree()));
+
+            await expectAsync(recordingManager.pauseRecording('session1')).toBeRejected();
+
+            expect(recordingManager.getSession('session1').getStatus()).toBe(RecordingStatus.ON);
+            expect(recordingManager.getSession('session1').getError()).toBeUndefined();
+        });
+    });
+});
@@ -1,9 +1,13 @@
 import { getLogger } from '@jitsi/logger';
 
+import JitsiParticipant from '../../JitsiParticipant';
 import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
 import ChatRoom from '../xmpp/ChatRoom';
+import { FEATURE_JIBRI_MARKERS, FEATURE_JIBRI_PAUSE } from '../xmpp/xmpp';
 
-import JibriSession from './JibriSession';
+import JibriSession, { IRecordingMarker } from './JibriSession';
+import { isValidTransition } from './RecordingStateMachine';
+import { RecordingError, RecordingMode, RecordingStatus } from './recordingConstants';
 import { getFocusRecordingUpdate, getHiddenDomainUpdate, isFromFocus } from './recordingXMLUtils';
 
 const logger = getLogger('recording:RecordingManager');
@@ -11,10 +15,59 @@ const logger = getLogger('recording:RecordingManager');
 export interface IRecordingOptions {
     appData?: string;
     broadcastId?: string;
-    mode: string;
+    mode: RecordingMode;
     streamId?: string;
 }
 
+/**
+ * A recording session of the conference, as listed by {@link RecordingManager.getRecordingHistory}.
+ */
+export interface IRecordingHistoryEntry {
+
+    /**
+     * For how long the session recorded, in milliseconds.
+     */
+    duration: number;
+
+    /**
+     * When the session stopped, in milliseconds since the epoch.
+     */
+    endedAt?: number;
+
+    /**
+     * The error which stopped the session, if any.
+     */
+    error?: RecordingError;
+
+    /**
+     * The participant who started the session, or their resource if they are not in the conference.
+     */
+    initiator?: JitsiParticipant | string;
+
+    /**
+     * The URL the live stream can be watched at, for "stream" sessions.
+     */
+    liveStreamViewURL?: string;
+
+    /**
+     * The chapter markers added by the local participant.
+     */
+    markers: IRecordingMarker[];
+    mode: RecordingMode;
+    sessionID: string;
+
+    /**
+     * When the session started recording, in milliseconds since the epoch.
+     */
+    startedAt?: number;
+    status: RecordingStatus;
+
+    /**
+     * The participant who stopped the session, or their resource if they are not in the conference.
+     */
+    terminator?: JitsiParticipant | string;
+}
+
 /**
  * A class responsible for starting and stopping recording sessions and emitting
  * state updates for them.
@@ -56,6 +109,28 @@ class RecordingManager {
         return this._sessions[sessionID];
     }
 
+    /**
+     * Lists every recording session seen in the conference, including the stopped ones, so apps can show an audit
+     * trail of the recordings.
+     *
+     * @returns {IRecordingHistoryEntry[]}
+     */
+    getRecordingHistory(): IRecordingHistoryEntry[] {
+        return Object.values(this._sessions).map(session => ({
+            duration: session.getDuration(),
+            endedAt: session.getEndedAt(),
+            error: session.getError(),
+            initiator: session.getInitiator(),
+            liveStreamViewURL: session.getLiveStreamViewURL(),
+            markers: session.getMarkers(),
+            mode: session.getMode(),
+            sessionID: session.getID(),
+            startedAt: session.getStartedAt(),
+            status: session.getStatus(),
+            terminator: session.getTerminator()
+        }));
+    }
+
     /**
      * Find a session with a specific jibri JID.
      *
@@ -106,7 +181,7 @@ class RecordingManager {
             const prevStatus = session.getStatus();
 
             // Setting to ''
-            session.setStatus('');
+            session.setStatus(RecordingStatus.UNKNOWN);
             session.setJibriJid(null);
 
             if (session.getStatus() !== prevStatus) {
@@ -115,6 +190,94 @@ class RecordingManager {
         }
     }
 
+    /**
+     * Inserts a chapter marker in a recording session.
+     *
+     * @param {string} sessionID - The ID associated with the recording session.
+     * @param {string} label - The label of the chapter.
+     * @returns {Promise<IRecordingMarker>} Resolves with the marker once it was added.
+     */
+    addRecordingMarker(sessionID: string, label: string): Promise<IRecordingMarker> {
+        if (!this.isMarkerSupported()) {
+            return Promise.reject(new Error('The focus does not support recording markers'));
+        }
+
+        const session = this.getSession(sessionID);
+
+        if (session) {
+            return session.addMarker({
+                focusMucJid: this._chatRoom.focusMucJid,
+                label
+            });
+        }
+
+        return Promise.reject(new Error('Could not find session'));
+    }
+
+    /**
+     * Whether chapter markers can be added to the recording sessions, jicofo must forward them to jibri.
+     *
+     * @returns {boolean}
+     */
+    isMarkerSupported(): boolean {
+        return this._chatRoom.isFocusFeatureSupported(FEATURE_JIBRI_MARKERS);
+    }
+
+    /**
+     * Whether the recording sessions can be paused and resumed, jicofo must forward the requests to jibri.
+     *
+     * @returns {boolean}
+     */
+    isPauseSupported(): boolean {
+        return this._chatRoom.isFocusFeatureSupported(FEATURE_JIBRI_PAUSE);
+    }
+
+    /**
+     * Pauses a recording session.
+     *
+     * @param {string} sessionID - The ID associated with the recording session
+     * to be paused.
+     * @returns {Promise} The promise resolves after receiving an
+     * acknowledgment of the pause request success or fail.
+     */
+    pauseRecording(sessionID: string): Promise<void> {
+        if (!this.isPauseSupported()) {
+            return Promise.reject(new Error('The focus does not support pausing recordings'));
+        }
+
+        const session = this.getSession(sessionID);
+
+        if (session) {
+            return session.pause({ focusMucJid: this._chatRoom.focusMucJid })
+                .then(() => this._emitSessionUpdate(session));
+        }
+
+        return Promise.reject(new Error('Could not find session'));
+    }
+
+    /**
+     * Resumes a paused recording session.
+     *
+     * @param {string} sessionID - The ID associated with the recording session
+     * to be resumed.
+     * @returns {Promise} The promise resolves after receiving an
+     * acknowledgment of the resume request success or fail.
+     */
+    resumeRecording(sessionID: string): Promise<void> {
+        if (!this.isPauseSupported()) {
+            return Promise.reject(new Error('The focus does not support pausing recordings'));
+        }
+
+        const session = this.getSession(sessionID);
+
+        if (session) {
+            return session.resume({ focusMucJid: this._chatRoom.focusMucJid })
+                .then(() => this._emitSessionUpdate(session));
+        }
+
+        return Promise.reject(new Error('Could not find session'));
+    }
+
     /**
      * Start a recording session.
      *
@@ -195,11 +358,11 @@ class RecordingManager {
      * it.
      *
      * @param {string} sessionID - The session ID of the recording in progress.
-     * @param {string} status - The current status of the recording session.
-     * @param {string} mode - The recording mode of the session.
+     * @param {RecordingStatus} status - The current status of the recording session.
+     * @param {RecordingMode} mode - The recording mode of the session.
      * @returns {JibriSession}
      */
-    _createSession(sessionID: string, status: string, mode: string): JibriSession {
+    _createSession(sessionID: string, status: RecordingStatus, mode: RecordingMode): JibriSession {
         const session = new JibriSession({
             connection: this._chatRoom.connection,
             focusMucJid: this._chatRoom.focusMucJid,
@@ -247,7 +410,7 @@ class RecordingManager {
         // Handle the case where a status update is received in presence but
         // the local participant has joined while the JibriSession has already
         // ended.
-        if (!session && status === 'off') {
+        if (!session && status === RecordingStatus.OFF) {
             logger.warn(
                 'Ignoring recording presence update',
                 'Received a new session with status off.');
@@ -271,12 +434,17 @@ class RecordingManager {
 
         if (!session) {
             session = this._createSession(sessionID, status, recordingMode);
+        } else if (!isValidTransition({ from: session.getStatus(), to: status })) {
+            logger.warn(`Unexpected recording status transition from "${session.getStatus()}" to "${status}"`);
         }
 
+        const { PAUSED } = RecordingStatus;
+
         session.setStatusFromJicofo(status);
 
-        if (this._chatRoom.role === 'visitor') {
-            // visitors will not receive presence updates from jibri, so we handle their status here
+        if (this._chatRoom.role === 'visitor' || status === PAUSED || session.getStatus() === PAUSED) {
+            // visitors will not receive presence updates from jibri, so we handle their status here. Pausing is only
+            // reported by jicofo, as the jibri stays in the room.
             session.setStatus(status);
         }
 
@@ -308,11 +476,13 @@ class RecordingManager {
         let session = this.getSession(sessionID);
 
         if (!session) {
-            session = this._createSession(sessionID, 'on', mode);
+            session = this._createSession(sessionID, RecordingStatus.ON, mode);
         }
 
-        // When a jibri is present the status is always 'on';
-        session.setStatus('on');
+        // When a jibri is present the status is always 'on', unless jicofo reported the session as paused.
+        if (session.getStatus() !== RecordingStatus.PAUSED) {
+            session.setStatus(RecordingStatus.ON);
+        }
         session.setJibriJid(presence.getAttribute('from'));
         session.setLiveStreamViewURL(liveStreamViewURL);
 
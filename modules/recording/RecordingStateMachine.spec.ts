@@ -0,0 +1,42 @@
+import { RecordingRequest, isValidRequest, isValidTransition, validateRequest } from './RecordingStateMachine';
+import recordingConstants from './recordingConstants';
+
+const { OFF, ON, PAUSED, PENDING } = recordingConstants.status;
+
+describe('RecordingStateMachine', () => {
+    describe('isValidTransition', () => {
+        it('follows the lifecycle of a session', () => {
+            expect(isValidTransition({ from: '', to: PENDING })).toBeTrue();
+            expect(isValidTransition({ from: PENDING, to: ON })).toBeTrue();
+            expect(isValidTransition({ from: ON, to: PAUSED })).toBeTrue();
+            expect(isValidTransition({ from: PAUSED, to: ON })).toBeTrue();
+            expect(isValidTransition({ from: PAUSED, to: OFF })).toBeTrue();
+        });
+
+        it('rejects invalid transitions', () => {
+            expect(isValidTransition({ from: PENDING, to: PAUSED })).toBeFalse();
+            expect(isValidTransition({ from: OFF, to: ON })).toBeFalse();
+            expect(isValidTransition({ from: ON, to: ON })).toBeFalse();
+        });
+    });
+
+    describe('validateRequest', () => {
+        it('allows pausing and resuming in turn', () => {
+            expect(isValidRequest(ON, RecordingRequest.PAUSE)).toBeTrue();
+            expect(isValidRequest(PAUSED, RecordingRequest.PAUSE)).toBeFalse();
+            expect(isValidRequest(PAUSED, RecordingRequest.RESUME)).toBeTrue();
+            expect(isValidRequest(ON, RecordingRequest.RESUME)).toBeFalse();
+        });
+
+        it('allows markers only while recording', () => {
+            expect(isValidRequest(ON, RecordingRequest.MARKER)).toBeTrue();
+            expect(isValidRequest(PAUSED, RecordingRequest.MARKER)).toBeTrue();
+            expect(isValidRequest(PENDING, RecordingRequest.MARKER)).toBeFalse();
+        });
+
+        it('throws for invalid requests', () => {
+            expect(() => validateRequest(OFF, RecordingRequest.STOP)).toThrowError(/stop request is not allowed/);
+            expect(() => validateRequest(ON, RecordingRequest.STOP)).not.toThrow();
+        });
+    });
+});
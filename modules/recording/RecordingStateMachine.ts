@@ -0,0 +1,77 @@
+import { RecordingStatus } from './recordingConstants';
+
+const { OFF, ON, PAUSED, PENDING, UNKNOWN } = RecordingStatus;
+
+/**
+ * The requests which change a recording session once it was started.
+ */
+export enum RecordingRequest {
+    MARKER = 'marker',
+    PAUSE = 'pause',
+    RESUME = 'resume',
+    STOP = 'stop'
+}
+
+/**
+ * A change of the status of a recording session.
+ */
+export interface IRecordingStatusTransition {
+    from: RecordingStatus;
+    to: RecordingStatus;
+}
+
+/**
+ * The statuses a recording session can move to from each status.
+ */
+const TRANSITIONS: { [status in RecordingStatus]: RecordingStatus[]; } = {
+    [OFF]: [],
+    [ON]: [ OFF, PAUSED ],
+    [PAUSED]: [ OFF, ON ],
+    [PENDING]: [ OFF, ON ],
+    [UNKNOWN]: [ OFF, ON, PAUSED, PENDING ]
+};
+
+/**
+ * The statuses in which each request can be made.
+ */
+const REQUEST_STATUSES: { [request in RecordingRequest]: RecordingStatus[]; } = {
+    [RecordingRequest.MARKER]: [ ON, PAUSED ],
+    [RecordingRequest.PAUSE]: [ ON ],
+    [RecordingRequest.RESUME]: [ PAUSED ],
+    [RecordingRequest.STOP]: [ ON, PAUSED, PENDING, UNKNOWN ]
+};
+
+/**
+ * Whether a recording session can move from one status to another.
+ *
+ * @param {IRecordingStatusTransition} transition - The transition.
+ * @returns {boolean}
+ */
+export function isValidTransition({ from, to }: IRecordingStatusTransition): boolean {
+    return TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Whether a request can be made for a recording session in a status.
+ *
+ * @param {RecordingStatus} status - The status of the session.
+ * @param {RecordingRequest} request - The request.
+ * @returns {boolean}
+ */
+export function isValidRequest(status: RecordingStatus, request: RecordingRequest): boolean {
+    return REQUEST_STATUSES[request].includes(status);
+}
+
+/**
+ * Throws if a request cannot be made for a recording session in a status, so invalid requests are rejected before
+ * they are sent.
+ *
+ * @param {RecordingStatus} status - The status of the session.
+ * @param {RecordingRequest} request - The request.
+ * @returns {void}
+ */
+export function validateRequest(status: RecordingStatus, request: RecordingRequest): void {
+    if (!isValidRequest(status, request)) {
+        throw new Error(`The ${request} request is not allowed for a recording session with status "${status}"`);
+    }
+}
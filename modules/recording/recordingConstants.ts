@@ -1,40 +1,50 @@
+/**
+ * The reasons a recording session failed.
+ */
+export enum RecordingError {
+    BUSY = 'busy',
+    ERROR = 'error',
+    POLICY_VIOLATION = 'policy-violation',
+    RESOURCE_CONSTRAINT = 'resource-constraint',
+    SERVICE_UNAVAILABLE = 'service-unavailable',
+    UNEXPECTED_REQUEST = 'unexpected-request'
+}
+
+/**
+ * The kinds of recording sessions.
+ */
+export enum RecordingMode {
+    FILE = 'file',
+    LOCAL = 'local',
+    STREAM = 'stream'
+}
+
+/**
+ * The statuses of a recording session. The unknown status is used by sessions whose status was not reported yet, or
+ * no longer known once their Jibri left.
+ */
+export enum RecordingStatus {
+    OFF = 'off',
+    ON = 'on',
+    PAUSED = 'paused',
+    PENDING = 'pending',
+    UNKNOWN = ''
+}
+
 export interface IRecordingConstants {
-    error: {
-        BUSY: string;
-        ERROR: string;
-        POLICY_VIOLATION: string;
-        RESOURCE_CONSTRAINT: string;
-        SERVICE_UNAVAILABLE: string;
-        UNEXPECTED_REQUEST: string;
-    };
-    mode: {
-        FILE: string;
-        STREAM: string;
-    };
-    status: {
-        OFF: string;
-        ON: string;
-        PENDING: string;
-    };
+    error: typeof RecordingError;
+    mode: typeof RecordingMode;
+    status: Omit<typeof RecordingStatus, 'UNKNOWN'>;
 }
 
 const recordingConstants: IRecordingConstants = {
-    error: {
-        BUSY: 'busy',
-        ERROR: 'error',
-        POLICY_VIOLATION: 'policy-violation',
-        RESOURCE_CONSTRAINT: 'resource-constraint',
-        SERVICE_UNAVAILABLE: 'service-unavailable',
-        UNEXPECTED_REQUEST: 'unexpected-request'
-    },
-    mode: {
-        FILE: 'file',
-        STREAM: 'stream'
-    },
+    error: RecordingError,
+    mode: RecordingMode,
     status: {
-        OFF: 'off',
-        ON: 'on',
-        PENDING: 'pending'
+        OFF: RecordingStatus.OFF,
+        ON: RecordingStatus.ON,
+        PAUSED: RecordingStatus.PAUSED,
+        PENDING: RecordingStatus.PENDING
     }
 };
 
@@ -1,19 +1,21 @@
+import { RecordingError, RecordingMode, RecordingStatus } from './recordingConstants';
+
 /**
  * A collection of utility functions for taking in XML and parsing it to return
  * certain values.
  */
 
 export interface IFocusRecordingUpdate {
-    error?: string;
+    error?: RecordingError;
     initiator?: string;
-    recordingMode?: string;
+    recordingMode?: RecordingMode;
     sessionID?: string;
-    status?: string;
+    status?: RecordingStatus;
 }
 
 export interface IHiddenDomainUpdate {
     liveStreamViewURL?: string;
-    mode?: string;
+    mode?: RecordingMode;
     sessionID?: string;
 }
 
@@ -32,11 +34,11 @@ export function getFocusRecordingUpdate(presence: Element): Optional<IFocusRecor
     }
 
     return {
-        error: jibriStatus.getAttribute('failure_reason'),
+        error: jibriStatus.getAttribute('failure_reason') as RecordingError,
         initiator: jibriStatus.getAttribute('initiator'),
-        recordingMode: jibriStatus.getAttribute('recording_mode'),
+        recordingMode: jibriStatus.getAttribute('recording_mode') as RecordingMode,
         sessionID: jibriStatus.getAttribute('session_id'),
-        status: jibriStatus.getAttribute('status')
+        status: jibriStatus.getAttribute('status') as RecordingStatus
     };
 }
 
@@ -49,7 +51,7 @@ export function getFocusRecordingUpdate(presence: Element): Optional<IFocusRecor
  */
 export function getHiddenDomainUpdate(presence: Element): IHiddenDomainUpdate {
     const liveStreamViewURL = presence.getElementsByTagName('live-stream-view-url')[0]?.textContent;
-    const mode = presence.getElementsByTagName('mode')[0]?.textContent?.toLowerCase();
+    const mode = presence.getElementsByTagName('mode')[0]?.textContent?.toLowerCase() as RecordingMode;
     const sessionID = presence.getElementsByTagName('session_id')[0]?.textContent;
 
     return {
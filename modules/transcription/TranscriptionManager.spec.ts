@@ -0,0 +1,251 @@
+import { EventEmitter } from 'events';
+
+import JitsiConference from '../../JitsiConference';
+import { JitsiConferenceEvents } from '../../JitsiConferenceEvents';
+import { FEATURE_TRANSCRIBER, FEATURE_TRANSLATION } from '../xmpp/xmpp';
+
+import TranscriptionManager, { ITranscriptSegment } from './TranscriptionManager';
+import { TranscriptFormat } from './transcriptFormats';
+
+/**
+ * A minimal conference with a local participant and a remote participant speaking German and reading French.
+ */
+class MockConference extends EventEmitter {
+    eventEmitter = this;
+    localProperties = new Map<string, string>();
+    room = { getTranscriberFeatures: () => new Set([ FEATURE_TRANSCRIBER, FEATURE_TRANSLATION ]) };
+
+    /**
+     * Returns the remote participant.
+     */
+    getParticipantById(id: string) {
+        const properties = new Map([ [ 'transcription_language', 'de-DE' ], [ 'translation_language', 'fr-FR' ] ]);
+
+        return id === 'bob'
+            ? { getDisplayName: () => 'Bob',
+                getId: () => 'bob',
+                getProperty: (name: string) => properties.get(name) }
+            : undefined;
+    }
+
+    /**
+     * Returns the remote participants.
+     */
+    getParticipants() {
+        return [ this.getParticipantById('bob') ];
+    }
+
+    /**
+     * Removes a property of the local participant.
+     */
+    removeLocalParticipantProperty(name: string) {
+        this.localProperties.delete(name);
+    }
+
+    /**
+     * Sets a property of the local participant.
+     */
+    setLocalParticipantProperty(name: string, value: string) {
+        this.localProperties.set(name, value);
+    }
+
+    /**
+     * Returns the ID of the local participant.
+     */
+    myUserId() {
+        return 'alice';
+    }
+
+    /**
+     * The local participant did not set a language.
+     */
+    getLocalParticipantProperty() {
+        return undefined;
+    }
+}
+
+/**
+ * Creates a translation result as sent by the transcriber.
+ */
+function translation(id: string, language: string, text: string, time: number) {
+    return {
+        language,
+        message_id: id,
+        participant: { id: 'bob',
+            name: 'Bob' },
+        text,
+        timestamp: new Date(time).toISOString(),
+        type: 'translation-result'
+    };
+}
+
+/**
+ * Creates a transcription result as sent by the transcriber.
+ */
+function result(id: string, participantId: string, text: string, time: number, interim = false) {
+    return {
+        is_interim: interim,
+        message_id: id,
+        participant: { id: participantId },
+        stability: interim ? 0.5 : undefined,
+        timestamp: new Date(time).toISOString(),
+        transcript: [ { confidence: 0.9,
+            text } ],
+        type: 'transcription-result'
+    };
+}
+
+describe('TranscriptionManager', () => {
+    const start = Date.UTC(2024, 0, 1);
+    let conference: MockConference;
+    let manager: TranscriptionManager;
+    let segments: ITranscriptSegment[];
+
+    beforeEach(() => {
+        conference = new MockConference();
+        manager = new TranscriptionManager(conference as any as JitsiConference, { transcription: { maxSegments: 2 } });
+        segments = [];
+        conference.on(JitsiConferenceEvents.TRANSCRIPT_SEGMENT, segment => segments.push(segment));
+    });
+
+    afterEach(() => {
+        manager.stop();
+    });
+
+    it('emits interim and final segments', () => {
+        conference.emit(JitsiConferenceEvents.NON_PARTICIPANT_MESSAGE_RECEIVED, 'transcriber',
+            result('1', 'bob', 'hallo', start, true));
+
+        expect(manager.getInterimSegments().length).toBe(1);
+        expect(manager.getTranscript()).toEqual([]);
+
+        conference.emit(JitsiConferenceEvents.NON_PARTICIPANT_MESSAGE_RECEIVED, 'transcriber',
+            result('1', 'bob', ' hallo welt ', start));
+
+        expect(manager.getInterimSegments()).toEqual([]);
+        expect(segments.map(({ final }) => final)).toEqual([ false, true ]);
+        expect(manager.getTranscript()).toEqual([ {
+            confidence: 0.9,
+            final: true,
+            id: '1',
+            language: 'de-DE',
+            participantId: 'bob',
+            participantName: 'Bob',
+            stability: undefined,
+            text: 'hallo welt',
+            timestamp: start
+        } ]);
+    });
+
+    it('only accepts the results of the transcriber', () => {
+        const participant = (id: string, hidden: boolean, features: string[]) => ({
+            getId: () => id,
+            hasFeature: (feature: string) => features.includes(feature),
+            isHidden: () => hidden
+        });
+
+        conference.emit(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, participant('bob', false, []),
+            result('1', 'alice', 'forged', start));
+        conference.emit(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED,
+            participant('mallory', false, [ FEATURE_TRANSCRIBER ]), result('2', 'alice', 'forged', start));
+        conference.emit(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, participant('jibri', true, []),
+            result('3', 'alice', 'forged', start));
+
+        expect(segments).toEqual([]);
+
+        conference.emit(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED,
+            participant('transcriber', true, [ FEATURE_TRANSCRIBER ]), result('4', 'alice', 'hello', start));
+
+        expect(segments.map(({ text }) => text)).toEqual([ 'hello' ]);
+    });
+
+    it('ignores other and malformed messages', () => {
+        conference.emit(JitsiConferenceEvents.NON_PARTICIPANT_MESSAGE_RECEIVED, 'transcriber', { type: 'other' });
+        conference.emit(JitsiConferenceEvents.NON_PARTICIPANT_MESSAGE_RECEIVED, 'transcriber',
+            { type: 'transcription-result' });
+
+        expect(segments).toEqual([]);
+    });
+
+    it('keeps the latest final segments', () => {
+        [ 'one', 'two', 'three' ].forEach((text, index) =>
+            conference.emit(JitsiConferenceEvents.NON_PARTICIPANT_MESSAGE_RECEIVED, 'transcriber',
+                result(String(index), 'alice', text, start + (index * 1000))));
+
+        expect(manager.getTranscript().map(({ text }) => text)).toEqual([ 'two', 'three' ]);
+        expect(manager.getTranscript('bob')).toEqual([]);
+        expect(manager.getParticipantLanguage('alice')).toBe('en-US');
+    });
+
+    it('exports the transcript as WebVTT and SRT', () => {
+        conference.emit(JitsiConferenceEvents.NON_PARTICIPANT_MESSAGE_RECEIVED, 'transcriber',
+            result('1', 'bob', 'hallo', start));
+        conference.emit(JitsiConferenceEvents.NON_PARTICIPANT_MESSAGE_RECEIVED, 'transcriber',
+            result('2', 'alice', 'hi <there>', start + 2500));
+
+        expect(manager.exportTranscript(TranscriptFormat.WEBVTT)).toBe(
+            'WEBVTT\n\n'
+            + '00:00:00.000 --> 00:00:02.500\n<v Bob>hallo\n\n'
+            + '00:00:02.500 --> 00:00:07.500\n<v alice>hi &lt;there&gt;\n');
+        expect(manager.exportTranscript(TranscriptFormat.SRT)).toBe(
+            '1\n00:00:00,000 --> 00:00:02,500\nBob: hallo\n\n'
+            + '2\n00:00:02,500 --> 00:00:07,500\nalice: hi <there>\n');
+    });
+
+    describe('translation', () => {
+        it('advertises the requested language', () => {
+            manager.requestTranslationLanguage('es-ES');
+
+            expect(conference.localProperties.get('translation_language')).toBe('es-ES');
+            expect(manager.getTranslationLanguage('alice')).toBe('es-ES');
+            expect(manager.getTranslationLanguage('bob')).toBe('fr-FR');
+            expect(manager.getParticipantsForTranslationLanguage('fr-FR')).toEqual([ 'bob' ]);
+            expect(manager.getParticipantsForTranslationLanguage('es-ES')).toEqual([ 'alice' ]);
+
+            manager.requestTranslationLanguage('fr-FR');
+
+            expect(manager.getParticipantsForTranslationLanguage('fr-FR')).toEqual([ 'alice', 'bob' ]);
+
+            manager.requestTranslationLanguage();
+
+            expect(conference.localProperties.has('translation_language')).toBeFalse();
+            expect(manager.getTranslationLanguage('alice')).toBeUndefined();
+        });
+
+        it('rejects requests when the transcriber cannot translate', () => {
+            conference.room.getTranscriberFeatures = () => new Set([ FEATURE_TRANSCRIBER ]);
+
+            expect(manager.isTranslationSupported()).toBeFalse();
+            expect(() => manager.requestTranslationLanguage('fr-FR')).toThrowError();
+        });
+
+        it('only delivers the translations in the requested language', () => {
+            manager.requestTranslationLanguage('fr-FR');
+
+            conference.emit(JitsiConferenceEvents.NON_PARTICIPANT_MESSAGE_RECEIVED, 'transcriber',
+                translation('1', 'fr-FR', 'bonjour', start));
+            conference.emit(JitsiConferenceEvents.NON_PARTICIPANT_MESSAGE_RECEIVED, 'transcriber',
+                translation('1', 'es-ES', 'hola', start));
+
+            expect(segments.map(({ text, translated }) => [ text, translated ])).toEqual([ [ 'bonjour', true ] ]);
+            expect(manager.getTranslations('fr-FR').length).toBe(1);
+            expect(manager.getTranslations('es-ES')).toEqual([]);
+            expect(manager.getTranscript()).toEqual([]);
+            expect(manager.exportTranscript(TranscriptFormat.SRT, 'fr-FR'))
+                .toBe('1\n00:00:00,000 --> 00:00:05,000\nBob: bonjour\n');
+        });
+
+        it('ignores the translations forged by the participants', () => {
+            manager.requestTranslationLanguage('fr-FR');
+
+            conference.emit(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, {
+                getId: () => 'bob',
+                hasFeature: () => false,
+                isHidden: () => false
+            }, translation('1', 'fr-FR', 'forged', start));
+
+            expect(segments).toEqual([]);
+            expect(manager.getTranslations('fr-FR')).toEqual([]);
+        });
+    });
+});
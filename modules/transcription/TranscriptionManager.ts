@@ -0,0 +1,452 @@
+import { getLogger } from '@jitsi/logger';
+
+import JitsiConference from '../../JitsiConference';
+import { JitsiConferenceEvents } from '../../JitsiConferenceEvents';
+import JitsiParticipant from '../../JitsiParticipant';
+import { FEATURE_TRANSCRIBER, FEATURE_TRANSLATION } from '../xmpp/xmpp';
+
+import { TranscriptFormat, toSRT, toWebVTT } from './transcriptFormats';
+
+const logger = getLogger('transcription:TranscriptionManager');
+
+/**
+ * The 'type' of the messages carrying the results of the transcriber.
+ */
+const TRANSCRIPTION_RESULT = 'transcription-result';
+
+/**
+ * The 'type' of the messages carrying the translations of the results of the transcriber.
+ */
+const TRANSLATION_RESULT = 'translation-result';
+
+/**
+ * The presence property with the language a participant speaks, as set by
+ * {@link JitsiConference.setTranscriptionLanguage}.
+ */
+const TRANSCRIPTION_LANGUAGE_PROPERTY = 'transcription_language';
+
+/**
+ * The presence property with the language a participant wants the transcripts translated to. The transcriber (Jigasi)
+ * translates the transcripts to the languages of all the participants, the same property is set by the subtitles of
+ * jitsi-meet.
+ */
+const TRANSLATION_LANGUAGE_PROPERTY = 'translation_language';
+
+/**
+ * The language the transcriber uses for the participants who did not set theirs.
+ */
+const DEFAULT_LANGUAGE = 'en-US';
+
+/**
+ * The number of final segments kept in the transcript by default.
+ */
+const DEFAULT_MAX_SEGMENTS = 1000;
+
+export interface ITranscriptionOptions {
+    transcription?: {
+        maxSegments?: number;
+    };
+}
+
+/**
+ * A piece of the speech of a participant, as transcribed.
+ */
+export interface ITranscriptSegment {
+
+    /**
+     * How confident the transcriber is in the text, between 0 and 1, if known.
+     */
+    confidence?: number;
+
+    /**
+     * Whether the text is final. Interim segments are replaced by later segments with the same ID.
+     */
+    final: boolean;
+
+    /**
+     * The ID of the segment, shared by its interim and final results.
+     */
+    id: string;
+
+    /**
+     * The language of the text.
+     */
+    language: string;
+
+    /**
+     * The ID of the participant who spoke.
+     */
+    participantId: string;
+
+    /**
+     * The display name of the participant who spoke, if known.
+     */
+    participantName?: string;
+
+    /**
+     * How likely an interim text is to change, between 0 and 1, if known.
+     */
+    stability?: number;
+
+    /**
+     * The transcribed text.
+     */
+    text: string;
+
+    /**
+     * When the participant started speaking, in milliseconds since the epoch.
+     */
+    timestamp: number;
+
+    /**
+     * Whether the text is a translation of the speech, in the language requested with
+     * {@link TranscriptionManager.requestTranslationLanguage}.
+     */
+    translated?: boolean;
+}
+
+/**
+ * Parses the transcription results sent by the transcriber (Jigasi), so apps get typed segments instead of raw
+ * endpoint messages.
+ *
+ * This class:
+ * 1. Emits every interim and final segment with {@link JitsiConferenceEvents.TRANSCRIPT_SEGMENT}.
+ * 2. Keeps a rolling transcript of the latest final segments, which can be exported as WebVTT or SRT.
+ * 3. Exposes the language each participant speaks, which the transcriber uses for their speech.
+ * 4. Advertises the language the local participant wants the transcripts translated to, and only delivers the
+ * translations in that language.
+ */
+export default class TranscriptionManager {
+    private _conference: JitsiConference;
+    private _interimSegments: Map<string, ITranscriptSegment>;
+    private _maxSegments: number;
+    private _segments: ITranscriptSegment[];
+    private _translationLanguage: Optional<string>;
+    private _translations: ITranscriptSegment[];
+
+    /**
+     * @param {JitsiConference} conference - The conference.
+     * @param {ITranscriptionOptions} options - The config options.
+     */
+    constructor(conference: JitsiConference, options: ITranscriptionOptions) {
+        this._conference = conference;
+        this._interimSegments = new Map();
+        this._maxSegments = options.transcription?.maxSegments ?? DEFAULT_MAX_SEGMENTS;
+        this._segments = [];
+        this._translationLanguage = undefined;
+        this._translations = [];
+
+        this._onMessageReceived = this._onMessageReceived.bind(this);
+        this._onNonParticipantMessageReceived = this._onNonParticipantMessageReceived.bind(this);
+        conference.on(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, this._onMessageReceived);
+        conference.on(JitsiConferenceEvents.NON_PARTICIPANT_MESSAGE_RECEIVED, this._onNonParticipantMessageReceived);
+    }
+
+    /**
+     * Parses a transcription result.
+     *
+     * @param {object} payload - The message of the transcriber.
+     * @returns {Optional<ITranscriptSegment>} The segment, undefined if the message is malformed.
+     */
+    private _parseResult(payload: any): Optional<ITranscriptSegment> {
+        const { is_interim: interim, language, message_id: id, participant, stability, timestamp } = payload;
+        const [ alternative ] = Array.isArray(payload.transcript) ? payload.transcript : [];
+
+        if (typeof id !== 'string' || typeof participant?.id !== 'string' || typeof alternative?.text !== 'string') {
+            return;
+        }
+
+        return {
+            confidence: alternative.confidence,
+            final: !interim,
+            id,
+            language: language ?? this.getParticipantLanguage(participant.id),
+            participantId: participant.id,
+            participantName: participant.name ?? this._conference.getParticipantById(participant.id)?.getDisplayName(),
+            stability,
+            text: alternative.text.trim(),
+            timestamp: Date.parse(timestamp) || Date.now()
+        };
+    }
+
+    /**
+     * Parses a translation result.
+     *
+     * @param {object} payload - The message of the transcriber.
+     * @returns {Optional<ITranscriptSegment>} The segment, undefined if the message is malformed.
+     */
+    private _parseTranslation(payload: any): Optional<ITranscriptSegment> {
+        const { language, message_id: id, participant, text, timestamp } = payload;
+
+        if (typeof id !== 'string' || typeof language !== 'string' || typeof participant?.id !== 'string'
+                || typeof text !== 'string') {
+            return;
+        }
+
+        return {
+            final: true,
+            id,
+            language,
+            participantId: participant.id,
+            participantName: participant.name ?? this._conference.getParticipantById(participant.id)?.getDisplayName(),
+            text: text.trim(),
+            timestamp: Date.parse(timestamp) || Date.now(),
+            translated: true
+        };
+    }
+
+    /**
+     * Appends a final segment to a transcript, dropping the oldest segments past the configured maximum.
+     *
+     * @param {ITranscriptSegment[]} transcript - The transcript.
+     * @param {ITranscriptSegment} segment - The segment.
+     * @returns {void}
+     */
+    private _append(transcript: ITranscriptSegment[], segment: ITranscriptSegment): void {
+        transcript.push(segment);
+        transcript.splice(0, transcript.length - this._maxSegments);
+    }
+
+    /**
+     * Handles a transcription result.
+     *
+     * @param {object} payload - The message of the transcriber.
+     * @returns {void}
+     */
+    private _onTranscriptionResult(payload: any): void {
+        const segment = this._parseResult(payload);
+
+        if (!segment) {
+            logger.warn('Ignoring malformed transcription result');
+
+            return;
+        }
+
+        if (segment.final) {
+            this._interimSegments.delete(segment.id);
+            this._append(this._segments, segment);
+        } else {
+            this._interimSegments.set(segment.id, segment);
+        }
+
+        this._conference.eventEmitter.emit(JitsiConferenceEvents.TRANSCRIPT_SEGMENT, segment);
+    }
+
+    /**
+     * Handles a translation result, which is only delivered if the local participant requested its language. The
+     * transcriber translates to the languages requested by every participant and sends all the translations to
+     * everyone.
+     *
+     * @param {object} payload - The message of the transcriber.
+     * @returns {void}
+     */
+    private _onTranslationResult(payload: any): void {
+        const segment = this._parseTranslation(payload);
+
+        if (!segment) {
+            logger.warn('Ignoring malformed translation result');
+
+            return;
+        }
+
+        if (segment.language !== this._translationLanguage) {
+            return;
+        }
+
+        this._append(this._translations, segment);
+
+        this._conference.eventEmitter.emit(JitsiConferenceEvents.TRANSCRIPT_SEGMENT, segment);
+    }
+
+    /**
+     * Handles the messages sent by the transcriber.
+     *
+     * @param {object} payload - The message.
+     * @returns {void}
+     */
+    private _onTranscriberMessage(payload: any): void {
+        if (payload?.type === TRANSCRIPTION_RESULT) {
+            this._onTranscriptionResult(payload);
+        } else if (payload?.type === TRANSLATION_RESULT) {
+            this._onTranslationResult(payload);
+        }
+    }
+
+    /**
+     * Handles the messages sent by the participants. Only a hidden participant with the transcriber feature can send
+     * results, the others could forge what someone said.
+     *
+     * @param {JitsiParticipant} participant - The sender.
+     * @param {object} payload - The message.
+     * @returns {void}
+     */
+    private _onMessageReceived(participant: JitsiParticipant, payload: any): void {
+        if (participant.isHidden() && participant.hasFeature(FEATURE_TRANSCRIBER)) {
+            this._onTranscriberMessage(payload);
+        } else if (payload?.type === TRANSCRIPTION_RESULT || payload?.type === TRANSLATION_RESULT) {
+            logger.warn(`Ignoring a ${payload.type} sent by participant ${participant.getId()}`);
+        }
+    }
+
+    /**
+     * Handles the messages sent by the hidden participants, such as the transcriber.
+     *
+     * @param {string} _id - The ID of the sender.
+     * @param {object} payload - The message.
+     * @returns {void}
+     */
+    private _onNonParticipantMessageReceived(_id: string, payload: any): void {
+        this._onTranscriberMessage(payload);
+    }
+
+    /**
+     * Empties the transcript.
+     *
+     * @returns {void}
+     */
+    clear(): void {
+        this._interimSegments.clear();
+        this._segments = [];
+        this._translations = [];
+    }
+
+    /**
+     * Exports the final segments of the transcript, or its translation.
+     *
+     * @param {TranscriptFormat} format - The format of the file.
+     * @param {string} [language] - The language of the translation to export, the transcript when not set.
+     * @returns {string} The content of the file.
+     */
+    exportTranscript(format: TranscriptFormat, language?: string): string {
+        const segments = language ? this.getTranslations(language) : this._segments;
+
+        return format === TranscriptFormat.SRT ? toSRT(segments) : toWebVTT(segments);
+    }
+
+    /**
+     * Returns the interim segments of the participants currently speaking.
+     *
+     * @returns {ITranscriptSegment[]}
+     */
+    getInterimSegments(): ITranscriptSegment[] {
+        return Array.from(this._interimSegments.values());
+    }
+
+    /**
+     * Returns the language a participant speaks.
+     *
+     * @param {string} participantId - The ID of the participant, the local participant's included.
+     * @returns {string}
+     */
+    getParticipantLanguage(participantId: string): string {
+        const language = participantId === this._conference.myUserId()
+            ? this._conference.getLocalParticipantProperty(TRANSCRIPTION_LANGUAGE_PROPERTY)
+            : this._conference.getParticipantById(participantId)?.getProperty(TRANSCRIPTION_LANGUAGE_PROPERTY);
+
+        return language || DEFAULT_LANGUAGE;
+    }
+
+    /**
+     * Returns the participants, the local participant included, who want the transcripts translated to a language.
+     *
+     * @param {string} language - The language.
+     * @returns {string[]} The IDs of the participants.
+     */
+    getParticipantsForTranslationLanguage(language: string): string[] {
+        return [ this._conference.myUserId(), ...this._conference.getParticipants().map(p => p.getId()) ]
+            .filter(id => this.getTranslationLanguage(id) === language);
+    }
+
+    /**
+     * Returns the final segments of the transcript, optionally only those of a participant.
+     *
+     * @param {string} [participantId] - The ID of the participant.
+     * @returns {ITranscriptSegment[]}
+     */
+    getTranscript(participantId?: string): ITranscriptSegment[] {
+        return participantId
+            ? this._segments.filter(segment => segment.participantId === participantId)
+            : [ ...this._segments ];
+    }
+
+    /**
+     * Returns the language a participant wants the transcripts translated to.
+     *
+     * @param {string} participantId - The ID of the participant, the local participant's included.
+     * @returns {Optional<string>} The language, undefined if the participant did not request translations.
+     */
+    getTranslationLanguage(participantId: string): Optional<string> {
+        if (participantId === this._conference.myUserId()) {
+            return this._translationLanguage;
+        }
+
+        const participant = this._conference.getParticipantById(participantId);
+
+        return participant?.getProperty(TRANSLATION_LANGUAGE_PROPERTY) || undefined;
+    }
+
+    /**
+     * Returns the translations received in the language requested by the local participant.
+     *
+     * @param {string} language - The language.
+     * @returns {ITranscriptSegment[]} The translations, empty if the language is not the requested one.
+     */
+    getTranslations(language: string): ITranscriptSegment[] {
+        return language === this._translationLanguage ? [ ...this._translations ] : [];
+    }
+
+    /**
+     * Whether the transcriber in the conference can translate the transcripts.
+     *
+     * @returns {boolean}
+     */
+    isTranslationSupported(): boolean {
+        return this._conference.room?.getTranscriberFeatures()?.has(FEATURE_TRANSLATION) ?? false;
+    }
+
+    /**
+     * Requests the transcripts translated to a language, replacing the language requested earlier. The language is
+     * advertised in presence for the transcriber, and only the translations in this language are delivered.
+     *
+     * @param {string} [language] - The language, such as "fr-FR". Stops the translations when not set.
+     * @returns {void}
+     */
+    requestTranslationLanguage(language?: string): void {
+        if (language && !this.isTranslationSupported()) {
+            throw new Error('The transcriber does not support translation');
+        }
+
+        if (language !== this._translationLanguage) {
+            this._translationLanguage = language || undefined;
+            this._translations = [];
+        }
+
+        if (this._translationLanguage) {
+            this._conference.setLocalParticipantProperty(TRANSLATION_LANGUAGE_PROPERTY, this._translationLanguage);
+        } else {
+            this._conference.removeLocalParticipantProperty(TRANSLATION_LANGUAGE_PROPERTY);
+        }
+    }
+
+    /**
+     * Sets the language the local participant speaks, used by the transcriber for their speech.
+     *
+     * @param {string} language - The language, such as "en-US".
+     * @returns {void}
+     */
+    setLanguage(language: string): void {
+        this._conference.setTranscriptionLanguage(language);
+    }
+
+    /**
+     * Stops handling the transcription results.
+     *
+     * @returns {void}
+     */
+    stop(): void {
+        this._conference.off(JitsiConferenceEvents.ENDPOINT_MESSAGE_RECEIVED, this._onMessageReceived);
+        this._conference.off(
+            JitsiConferenceEvents.NON_PARTICIPANT_MESSAGE_RECEIVED, this._onNonParticipantMessageReceived);
+        this.clear();
+    }
+}
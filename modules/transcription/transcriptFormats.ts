@@ -0,0 +1,92 @@
+import type { ITranscriptSegment } from './TranscriptionManager';
+
+/**
+ * The formats a transcript can be exported to.
+ */
+export enum TranscriptFormat {
+    SRT = 'srt',
+    WEBVTT = 'webvtt'
+}
+
+/**
+ * The shortest time a cue is shown, in milliseconds.
+ */
+const MIN_CUE_DURATION = 1000;
+
+/**
+ * The longest time a cue is shown, in milliseconds, used when the next segment comes much later.
+ */
+const MAX_CUE_DURATION = 5000;
+
+interface ICue {
+    end: number;
+    speaker: string;
+    start: number;
+    text: string;
+}
+
+/**
+ * Formats a time as HH:MM:SS.mmm, with the given separator before the milliseconds.
+ *
+ * @param {number} time - The time in milliseconds.
+ * @param {string} separator - The separator of the milliseconds.
+ * @returns {string}
+ */
+function formatTime(time: number, separator: string): string {
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    const hours = Math.floor(time / 3600000);
+    const minutes = Math.floor(time / 60000) % 60;
+    const seconds = Math.floor(time / 1000) % 60;
+
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(time % 1000, 3)}`;
+}
+
+/**
+ * Turns the segments into cues timed from the first segment. Segments carry no duration, so a cue lasts until the
+ * next segment, within {@link MIN_CUE_DURATION} and {@link MAX_CUE_DURATION}.
+ *
+ * @param {ITranscriptSegment[]} segments - The final segments, in order.
+ * @returns {ICue[]}
+ */
+function toCues(segments: ITranscriptSegment[]): ICue[] {
+    const origin = segments[0]?.timestamp ?? 0;
+
+    return segments.map((segment, index) => {
+        const start = segment.timestamp - origin;
+        const next = segments[index + 1];
+        const gap = next ? next.timestamp - segment.timestamp : MAX_CUE_DURATION;
+
+        return {
+            end: start + Math.max(MIN_CUE_DURATION, Math.min(MAX_CUE_DURATION, gap)),
+            speaker: segment.participantName ?? segment.participantId,
+            start,
+            text: segment.text
+        };
+    });
+}
+
+/**
+ * Exports segments as a WebVTT file, with the speakers as voice spans.
+ *
+ * @param {ITranscriptSegment[]} segments - The final segments, in order.
+ * @returns {string}
+ */
+export function toWebVTT(segments: ITranscriptSegment[]): string {
+    const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const cues = toCues(segments).map(({ end, speaker, start, text }) =>
+        `${formatTime(start, '.')} --> ${formatTime(end, '.')}\n<v ${escape(speaker)}>${escape(text)}`);
+
+    return [ 'WEBVTT', ...cues ].join('\n\n').concat('\n');
+}
+
+/**
+ * Exports segments as a SubRip file, with the speakers prefixed to the text.
+ *
+ * @param {ITranscriptSegment[]} segments - The final segments, in order.
+ * @returns {string}
+ */
+export function toSRT(segments: ITranscriptSegment[]): string {
+    return toCues(segments).map(({ end, speaker, start, text }, index) =>
+        `${index + 1}\n${formatTime(start, ',')} --> ${formatTime(end, ',')}\n${speaker}: ${text}\n`)
+        .join('\n');
+}
@@ -2,9 +2,12 @@ import { getLogger } from '@jitsi/logger';
 import { $iq } from 'strophe.js';
 
 import Listenable from '../util/Listenable';
+import { getJitterDelay } from '../util/Retry';
 import ChatRoom from '../xmpp/ChatRoom';
 
+import type { ISessionStateChangeEvent } from './VideoSIPGW';
 import * as VideoSIPGWConstants from './VideoSIPGWConstants';
+import { VideoSIPGWFailureCauseConstants } from './VideoSIPGWConstants';
 
 const logger = getLogger('videosipgw:JitsiVideoSIPGWSession');
 
@@ -14,16 +17,70 @@ const logger = getLogger('videosipgw:JitsiVideoSIPGWSession');
  */
 const STATE_CHANGED: string = 'STATE_CHANGED';
 
+/**
+ * The options for retrying a session that failed.
+ */
+export interface IVideoSIPGWRetryOptions {
+
+    /**
+     * How many times a failed session is started again before it is reported as failed. Defaults to 0.
+     */
+    maxRetries?: number;
+
+    /**
+     * The shortest delay before a retry in milliseconds, the delay grows exponentially with each retry.
+     * Defaults to 500.
+     */
+    minRetryDelay?: number;
+}
+
+/**
+ * Maps the failure reason reported by the gateway to a known failure cause.
+ *
+ * @param {string} [failureReason] - The reported failure reason.
+ * @returns {VideoSIPGWFailureCauseConstants}
+ */
+function getFailureCause(failureReason?: string): VideoSIPGWFailureCauseConstants {
+    return Object.values(VideoSIPGWFailureCauseConstants).includes(failureReason as VideoSIPGWFailureCauseConstants)
+        ? failureReason as VideoSIPGWFailureCauseConstants
+        : VideoSIPGWFailureCauseConstants.FAILURE_CAUSE_UNKNOWN;
+}
+
 /**
  * Jitsi video SIP GW session. Holding its state and able to start/stop it.
  * When session is in OFF or FAILED stated it cannot be used anymore.
  */
 export default class JitsiVideoSIPGWSession extends Listenable {
+    private _endedAt?: number;
+    private _retryOptions: IVideoSIPGWRetryOptions;
+    private _retryTimeout?: ReturnType<typeof setTimeout>;
+    private _startedAt?: number;
+    private _stopRequested: boolean;
     sipAddress: string;
     displayName: string;
     chatRoom: ChatRoom;
     state?: string;
 
+    /**
+     * The cause of the last failure of this session, if any.
+     */
+    failureCause?: VideoSIPGWFailureCauseConstants;
+
+    /**
+     * The failure reason as reported by the gateway, if any.
+     */
+    failureReason?: string;
+
+    /**
+     * The display name of the called SIP party, once reported by the gateway.
+     */
+    remoteDisplayName?: string;
+
+    /**
+     * How many times this session was started again after failing.
+     */
+    retryCount: number;
+
     /**
      * Creates new session with the desired sip address and display name.
      *
@@ -32,13 +89,21 @@ export default class JitsiVideoSIPGWSession extends Listenable {
      * @param {string} displayName - The display name to use for
      * that participant.
      * @param {ChatRoom} chatRoom - The chat room this session is bound to.
+     * @param {IVideoSIPGWRetryOptions} retryOptions - How to retry the session when it fails.
      */
-    constructor(sipAddress: string, displayName: string, chatRoom: ChatRoom) {
+    constructor(
+            sipAddress: string,
+            displayName: string,
+            chatRoom: ChatRoom,
+            retryOptions: IVideoSIPGWRetryOptions = {}) {
         super();
 
         this.sipAddress = sipAddress;
         this.displayName = displayName;
         this.chatRoom = chatRoom;
+        this.retryCount = 0;
+        this._retryOptions = retryOptions;
+        this._stopRequested = false;
 
         /*
          * The initial state is undefined. Initial state cannot be STATE_OFF,
@@ -77,11 +142,48 @@ export default class JitsiVideoSIPGWSession extends Listenable {
             (error: any) => {
                 logger.error(
                     `Failed to ${action} video SIP GW session, error: `, error);
-                this.setState(VideoSIPGWConstants.STATE_FAILED);
+                this.setState(
+                    VideoSIPGWConstants.STATE_FAILED,
+                    VideoSIPGWFailureCauseConstants.FAILURE_CAUSE_REQUEST_REJECTED);
             },
             undefined);
     }
 
+    /**
+     * Starts the session again after a delay if it has retries left and was not stopped.
+     *
+     * @private
+     * @returns {boolean} - Whether a retry was scheduled.
+     */
+    private _maybeRetry(): boolean {
+        const { maxRetries = 0, minRetryDelay = 500 } = this._retryOptions;
+
+        // A failure reported again before the retry was sent, e.g. by both the IQ error and presence, is the one
+        // the retry is already scheduled for.
+        if (this._retryTimeout && !this._stopRequested) {
+            return true;
+        }
+
+        if (this._stopRequested || this.retryCount >= maxRetries) {
+            clearTimeout(this._retryTimeout);
+            this._retryTimeout = undefined;
+
+            return false;
+        }
+
+        this.retryCount++;
+
+        const retryDelay = getJitterDelay(this.retryCount, minRetryDelay);
+
+        logger.info(`Will retry video SIP GW session ${this.retryCount}/${maxRetries} in ${retryDelay}ms`);
+        this._retryTimeout = setTimeout(() => {
+            this._retryTimeout = undefined;
+            this._sendJibriIQ('start');
+        }, retryDelay);
+
+        return true;
+    }
+
     /**
      * Stops the current session.
      */
@@ -93,6 +195,17 @@ export default class JitsiVideoSIPGWSession extends Listenable {
             return;
         }
 
+        this._stopRequested = true;
+
+        // A retry that has not been sent yet has no session on the gateway to stop.
+        if (this._retryTimeout) {
+            clearTimeout(this._retryTimeout);
+            this._retryTimeout = undefined;
+            this.setState(VideoSIPGWConstants.STATE_OFF);
+
+            return;
+        }
+
         this._sendJibriIQ('stop');
     }
 
@@ -115,30 +228,91 @@ export default class JitsiVideoSIPGWSession extends Listenable {
     }
 
     /**
-     * Changes the state of this session.
+     * Returns for how long the call was up, in milliseconds, up to now if it is still up.
+     *
+     * @returns {number}
+     */
+    getDuration(): number {
+        if (this._startedAt === undefined) {
+            return 0;
+        }
+
+        return (this._endedAt ?? Date.now()) - this._startedAt;
+    }
+
+    /**
+     * Returns when the call ended, in milliseconds since the epoch.
+     *
+     * @returns {Optional<number>}
+     */
+    getEndedAt(): Optional<number> {
+        return this._endedAt;
+    }
+
+    /**
+     * Returns when the call was established, in milliseconds since the epoch.
+     *
+     * @returns {Optional<number>}
+     */
+    getStartedAt(): Optional<number> {
+        return this._startedAt;
+    }
+
+    /**
+     * Changes the state of this session. A failure is reported as
+     * STATE_RETRYING instead while the session has retries left.
      *
      * @param {string} newState - The new {VideoSIPGWConstants} state to set.
      * @param {string} [optional] failureReason - The reason why a failure state
      * was entered.
+     * @param {string} [optional] remoteDisplayName - The display name of the
+     * called SIP party.
      * @returns {void}
      */
-    setState(newState: string, failureReason?: string): void {
-        if (newState === this.state) {
+    setState(newState: string, failureReason?: string, remoteDisplayName?: string): void {
+        if (remoteDisplayName) {
+            this.remoteDisplayName = remoteDisplayName;
+        }
+
+        let state = newState;
+
+        if (state === VideoSIPGWConstants.STATE_FAILED) {
+            this.failureReason = failureReason;
+            this.failureCause = getFailureCause(failureReason);
+
+            if (this._maybeRetry()) {
+                state = VideoSIPGWConstants.STATE_RETRYING;
+            }
+        }
+
+        if (state === this.state) {
             return;
         }
 
+        if (state === VideoSIPGWConstants.STATE_ON && this._startedAt === undefined) {
+            this._startedAt = Date.now();
+        } else if ((state === VideoSIPGWConstants.STATE_OFF || state === VideoSIPGWConstants.STATE_FAILED)
+                && this._startedAt !== undefined && this._endedAt === undefined) {
+            this._endedAt = Date.now();
+        }
+
         const oldState = this.state;
 
-        this.state = newState;
-        this.eventEmitter.emit(STATE_CHANGED,
-            {
-                address: this.sipAddress,
-                displayName: this.displayName,
-                failureReason,
-                newState: this.state,
-                oldState
-            }
-        );
+        this.state = state;
+
+        const event: ISessionStateChangeEvent = {
+            address: this.sipAddress,
+            displayName: this.displayName,
+            duration: this.getDuration(),
+            failureCause: this.failureCause,
+            failureReason,
+            newState: this.state,
+            oldState,
+            remoteDisplayName: this.remoteDisplayName,
+            retryCount: this.retryCount
+        };
+
+        this.eventEmitter.emit(STATE_CHANGED, event);
     }
 
     /**
@@ -0,0 +1,164 @@
+import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
+import EventEmitter from '../util/EventEmitter';
+import ChatRoom from '../xmpp/ChatRoom';
+
+import JitsiVideoSIPGWSession from './JitsiVideoSIPGWSession';
+import VideoSIPGW, { ISessionStateChangeEvent } from './VideoSIPGW';
+import { VideoSIPGWFailureCauseConstants, VideoSIPGWStateConstants } from './VideoSIPGWConstants';
+
+/**
+ * A chat room which records the actions of the sent jibri IQs and can make them fail.
+ */
+class MockChatRoom {
+    actions: string[] = [];
+    eventEmitter = new EventEmitter();
+    failIQs = false;
+    focusMucJid = 'room@conference.example.com/focus';
+    connection = {
+        sendIQ: (iq: any, success: () => void, error: (e: any) => void) => {
+            this.actions.push(iq.tree().firstElementChild.getAttribute('action'));
+            this.failIQs ? error(new Error('rejected')) : success();
+        }
+    };
+
+    /**
+     * Presence is handed to the handler directly by the tests.
+     */
+    addPresenceListener() {} // eslint-disable-line @typescript-eslint/no-empty-function
+}
+
+describe('VideoSIPGW', () => {
+    const address = 'sip:bob@example.com';
+    let chatRoom: MockChatRoom;
+    let events: ISessionStateChangeEvent[];
+    let videoSIPGW: VideoSIPGW;
+
+    /**
+     * Handles the jibri-sip-call-state presence of the gateway.
+     */
+    function presence(state: string, attributes: Record<string, string> = {}) {
+        videoSIPGW.handleJibriSIPState({ attributes: { sipaddress: address,
+            state,
+            ...attributes } });
+    }
+
+    beforeEach(() => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date(2024, 0, 1));
+
+        chatRoom = new MockChatRoom();
+        videoSIPGW = new VideoSIPGW(chatRoom as unknown as ChatRoom, { maxRetries: 1,
+            minRetryDelay: 500 });
+        events = [];
+        chatRoom.eventEmitter.on(XMPPEvents.VIDEO_SIP_GW_SESSION_STATE_CHANGED, event => events.push(event));
+    });
+
+    afterEach(() => {
+        jasmine.clock().uninstall();
+    });
+
+    it('tracks the call duration and the remote display name', () => {
+        const session = videoSIPGW.createVideoSIPGWSession(address, 'Meeting') as JitsiVideoSIPGWSession;
+
+        session.start();
+        presence(VideoSIPGWStateConstants.STATE_ON, { 'remote_displayname': 'Bob' });
+        jasmine.clock().tick(30000);
+
+        expect(session.getDuration()).toBe(30000);
+        expect(session.remoteDisplayName).toBe('Bob');
+
+        presence(VideoSIPGWStateConstants.STATE_OFF);
+        jasmine.clock().tick(30000);
+
+        expect(session.getDuration()).toBe(30000);
+        expect(events.pop()).toEqual(jasmine.objectContaining({
+            duration: 30000,
+            newState: VideoSIPGWStateConstants.STATE_OFF,
+            remoteDisplayName: 'Bob'
+        }));
+        expect(videoSIPGW.getSessions()).toEqual([]);
+    });
+
+    it('retries a failed session before reporting the failure', () => {
+        const session = videoSIPGW.createVideoSIPGWSession(address, 'Meeting') as JitsiVideoSIPGWSession;
+
+        session.start();
+        presence(VideoSIPGWStateConstants.STATE_FAILED, { 'failure_reason': 'busy' });
+
+        expect(session.state).toBe(VideoSIPGWStateConstants.STATE_RETRYING);
+        expect(session.failureCause).toBe(VideoSIPGWFailureCauseConstants.FAILURE_CAUSE_BUSY);
+        expect(videoSIPGW.getSessions()).toEqual([ session ]);
+
+        jasmine.clock().tick(2000);
+
+        expect(chatRoom.actions).toEqual([ 'start', 'start' ]);
+
+        presence(VideoSIPGWStateConstants.STATE_FAILED, { 'failure_reason': 'no-answer' });
+
+        expect(events.pop()).toEqual(jasmine.objectContaining({
+            failureCause: VideoSIPGWFailureCauseConstants.FAILURE_CAUSE_UNKNOWN,
+            failureReason: 'no-answer',
+            newState: VideoSIPGWStateConstants.STATE_FAILED,
+            retryCount: 1
+        }));
+        expect(videoSIPGW.getSessions()).toEqual([]);
+    });
+
+    it('sends a single retry when a failure is reported twice', () => {
+        videoSIPGW = new VideoSIPGW(chatRoom as unknown as ChatRoom, { maxRetries: 2,
+            minRetryDelay: 500 });
+
+        const session = videoSIPGW.createVideoSIPGWSession(address, 'Meeting') as JitsiVideoSIPGWSession;
+
+        session.start();
+        presence(VideoSIPGWStateConstants.STATE_FAILED);
+        presence(VideoSIPGWStateConstants.STATE_FAILED);
+        jasmine.clock().tick(5000);
+
+        expect(chatRoom.actions).toEqual([ 'start', 'start' ]);
+    });
+
+    it('does not use up the last retry when a failure is reported twice', () => {
+        const session = videoSIPGW.createVideoSIPGWSession(address, 'Meeting') as JitsiVideoSIPGWSession;
+
+        session.start();
+        presence(VideoSIPGWStateConstants.STATE_FAILED);
+        presence(VideoSIPGWStateConstants.STATE_FAILED);
+
+        expect(session.state).toBe(VideoSIPGWStateConstants.STATE_RETRYING);
+        expect(session.retryCount).toBe(1);
+
+        jasmine.clock().tick(5000);
+
+        expect(chatRoom.actions).toEqual([ 'start', 'start' ]);
+    });
+
+    it('does not retry a rejected stop request', () => {
+        const session = videoSIPGW.createVideoSIPGWSession(address, 'Meeting') as JitsiVideoSIPGWSession;
+
+        session.start();
+        chatRoom.failIQs = true;
+        session.stop();
+
+        expect(session.state).toBe(VideoSIPGWStateConstants.STATE_FAILED);
+        expect(session.failureCause).toBe(VideoSIPGWFailureCauseConstants.FAILURE_CAUSE_REQUEST_REJECTED);
+    });
+
+    it('stops all the active sessions', () => {
+        const retrying = videoSIPGW.createVideoSIPGWSession(address, 'Meeting') as JitsiVideoSIPGWSession;
+        const other = videoSIPGW.createVideoSIPGWSession('sip:carol@example.com', 'Meeting') as JitsiVideoSIPGWSession;
+
+        retrying.start();
+        presence(VideoSIPGWStateConstants.STATE_FAILED);
+        other.start();
+
+        expect(videoSIPGW.getSessions().length).toBe(2);
+
+        videoSIPGW.stopAllSessions();
+        jasmine.clock().tick(2000);
+
+        expect(retrying.state).toBe(VideoSIPGWStateConstants.STATE_OFF);
+        expect(chatRoom.actions).toEqual([ 'start', 'start', 'stop' ]);
+        expect(videoSIPGW.getSessions()).toEqual([ other ]);
+    });
+});
@@ -5,19 +5,26 @@ import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
 import EventEmitter from '../util/EventEmitter';
 import ChatRoom from '../xmpp/ChatRoom';
 
-import JitsiVideoSIPGWSession from './JitsiVideoSIPGWSession';
+import JitsiVideoSIPGWSession, { IVideoSIPGWRetryOptions } from './JitsiVideoSIPGWSession';
 import * as Constants from './VideoSIPGWConstants';
+import { VideoSIPGWFailureCauseConstants } from './VideoSIPGWConstants';
 
 
 export interface ISessionStateChangeEvent {
     address: string;
     displayName?: string;
+    duration?: number;
+    failureCause?: VideoSIPGWFailureCauseConstants;
+    failureReason?: string;
     newState: string;
     oldState?: string;
+    remoteDisplayName?: string;
+    retryCount?: number;
 }
 
 export interface INodeAttributes {
     failure_reason?: string;
+    remote_displayname?: string;
     sipaddress?: string;
     state: string;
 }
@@ -28,6 +35,7 @@ export interface INodeAttributes {
 export default class VideoSIPGW {
     private chatRoom: ChatRoom;
     private eventEmitter: EventEmitter;
+    private retryOptions: IVideoSIPGWRetryOptions;
     private sessions: Record<string, JitsiVideoSIPGWSession>;
     private sessionStateChangeListener: (event: ISessionStateChangeEvent) => void;
     private state?: string;
@@ -36,10 +44,12 @@ export default class VideoSIPGW {
      * Creates new handler.
      *
      * @param {ChatRoom} chatRoom - Tha chat room to handle.
+     * @param {IVideoSIPGWRetryOptions} retryOptions - How to retry the sessions when they fail.
      */
-    constructor(chatRoom: ChatRoom) {
+    constructor(chatRoom: ChatRoom, retryOptions: IVideoSIPGWRetryOptions = {}) {
         this.chatRoom = chatRoom;
         this.eventEmitter = chatRoom.eventEmitter;
+        this.retryOptions = retryOptions;
         logger.debug('creating VideoSIPGW');
         this.sessions = {};
 
@@ -89,7 +99,7 @@ export default class VideoSIPGW {
             const session = this.sessions[address];
 
             if (session) {
-                session.setState(newState, attributes.failure_reason);
+                session.setState(newState, attributes.failure_reason, attributes.remote_displayname);
             } else {
                 logger.warn('Video SIP GW session not found:', address);
             }
@@ -114,7 +124,7 @@ export default class VideoSIPGW {
         }
 
         const session = new JitsiVideoSIPGWSession(
-            sipAddress, displayName, this.chatRoom);
+            sipAddress, displayName, this.chatRoom, this.retryOptions);
 
         session.addStateListener(this.sessionStateChangeListener as unknown as EventListener);
 
@@ -123,11 +133,30 @@ export default class VideoSIPGW {
         return session;
     }
 
+    /**
+     * Returns the sessions which were created and have not been stopped or
+     * failed yet.
+     *
+     * @returns {JitsiVideoSIPGWSession[]}
+     */
+    getSessions(): JitsiVideoSIPGWSession[] {
+        return Object.values(this.sessions);
+    }
+
+    /**
+     * Stops all the sessions which have not been stopped or failed yet.
+     *
+     * @returns {void}
+     */
+    stopAllSessions(): void {
+        this.getSessions().forEach(session => session.stop());
+    }
+
     /**
      * Listener for session state changed. When a session goes to off or failed
      * we delete its reference.
      *
-     * @param {options} event - { address, oldState, newState, displayName }
+     * @param {ISessionStateChangeEvent} event - The new state of the session.
      */
     sessionStateChanged(event: ISessionStateChangeEvent): void {
         const address = event.address;
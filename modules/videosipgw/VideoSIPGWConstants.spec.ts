@@ -17,6 +17,7 @@ describe( "/modules/videosipgw/VideoSIPGWConstants members", () => {
         VideoSIPGWStatusConstants,
         VideoSIPGWStateConstants,
         VideoSIPGWErrorConstants,
+        VideoSIPGWFailureCauseConstants,
         ...others
     } = exported;
 
@@ -35,6 +36,7 @@ describe( "/modules/videosipgw/VideoSIPGWConstants members", () => {
         expect( VideoSIPGWStatusConstants ).toBeDefined();
         expect( VideoSIPGWStateConstants ).toBeDefined();
         expect( VideoSIPGWErrorConstants ).toBeDefined();
+        expect( VideoSIPGWFailureCauseConstants ).toBeDefined();
 
         expect( VideoSIPGWStatusConstants.STATUS_AVAILABLE ).toBe( 'available' );
         expect( VideoSIPGWStatusConstants.STATUS_UNDEFINED ).toBe( 'undefined' );
@@ -46,6 +48,10 @@ describe( "/modules/videosipgw/VideoSIPGWConstants members", () => {
         expect( VideoSIPGWStateConstants.STATE_FAILED ).toBe( 'failed' );
         expect( VideoSIPGWErrorConstants.ERROR_NO_CONNECTION ).toBe( 'error_no_connection' );
         expect( VideoSIPGWErrorConstants.ERROR_SESSION_EXISTS ).toBe( 'error_session_already_exists' );
+        expect( VideoSIPGWFailureCauseConstants.FAILURE_CAUSE_BUSY ).toBe( 'busy' );
+        expect( VideoSIPGWFailureCauseConstants.FAILURE_CAUSE_ERROR ).toBe( 'error' );
+        expect( VideoSIPGWFailureCauseConstants.FAILURE_CAUSE_REQUEST_REJECTED ).toBe( 'request_rejected' );
+        expect( VideoSIPGWFailureCauseConstants.FAILURE_CAUSE_UNKNOWN ).toBe( 'unknown' );
     } );
 
     it( "unknown members", () => {
@@ -61,6 +61,29 @@ export enum VideoSIPGWErrorConstants {
     ERROR_SESSION_EXISTS = 'error_session_already_exists'
 }
 
+export enum VideoSIPGWFailureCauseConstants {
+
+    /**
+     * Video SIP GW session failure cause, there was no free node to place the call.
+     */
+    FAILURE_CAUSE_BUSY = 'busy',
+
+    /**
+     * Video SIP GW session failure cause, the node failed to place or keep the call.
+     */
+    FAILURE_CAUSE_ERROR = 'error',
+
+    /**
+     * Video SIP GW session failure cause, the focus rejected the request to start or stop the session.
+     */
+    FAILURE_CAUSE_REQUEST_REJECTED = 'request_rejected',
+
+    /**
+     * Video SIP GW session failure cause, the session failed for a reason that was not reported or is not known.
+     */
+    FAILURE_CAUSE_UNKNOWN = 'unknown'
+}
+
 // exported for backward compatibility
 export const STATUS_AVAILABLE = VideoSIPGWStatusConstants.STATUS_AVAILABLE;
 export const STATUS_UNDEFINED = VideoSIPGWStatusConstants.STATUS_UNDEFINED;
@@ -11,7 +11,7 @@ const logger = getLogger('webaudio:AudioMixer');
 export default class AudioMixer {
     private _started: boolean;
     private _streamsToMix: MediaStream[];
-    private _streamMSSArray: MediaStreamAudioSourceNode[];
+    private _streamMSSMap: Map<MediaStream, MediaStreamAudioSourceNode>;
     private _audioContext?: AudioContext;
     private _mixedMSD?: MediaStreamAudioDestinationNode;
 
@@ -21,11 +21,27 @@ export default class AudioMixer {
     constructor() {
         this._started = false;
         this._streamsToMix = [];
-        this._streamMSSArray = [];
+        this._streamMSSMap = new Map();
     }
 
     /**
-     * Add audio MediaStream to be mixed, if the stream doesn't contain any audio tracks it will be ignored.
+     * Connects a MediaStream to the mixed MediaStream.
+     *
+     * @param {MediaStream} stream - MediaStream to be mixed.
+     * @returns {void}
+     */
+    private _connectMediaStream(stream: MediaStream): void {
+        const streamMSS = this._audioContext!.createMediaStreamSource(stream);
+
+        streamMSS.connect(this._mixedMSD!);
+
+        // Maintain a map of MediaStreamAudioSourceNode so we can disconnect them on removal and reset.
+        this._streamMSSMap.set(stream, streamMSS);
+    }
+
+    /**
+     * Add audio MediaStream to be mixed, if the stream doesn't contain any audio tracks it will be ignored. If the
+     * mixer was already started the stream is mixed right away.
      *
      * @param {MediaStream} stream - MediaStream to be mixed.
      */
@@ -35,16 +51,34 @@ export default class AudioMixer {
         }
 
         this._streamsToMix.push(stream);
+
+        if (this._started && this._mixedMSD) {
+            this._connectMediaStream(stream);
+        }
+    }
+
+    /**
+     * Removes a MediaStream added with {@link addMediaStream}, it is no longer mixed.
+     *
+     * @param {MediaStream} stream - MediaStream to be removed.
+     * @returns {void}
+     */
+    removeMediaStream(stream: MediaStream): void {
+        this._streamsToMix = this._streamsToMix.filter(s => s !== stream);
+        this._streamMSSMap.get(stream)?.disconnect();
+        this._streamMSSMap.delete(stream);
     }
 
     /**
      * At this point a WebAudio ChannelMergerNode is created and and the two associated MediaStreams are connected to
      * it; the resulting mixed MediaStream is returned.
      *
+     * @param {boolean} [allowEmpty] - Whether the mixer starts even if no MediaStream was added yet, so streams added
+     * later are mixed into the returned MediaStream.
      * @returns {Nullable<MediaStream>} - MediaStream containing added streams mixed together, or null if no MediaStream
      * is added.
      */
-    start(): Nullable<MediaStream> {
+    start(allowEmpty: boolean = false): Nullable<MediaStream> {
         // If the mixer was already started just return the existing mixed stream.
         if (this._started && this._mixedMSD) {
             return this._mixedMSD.stream;
@@ -52,7 +86,7 @@ export default class AudioMixer {
 
         this._audioContext = createAudioContext();
 
-        if (!this._streamsToMix.length) {
+        if (!this._streamsToMix.length && !allowEmpty) {
             logger.warn('No MediaStream\'s added to AudioMixer, nothing will happen.');
 
             return null;
@@ -63,12 +97,7 @@ export default class AudioMixer {
         this._mixedMSD = this._audioContext!.createMediaStreamDestination();
 
         for (const stream of this._streamsToMix) {
-            const streamMSS = this._audioContext!.createMediaStreamSource(stream);
-
-            streamMSS.connect(this._mixedMSD);
-
-            // Maintain a list of MediaStreamAudioSourceNode so we can disconnect them on reset.
-            this._streamMSSArray.push(streamMSS);
+            this._connectMediaStream(stream);
         }
 
         return this._mixedMSD.stream;
@@ -84,11 +113,11 @@ export default class AudioMixer {
         this._streamsToMix = [];
 
         // Clean up created MediaStreamAudioSourceNode.
-        for (const streamMSS of this._streamMSSArray) {
+        for (const streamMSS of this._streamMSSMap.values()) {
             streamMSS.disconnect();
         }
 
-        this._streamMSSArray = [];
+        this._streamMSSMap.clear();
 
         if (this._audioContext) {
             this._audioContext = undefined;
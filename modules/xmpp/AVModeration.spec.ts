@@ -0,0 +1,166 @@
+import { EventEmitter } from 'events';
+
+import { MediaType } from '../../service/RTC/MediaType';
+import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
+
+import AVModeration from './AVModeration';
+
+describe('AVModeration', () => {
+    let room: any;
+    let avModeration: AVModeration;
+    let sendSpy: jasmine.Spy;
+
+    const receive = (from: string, payload: object) => {
+        room.emit(XMPPEvents.JSON_MESSAGE_RECEIVED, from, {
+            ...payload,
+            type: 'av_moderation_queue'
+        });
+    };
+
+    beforeEach(() => {
+        sendSpy = jasmine.createSpy('send');
+        room = new EventEmitter();
+        Object.assign(room, {
+            getMemberRole: (jid: string) => (jid === 'room@muc/mod' ? 'moderator' : 'participant'),
+            isModerator: () => true,
+            myroomjid: 'room@muc/me',
+            roomjid: 'room@muc',
+            sendMessage: jasmine.createSpy('sendMessage'),
+            sendPrivateMessage: jasmine.createSpy('sendPrivateMessage'),
+            xmpp: {
+                addListener: () => {}, // eslint-disable-line no-empty-function
+                avModerationComponentAddress: 'avmoderation.example.com',
+                connection: { send: sendSpy },
+                eventEmitter: jasmine.createSpyObj('eventEmitter', [ 'emit' ]),
+                removeListener: () => {} // eslint-disable-line no-empty-function
+            }
+        });
+        avModeration = new AVModeration(room);
+    });
+
+    afterEach(() => {
+        avModeration.dispose();
+    });
+
+    it('queues the requests in the order they were made', () => {
+        receive('room@muc/p1', {
+            command: 'request',
+            mediaType: MediaType.AUDIO
+        });
+        receive('room@muc/p2', {
+            command: 'request',
+            mediaType: MediaType.VIDEO
+        });
+        receive('room@muc/p1', {
+            command: 'request',
+            mediaType: MediaType.AUDIO
+        });
+
+        expect(avModeration.getQueue().map(r => [ r.participantId, r.mediaType ])).toEqual([
+            [ 'p1', MediaType.AUDIO ],
+            [ 'p2', MediaType.VIDEO ]
+        ]);
+        expect(room.xmpp.eventEmitter.emit).toHaveBeenCalledTimes(2);
+
+        room.emit(XMPPEvents.MUC_MEMBER_LEFT, 'room@muc/p1');
+
+        expect(avModeration.getQueue().map(r => r.participantId)).toEqual([ 'p2' ]);
+        expect(room.xmpp.eventEmitter.emit).toHaveBeenCalledWith(
+            XMPPEvents.AV_MODERATION_QUEUE_CHANGED, avModeration.getQueue());
+    });
+
+    it('only lets moderators dismiss requests', () => {
+        receive('room@muc/p1', {
+            command: 'request',
+            mediaType: MediaType.AUDIO
+        });
+        receive('room@muc/p2', {
+            command: 'dismiss',
+            mediaType: MediaType.AUDIO,
+            participantId: 'p1'
+        });
+
+        expect(avModeration.getQueue().length).toBe(1);
+
+        receive('room@muc/mod', {
+            command: 'dismiss',
+            mediaType: MediaType.AUDIO,
+            participantId: 'p1'
+        });
+
+        expect(avModeration.getQueue().length).toBe(0);
+    });
+
+    it('revokes the approval when the speaking slot ends', () => {
+        jasmine.clock().install();
+
+        avModeration.grantSpeakingSlot(MediaType.AUDIO, 'p1', 30);
+
+        expect(sendSpy).toHaveBeenCalledTimes(1);
+        expect(sendSpy.calls.argsFor(0)[0].tree().firstChild.getAttribute('jidToWhitelist')).toBe('room@muc/p1');
+        expect(JSON.parse(room.sendMessage.calls.argsFor(0)[0])).toEqual({
+            command: 'grant',
+            mediaType: MediaType.AUDIO,
+            participantId: 'p1',
+            type: 'av_moderation_queue'
+        });
+
+        jasmine.clock().tick(30 * 1000);
+
+        expect(sendSpy).toHaveBeenCalledTimes(2);
+        expect(sendSpy.calls.argsFor(1)[0].tree().firstChild.getAttribute('jidToBlacklist')).toBe('room@muc/p1');
+
+        jasmine.clock().uninstall();
+    });
+
+    it('tracks whether the local participant may share the screen', () => {
+        room.isModerator = () => false;
+
+        expect(avModeration.isApproved(MediaType.DESKTOP)).toBeTrue();
+
+        avModeration._onMessage({
+            enabled: true,
+            mediaType: MediaType.DESKTOP
+        } as any);
+
+        expect(avModeration.isApproved(MediaType.DESKTOP)).toBeFalse();
+        expect(avModeration.isApproved(MediaType.VIDEO)).toBeTrue();
+
+        avModeration._onMessage({
+            approved: true,
+            mediaType: MediaType.DESKTOP
+        } as any);
+
+        expect(avModeration.isApproved(MediaType.DESKTOP)).toBeTrue();
+        expect(room.xmpp.eventEmitter.emit).toHaveBeenCalledWith(XMPPEvents.AV_MODERATION_APPROVED, MediaType.DESKTOP);
+
+        avModeration._onMessage({
+            mediaType: MediaType.DESKTOP,
+            removed: true
+        } as any);
+
+        expect(avModeration.isApproved(MediaType.DESKTOP)).toBeFalse();
+    });
+
+    it('approves the local participant found in the whitelist', () => {
+        room.isModerator = () => false;
+        avModeration._onMessage({
+            mediaType: MediaType.DESKTOP,
+            whitelists: { desktop: [ 'room@muc/me' ] }
+        } as any);
+        avModeration._onMessage({
+            enabled: true,
+            mediaType: MediaType.DESKTOP
+        } as any);
+
+        expect(avModeration.isApproved(MediaType.DESKTOP)).toBeTrue();
+
+        avModeration._onMessage({
+            mediaType: MediaType.DESKTOP,
+            removed: true,
+            whitelists: { desktop: [] }
+        } as any);
+
+        expect(avModeration.isApproved(MediaType.DESKTOP)).toBeFalse();
+    });
+});
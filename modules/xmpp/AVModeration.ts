@@ -1,14 +1,51 @@
 import { getLogger } from '@jitsi/logger';
-import { $msg } from 'strophe.js';
+import { $msg, Strophe } from 'strophe.js';
 
 import { MediaType } from '../../service/RTC/MediaType';
 import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
 
 import ChatRoom from './ChatRoom';
-import XMPP from './xmpp';
+import XMPP, { JITSI_MEET_MUC_TYPE } from './xmpp';
 
 const logger = getLogger('xmpp:AVModeration');
 
+/**
+ * The value of the {@link JITSI_MEET_MUC_TYPE} field of the json messages managing the raise-hand queue.
+ */
+const QUEUE_MESSAGE_TYPE = 'av_moderation_queue';
+
+/**
+ * The commands exchanged to manage the raise-hand queue.
+ */
+enum QueueCommand {
+    CANCEL = 'cancel',
+    DISMISS = 'dismiss',
+    GRANT = 'grant',
+    REQUEST = 'request',
+    STATE = 'state'
+}
+
+/**
+ * A request to unmute waiting in the raise-hand queue.
+ */
+export interface ISpeakRequest {
+
+    /**
+     * The media type the participant wants to unmute.
+     */
+    mediaType: MediaType;
+
+    /**
+     * The ID of the participant.
+     */
+    participantId: string;
+
+    /**
+     * When the request was received, in milliseconds since the epoch.
+     */
+    requestedAt: number;
+}
+
 export interface IModerationEnabledByType {
     audio: boolean;
     desktop: boolean;
@@ -21,7 +58,7 @@ export interface IMessageObject {
     enabled: boolean;
     mediaType: MediaType;
     removed: boolean;
-    whitelists: { audio: string[]; video: string[]; };
+    whitelists: { audio: string[]; desktop: string[]; video: string[]; };
 }
 
 /**
@@ -30,7 +67,10 @@ export interface IMessageObject {
 export default class AVModeration {
     private _xmpp: XMPP;
     private _mainRoom: ChatRoom;
+    private _approvedByType: IModerationEnabledByType;
     private _moderationEnabledByType: IModerationEnabledByType;
+    private _queue: ISpeakRequest[];
+    private _slotTimers: Map<string, Timeout>;
     private _whitelistAudio: string[];
     private _whitelistDesktop: string[];
     private _whitelistVideo: string[];
@@ -51,12 +91,211 @@ export default class AVModeration {
             [MediaType.VIDEO]: false
         };
 
+        this._approvedByType = {
+            [MediaType.AUDIO]: false,
+            [MediaType.DESKTOP]: false,
+            [MediaType.VIDEO]: false
+        };
+
         this._whitelistAudio = [];
         this._whitelistDesktop = [];
         this._whitelistVideo = [];
 
+        this._queue = [];
+        this._slotTimers = new Map();
+
         this._onMessage = this._onMessage.bind(this);
+        this._onQueueMessage = this._onQueueMessage.bind(this);
+        this._onMemberJoined = this._onMemberJoined.bind(this);
+        this._onMemberLeft = this._onMemberLeft.bind(this);
         this._xmpp.addListener(XMPPEvents.AV_MODERATION_RECEIVED, this._onMessage);
+        this._mainRoom.addListener(XMPPEvents.JSON_MESSAGE_RECEIVED, this._onQueueMessage);
+        this._mainRoom.addListener(XMPPEvents.MUC_MEMBER_JOINED, this._onMemberJoined);
+        this._mainRoom.addListener(XMPPEvents.MUC_MEMBER_LEFT, this._onMemberLeft);
+    }
+
+    /**
+     * Sends a raise-hand queue command to everyone, or to a single participant.
+     *
+     * @param {object} message - The command.
+     * @param {string} [to] - The ID of the participant, for private messages.
+     * @returns {void}
+     */
+    private _sendQueueMessage(message: object, to?: string): void {
+        const json = JSON.stringify({
+            ...message,
+            [JITSI_MEET_MUC_TYPE]: QUEUE_MESSAGE_TYPE
+        });
+
+        if (to) {
+            this._mainRoom.sendPrivateMessage(to, json, 'json-message');
+        } else {
+            this._mainRoom.sendMessage(json, 'json-message');
+        }
+    }
+
+    /**
+     * Checks whether a participant is a moderator.
+     *
+     * @param {string} from - The MUC jid of the participant.
+     * @returns {boolean}
+     */
+    private _isModerator(from: string): boolean {
+        return from === this._mainRoom.myroomjid
+            ? this._mainRoom.isModerator()
+            : this._mainRoom.getMemberRole(from) === 'moderator';
+    }
+
+    /**
+     * Returns the whitelist of a media type.
+     *
+     * @param {MediaType} mediaType - The media type.
+     * @returns {Optional<string[]>} The MUC jids of the approved participants, undefined for an unknown media type.
+     */
+    private _getWhitelist(mediaType: MediaType): Optional<string[]> {
+        switch (mediaType) {
+        case MediaType.AUDIO:
+            return this._whitelistAudio;
+        case MediaType.DESKTOP:
+            return this._whitelistDesktop;
+        case MediaType.VIDEO:
+            return this._whitelistVideo;
+        }
+    }
+
+    /**
+     * Replaces the whitelist of a media type.
+     *
+     * @param {MediaType} mediaType - The media type.
+     * @param {string[]} whitelist - The MUC jids of the approved participants.
+     * @returns {void}
+     */
+    private _setWhitelist(mediaType: MediaType, whitelist: string[]): void {
+        switch (mediaType) {
+        case MediaType.AUDIO:
+            this._whitelistAudio = whitelist;
+            break;
+        case MediaType.DESKTOP:
+            this._whitelistDesktop = whitelist;
+            break;
+        case MediaType.VIDEO:
+            this._whitelistVideo = whitelist;
+            break;
+        }
+    }
+
+    /**
+     * Removes requests from the queue.
+     *
+     * @param {Function} predicate - Selects the requests to remove.
+     * @returns {void}
+     */
+    private _removeFromQueue(predicate: (request: ISpeakRequest) => boolean): void {
+        const queue = this._queue.filter(r => !predicate(r));
+
+        if (queue.length !== this._queue.length) {
+            this._queue = queue;
+            this._xmpp.eventEmitter.emit(XMPPEvents.AV_MODERATION_QUEUE_CHANGED, this.getQueue());
+        }
+    }
+
+    /**
+     * Cancels the timer revoking a speaking slot.
+     *
+     * @param {MediaType} mediaType - The media type of the slot.
+     * @param {string} jid - The MUC jid of the participant.
+     * @returns {void}
+     */
+    private _clearSlotTimer(mediaType: MediaType, jid: string): void {
+        const key = `${mediaType}:${jid}`;
+
+        clearTimeout(this._slotTimers.get(key));
+        this._slotTimers.delete(key);
+    }
+
+    /**
+     * Handles a raise-hand queue command received through the MUC.
+     *
+     * @param {string} from - The MUC jid of the sender.
+     * @param {object} payload - The parsed message.
+     * @returns {void}
+     */
+    private _onQueueMessage(from: string, payload: any): void {
+        if (payload?.[JITSI_MEET_MUC_TYPE] !== QUEUE_MESSAGE_TYPE) {
+            return;
+        }
+
+        const senderId = Strophe.getResourceFromJid(from);
+        const { command, mediaType, participantId } = payload;
+
+        if ([ QueueCommand.DISMISS, QueueCommand.GRANT, QueueCommand.STATE ].includes(command)
+                && !this._isModerator(from)) {
+            logger.warn(`Ignoring raise-hand queue command ${command} from non moderator ${from}`);
+
+            return;
+        }
+
+        switch (command) {
+        case QueueCommand.REQUEST:
+            if (!Object.values(MediaType).includes(mediaType)
+                    || this._queue.some(r => r.participantId === senderId && r.mediaType === mediaType)) {
+                return;
+            }
+
+            this._queue.push({
+                mediaType,
+                participantId: senderId,
+                requestedAt: Date.now()
+            });
+            this._xmpp.eventEmitter.emit(XMPPEvents.AV_MODERATION_QUEUE_CHANGED, this.getQueue());
+            break;
+        case QueueCommand.CANCEL:
+            this._removeFromQueue(r => r.participantId === senderId && r.mediaType === mediaType);
+            break;
+        case QueueCommand.DISMISS:
+        case QueueCommand.GRANT:
+            this._removeFromQueue(r => r.participantId === participantId && r.mediaType === mediaType);
+            break;
+        case QueueCommand.STATE:
+            if (Array.isArray(payload.queue) && !this._queue.length) {
+                this._queue = payload.queue.filter(r => r?.participantId && Object.values(MediaType).includes(r.mediaType));
+                this._queue.length
+                    && this._xmpp.eventEmitter.emit(XMPPEvents.AV_MODERATION_QUEUE_CHANGED, this.getQueue());
+            }
+            break;
+        }
+    }
+
+    /**
+     * Replays the raise-hand queue to a moderator who just joined.
+     *
+     * @param {string} from - The MUC jid of the participant who joined.
+     * @param {string} nick - The nick of the participant.
+     * @param {string} role - The role of the participant.
+     * @returns {void}
+     */
+    private _onMemberJoined(from: string, nick: string, role: string): void {
+        if (role !== 'moderator' || !this._queue.length || !this._mainRoom.isModerator()) {
+            return;
+        }
+
+        this._sendQueueMessage({
+            command: QueueCommand.STATE,
+            queue: this._queue
+        }, Strophe.getResourceFromJid(from));
+    }
+
+    /**
+     * Removes the requests of a participant who left.
+     *
+     * @param {string} from - The MUC jid of the participant who left.
+     * @returns {void}
+     */
+    private _onMemberLeft(from: string): void {
+        const participantId = Strophe.getResourceFromJid(from);
+
+        Object.values(MediaType).forEach(mediaType => this._clearSlotTimer(mediaType, from));
+        this._removeFromQueue(r => r.participantId === participantId);
     }
 
     /**
@@ -64,6 +303,12 @@ export default class AVModeration {
      */
     dispose() {
         this._xmpp.removeListener(XMPPEvents.AV_MODERATION_RECEIVED, this._onMessage);
+        this._mainRoom.removeListener(XMPPEvents.JSON_MESSAGE_RECEIVED, this._onQueueMessage);
+        this._mainRoom.removeListener(XMPPEvents.MUC_MEMBER_JOINED, this._onMemberJoined);
+        this._mainRoom.removeListener(XMPPEvents.MUC_MEMBER_LEFT, this._onMemberLeft);
+        this._slotTimers.forEach(timer => clearTimeout(timer));
+        this._slotTimers.clear();
+        this._queue = [];
     }
 
     /**
@@ -75,6 +320,29 @@ export default class AVModeration {
         return Boolean(this._xmpp.avModerationComponentAddress);
     }
 
+    /**
+     * Whether moderation is enabled for a media type.
+     *
+     * @param {MediaType} mediaType - The media type.
+     * @returns {boolean}
+     */
+    isModerationEnabled(mediaType: MediaType): boolean {
+        return Boolean(this._moderationEnabledByType[mediaType]);
+    }
+
+    /**
+     * Whether the local participant may unmute or share a media type. Moderators are always allowed, everyone else
+     * needs to be approved while moderation is enabled for the media type.
+     *
+     * @param {MediaType} mediaType - The media type.
+     * @returns {boolean}
+     */
+    isApproved(mediaType: MediaType): boolean {
+        return !this.isModerationEnabled(mediaType)
+            || this._mainRoom.isModerator()
+            || Boolean(this._approvedByType[mediaType]);
+    }
+
     /**
      * Enables or disables AV Moderation by sending a msg with command to the component.
      */
@@ -147,6 +415,101 @@ export default class AVModeration {
         this._xmpp.connection.send(msg);
     }
 
+    /**
+     * Asks the moderators for permission to unmute, by raising the hand in the queue.
+     *
+     * @param {MediaType} mediaType - The media type to unmute.
+     * @returns {void}
+     */
+    requestToSpeak(mediaType: MediaType) {
+        this._sendQueueMessage({
+            command: QueueCommand.REQUEST,
+            mediaType
+        });
+    }
+
+    /**
+     * Withdraws a request made with {@link requestToSpeak}.
+     *
+     * @param {MediaType} mediaType - The media type of the request.
+     * @returns {void}
+     */
+    cancelRequest(mediaType: MediaType) {
+        this._sendQueueMessage({
+            command: QueueCommand.CANCEL,
+            mediaType
+        });
+    }
+
+    /**
+     * Removes a request from the queue without approving it.
+     *
+     * @param {MediaType} mediaType - The media type of the request.
+     * @param {string} participantId - The ID of the participant.
+     * @returns {void}
+     */
+    dismissRequest(mediaType: MediaType, participantId: string) {
+        if (!this._mainRoom.isModerator()) {
+            logger.error('Cannot dismiss a raise-hand request, not a moderator');
+
+            return;
+        }
+
+        this._sendQueueMessage({
+            command: QueueCommand.DISMISS,
+            mediaType,
+            participantId
+        });
+    }
+
+    /**
+     * Approves a participant to unmute and removes its request from the queue. When a duration is given the approval
+     * is revoked automatically once it elapses.
+     *
+     * @param {MediaType} mediaType - The media type to approve.
+     * @param {string} participantId - The ID of the participant.
+     * @param {number} [duration] - The length of the speaking slot in seconds.
+     * @returns {void}
+     */
+    grantSpeakingSlot(mediaType: MediaType, participantId: string, duration?: number) {
+        if (!this.isSupported() || !this._mainRoom.isModerator()) {
+            logger.error(`Cannot grant a speaking slot supported:${this.isSupported()},
+                moderator:${this._mainRoom.isModerator()}`);
+
+            return;
+        }
+
+        const jid = `${this._mainRoom.roomjid}/${participantId}`;
+
+        this.approve(mediaType, jid);
+        this._sendQueueMessage({
+            command: QueueCommand.GRANT,
+            mediaType,
+            participantId
+        });
+
+        this._clearSlotTimer(mediaType, jid);
+
+        if (duration > 0) {
+            this._slotTimers.set(`${mediaType}:${jid}`, setTimeout(() => {
+                this._slotTimers.delete(`${mediaType}:${jid}`);
+                logger.info(`Speaking slot of ${participantId} for ${mediaType} ended`);
+                this.reject(mediaType, jid);
+            }, duration * 1000));
+        }
+    }
+
+    /**
+     * Returns the requests to unmute, in the order they were made.
+     *
+     * @returns {ISpeakRequest[]}
+     */
+    getQueue(): ISpeakRequest[] {
+        return this._queue.map(r => {
+            return { ...r };
+        });
+    }
+
     /**
      * Receives av_moderation parsed messages as json.
      * @param obj the parsed json content of the message to process.
@@ -156,19 +519,9 @@ export default class AVModeration {
         const { removed, mediaType: media, enabled, approved, actor, whitelists: newWhitelists } = obj;
 
         if (newWhitelists) {
-            let oldList;
-
-            switch (media) {
-            case MediaType.AUDIO:
-                oldList = this._whitelistAudio;
-                break;
-            case MediaType.DESKTOP:
-                oldList = this._whitelistDesktop;
-                break;
-            case MediaType.VIDEO:
-                oldList = this._whitelistVideo;
-                break;
-            default:
+            const oldList = this._getWhitelist(media);
+
+            if (!oldList) {
                 logger.error(`Unknown media type: ${media}`);
 
                 return;
@@ -177,32 +530,37 @@ export default class AVModeration {
 
             if (removed) {
                 oldList.filter(x => !newList.includes(x))
-                    .forEach(jid => this._xmpp.eventEmitter
-                        .emit(XMPPEvents.AV_MODERATION_PARTICIPANT_REJECTED, media, jid));
+                    .forEach(jid => {
+                        this._clearSlotTimer(media, jid);
+                        this._xmpp.eventEmitter.emit(XMPPEvents.AV_MODERATION_PARTICIPANT_REJECTED, media, jid);
+                    });
             } else {
                 newList.filter(x => !oldList.includes(x))
                     .forEach(jid => this._xmpp.eventEmitter
                         .emit(XMPPEvents.AV_MODERATION_PARTICIPANT_APPROVED, media, jid));
             }
 
-            switch (media) {
-            case MediaType.AUDIO:
-                this._whitelistAudio = newList;
-                break;
-            case MediaType.DESKTOP:
-                this._whitelistDesktop = newList;
-                break;
-            case MediaType.VIDEO:
-                this._whitelistVideo = newList;
-                break;
+            this._setWhitelist(media, newList);
+
+            // We may have been approved before joining the room, in which case no approval message is received.
+            const myJid = this._mainRoom.myroomjid;
+
+            if (oldList.includes(myJid) !== newList.includes(myJid)) {
+                this._approvedByType[media] = newList.includes(myJid);
             }
         } else if (enabled !== undefined && this._moderationEnabledByType[media] !== enabled) {
             this._moderationEnabledByType[media] = enabled;
 
+            // The component drops the whitelist when moderation is disabled.
+            enabled || this._setWhitelist(media, []);
+            this._approvedByType[media] = Boolean(this._getWhitelist(media)?.includes(this._mainRoom.myroomjid));
+
             this._xmpp.eventEmitter.emit(XMPPEvents.AV_MODERATION_CHANGED, enabled, media, actor);
         } else if (removed) {
+            this._approvedByType[media] = false;
             this._xmpp.eventEmitter.emit(XMPPEvents.AV_MODERATION_REJECTED, media);
         } else if (approved) {
+            this._approvedByType[media] = true;
             this._xmpp.eventEmitter.emit(XMPPEvents.AV_MODERATION_APPROVED, media);
         }
     }
@@ -1,4 +1,5 @@
 import { getLogger } from '@jitsi/logger';
+import { shuffle } from 'lodash-es';
 import { $msg, Strophe } from 'strophe.js';
 
 import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
@@ -6,15 +7,51 @@ import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
 const FEATURE_KEY = 'features/breakout-rooms';
 const BREAKOUT_ROOM_ACTIONS = {
     ADD: `${FEATURE_KEY}/add`,
+    BROADCAST_MESSAGE: `${FEATURE_KEY}/broadcast-message`,
+    CLOSING: `${FEATURE_KEY}/closing`,
+    JOIN_ROOM: `${FEATURE_KEY}/join-room`,
     MOVE_TO_ROOM: `${FEATURE_KEY}/move-to-room`,
     REMOVE: `${FEATURE_KEY}/remove`,
-    RENAME: `${FEATURE_KEY}/rename`
+    RENAME: `${FEATURE_KEY}/rename`,
+    SET_CAPACITY: `${FEATURE_KEY}/set-capacity`,
+    SET_SELF_SELECTION: `${FEATURE_KEY}/set-self-selection`
 };
 const BREAKOUT_ROOM_EVENTS = {
+    CLOSING: `${FEATURE_KEY}/closing`,
+    JOIN_FAILED: `${FEATURE_KEY}/join-failed`,
+    MESSAGE: `${FEATURE_KEY}/message`,
     MOVE_TO_ROOM: `${FEATURE_KEY}/move-to-room`,
     UPDATE: `${FEATURE_KEY}/update`
 };
 
+/**
+ * How the participants are distributed by {@link BreakoutRooms#autoAssignParticipants}.
+ */
+export const BreakoutRoomsAssignment = {
+    EVEN: 'even',
+    RANDOM: 'random'
+};
+
+/**
+ * The reasons for which joining a breakout room by self-selection can fail.
+ */
+export const BreakoutRoomsError = {
+    NOT_ALLOWED: 'not-allowed',
+    ROOM_FULL: 'room-full',
+    ROOM_NOT_FOUND: 'room-not-found',
+    TIMEOUT: 'timeout'
+};
+
+/**
+ * How long before the end of a timed session the participants are warned, in seconds.
+ */
+const DEFAULT_CLOSING_WARNING = 60;
+
+/**
+ * How long we wait for the component to move us after asking to join a room, in milliseconds.
+ */
+const JOIN_ROOM_TIMEOUT = 10000;
+
 const logger = getLogger('xmpp:BreakoutRooms');
 
 /**
@@ -41,6 +78,13 @@ export default class BreakoutRooms {
      */
     dispose() {
         this.room.xmpp.removeListener(XMPPEvents.BREAKOUT_ROOMS_EVENT, this._handleMessages);
+
+        if (this._timer) {
+            logger.warn(`Breakout rooms timer cancelled with ${this.getRemainingTime()}s left`);
+        }
+
+        this.stopTimer();
+        this._settleJoin(undefined, BreakoutRoomsError.TIMEOUT);
     }
 
     /**
@@ -132,6 +176,227 @@ export default class BreakoutRooms {
         this._sendMessage(message);
     }
 
+    /**
+     * Distributes the participants of the main room across the breakout rooms, so that all the rooms end up with
+     * the same number of participants, give or take one. The local participant stays in the main room.
+     *
+     * @param {string} [mode] - One of {@link BreakoutRoomsAssignment}. With EVEN the participants are assigned in
+     * the order they are listed, with RANDOM they are shuffled first.
+     */
+    autoAssignParticipants(mode = BreakoutRoomsAssignment.EVEN) {
+        if (!this.isSupported() || !this.room.isModerator()) {
+            logger.error(`Cannot assign participants - supported:${this.isSupported()},
+                moderator:${this.room.isModerator()}`);
+
+            return;
+        }
+
+        const rooms = Object.values(this._rooms);
+        const mainRoom = rooms.find(r => r.isMainRoom);
+        const breakoutRooms = rooms.filter(r => !r.isMainRoom);
+
+        if (!mainRoom || !breakoutRooms.length) {
+            logger.error('Cannot assign participants - there are no breakout rooms');
+
+            return;
+        }
+
+        const participants = Object.keys(mainRoom.participants || {}).filter(jid => jid !== this.room.myroomjid);
+        const counts = breakoutRooms.map(r => Object.keys(r.participants || {}).length);
+
+        for (const participantJid of mode === BreakoutRoomsAssignment.RANDOM ? shuffle(participants) : participants) {
+            const index = counts.indexOf(Math.min(...counts));
+
+            counts[index]++;
+            this.sendParticipantToRoom(participantJid, breakoutRooms[index].jid);
+        }
+    }
+
+    /**
+     * Sends all the participants of the breakout rooms back to the main room.
+     */
+    sendAllToMainRoom() {
+        if (!this.isSupported() || !this.room.isModerator()) {
+            logger.error(`Cannot close breakout rooms - supported:${this.isSupported()},
+                moderator:${this.room.isModerator()}`);
+
+            return;
+        }
+
+        const mainRoomJid = this.isBreakoutRoom() ? this.getMainRoomJid() : this.room.roomjid;
+
+        for (const room of Object.values(this._rooms)) {
+            if (!room.isMainRoom) {
+                Object.keys(room.participants || {}).forEach(jid => this.sendParticipantToRoom(jid, mainRoomJid));
+            }
+        }
+    }
+
+    /**
+     * Sends a text message to the participants of all the breakout rooms.
+     *
+     * @param {string} message - The text of the message.
+     */
+    broadcastMessage(message) {
+        if (!this.isFeatureSupported('broadcast') || !this.room.isModerator()) {
+            logger.error(`Cannot broadcast to breakout rooms - supported:${this.isFeatureSupported('broadcast')},
+                moderator:${this.room.isModerator()}`);
+
+            return;
+        }
+
+        this._sendMessage({
+            message,
+            type: BREAKOUT_ROOM_ACTIONS.BROADCAST_MESSAGE
+        });
+    }
+
+    /**
+     * Starts a countdown after which all the participants are sent back to the main room. The participants of the
+     * breakout rooms are warned shortly before the end. Starting a new countdown replaces the previous one.
+     *
+     * The countdown only runs in the client of the moderator who started it and is not shared with the other
+     * moderators. It is cancelled when that moderator leaves the room or moves to another room, in which case
+     * {@link JitsiConferenceEvents.BREAKOUT_ROOMS_TIMER_CANCELLED} is fired with the remaining time.
+     *
+     * @param {number} duration - The duration of the session in seconds.
+     * @param {number} [warningTime] - How many seconds before the end the participants are warned, 0 to disable
+     * the warning.
+     */
+    startTimer(duration, warningTime = DEFAULT_CLOSING_WARNING) {
+        if (!this.isSupported() || !this.room.isModerator()) {
+            logger.error(`Cannot start breakout rooms timer - supported:${this.isSupported()},
+                moderator:${this.room.isModerator()}`);
+
+            return;
+        }
+
+        this.stopTimer();
+        this._timerEnd = Date.now() + (duration * 1000);
+        this._timer = setTimeout(() => {
+            this.stopTimer();
+            this.sendAllToMainRoom();
+        }, duration * 1000);
+
+        if (warningTime > 0) {
+            this._warningTimer = setTimeout(
+                () => this._sendClosingWarning(Math.min(warningTime, duration)),
+                Math.max(duration - warningTime, 0) * 1000);
+        }
+    }
+
+    /**
+     * Cancels the countdown started with {@link startTimer}.
+     */
+    stopTimer() {
+        clearTimeout(this._timer);
+        clearTimeout(this._warningTimer);
+        this._timer = undefined;
+        this._warningTimer = undefined;
+        this._timerEnd = undefined;
+    }
+
+    /**
+     * Returns the number of seconds left before the participants are sent back to the main room.
+     *
+     * @returns {number|undefined} The remaining time, undefined if no countdown is running.
+     */
+    getRemainingTime() {
+        return this._timerEnd ? Math.max(Math.ceil((this._timerEnd - Date.now()) / 1000), 0) : undefined;
+    }
+
+    /**
+     * Opens or closes the breakout rooms for self-selection, in which participants can join a room themselves.
+     *
+     * @param {boolean} enabled - Whether participants can choose their room.
+     */
+    setSelfSelection(enabled) {
+        if (!this.isFeatureSupported('selfSelection') || !this.room.isModerator()) {
+            logger.error(`Cannot set self-selection - supported:${this.isFeatureSupported('selfSelection')},
+                moderator:${this.room.isModerator()}`);
+
+            return;
+        }
+
+        this._sendMessage({
+            enabled,
+            type: BREAKOUT_ROOM_ACTIONS.SET_SELF_SELECTION
+        });
+    }
+
+    /**
+     * Limits the number of participants who can join a breakout room by self-selection.
+     *
+     * @param {string} breakoutRoomJid - JID of the room.
+     * @param {number} [capacity] - The maximum number of participants, no limit if not set.
+     */
+    setRoomCapacity(breakoutRoomJid, capacity) {
+        if (!this.isFeatureSupported('selfSelection') || !this.room.isModerator()) {
+            logger.error(`Cannot set room capacity - supported:${this.isFeatureSupported('selfSelection')},
+                moderator:${this.room.isModerator()}`);
+
+            return;
+        }
+
+        this._sendMessage({
+            breakoutRoomJid,
+            capacity,
+            type: BREAKOUT_ROOM_ACTIONS.SET_CAPACITY
+        });
+    }
+
+    /**
+     * Whether the breakout rooms are open for self-selection.
+     *
+     * @returns {boolean}
+     */
+    isSelfSelectionEnabled() {
+        return Boolean(this._selfSelection);
+    }
+
+    /**
+     * Asks to join a breakout room, or to return to the main room, when the rooms are open for self-selection.
+     *
+     * @param {string} roomJid - JID of the room to join.
+     * @returns {Promise<void>} Resolved when the component asks us to move to the room, rejected with an error whose
+     * message is a {@link BreakoutRoomsError} otherwise.
+     */
+    joinRoom(roomJid) {
+        const room = Object.values(this._rooms).find(r => r.jid === roomJid);
+        let error;
+
+        if (!this.isSelfSelectionEnabled()) {
+            error = BreakoutRoomsError.NOT_ALLOWED;
+        } else if (!room) {
+            error = BreakoutRoomsError.ROOM_NOT_FOUND;
+        } else if (!room.isMainRoom && typeof room.capacity === 'number'
+                && Object.keys(room.participants || {}).length >= room.capacity) {
+            error = BreakoutRoomsError.ROOM_FULL;
+        }
+
+        if (error) {
+            logger.error(`Cannot join breakout room ${roomJid}: ${error}`);
+
+            return Promise.reject(new Error(error));
+        }
+
+        this._settleJoin(undefined, BreakoutRoomsError.TIMEOUT);
+
+        return new Promise((resolve, reject) => {
+            this._pendingJoin = {
+                reject,
+                resolve,
+                roomJid,
+                timeout: setTimeout(() => this._settleJoin(undefined, BreakoutRoomsError.TIMEOUT), JOIN_ROOM_TIMEOUT)
+            };
+
+            this._sendMessage({
+                roomJid,
+                type: BREAKOUT_ROOM_ACTIONS.JOIN_ROOM
+            });
+        });
+    }
+
     /**
      * Retrieves whether a breakout room feature is supported.
      *
@@ -207,13 +472,25 @@ export default class BreakoutRooms {
      */
     _handleMessages(payload) {
         switch (payload.event) {
+        case BREAKOUT_ROOM_EVENTS.CLOSING:
+            this.room.eventEmitter.emit(XMPPEvents.BREAKOUT_ROOMS_CLOSING, payload.remainingTime);
+            break;
+        case BREAKOUT_ROOM_EVENTS.MESSAGE:
+            this.room.eventEmitter.emit(XMPPEvents.BREAKOUT_ROOMS_MESSAGE, payload.message);
+            break;
+        case BREAKOUT_ROOM_EVENTS.JOIN_FAILED:
+            this._settleJoin(payload.roomJid, payload.error === BreakoutRoomsError.ROOM_FULL
+                ? BreakoutRoomsError.ROOM_FULL : BreakoutRoomsError.NOT_ALLOWED);
+            break;
         case BREAKOUT_ROOM_EVENTS.MOVE_TO_ROOM:
+            this._settleJoin(payload.roomJid);
             this.room.eventEmitter.emit(XMPPEvents.BREAKOUT_ROOMS_MOVE_TO_ROOM, payload.roomJid);
             break;
         case BREAKOUT_ROOM_EVENTS.UPDATE: {
             const filteredPayload = this._filterUpdatePayload(payload);
 
             this._rooms = filteredPayload.rooms;
+            this._selfSelection = Boolean(payload.selfSelection);
             this.room.eventEmitter.emit(XMPPEvents.BREAKOUT_ROOMS_UPDATED, filteredPayload);
             break;
         }
@@ -253,6 +530,49 @@ export default class BreakoutRooms {
         };
     }
 
+    /**
+     * Settles the pending request to join a room.
+     *
+     * @param {string|undefined} roomJid - JID of the room the response is about, undefined to settle any request.
+     * @param {string} [error] - The {@link BreakoutRoomsError} if the request failed.
+     */
+    _settleJoin(roomJid, error) {
+        const pending = this._pendingJoin;
+
+        if (!pending || (roomJid && roomJid !== pending.roomJid)) {
+            return;
+        }
+
+        clearTimeout(pending.timeout);
+        this._pendingJoin = undefined;
+
+        if (error) {
+            pending.reject(new Error(error));
+        } else {
+            pending.resolve();
+        }
+    }
+
+    /**
+     * Warns the participants of the breakout rooms that they will be sent back to the main room.
+     *
+     * @param {number} remainingTime - The number of seconds before the rooms are closed.
+     */
+    _sendClosingWarning(remainingTime) {
+        this._warningTimer = undefined;
+
+        if (!this.isFeatureSupported('broadcast')) {
+            logger.warn('Cannot warn breakout rooms about closing, not supported by the backend');
+
+            return;
+        }
+
+        this._sendMessage({
+            remainingTime,
+            type: BREAKOUT_ROOM_ACTIONS.CLOSING
+        });
+    }
+
     /**
      * Helper to send a breakout rooms message to the component.
      *
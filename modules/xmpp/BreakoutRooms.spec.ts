@@ -0,0 +1,161 @@
+import BreakoutRooms, { BreakoutRoomsAssignment, BreakoutRoomsError } from './BreakoutRooms';
+
+describe('BreakoutRooms', () => {
+    let room: any;
+    let breakoutRooms: BreakoutRooms;
+    let moveSpy: jasmine.Spy;
+    let sendSpy: jasmine.Spy;
+
+    const update = (rooms: object) => {
+        breakoutRooms._handleMessages({
+            event: 'features/breakout-rooms/update',
+            rooms
+        });
+    };
+
+    beforeEach(() => {
+        room = {
+            eventEmitter: jasmine.createSpyObj('eventEmitter', [ 'emit' ]),
+            isModerator: () => true,
+            myroomjid: 'main@muc/me',
+            options: {},
+            roomjid: 'main@muc',
+            xmpp: {
+                addListener: () => {}, // eslint-disable-line no-empty-function
+                breakoutRoomsComponentAddress: 'breakout.muc',
+                breakoutRoomsFeatures: { broadcast: true },
+                removeListener: () => {} // eslint-disable-line no-empty-function
+            }
+        };
+        breakoutRooms = new BreakoutRooms(room);
+        sendSpy = spyOn(breakoutRooms, '_sendMessage');
+        moveSpy = spyOn(breakoutRooms, 'sendParticipantToRoom').and.callThrough();
+
+        update({
+            b1: {
+                jid: 'b1@breakout.muc',
+                participants: { 'b1@breakout.muc/p0': { jid: 'p0@example.com' } }
+            },
+            b2: {
+                jid: 'b2@breakout.muc',
+                participants: {}
+            },
+            main: {
+                isMainRoom: true,
+                jid: 'main@muc',
+                participants: {
+                    'main@muc/me': { jid: 'me@example.com' },
+                    'main@muc/p1': { jid: 'p1@example.com' },
+                    'main@muc/p2': { jid: 'p2@example.com' },
+                    'main@muc/p3': { jid: 'p3@example.com' }
+                }
+            }
+        });
+    });
+
+    afterEach(() => {
+        breakoutRooms.dispose();
+    });
+
+    it('distributes the participants evenly', () => {
+        breakoutRooms.autoAssignParticipants(BreakoutRoomsAssignment.EVEN);
+
+        expect(moveSpy.calls.allArgs()).toEqual([
+            [ 'main@muc/p1', 'b2@breakout.muc' ],
+            [ 'main@muc/p2', 'b1@breakout.muc' ],
+            [ 'main@muc/p3', 'b2@breakout.muc' ]
+        ]);
+    });
+
+    it('warns and then returns everyone to the main room when the timer expires', () => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate();
+
+        breakoutRooms.startTimer(120, 30);
+        expect(breakoutRooms.getRemainingTime()).toBe(120);
+
+        jasmine.clock().tick(90 * 1000);
+        expect(sendSpy).toHaveBeenCalledWith({
+            remainingTime: 30,
+            type: 'features/breakout-rooms/closing'
+        });
+        expect(moveSpy).not.toHaveBeenCalled();
+
+        jasmine.clock().tick(30 * 1000);
+        expect(moveSpy).toHaveBeenCalledOnceWith('b1@breakout.muc/p0', 'main@muc');
+        expect(breakoutRooms.getRemainingTime()).toBeUndefined();
+
+        jasmine.clock().uninstall();
+    });
+
+    it('emits the messages broadcast to the breakout rooms', () => {
+        breakoutRooms._handleMessages({
+            event: 'features/breakout-rooms/message',
+            message: 'Five minutes left'
+        });
+
+        expect(room.eventEmitter.emit).toHaveBeenCalledWith('xmpp.breakout-rooms.message', 'Five minutes left');
+    });
+
+    describe('self-selection', () => {
+        beforeEach(() => {
+            breakoutRooms._handleMessages({
+                event: 'features/breakout-rooms/update',
+                rooms: {
+                    b1: {
+                        capacity: 1,
+                        jid: 'b1@breakout.muc',
+                        participants: { 'b1@breakout.muc/p0': { jid: 'p0@example.com' } }
+                    },
+                    b2: {
+                        capacity: 2,
+                        jid: 'b2@breakout.muc',
+                        participants: {}
+                    }
+                },
+                selfSelection: true
+            });
+        });
+
+        it('asks to join a room and resolves when moved', async () => {
+            const promise = breakoutRooms.joinRoom('b2@breakout.muc');
+
+            expect(sendSpy).toHaveBeenCalledWith({
+                roomJid: 'b2@breakout.muc',
+                type: 'features/breakout-rooms/join-room'
+            });
+
+            breakoutRooms._handleMessages({
+                event: 'features/breakout-rooms/move-to-room',
+                roomJid: 'b2@breakout.muc'
+            });
+
+            await expectAsync(promise).toBeResolved();
+        });
+
+        it('rejects joining a full room', async () => {
+            await expectAsync(breakoutRooms.joinRoom('b1@breakout.muc'))
+                .toBeRejectedWithError(BreakoutRoomsError.ROOM_FULL);
+            expect(sendSpy).not.toHaveBeenCalled();
+        });
+
+        it('rejects when the component refuses the request', async () => {
+            const promise = breakoutRooms.joinRoom('b2@breakout.muc');
+
+            breakoutRooms._handleMessages({
+                error: 'room-full',
+                event: 'features/breakout-rooms/join-failed',
+                roomJid: 'b2@breakout.muc'
+            });
+
+            await expectAsync(promise).toBeRejectedWithError(BreakoutRoomsError.ROOM_FULL);
+        });
+
+        it('rejects when the rooms are not open for self-selection', async () => {
+            update({});
+
+            await expectAsync(breakoutRooms.joinRoom('b2@breakout.muc'))
+                .toBeRejectedWithError(BreakoutRoomsError.NOT_ALLOWED);
+        });
+    });
+});
@@ -0,0 +1,270 @@
+import { getLogger } from '@jitsi/logger';
+
+const logger = getLogger('xmpp:ChatMessages');
+
+/**
+ * The maximum number of messages kept in memory. The oldest messages are dropped first.
+ */
+const MAX_STORED_MESSAGES = 1000;
+
+/**
+ * A chat message as tracked by {@link ChatMessages}.
+ */
+export interface IChatMessage {
+
+    /**
+     * Whether the message was retracted by its sender.
+     */
+    deleted: boolean;
+
+    /**
+     * The MUC jids of the participants who displayed (read) the message.
+     */
+    displayedBy: string[];
+
+    /**
+     * Whether the message was corrected by its sender.
+     */
+    edited: boolean;
+
+    /**
+     * The MUC jid of the sender.
+     */
+    from: string;
+
+    /**
+     * Whether the message was sent privately.
+     */
+    isPrivate: boolean;
+
+    /**
+     * The ID of the message.
+     */
+    messageId: string;
+
+    /**
+     * The ID of the message this one replies to (XEP-0461), if any.
+     */
+    replyToId?: string;
+
+    /**
+     * The text of the message, empty if the message was deleted.
+     */
+    text: string;
+
+    /**
+     * The ID of the message starting the thread this message belongs to. Messages which are not replies start their
+     * own thread.
+     */
+    threadId: string;
+
+    /**
+     * The delay stamp of the message, if it was delivered delayed.
+     */
+    timestamp?: string;
+}
+
+/**
+ * A message to be stored, without the state tracked by {@link ChatMessages}.
+ */
+type NewChatMessage = Omit<IChatMessage, 'deleted' | 'displayedBy' | 'edited' | 'threadId'>;
+
+/**
+ * Keeps track of the chat messages exchanged in a room, so that corrections and retractions can be validated and
+ * applied and replies can be grouped into threads.
+ */
+export default class ChatMessages {
+    private _messages: Map<string, IChatMessage>;
+
+    /**
+     * Creates a new message store.
+     */
+    constructor() {
+        this._messages = new Map();
+    }
+
+    /**
+     * Stores a newly received message. A message reusing the ID of a message from another sender is not stored, so
+     * that it cannot take over that message.
+     *
+     * @param {NewChatMessage} message - The received message.
+     * @returns {IChatMessage} The stored message.
+     */
+    add(message: NewChatMessage): IChatMessage {
+        const existing = this._messages.get(message.messageId);
+
+        if (existing && existing.from !== message.from) {
+            logger.warn(`Ignoring message ${message.messageId} from ${message.from}, the ID belongs to another sender`);
+
+            return existing;
+        }
+
+        const parent = message.replyToId ? this._messages.get(message.replyToId) : undefined;
+        const stored: IChatMessage = {
+            ...message,
+            deleted: false,
+            displayedBy: [],
+            edited: false,
+            threadId: parent?.threadId ?? message.replyToId ?? message.messageId
+        };
+
+        this._messages.delete(message.messageId);
+        this._messages.set(message.messageId, stored);
+
+        if (this._messages.size > MAX_STORED_MESSAGES) {
+            this._messages.delete(this._messages.keys().next().value);
+        }
+
+        return stored;
+    }
+
+    /**
+     * Stores messages older than all the stored ones, for example retrieved from the room archive, in front of them
+     * so that the stored messages stay in the order they were sent. Messages with an ID already stored are left out.
+     *
+     * @param {NewChatMessage[]} messages - The messages, oldest first.
+     * @returns {IChatMessage[]} The stored messages.
+     */
+    prepend(messages: NewChatMessage[]): IChatMessage[] {
+        const older = new Map<string, IChatMessage>();
+
+        for (const message of messages) {
+            if (older.has(message.messageId) || this._messages.has(message.messageId)) {
+                continue;
+            }
+
+            const parent = message.replyToId
+                ? older.get(message.replyToId) ?? this._messages.get(message.replyToId) : undefined;
+
+            older.set(message.messageId, {
+                ...message,
+                deleted: false,
+                displayedBy: [],
+                edited: false,
+                threadId: parent?.threadId ?? message.replyToId ?? message.messageId
+            });
+        }
+
+        this._messages = new Map([ ...older, ...this._messages ]);
+
+        while (this._messages.size > MAX_STORED_MESSAGES) {
+            this._messages.delete(this._messages.keys().next().value);
+        }
+
+        return Array.from(older.values());
+    }
+
+    /**
+     * Removes all stored messages.
+     */
+    clear(): void {
+        this._messages.clear();
+    }
+
+    /**
+     * Returns a stored message.
+     *
+     * @param {string} messageId - The ID of the message.
+     * @returns {Optional<IChatMessage>}
+     */
+    get(messageId: string): Optional<IChatMessage> {
+        return this._messages.get(messageId);
+    }
+
+    /**
+     * Returns all the messages of the thread the given message belongs to, in the order they were received.
+     *
+     * @param {string} messageId - The ID of any message in the thread.
+     * @returns {IChatMessage[]}
+     */
+    getThread(messageId: string): IChatMessage[] {
+        const threadId = this._messages.get(messageId)?.threadId ?? messageId;
+
+        return Array.from(this._messages.values()).filter(m => m.threadId === threadId);
+    }
+
+    /**
+     * Checks whether the given sender is allowed to modify a message. Unknown messages, for example ones sent before
+     * we joined, cannot be modified since there is no sender to check against.
+     *
+     * @param {string} messageId - The ID of the message.
+     * @param {string} from - The MUC jid of the participant modifying the message.
+     * @returns {boolean}
+     */
+    canModify(messageId: string, from: string): boolean {
+        const message = this._messages.get(messageId);
+
+        if (!message) {
+            logger.warn(`Ignoring modification of unknown message ${messageId} by ${from}`);
+
+            return false;
+        }
+
+        if (message.from !== from) {
+            logger.warn(`Ignoring modification of message ${messageId} by ${from}, not the original sender`);
+
+            return false;
+        }
+
+        return !message.deleted;
+    }
+
+    /**
+     * Applies a correction to a stored message.
+     *
+     * @param {string} messageId - The ID of the corrected message.
+     * @param {string} text - The new text.
+     * @returns {void}
+     */
+    edit(messageId: string, text: string): void {
+        const message = this._messages.get(messageId);
+
+        if (message) {
+            message.edited = true;
+            message.text = text;
+        }
+    }
+
+    /**
+     * Marks a stored message as retracted.
+     *
+     * @param {string} messageId - The ID of the retracted message.
+     * @returns {void}
+     */
+    delete(messageId: string): void {
+        const message = this._messages.get(messageId);
+
+        if (message) {
+            message.deleted = true;
+            message.text = '';
+        }
+    }
+
+    /**
+     * Records that a participant displayed a message. For the group chat a displayed marker implies that all the
+     * previous group messages were displayed as well (XEP-0333).
+     *
+     * @param {string} messageId - The ID of the displayed message.
+     * @param {string} from - The MUC jid of the participant who displayed the message.
+     * @returns {void}
+     */
+    markDisplayed(messageId: string, from: string): void {
+        const message = this._messages.get(messageId);
+
+        if (!message) {
+            return;
+        }
+
+        const messages = message.isPrivate ? [ message ] : this._messages.values();
+
+        for (const m of messages) {
+            if (m.isPrivate === message.isPrivate && m.from !== from && !m.displayedBy.includes(from)) {
+                m.displayedBy.push(from);
+            }
+
+            if (m === message) {
+                break;
+            }
+        }
+    }
+}
@@ -794,4 +794,266 @@ describe('ChatRoom', () => {
                 null); // replyToId
         });
     });
+
+    describe('editMessage and retractMessage', () => {
+        let room: ChatRoom;
+        let connectionSpy: jasmine.Spy;
+
+        beforeEach(() => {
+            const xmpp: IMockXMPP = {
+                moderator: new Moderator({
+                    options: {}
+                } as any),
+                options: {},
+                addListener: () => {} // eslint-disable-line no-empty-function
+            };
+
+            room = new ChatRoom(
+                // eslint-disable-next-line no-empty-function
+                { send: () => {} } as any as XmppConnection /* connection */,
+                'jid',
+                'password',
+                xmpp as any as XMPP,
+                {} /* options */);
+            connectionSpy = spyOn(room.connection, 'send');
+        });
+        it('sends a message with an id', () => {
+            room.sendMessage('string message', 'body', undefined, 'msgId1');
+            expect(connectionSpy.calls.argsFor(0).toString()).toBe(
+                '<message id="msgId1" to="jid" type="groupchat" xmlns="jabber:client">' +
+                '<body>string message</body>' +
+                '</message>');
+        });
+        it('sends a message correction', () => {
+            room.editMessage('msgId1', 'corrected message');
+
+            const sent = connectionSpy.calls.argsFor(0).toString();
+
+            expect(sent).toMatch(/type="groupchat"/);
+            expect(sent).toContain('<body>corrected message</body>' +
+                '<replace id="msgId1" xmlns="urn:xmpp:message-correct:0"/>');
+        });
+        it('sends a private message retraction', () => {
+            room.retractMessage('msgId1', 'participant1');
+
+            const sent = connectionSpy.calls.argsFor(0).toString();
+
+            expect(sent).toMatch(/to="jid\/participant1" type="chat"/);
+            expect(sent).toContain('<retract id="msgId1" xmlns="urn:xmpp:message-retract:1"/>');
+            expect(sent).toContain('<fallback for="urn:xmpp:message-retract:1" xmlns="urn:xmpp:fallback:0"/>');
+        });
+    });
+
+    describe('onMessage - corrections, retractions and threads', () => {
+        let room;
+        let emitterSpy;
+
+        const receive = (msgStr: string, from = 'fromjid') => {
+            const msg = new DOMParser().parseFromString(msgStr, 'text/xml').documentElement;
+
+            room.onMessage(msg, from);
+        };
+
+        beforeEach(() => {
+            const xmpp = {
+                moderator: new Moderator({
+                    options: {}
+                }),
+                options: {},
+                addListener: () => {} // eslint-disable-line no-empty-function
+            };
+
+            room = new ChatRoom(
+                {} /* connection */,
+                'jid',
+                'password',
+                xmpp,
+                {} /* options */);
+            emitterSpy = spyOn(room.eventEmitter, 'emit');
+            receive('<message to="jid" type="groupchat" id="msg1" xmlns="jabber:client">' +
+                    '<body>Original</body>' +
+                '</message>');
+            emitterSpy.calls.reset();
+        });
+
+        it('parses a correction from the original sender', () => {
+            receive('<message to="jid" type="groupchat" id="msg2" xmlns="jabber:client">' +
+                    '<body>Corrected</body>' +
+                    '<replace id="msg1" xmlns="urn:xmpp:message-correct:0"/>' +
+                '</message>');
+            expect(emitterSpy.calls.count()).toEqual(1);
+            expect(emitterSpy).toHaveBeenCalledWith(XMPPEvents.MESSAGE_EDITED, 'fromjid', 'msg1', 'Corrected', false);
+            expect(room.getChatMessages().get('msg1').text).toEqual('Corrected');
+            expect(room.getChatMessages().get('msg1').edited).toBeTrue();
+        });
+
+        it('ignores a correction from another sender', () => {
+            receive('<message to="jid" type="groupchat" id="msg2" xmlns="jabber:client">' +
+                    '<body>Corrected</body>' +
+                    '<replace id="msg1" xmlns="urn:xmpp:message-correct:0"/>' +
+                '</message>', 'otherjid');
+            expect(emitterSpy.calls.count()).toEqual(0);
+            expect(room.getChatMessages().get('msg1').text).toEqual('Original');
+        });
+
+        it('ignores a modification of an unknown message', () => {
+            receive('<message to="jid" type="groupchat" id="msg2" xmlns="jabber:client">' +
+                    '<body>Corrected</body>' +
+                    '<replace id="unknown" xmlns="urn:xmpp:message-correct:0"/>' +
+                '</message>');
+            receive('<message to="jid" type="groupchat" id="msg3" xmlns="jabber:client">' +
+                    '<retract id="unknown" xmlns="urn:xmpp:message-retract:1"/>' +
+                '</message>');
+            expect(emitterSpy.calls.count()).toEqual(0);
+        });
+
+        it('does not let another sender take over a message by reusing its ID', () => {
+            receive('<message to="jid" type="groupchat" id="msg1" xmlns="jabber:client">' +
+                    '<body>Hijacked</body>' +
+                '</message>', 'otherjid');
+            receive('<message to="jid" type="groupchat" id="msg2" xmlns="jabber:client">' +
+                    '<retract id="msg1" xmlns="urn:xmpp:message-retract:1"/>' +
+                '</message>', 'otherjid');
+            expect(emitterSpy).not.toHaveBeenCalledWith(XMPPEvents.MESSAGE_DELETED, 'otherjid', 'msg1', false);
+            expect(room.getChatMessages().get('msg1')).toEqual(jasmine.objectContaining({
+                deleted: false,
+                from: 'fromjid',
+                text: 'Original'
+            }));
+        });
+
+        it('parses a retraction without emitting the fallback body', () => {
+            receive('<message to="jid" type="groupchat" id="msg2" xmlns="jabber:client">' +
+                    '<retract id="msg1" xmlns="urn:xmpp:message-retract:1"/>' +
+                    '<fallback for="urn:xmpp:message-retract:1" xmlns="urn:xmpp:fallback:0"/>' +
+                    '<body>Fallback</body>' +
+                '</message>');
+            expect(emitterSpy.calls.count()).toEqual(1);
+            expect(emitterSpy).toHaveBeenCalledWith(XMPPEvents.MESSAGE_DELETED, 'fromjid', 'msg1', false);
+            expect(room.getChatMessages().get('msg1').deleted).toBeTrue();
+        });
+
+        it('groups replies into threads', () => {
+            receive('<message to="jid" type="groupchat" id="msg2" xmlns="jabber:client">' +
+                    '<body>Reply</body>' +
+                    '<reply to="msg1"/>' +
+                '</message>', 'otherjid');
+            receive('<message to="jid" type="groupchat" id="msg3" xmlns="jabber:client">' +
+                    '<body>Reply to reply</body>' +
+                    '<reply to="msg2"/>' +
+                '</message>');
+            receive('<message to="jid" type="groupchat" id="msg4" xmlns="jabber:client">' +
+                    '<body>Unrelated</body>' +
+                '</message>');
+
+            const thread = room.getChatMessages().getThread('msg3');
+
+            expect(thread.map(m => m.messageId)).toEqual([ 'msg1', 'msg2', 'msg3' ]);
+            expect(room.getChatMessages().getThread('msg4').length).toEqual(1);
+        });
+    });
+
+    describe('chat states and displayed markers', () => {
+        let room;
+        let connectionSpy: jasmine.Spy;
+        let emitterSpy: jasmine.Spy;
+
+        const receive = (msgStr: string, from = 'jid/other') => {
+            const msg = new DOMParser().parseFromString(msgStr, 'text/xml').documentElement;
+
+            room.onMessage(msg, from);
+        };
+
+        beforeEach(() => {
+            const xmpp = {
+                moderator: new Moderator({
+                    options: {}
+                }),
+                options: {},
+                addListener: () => {} // eslint-disable-line no-empty-function
+            };
+
+            jasmine.clock().install();
+            room = new ChatRoom(
+                // eslint-disable-next-line no-empty-function
+                { send: () => {} } as any as XmppConnection /* connection */,
+                'jid/me',
+                'password',
+                xmpp,
+                {} /* options */);
+            connectionSpy = spyOn(room.connection, 'send');
+            emitterSpy = spyOn(room.eventEmitter, 'emit');
+        });
+
+        afterEach(() => {
+            jasmine.clock().uninstall();
+        });
+
+        it('sends composing once and paused after inactivity', () => {
+            room.getChatStates().setComposing(true);
+            room.getChatStates().setComposing(true);
+            expect(connectionSpy.calls.count()).toEqual(1);
+            expect(connectionSpy.calls.argsFor(0).toString()).toBe(
+                '<message to="jid" type="groupchat" xmlns="jabber:client">' +
+                '<composing xmlns="http://jabber.org/protocol/chatstates"/>' +
+                '<no-store xmlns="urn:xmpp:hints"/>' +
+                '</message>');
+
+            jasmine.clock().tick(10000);
+            expect(connectionSpy.calls.count()).toEqual(2);
+            expect(connectionSpy.calls.argsFor(1).toString()).toContain('<paused');
+        });
+
+        it('coalesces displayed markers', () => {
+            room.getChatStates().markDisplayed('msg1', 'participant1');
+            room.getChatStates().markDisplayed('msg2', 'participant1');
+            expect(connectionSpy.calls.count()).toEqual(0);
+
+            jasmine.clock().tick(1000);
+            expect(connectionSpy.calls.count()).toEqual(1);
+            expect(connectionSpy.calls.argsFor(0).toString()).toBe(
+                '<message to="jid/participant1" type="chat" xmlns="jabber:client">' +
+                '<displayed id="msg2" xmlns="urn:xmpp:chat-markers:0"/>' +
+                '</message>');
+        });
+
+        it('parses a standalone chat state', () => {
+            receive('<message type="groupchat" xmlns="jabber:client">' +
+                    '<composing xmlns="http://jabber.org/protocol/chatstates"/>' +
+                '</message>');
+            expect(emitterSpy.calls.count()).toEqual(1);
+            expect(emitterSpy).toHaveBeenCalledWith(XMPPEvents.CHAT_STATE_RECEIVED, 'jid/other', 'composing', false);
+        });
+
+        it('ignores its own reflected chat state', () => {
+            receive('<message type="groupchat" xmlns="jabber:client">' +
+                    '<composing xmlns="http://jabber.org/protocol/chatstates"/>' +
+                '</message>', 'jid/me');
+            expect(emitterSpy).not.toHaveBeenCalled();
+        });
+
+        it('aggregates displayed markers per message', () => {
+            receive('<message type="groupchat" id="msg1" xmlns="jabber:client"><body>One</body></message>', 'jid/me');
+            receive('<message type="groupchat" id="msg2" xmlns="jabber:client"><body>Two</body></message>', 'jid/me');
+            receive('<message type="groupchat" xmlns="jabber:client">' +
+                    '<displayed id="msg2" xmlns="urn:xmpp:chat-markers:0"/>' +
+                '</message>');
+            expect(emitterSpy).toHaveBeenCalledWith(XMPPEvents.CHAT_MARKER_RECEIVED, 'jid/other', 'msg2', false);
+            expect(room.getChatMessages().get('msg1').displayedBy).toEqual([ 'jid/other' ]);
+            expect(room.getChatMessages().get('msg2').displayedBy).toEqual([ 'jid/other' ]);
+        });
+
+        it('tracks displayed markers of sent private messages', () => {
+            room.sendPrivateMessage('other', 'Hello', 'body', false, undefined, 'msg1');
+            receive('<message type="chat" xmlns="jabber:client">' +
+                    '<displayed id="msg1" xmlns="urn:xmpp:chat-markers:0"/>' +
+                '</message>');
+            expect(emitterSpy).toHaveBeenCalledWith(XMPPEvents.CHAT_MARKER_RECEIVED, 'jid/other', 'msg1', true);
+            expect(room.getChatMessages().get('msg1')).toEqual(jasmine.objectContaining({
+                displayedBy: [ 'jid/other' ],
+                from: 'jid/me',
+                isPrivate: true
+            }));
+        });
+    });
 });
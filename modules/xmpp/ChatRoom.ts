@@ -10,6 +10,7 @@ import { MediaType } from '../../service/RTC/MediaType';
 import { VideoType } from '../../service/RTC/VideoType';
 import { AuthenticationEvents } from '../../service/authentication/AuthenticationEvents';
 import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
+import { XEP } from '../../service/xmpp/XMPPExtensioProtocols';
 import Settings from '../settings/Settings';
 import EventEmitterForwarder from '../util/EventEmitterForwarder';
 import Listenable from '../util/Listenable';
@@ -18,8 +19,12 @@ import $ from '../util/XMLParser';
 
 import AVModeration from './AVModeration';
 import BreakoutRooms from './BreakoutRooms';
-import FileSharing from './FileSharing';
+import ChatMessages from './ChatMessages';
+import ChatStates from './ChatStates';
+import FileSharing, { IFileSharingPolicy } from './FileSharing';
 import Lobby from './Lobby';
+import MessageArchive from './MessageArchive';
+import Polls from './Polls';
 import RoomMetadata from './RoomMetadata';
 import XmppConnection, { ErrorCallback } from './XmppConnection';
 import XMPP, { FEATURE_TRANSCRIBER } from './xmpp';
@@ -64,6 +69,7 @@ export interface IChatRoomOptions {
     disableDiscoInfo?: boolean;
     disableFocus?: boolean;
     enableLobby?: boolean;
+    fileSharing?: IFileSharingPolicy;
     hiddenDomain?: string;
     hiddenFromRecorderFeatureEnabled?: boolean;
     statsId?: string;
@@ -231,7 +237,11 @@ export default class ChatRoom extends Listenable {
     private lobby?: Lobby;
     private avModeration: AVModeration;
     private breakoutRooms: BreakoutRooms;
+    private chatMessages: ChatMessages;
+    private chatStates: ChatStates;
     private fileSharing: FileSharing;
+    private messageArchive: MessageArchive;
+    private polls: Polls;
     private roomMetadata: RoomMetadata;
     private lastPresences: Record<string, IPresenceNode[]>;
     private phoneNumber: Nullable<string>;
@@ -307,7 +317,11 @@ export default class ChatRoom extends Listenable {
         }
         this.avModeration = new AVModeration(this);
         this.breakoutRooms = new BreakoutRooms(this);
-        this.fileSharing = new FileSharing(this);
+        this.chatMessages = new ChatMessages();
+        this.chatStates = new ChatStates(this);
+        this.fileSharing = new FileSharing(this, this.options.fileSharing);
+        this.messageArchive = new MessageArchive(this);
+        this.polls = new Polls(this);
         this.roomMetadata = new RoomMetadata(this);
         this.initPresenceMap(options);
         this.lastPresences = {};
@@ -1112,9 +1126,11 @@ export default class ChatRoom extends Listenable {
      * @param message
      * @param elementName
      * @param replyToId
+     * @param messageId - The ID to set on the message, needed to later edit or delete it.
      */
-    public sendMessage(message: string, elementName: string, replyToId?: string): void {
+    public sendMessage(message: string, elementName: string, replyToId?: string, messageId?: string): void {
         const msg = $msg({
+            id: messageId,
             to: this.roomjid,
             type: 'groupchat'
         });
@@ -1133,6 +1149,7 @@ export default class ChatRoom extends Listenable {
         }
 
         this.connection.send(msg);
+        elementName === 'body' && this.chatStates.onMessageSent();
         this.eventEmitter.emit(XMPPEvents.SENDING_CHAT_MESSAGE, message);
     }
 
@@ -1170,10 +1187,18 @@ export default class ChatRoom extends Listenable {
      * @param elementName
      * @param useDirectJid
      * @param replyToId
+     * @param messageId - The ID to set on the message, needed to later edit or delete it.
      */
-    public sendPrivateMessage(id: string, message: string, elementName: string, useDirectJid: boolean = false, replyToId?: string): void {
+    public sendPrivateMessage(
+            id: string,
+            message: string,
+            elementName: string,
+            useDirectJid: boolean = false,
+            replyToId?: string,
+            messageId?: string): void {
         const targetJid = useDirectJid ? id : `${this.roomjid}/${id}`;
-        const msg = $msg({ to: targetJid,
+        const msg = $msg({ id: messageId,
+            to: targetJid,
             type: 'chat' });
 
         // We are adding the message in packet. If this element is different
@@ -1191,11 +1216,68 @@ export default class ChatRoom extends Listenable {
         }
 
         this.connection.send(msg);
+
+        if (elementName === 'body' && !useDirectJid) {
+            this.chatStates.onMessageSent(id);
+
+            // Private messages are not reflected back by the MUC, so keep our own copy for receipts and threads.
+            messageId && this.chatMessages.add({
+                from: this.myroomjid,
+                isPrivate: true,
+                messageId,
+                replyToId,
+                text: message
+            });
+        }
         this.eventEmitter.emit(
             XMPPEvents.SENDING_PRIVATE_CHAT_MESSAGE, message);
     }
     /* eslint-enable max-params */
 
+    /**
+     * Sends a correction (XEP-0308) of a previously sent message.
+     * @param {string} messageId - The ID of the message being corrected.
+     * @param {string} message - The new text of the message.
+     * @param {string} receiverId - The receiver of the message if it is private.
+     */
+    public editMessage(messageId: string, message: string, receiverId?: string): void {
+        const msg = receiverId ? $msg({ id: uuidv4(),
+            to: `${this.roomjid}/${receiverId}`,
+            type: 'chat' }) : $msg({ id: uuidv4(),
+            to: this.roomjid,
+            type: 'groupchat' });
+
+        msg.c('body', message).up()
+            .c('replace', { id: messageId,
+                xmlns: XEP.MESSAGE_CORRECTION });
+
+        this.connection.send(msg);
+    }
+
+    /**
+     * Sends a retraction (XEP-0424) of a previously sent message. A fallback body is included for clients which do
+     * not support retractions.
+     * @param {string} messageId - The ID of the message being retracted.
+     * @param {string} receiverId - The receiver of the message if it is private.
+     */
+    public retractMessage(messageId: string, receiverId?: string): void {
+        const msg = receiverId ? $msg({ id: uuidv4(),
+            to: `${this.roomjid}/${receiverId}`,
+            type: 'chat' }) : $msg({ id: uuidv4(),
+            to: this.roomjid,
+            type: 'groupchat' });
+
+        msg.c('retract', { id: messageId,
+            xmlns: XEP.MESSAGE_RETRACTION }).up()
+            .c('fallback', { for: XEP.MESSAGE_RETRACTION,
+                xmlns: XEP.FALLBACK_INDICATION }).up()
+            .c('body', 'This person attempted to retract a previous message, but it\'s unsupported by your client.')
+            .up()
+            .c('store', { xmlns: 'urn:xmpp:hints' });
+
+        this.connection.send(msg);
+    }
+
     /**
      *
      * @param subject
@@ -1372,6 +1454,11 @@ export default class ChatRoom extends Listenable {
             return true;
         }
 
+        // xep-0313 archived messages are handled separately, they should not be delivered as new messages.
+        if (from === this.roomjid && this.messageArchive.onMessage(msg)) {
+            return true;
+        }
+
         const reactions = $(msg).find('>[xmlns="urn:xmpp:reactions:0"]>reaction');
 
         if (reactions.length > 0) {
@@ -1395,8 +1482,36 @@ export default class ChatRoom extends Listenable {
             return true;
         }
 
+        if (this.chatStates.onMessage(msg, from)) {
+            return true;
+        }
+
+        const retract = $(msg).find(`>retract[xmlns="${XEP.MESSAGE_RETRACTION}"]`);
+
+        if (retract.length > 0) {
+            const messageId = retract.attr('id');
+
+            if (messageId && this.chatMessages.canModify(messageId, from)) {
+                this.chatMessages.delete(messageId);
+                this.eventEmitter.emit(XMPPEvents.MESSAGE_DELETED, from, messageId, type === 'chat');
+            }
+
+            return true;
+        }
 
         const txt = $(msg).find('>body').text();
+        const replace = $(msg).find(`>replace[xmlns="${XEP.MESSAGE_CORRECTION}"]`);
+
+        if (replace.length > 0 && txt) {
+            const messageId = replace.attr('id');
+
+            if (messageId && this.chatMessages.canModify(messageId, from)) {
+                this.chatMessages.edit(messageId, txt);
+                this.eventEmitter.emit(XMPPEvents.MESSAGE_EDITED, from, messageId, txt, type === 'chat');
+            }
+
+            return true;
+        }
         const subject = $(msg).find('>subject');
 
         if (subject.length) {
@@ -1487,12 +1602,29 @@ export default class ChatRoom extends Listenable {
                     }
                 }
 
+                this.chatMessages.add({
+                    from,
+                    isPrivate: true,
+                    messageId,
+                    replyToId,
+                    text: txt,
+                    timestamp: stamp
+                });
                 this.eventEmitter.emit(XMPPEvents.PRIVATE_MESSAGE_RECEIVED,
                         from, txt, this.myroomjid, stamp, messageId, displayName, isVisitorMessage, originalFrom, replyToId);
             } else if (type === 'groupchat') {
                 const displayName = displayNameEl.length > 0 ? displayNameEl.text() : undefined;
                 const source = isVisitorMessage ? undefined : displayNameEl.attr('source');
 
+                this.chatMessages.add({
+                    from,
+                    isPrivate: false,
+                    messageId,
+                    replyToId,
+                    text: txt,
+                    timestamp: stamp
+                });
+
                 // we will fire explicitly that this is a visitor(isVisitor:true) to the conference
                 // a message with explicit name set
                 this.eventEmitter.emit(XMPPEvents.MESSAGE_RECEIVED,
@@ -1949,6 +2081,16 @@ export default class ChatRoom extends Listenable {
         return this.role === 'moderator';
     }
 
+    /**
+     * Checks whether the focus advertised a feature in its presence.
+     *
+     * @param {string} feature - The feature.
+     * @returns {boolean}
+     */
+    public isFocusFeatureSupported(feature: string): boolean {
+        return Boolean(this.focusFeatures?.has(feature));
+    }
+
     /**
      * Obtains the info about given media advertised (in legacy format) in the MUC presence of the participant
      * identified by the given endpoint JID. This is for mantining interop with endpoints that do not support
@@ -2011,6 +2153,16 @@ export default class ChatRoom extends Listenable {
         return null;
     }
 
+    /**
+     * Returns the features advertised by the transcriber, if a transcriber is in the room.
+     *
+     * @returns {Optional<Set<string>>}
+     */
+    public getTranscriberFeatures(): Optional<Set<string>> {
+        return Object.values(this.members)
+            .find(member => member.isHiddenDomain && member.features?.has(FEATURE_TRANSCRIBER))?.features;
+    }
+
     /**
      * Returns the last presence advertised by a MUC member.
      * @param {string} mucNick
@@ -2060,6 +2212,20 @@ export default class ChatRoom extends Listenable {
         return this.breakoutRooms;
     }
 
+    /**
+     * @returns {ChatMessages}
+     */
+    public getChatMessages(): ChatMessages {
+        return this.chatMessages;
+    }
+
+    /**
+     * @returns {ChatStates}
+     */
+    public getChatStates(): ChatStates {
+        return this.chatStates;
+    }
+
     /**
      * @returns {FileSharing}
      */
@@ -2067,6 +2233,20 @@ export default class ChatRoom extends Listenable {
         return this.fileSharing;
     }
 
+    /**
+     * @returns {MessageArchive}
+     */
+    public getMessageArchive(): MessageArchive {
+        return this.messageArchive;
+    }
+
+    /**
+     * @returns {Polls}
+     */
+    public getPolls(): Polls {
+        return this.polls;
+    }
+
     /**
      * @returns {RoomMetadata}
      */
@@ -2211,7 +2391,10 @@ export default class ChatRoom extends Listenable {
     public leave(reason?: string): Promise<any> {
         this.avModeration.dispose();
         this.breakoutRooms.dispose();
+        this.chatMessages.clear();
+        this.chatStates.dispose();
         this.fileSharing.dispose();
+        this.polls.dispose();
         this.roomMetadata.dispose();
 
         const promises = [];
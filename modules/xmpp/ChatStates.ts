@@ -0,0 +1,221 @@
+import { getLogger } from '@jitsi/logger';
+import { $msg } from 'strophe.js';
+
+import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
+import { XEP } from '../../service/xmpp/XMPPExtensioProtocols';
+import $ from '../util/XMLParser';
+
+import type ChatRoom from './ChatRoom';
+
+const logger = getLogger('xmpp:ChatStates');
+
+/**
+ * The XEP-0085 chat states.
+ */
+export enum ChatState {
+    ACTIVE = 'active',
+    COMPOSING = 'composing',
+    GONE = 'gone',
+    INACTIVE = 'inactive',
+    PAUSED = 'paused'
+}
+
+/**
+ * How long after the last typing activity we automatically report that the local participant paused typing.
+ */
+const PAUSED_TIMEOUT = 10000;
+
+/**
+ * How long displayed markers are held back, so that reading a burst of messages only sends one marker.
+ */
+const DISPLAYED_MARKER_DELAY = 1000;
+
+/**
+ * The key used for the group chat in the per-receiver maps.
+ */
+const GROUP_CHAT_KEY = '';
+
+/**
+ * Sends and receives typing indicators (XEP-0085) and displayed markers (XEP-0333) for group and private chat.
+ * Outgoing notifications are throttled: chat states are only sent when they change and displayed markers are
+ * coalesced, since a marker for a message implies all the previous ones were displayed as well.
+ */
+export default class ChatStates {
+    private _localStates: Map<string, ChatState>;
+    private _pausedTimers: Map<string, Timeout>;
+    private _pendingMarkers: Map<string, string>;
+    private _markerTimers: Map<string, Timeout>;
+    private _room: ChatRoom;
+
+    /**
+     * Creates a new chat states handler.
+     *
+     * @param {ChatRoom} room - The room the chat states are exchanged in.
+     */
+    constructor(room: ChatRoom) {
+        this._room = room;
+        this._localStates = new Map();
+        this._pausedTimers = new Map();
+        this._pendingMarkers = new Map();
+        this._markerTimers = new Map();
+    }
+
+    /**
+     * Creates a message addressed to the group chat or to a participant.
+     *
+     * @param {string} receiverId - The receiver if private, the group chat otherwise.
+     * @returns {Strophe.Builder}
+     */
+    private _createMessage(receiverId: string) {
+        return receiverId
+            ? $msg({ to: `${this._room.roomjid}/${receiverId}`,
+                type: 'chat' })
+            : $msg({ to: this._room.roomjid,
+                type: 'groupchat' });
+    }
+
+    /**
+     * Sends a chat state if it differs from the last one sent to the same receiver.
+     *
+     * @param {ChatState} state - The chat state.
+     * @param {string} receiverId - The receiver if private, the group chat otherwise.
+     * @returns {void}
+     */
+    private _sendState(state: ChatState, receiverId: string): void {
+        if (this._localStates.get(receiverId) === state) {
+            return;
+        }
+
+        this._localStates.set(receiverId, state);
+
+        const msg = this._createMessage(receiverId);
+
+        msg.c(state, { xmlns: XEP.CHAT_STATES }).up()
+            .c('no-store', { xmlns: 'urn:xmpp:hints' });
+
+        this._room.connection.send(msg);
+    }
+
+    /**
+     * Sends the pending displayed marker for a receiver.
+     *
+     * @param {string} receiverId - The receiver if private, the group chat otherwise.
+     * @returns {void}
+     */
+    private _flushMarker(receiverId: string): void {
+        const messageId = this._pendingMarkers.get(receiverId);
+
+        this._pendingMarkers.delete(receiverId);
+        this._markerTimers.delete(receiverId);
+
+        if (!messageId) {
+            return;
+        }
+
+        const msg = this._createMessage(receiverId);
+
+        msg.c('displayed', { id: messageId,
+            xmlns: XEP.CHAT_MARKERS });
+
+        this._room.connection.send(msg);
+    }
+
+    /**
+     * Cancels any pending notification.
+     */
+    dispose(): void {
+        this._pausedTimers.forEach(timer => clearTimeout(timer));
+        this._pausedTimers.clear();
+        this._markerTimers.forEach(timer => clearTimeout(timer));
+        this._markerTimers.clear();
+        this._pendingMarkers.clear();
+        this._localStates.clear();
+    }
+
+    /**
+     * Reports typing activity of the local participant. Should be called on every change of the message being
+     * composed; a paused state is sent automatically when the activity stops.
+     *
+     * @param {boolean} isComposing - Whether the local participant is typing.
+     * @param {string} [receiverId] - The receiver if the message is private.
+     * @returns {void}
+     */
+    setComposing(isComposing: boolean, receiverId: string = GROUP_CHAT_KEY): void {
+        clearTimeout(this._pausedTimers.get(receiverId));
+        this._pausedTimers.delete(receiverId);
+
+        if (isComposing) {
+            this._sendState(ChatState.COMPOSING, receiverId);
+            this._pausedTimers.set(receiverId, setTimeout(() => {
+                this._pausedTimers.delete(receiverId);
+                this._sendState(ChatState.PAUSED, receiverId);
+            }, PAUSED_TIMEOUT));
+        } else if (this._localStates.get(receiverId) === ChatState.COMPOSING) {
+            this._sendState(ChatState.PAUSED, receiverId);
+        }
+    }
+
+    /**
+     * Resets the local chat state after a message was sent, since sending a message ends the composing state.
+     *
+     * @param {string} [receiverId] - The receiver if the message was private.
+     * @returns {void}
+     */
+    onMessageSent(receiverId: string = GROUP_CHAT_KEY): void {
+        clearTimeout(this._pausedTimers.get(receiverId));
+        this._pausedTimers.delete(receiverId);
+        this._localStates.set(receiverId, ChatState.ACTIVE);
+    }
+
+    /**
+     * Marks a message as displayed by the local participant.
+     *
+     * @param {string} messageId - The ID of the displayed message.
+     * @param {string} [receiverId] - The sender of the message if it was private.
+     * @returns {void}
+     */
+    markDisplayed(messageId: string, receiverId: string = GROUP_CHAT_KEY): void {
+        this._pendingMarkers.set(receiverId, messageId);
+
+        if (!this._markerTimers.has(receiverId)) {
+            this._markerTimers.set(receiverId, setTimeout(() => this._flushMarker(receiverId), DISPLAYED_MARKER_DELAY));
+        }
+    }
+
+    /**
+     * Processes chat states and displayed markers in a received message.
+     *
+     * @param {Element} msg - The message stanza.
+     * @param {string} from - The MUC jid of the sender.
+     * @returns {boolean} Whether the message only carried chat states or markers and needs no further processing.
+     */
+    onMessage(msg: Element, from: string): boolean {
+        const isPrivate = msg.getAttribute('type') === 'chat';
+        const stateEl = $(msg).find(`>[xmlns="${XEP.CHAT_STATES}"]`);
+        const displayed = $(msg).find(`>displayed[xmlns="${XEP.CHAT_MARKERS}"]`);
+
+        if (!stateEl.length && !displayed.length) {
+            return false;
+        }
+
+        // Our own notifications are reflected back by the MUC.
+        if (from !== this._room.myroomjid) {
+            if (stateEl.length) {
+                const state = stateEl[0].tagName as ChatState;
+
+                if (Object.values(ChatState).includes(state)) {
+                    this._room.eventEmitter.emit(XMPPEvents.CHAT_STATE_RECEIVED, from, state, isPrivate);
+                } else {
+                    logger.debug(`Ignoring unknown chat state ${state} from ${from}`);
+                }
+            }
+
+            if (displayed.length && displayed.attr('id')) {
+                this._room.getChatMessages().markDisplayed(displayed.attr('id'), from);
+                this._room.eventEmitter.emit(XMPPEvents.CHAT_MARKER_RECEIVED, from, displayed.attr('id'), isPrivate);
+            }
+        }
+
+        return !$(msg).find('>body').length;
+    }
+}
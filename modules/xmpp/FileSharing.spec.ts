@@ -0,0 +1,118 @@
+import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
+
+import ChatRoom from './ChatRoom';
+import FileSharing, { FileSharingRejectionReason, IFileSharingPolicy } from './FileSharing';
+import Moderator from './moderator';
+import XMPP from './xmpp';
+import XmppConnection from './XmppConnection';
+
+describe('FileSharing', () => {
+    let room: ChatRoom;
+    let fileSharing: FileSharing;
+    let sendMessageSpy: jasmine.Spy;
+    let emitterSpy: jasmine.Spy;
+
+    const file = (fileId: string, fileType = 'pdf', fileSize = 100) => {
+        return {
+            fileId,
+            fileName: `${fileId}.${fileType}`,
+            fileSize,
+            fileType,
+            timestamp: 0
+        };
+    };
+
+    const createRoom = (policy: IFileSharingPolicy) => {
+        const xmpp = {
+            moderator: new Moderator({
+                options: {}
+            } as any),
+            options: {},
+            addListener: () => {} // eslint-disable-line no-empty-function
+        };
+
+        room = new ChatRoom(
+            // eslint-disable-next-line no-empty-function
+            { send: () => {} } as any as XmppConnection /* connection */,
+            'room@muc/me',
+            'password',
+            xmpp as any as XMPP,
+            { fileSharing: policy } /* options */);
+        fileSharing = room.getFileSharing();
+        sendMessageSpy = spyOn(fileSharing, '_sendMessage');
+        emitterSpy = spyOn(room.eventEmitter, 'emit');
+    };
+
+    it('sends files which pass the policy', () => {
+        createRoom({
+            allowedFileTypes: [ '.PDF', 'image/*' ],
+            maxFileSize: 1000
+        });
+
+        fileSharing.addFile(file('f1'));
+        fileSharing.addFile(file('f2', 'image/png'));
+
+        expect(sendMessageSpy).toHaveBeenCalledTimes(2);
+        expect(emitterSpy).not.toHaveBeenCalled();
+    });
+
+    it('rejects files too large or of a type not allowed', () => {
+        createRoom({
+            allowedFileTypes: [ 'pdf' ],
+            maxFileSize: 1000
+        });
+
+        fileSharing.addFile(file('f1', 'pdf', 2000));
+        fileSharing.addFile(file('f2', 'exe'));
+
+        expect(sendMessageSpy).not.toHaveBeenCalled();
+        expect(emitterSpy).toHaveBeenCalledWith(
+            XMPPEvents.FILE_SHARING_REJECTED, FileSharingRejectionReason.FILE_TOO_LARGE, 'f1');
+        expect(emitterSpy).toHaveBeenCalledWith(
+            XMPPEvents.FILE_SHARING_REJECTED, FileSharingRejectionReason.FILE_TYPE_NOT_ALLOWED, 'f2');
+    });
+
+    it('limits the number of files per participant', () => {
+        createRoom({ maxFilesPerParticipant: 1 });
+
+        fileSharing._handleMessages({
+            event: 'add',
+            file: {
+                ...file('f1'),
+                authorParticipantId: 'me'
+            }
+        });
+        fileSharing.addFile(file('f2'));
+
+        expect(sendMessageSpy).not.toHaveBeenCalled();
+        expect(emitterSpy).toHaveBeenCalledWith(
+            XMPPEvents.FILE_SHARING_REJECTED, FileSharingRejectionReason.TOO_MANY_FILES, 'f2');
+
+        fileSharing._handleMessages({
+            event: 'remove',
+            fileId: 'f1'
+        });
+        fileSharing.addFile(file('f2'));
+
+        expect(sendMessageSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('only lets moderators upload and remove files when configured', () => {
+        createRoom({
+            moderatorOnlyRemoval: true,
+            moderatorOnlyUpload: true
+        });
+
+        fileSharing.addFile(file('f1'));
+        fileSharing.removeFile('f1');
+
+        expect(sendMessageSpy).not.toHaveBeenCalled();
+        expect(emitterSpy).toHaveBeenCalledTimes(2);
+
+        room.role = 'moderator';
+        fileSharing.addFile(file('f1'));
+        fileSharing.removeFile('f1');
+
+        expect(sendMessageSpy).toHaveBeenCalledTimes(2);
+    });
+});
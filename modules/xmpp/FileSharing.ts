@@ -1,10 +1,57 @@
+import { getLogger } from '@jitsi/logger';
+import { Strophe } from 'strophe.js';
+
 import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
 
 import ChatRoom from './ChatRoom';
 import XMPP from './xmpp';
 
+const logger = getLogger('xmpp:FileSharing');
+
 export const IDENTITY_TYPE = 'file-sharing';
 
+/**
+ * The reasons for which a file sharing operation is refused before reaching the component.
+ */
+export enum FileSharingRejectionReason {
+    FILE_TOO_LARGE = 'file-too-large',
+    FILE_TYPE_NOT_ALLOWED = 'file-type-not-allowed',
+    NOT_ALLOWED = 'not-allowed',
+    TOO_MANY_FILES = 'too-many-files'
+}
+
+/**
+ * The client side policy applied to file sharing, configured per conference.
+ */
+export interface IFileSharingPolicy {
+
+    /**
+     * The file types that can be shared, either file extensions or MIME types. MIME types can use a wildcard subtype,
+     * for example `image/*`. All types are allowed when not set.
+     */
+    allowedFileTypes?: string[];
+
+    /**
+     * The maximum size of a shared file in bytes.
+     */
+    maxFileSize?: number;
+
+    /**
+     * The maximum number of files a participant can share at the same time.
+     */
+    maxFilesPerParticipant?: number;
+
+    /**
+     * Whether only moderators can remove files.
+     */
+    moderatorOnlyRemoval?: boolean;
+
+    /**
+     * Whether only moderators can add files.
+     */
+    moderatorOnlyUpload?: boolean;
+}
+
 /**
  * The file metadata used in file sharing.
  * Fields like `authorParticipantId`, `authorParticipantJid`, and `authorParticipantName` and `conferenceFullName` will
@@ -61,27 +108,100 @@ export type IFileMetadata = {
  * The FileSharing logic.
  */
 export default class FileSharing {
+    private _files: Map<string, IFileMetadata>;
     private _mainRoom: ChatRoom;
+    private _policy: IFileSharingPolicy;
     private _xmpp: XMPP;
 
     /**
      * Constructs File sharing manager for a room.
      *
      * @param {ChatRoom} room the main room.
+     * @param {IFileSharingPolicy} policy the limits and permissions applied to the files shared by the local
+     * participant.
      */
-    constructor(room: ChatRoom) {
+    constructor(room: ChatRoom, policy: IFileSharingPolicy = {}) {
         this._mainRoom = room;
         this._xmpp = room.xmpp;
+        this._files = new Map();
+        this._policy = policy;
 
         this._handleMessages = this._handleMessages.bind(this);
         this._mainRoom.xmpp.addListener(XMPPEvents.FILE_SHARING_EVENT, this._handleMessages);
     }
 
+    /**
+     * Checks whether a file type is in the list of allowed types. Extensions are compared without the leading dot
+     * and case insensitively.
+     *
+     * @param {string} fileType - The file extension or MIME type.
+     * @returns {boolean}
+     */
+    private _isFileTypeAllowed(fileType: string): boolean {
+        const { allowedFileTypes } = this._policy;
+
+        if (!Array.isArray(allowedFileTypes)) {
+            return true;
+        }
+
+        const normalize = (type: string) => String(type ?? '').trim()
+            .toLowerCase()
+            .replace(/^\./, '');
+        const type = normalize(fileType);
+
+        return allowedFileTypes.map(normalize).some(allowed =>
+            allowed === type || (allowed.endsWith('/*') && type.startsWith(allowed.slice(0, -1))));
+    }
+
+    /**
+     * Validates a file the local participant wants to add against the policy.
+     *
+     * @param {IFileMetadata} metadata - The metadata of the file.
+     * @returns {Optional<FileSharingRejectionReason>} The reason the file is refused, if any.
+     */
+    private _validateAdd(metadata: IFileMetadata): Optional<FileSharingRejectionReason> {
+        const { maxFileSize, maxFilesPerParticipant, moderatorOnlyUpload } = this._policy;
+
+        if (moderatorOnlyUpload && !this._mainRoom.isModerator()) {
+            return FileSharingRejectionReason.NOT_ALLOWED;
+        }
+
+        if (typeof maxFileSize === 'number' && metadata.fileSize > maxFileSize) {
+            return FileSharingRejectionReason.FILE_TOO_LARGE;
+        }
+
+        if (!this._isFileTypeAllowed(metadata.fileType)) {
+            return FileSharingRejectionReason.FILE_TYPE_NOT_ALLOWED;
+        }
+
+        if (typeof maxFilesPerParticipant === 'number') {
+            const localId = Strophe.getResourceFromJid(this._mainRoom.myroomjid);
+            const ownFiles = Array.from(this._files.values()).filter(f => f.authorParticipantId === localId);
+
+            if (ownFiles.length >= maxFilesPerParticipant) {
+                return FileSharingRejectionReason.TOO_MANY_FILES;
+            }
+        }
+    }
+
+    /**
+     * Notifies that an operation was refused by the policy.
+     *
+     * @param {FileSharingRejectionReason} reason - Why the operation was refused.
+     * @param {string} fileId - The ID of the file.
+     * @returns {void}
+     */
+    private _reject(reason: FileSharingRejectionReason, fileId: string): void {
+        logger.warn(`File sharing of ${fileId} rejected: ${reason}`);
+        this._mainRoom.eventEmitter.emit(XMPPEvents.FILE_SHARING_REJECTED, reason, fileId);
+    }
+
     /**
      * Stops listening for events.
      */
     dispose() {
         this._mainRoom.xmpp.removeListener(XMPPEvents.FILE_SHARING_EVENT, this._handleMessages);
+        this._files.clear();
     }
 
     /**
@@ -103,10 +223,28 @@ export default class FileSharing {
     }
 
     /**
-     * Adds a file to the file sharing component after the file has been uploaded.
+     * Returns the policy applied to the files shared by the local participant.
+     *
+     * @returns {IFileSharingPolicy} the file sharing policy.
+     */
+    getPolicy(): IFileSharingPolicy {
+        return this._policy;
+    }
+
+    /**
+     * Adds a file to the file sharing component after the file has been uploaded. Files which do not pass the
+     * configured policy are not sent and {@link XMPPEvents.FILE_SHARING_REJECTED} is emitted instead.
      * @param metadata - The metadata of the file to be added.
      */
     addFile(metadata: IFileMetadata) {
+        const reason = this._validateAdd(metadata);
+
+        if (reason) {
+            this._reject(reason, metadata.fileId);
+
+            return;
+        }
+
         const message = {
             type: 'add',
             xmlns: 'http://jitsi.org/jitmeet'
@@ -120,6 +258,12 @@ export default class FileSharing {
      * @param fileId - The file ID of the file to be removed.
      */
     removeFile(fileId: string) {
+        if (this._policy.moderatorOnlyRemoval && !this._mainRoom.isModerator()) {
+            this._reject(FileSharingRejectionReason.NOT_ALLOWED, fileId);
+
+            return;
+        }
+
         const message = {
             fileId,
             type: 'remove',
@@ -151,15 +295,17 @@ export default class FileSharing {
     _handleMessages(payload) {
         switch (payload.event) {
         case 'add':
-
+            payload.file?.fileId && this._files.set(payload.file.fileId, payload.file);
             this._mainRoom.eventEmitter.emit(XMPPEvents.FILE_SHARING_FILE_ADDED, payload.file);
 
             break;
         case 'remove': {
+            this._files.delete(payload.fileId);
             this._mainRoom.eventEmitter.emit(XMPPEvents.FILE_SHARING_FILE_REMOVED, payload.fileId);
             break;
         }
         case 'list': {
+            this._files = new Map(Object.values(payload.files ?? {}).map((f: IFileMetadata) => [ f.fileId, f ]));
             this._mainRoom.eventEmitter.emit(XMPPEvents.FILE_SHARING_FILES_RECEIVED, payload.files);
             break;
         }
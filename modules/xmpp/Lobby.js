@@ -12,6 +12,31 @@ const logger = getLogger('xmpp:Lobby');
  */
 const EMAIL_COMMAND = 'email';
 
+/**
+ * A participant knocking in the lobby, as tracked by moderators.
+ *
+ * @typedef {Object} LobbyQueueEntry
+ * @property {string} [avatar] - The avatar from the token identity.
+ * @property {string} [email] - The e-mail address given when joining the lobby.
+ * @property {string} id - The ID of the participant in the lobby room.
+ * @property {Object} [identity] - The token identity, if the participant authenticated.
+ * @property {number} joinedAt - When the participant joined the lobby, in milliseconds since the epoch.
+ * @property {string} [name] - The display name.
+ * @property {string} note - A note moderators can attach to the participant.
+ */
+
+/**
+ * Participants matching the policy are approved as soon as they knock.
+ *
+ * @typedef {Object} LobbyAutoAdmitPolicy
+ * @property {boolean} [authenticated] - Admit participants who joined with a token identity.
+ * @property {string[]} [emailDomains] - Admit participants whose token identity has an e-mail address belonging to
+ * one of the domains. The e-mail address participants give themselves is not checked, anyone can type any.
+ * @property {Function} [filter] - Admit participants for whom it returns true, called with the
+ * {@link LobbyQueueEntry}.
+ * @property {string[]} [identityGroups] - Admit participants whose token identity belongs to one of the groups.
+ */
+
 /**
  * The Lobby room implementation. Setting a room to members only, joining the lobby room
  * approving or denying access to participants from the lobby room.
@@ -27,6 +52,10 @@ export default class Lobby {
         this.xmpp = room.xmpp;
         this.mainRoom = room;
 
+        // The participants knocking in the lobby, in the order they joined. Only tracked by moderators.
+        this._queue = new Map();
+        this._autoAdmitPolicy = undefined;
+
         const maybeJoinLobbyRoom = this._maybeJoinLobbyRoom.bind(this);
 
         this.mainRoom.addEventListener(
@@ -194,6 +223,7 @@ export default class Lobby {
             return this.lobbyRoom.leave()
                 .then(() => {
                     this.lobbyRoom = undefined;
+                    this._queue.clear();
                     logger.info('Lobby room left!');
                 })
                 .catch(() => {}); // eslint-disable-line no-empty-function
@@ -203,6 +233,96 @@ export default class Lobby {
                 new Error('The lobby has already been left'));
     }
 
+    /**
+     * Returns the participants knocking in the lobby, in the order they joined, with how long they have been
+     * waiting. Only available to moderators.
+     *
+     * @returns {Array<LobbyQueueEntry & { waitingTime: number }>} The waiting participants, the waiting time is in
+     * milliseconds.
+     */
+    getQueue() {
+        const now = Date.now();
+
+        return Array.from(this._queue.values())
+            .sort((a, b) => a.joinedAt - b.joinedAt)
+            .map(entry => {
+                return {
+                    ...entry,
+                    waitingTime: now - entry.joinedAt
+                };
+            });
+    }
+
+    /**
+     * Attaches a note to a participant knocking in the lobby. Notes are kept locally.
+     *
+     * @param {string} id - The ID of the participant in the lobby room.
+     * @param {string} note - The note.
+     * @returns {void}
+     */
+    setNote(id, note) {
+        const entry = this._queue.get(id);
+
+        if (!entry) {
+            logger.error(`Not found member for ${id} in lobby queue.`);
+
+            return;
+        }
+
+        entry.note = note;
+        this.mainRoom.eventEmitter.emit(XMPPEvents.MUC_LOBBY_MEMBER_UPDATED, id, { note });
+    }
+
+    /**
+     * Sets the policy used to approve participants automatically. The participants already waiting are checked
+     * against the new policy.
+     *
+     * @param {LobbyAutoAdmitPolicy|undefined} policy - The policy, undefined to disable automatic approval.
+     * @returns {void}
+     */
+    setAutoAdmitPolicy(policy) {
+        this._autoAdmitPolicy = policy;
+        this._queue.forEach(entry => this._maybeAutoAdmit(entry));
+    }
+
+    /**
+     * Checks whether a participant matches the auto-admit policy.
+     *
+     * @param {LobbyQueueEntry} entry - The waiting participant.
+     * @returns {boolean}
+     * @private
+     */
+    _matchesAutoAdmitPolicy(entry) {
+        const policy = this._autoAdmitPolicy;
+
+        if (!policy) {
+            return false;
+        }
+
+        const email = entry.identity?.user?.email;
+        const domain = email?.includes('@') ? email.split('@').pop()
+            .toLowerCase() : undefined;
+
+        return Boolean((policy.authenticated && entry.identity)
+            || (domain && policy.emailDomains?.some(d => d.toLowerCase() === domain))
+            || (entry.identity?.group && policy.identityGroups?.includes(entry.identity.group))
+            || policy.filter?.(entry));
+    }
+
+    /**
+     * Approves a waiting participant if it matches the auto-admit policy.
+     *
+     * @param {LobbyQueueEntry} entry - The waiting participant.
+     * @returns {void}
+     * @private
+     */
+    _maybeAutoAdmit(entry) {
+        if (this._matchesAutoAdmitPolicy(entry)) {
+            logger.info(`Auto-admitting ${entry.id} from the lobby`);
+            this.approveAccess(entry.id);
+        }
+    }
+
     /**
      * We had received a jid for the lobby room.
      *
@@ -267,7 +387,14 @@ export default class Lobby {
 
         if (isModerator) {
             this.lobbyRoom.addPresenceListener(EMAIL_COMMAND, (node, from) => {
+                const entry = this._queue.get(from);
+
                 this.mainRoom.eventEmitter.emit(XMPPEvents.MUC_LOBBY_MEMBER_UPDATED, from, { email: node.value });
+
+                if (entry && entry.email !== node.value) {
+                    entry.email = node.value;
+                    this._maybeAutoAdmit(entry);
+                }
             });
             this.lobbyRoom.addEventListener(
                 XMPPEvents.MUC_MEMBER_JOINED,
@@ -285,17 +412,33 @@ export default class Lobby {
                         }
                     }
 
+                    const entry = {
+                        avatar: identity ? identity.avatar : undefined,
+                        id: Strophe.getResourceFromJid(from),
+                        identity,
+                        joinedAt: Date.now(),
+                        name: nick,
+                        note: ''
+                    };
+
+                    this._queue.set(entry.id, entry);
+
                     // we emit the new event on the main room so we can propagate
                     // events to the conference
                     this.mainRoom.eventEmitter.emit(
                         XMPPEvents.MUC_LOBBY_MEMBER_JOINED,
-                        Strophe.getResourceFromJid(from),
+                        entry.id,
                         nick,
-                        identity ? identity.avatar : undefined
+                        entry.avatar,
+                        entry.joinedAt
                     );
+
+                    this._maybeAutoAdmit(entry);
                 });
             this.lobbyRoom.addEventListener(
                 XMPPEvents.MUC_MEMBER_LEFT, from => {
+                    this._queue.delete(Strophe.getResourceFromJid(from));
+
                     // we emit the new event on the main room so we can propagate
                     // events to the conference
                     this.mainRoom.eventEmitter.emit(
@@ -310,6 +453,7 @@ export default class Lobby {
                     Object.keys(this.lobbyRoom.members)
                         .forEach(j => this.mainRoom.eventEmitter.emit(
                             XMPPEvents.MUC_LOBBY_MEMBER_LEFT, Strophe.getResourceFromJid(j)));
+                    this._queue.clear();
 
                     this.lobbyRoom.clean();
 
@@ -391,21 +535,25 @@ export default class Lobby {
 
     /**
      * Should be possible only for moderators.
-     * @param id
+     * @param param an id or an array of ids.
      */
-    denyAccess(id) {
+    denyAccess(param) {
         if (!this.isSupported() || !this.mainRoom.isModerator()) {
             return;
         }
 
-        const jid = Object.keys(this.lobbyRoom.members)
-            .find(j => Strophe.getResourceFromJid(j) === id);
+        const ids = Array.isArray(param) ? param : [ param ];
 
-        if (jid) {
-            this.lobbyRoom.kick(jid);
-        } else {
-            logger.error(`Not found member for ${id} in lobby room.`);
-        }
+        ids.forEach(id => {
+            const jid = Object.keys(this.lobbyRoom.members)
+                .find(j => Strophe.getResourceFromJid(j) === id);
+
+            if (jid) {
+                this.lobbyRoom.kick(jid);
+            } else {
+                logger.error(`Not found member for ${id} in lobby room.`);
+            }
+        });
     }
 
     /**
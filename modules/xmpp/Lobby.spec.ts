@@ -0,0 +1,181 @@
+import { EventEmitter } from 'events';
+
+import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
+
+import Lobby from './Lobby';
+
+/**
+ * The lobby room, with the participants knocking as members.
+ */
+class MockLobbyRoom extends EventEmitter {
+    kick = jasmine.createSpy('kick');
+    members: Record<string, { jid: string; }> = {};
+    presenceListeners: Record<string, (node: object, from: string) => void> = {};
+
+    /**
+     * Adds an event listener.
+     */
+    addEventListener(event: string, listener: (...args: any[]) => void) {
+        this.on(event, listener);
+    }
+
+    /**
+     * Adds a presence listener.
+     */
+    addPresenceListener(name: string, listener: (node: object, from: string) => void) {
+        this.presenceListeners[name] = listener;
+    }
+
+    /**
+     * Joins the room right away.
+     */
+    join() {
+        this.emit(XMPPEvents.MUC_JOINED);
+    }
+}
+
+/**
+ * The main room, in which the local participant is a moderator.
+ */
+class MockRoom extends EventEmitter {
+    eventEmitter = this;
+    joined = true;
+    members = {};
+    roomjid = 'main@muc';
+    xmpp: any;
+
+    /**
+     * @param {MockLobbyRoom} lobbyRoom - The lobby room created when joining the lobby.
+     */
+    constructor(lobbyRoom: MockLobbyRoom) {
+        super();
+        this.xmpp = {
+            connection: { sendIQ: jasmine.createSpy('sendIQ') },
+            createRoom: () => lobbyRoom,
+            lobbySupported: true
+        };
+    }
+
+    /**
+     * Adds an event listener.
+     */
+    addEventListener(event: string, listener: (...args: any[]) => void) {
+        this.on(event, listener);
+    }
+
+    /**
+     * There are no breakout rooms.
+     */
+    getBreakoutRooms() {
+        return { _rooms: {},
+            isBreakoutRoom: () => false };
+    }
+
+    /**
+     * The local participant is a moderator.
+     */
+    isModerator() {
+        return true;
+    }
+}
+
+describe('Lobby', () => {
+    let lobby: Lobby;
+    let lobbyRoom: MockLobbyRoom;
+    let room: MockRoom;
+
+    /**
+     * Makes a participant knock in the lobby.
+     */
+    function knock(id: string, identity?: object) {
+        const from = `lobby@muc/${id}`;
+        const jid = `${id}@example.com/res`;
+
+        lobbyRoom.members[from] = { jid };
+        lobbyRoom.emit(XMPPEvents.MUC_MEMBER_JOINED, from, id.toUpperCase(), 'participant', false, undefined,
+            undefined, identity, undefined, jid);
+    }
+
+    /**
+     * Returns the JIDs invited to the main room.
+     */
+    function invited(): string[] {
+        return room.xmpp.connection.sendIQ.calls.allArgs()
+            .flatMap(([ msg ]) => Array.from(msg.tree().getElementsByTagName('invite')))
+            .map((invite: Element) => invite.getAttribute('to'));
+    }
+
+    beforeEach(async () => {
+        jasmine.clock().install();
+        jasmine.clock().mockDate(new Date(2024, 0, 1));
+
+        lobbyRoom = new MockLobbyRoom();
+        room = new MockRoom(lobbyRoom);
+        lobby = new Lobby(room);
+        lobby.setLobbyRoomJid('lobby@muc');
+        await lobby.join(undefined, undefined);
+    });
+
+    afterEach(() => {
+        jasmine.clock().uninstall();
+    });
+
+    it('lists the waiting participants in order with their waiting time', () => {
+        knock('alice');
+        jasmine.clock().tick(1000);
+        knock('bob');
+        jasmine.clock().tick(1000);
+
+        expect(lobby.getQueue().map(({ id, waitingTime }) => [ id, waitingTime ])).toEqual([
+            [ 'alice', 2000 ],
+            [ 'bob', 1000 ]
+        ]);
+
+        lobbyRoom.emit(XMPPEvents.MUC_MEMBER_LEFT, 'lobby@muc/alice');
+
+        expect(lobby.getQueue().map(({ id }) => id)).toEqual([ 'bob' ]);
+    });
+
+    it('attaches notes to the waiting participants', () => {
+        const updatedSpy = jasmine.createSpy('updated');
+
+        room.on(XMPPEvents.MUC_LOBBY_MEMBER_UPDATED, updatedSpy);
+        knock('alice');
+        lobby.setNote('alice', 'Guest speaker');
+        lobby.setNote('unknown', 'Nobody');
+
+        expect(lobby.getQueue()[0].note).toBe('Guest speaker');
+        expect(updatedSpy).toHaveBeenCalledOnceWith('alice', { note: 'Guest speaker' });
+    });
+
+    it('admits the participants matching the auto-admit policy', () => {
+        knock('alice', { user: { email: 'alice@Example.com' } });
+        knock('bob', { user: { id: 'bob' } });
+        knock('mallory');
+        lobbyRoom.presenceListeners.email({ value: 'mallory@example.com' }, 'mallory');
+        lobby.setAutoAdmitPolicy({ emailDomains: [ 'example.com' ] });
+
+        expect(invited()).toEqual([ 'alice@example.com/res' ]);
+        expect(lobby.getQueue().find(({ id }) => id === 'mallory').email).toBe('mallory@example.com');
+
+        lobbyRoom.emit(XMPPEvents.MUC_MEMBER_LEFT, 'lobby@muc/alice');
+
+        lobby.setAutoAdmitPolicy({ authenticated: true });
+
+        expect(invited()).toEqual([ 'alice@example.com/res', 'bob@example.com/res' ]);
+
+        lobby.setAutoAdmitPolicy({ filter: entry => entry.name === 'CAROL' });
+        knock('carol');
+        knock('dave');
+
+        expect(invited().slice(2)).toEqual([ 'carol@example.com/res' ]);
+    });
+
+    it('denies access to several participants at once', () => {
+        knock('alice');
+        knock('bob');
+        lobby.denyAccess([ 'alice', 'bob', 'unknown' ]);
+
+        expect(lobbyRoom.kick.calls.allArgs()).toEqual([ [ 'lobby@muc/alice' ], [ 'lobby@muc/bob' ] ]);
+    });
+});
@@ -0,0 +1,148 @@
+import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
+
+import ChatRoom from './ChatRoom';
+import Moderator from './moderator';
+import XMPP from './xmpp';
+import XmppConnection from './XmppConnection';
+
+// These rules makes the xml strings harder to read
+/* eslint-disable operator-linebreak, max-len */
+
+/**
+ * Parses the given string into an XML element.
+ */
+function toElement(xml: string): Element {
+    return new DOMParser().parseFromString(xml, 'text/xml').documentElement;
+}
+
+/**
+ * Creates an archived message as sent by the room in response to a query.
+ */
+function archived(queryId: string, archiveId: string, messageId: string, from: string, inner: string): Element {
+    return toElement(
+        '<message to="jid" from="room@muc" xmlns="jabber:client">' +
+            `<result xmlns="urn:xmpp:mam:2" queryid="${queryId}" id="${archiveId}">` +
+                '<forwarded xmlns="urn:xmpp:forward:0">' +
+                    '<delay xmlns="urn:xmpp:delay" stamp="2025-01-01T10:00:00Z"/>' +
+                    `<message from="room@muc/${from}" id="${messageId}" type="groupchat" xmlns="jabber:client">${inner}</message>` +
+                '</forwarded>' +
+            '</result>' +
+        '</message>');
+}
+
+describe('MessageArchive', () => {
+    let room: ChatRoom;
+    let sendIQSpy: jasmine.Spy;
+
+    /**
+     * Fetches a page of the archive, made of the given archived messages.
+     */
+    function fetchPage(results: string[][], complete: boolean) {
+        const promise = room.getMessageArchive().fetch();
+        const [ iq, onResult ] = sendIQSpy.calls.mostRecent().args;
+        const queryId = iq.tree().querySelector('query').getAttribute('queryid');
+
+        for (const [ archiveId, messageId, from, inner ] of results) {
+            room.onMessage(archived(queryId, archiveId, messageId, from, inner), 'room@muc');
+        }
+        onResult(toElement(
+            '<iq type="result" xmlns="jabber:client">' +
+                `<fin xmlns="urn:xmpp:mam:2" complete="${complete}"/>` +
+            '</iq>'));
+
+        return promise;
+    }
+
+    beforeEach(() => {
+        const xmpp = {
+            moderator: new Moderator({
+                options: {}
+            } as any),
+            options: {},
+            addListener: () => {} // eslint-disable-line no-empty-function
+        };
+
+        room = new ChatRoom(
+            // eslint-disable-next-line no-empty-function
+            { sendIQ: () => {} } as any as XmppConnection /* connection */,
+            'room@muc/me',
+            'password',
+            xmpp as any as XMPP,
+            {} /* options */);
+        sendIQSpy = spyOn(room.connection, 'sendIQ');
+    });
+
+    it('sends a paged query', () => {
+        room.getMessageArchive().fetch({ before: 'arch5',
+            limit: 10 });
+
+        const iq = sendIQSpy.calls.argsFor(0)[0].toString();
+
+        expect(iq).toContain('to="room@muc" type="set"');
+        expect(iq).toContain('<set xmlns="http://jabber.org/protocol/rsm"><max>10</max><before>arch5</before></set>');
+    });
+
+    it('collects results, applies corrections and skips delivered messages', async () => {
+        room.onMessage(toElement(
+            '<message type="groupchat" id="m3" xmlns="jabber:client"><body>Live</body></message>'), 'room@muc/p2');
+
+        const promise = room.getMessageArchive().fetch();
+        const [ iq, onResult ] = sendIQSpy.calls.argsFor(0);
+        const queryId = iq.tree().querySelector('query').getAttribute('queryid');
+        const emitterSpy = spyOn(room.eventEmitter, 'emit');
+
+        room.onMessage(archived(queryId, 'arch1', 'm1', 'p1', '<body>First</body>'), 'room@muc');
+        room.onMessage(archived(queryId, 'arch2', 'm2', 'p1', '<body>Fixed</body><replace id="m1" xmlns="urn:xmpp:message-correct:0"/>'), 'room@muc');
+        room.onMessage(archived(queryId, 'arch3', 'm3', 'p2', '<body>Live</body>'), 'room@muc');
+        room.onMessage(archived(queryId, 'arch4', 'm4', 'p2', '<body>Second</body><reply to="m1"/>'), 'room@muc');
+        onResult(toElement(
+            '<iq type="result" xmlns="jabber:client">' +
+                '<fin xmlns="urn:xmpp:mam:2" complete="true">' +
+                    '<set xmlns="http://jabber.org/protocol/rsm"><first>arch1</first><last>arch4</last></set>' +
+                '</fin>' +
+            '</iq>'));
+
+        const result = await promise;
+
+        expect(emitterSpy).not.toHaveBeenCalled();
+        expect(result.complete).toBeTrue();
+        expect(result.first).toEqual('arch1');
+        expect(result.messages.length).toEqual(2);
+        expect(result.messages[0].participantId).toEqual('p1');
+        expect(result.messages[0].text).toEqual('Fixed');
+        expect(result.messages[0].edited).toBeTrue();
+        expect(result.messages[0].timestamp).toEqual('2025-01-01T10:00:00Z');
+        expect(result.messages[1].messageId).toEqual('m4');
+        expect(room.getChatMessages().getThread('m4').length).toEqual(2);
+    });
+
+    it('applies modifications to the messages of older pages and to the delivered ones', async () => {
+        room.onMessage(toElement(
+            '<message type="groupchat" id="m3" xmlns="jabber:client"><body>Live</body></message>'), 'room@muc/p2');
+
+        const emitterSpy = spyOn(room.eventEmitter, 'emit');
+        const newer = await fetchPage([
+            [ 'arch2', 'm2', 'p1', '<body>Fixed</body><replace id="m1" xmlns="urn:xmpp:message-correct:0"/>' ],
+            [ 'arch4', 'm4', 'p2', '<retract id="m3" xmlns="urn:xmpp:message-retract:1"/>' ]
+        ], false);
+
+        expect(newer.messages).toEqual([]);
+        expect(emitterSpy).toHaveBeenCalledOnceWith(XMPPEvents.MESSAGE_DELETED, 'room@muc/p2', 'm3', false);
+        expect(room.getChatMessages().get('m3').deleted).toBeTrue();
+
+        const older = await fetchPage([ [ 'arch1', 'm1', 'p1', '<body>First</body>' ] ], true);
+
+        expect(older.messages.map(({ edited, text }) => [ edited, text ])).toEqual([ [ true, 'Fixed' ] ]);
+        expect(room.getChatMessages().get('m1').text).toEqual('Fixed');
+    });
+
+    it('stores the archived messages before the delivered ones', async () => {
+        room.onMessage(toElement(
+            '<message type="groupchat" id="m2" xmlns="jabber:client"><body>Live</body></message>'), 'room@muc/p2');
+        await fetchPage([ [ 'arch1', 'm1', 'p1', '<body>First</body>' ] ], true);
+        room.getChatMessages().markDisplayed('m1', 'room@muc/p3');
+
+        expect(room.getChatMessages().get('m1').displayedBy).toEqual([ 'room@muc/p3' ]);
+        expect(room.getChatMessages().get('m2').displayedBy).toEqual([]);
+    });
+});
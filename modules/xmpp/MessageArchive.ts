@@ -0,0 +1,374 @@
+import { getLogger } from '@jitsi/logger';
+import { $iq, Strophe } from 'strophe.js';
+import { v4 as uuidv4 } from 'uuid';
+
+import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
+import { XEP } from '../../service/xmpp/XMPPExtensioProtocols';
+import $ from '../util/XMLParser';
+
+import type ChatRoom from './ChatRoom';
+
+const logger = getLogger('xmpp:MessageArchive');
+
+/**
+ * The number of messages requested per page when no limit is given.
+ */
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * How long we wait for the archive to answer a query.
+ */
+const QUERY_TIMEOUT = 15000;
+
+/**
+ * A chat message retrieved from the room archive.
+ */
+export interface IArchivedMessage {
+
+    /**
+     * The ID of the message in the archive, used for paging.
+     */
+    archiveId: string;
+
+    /**
+     * Whether the message was retracted by its sender.
+     */
+    deleted: boolean;
+
+    /**
+     * The display name of the sender, when the message carries one.
+     */
+    displayName?: string;
+
+    /**
+     * Whether the message was corrected by its sender.
+     */
+    edited: boolean;
+
+    /**
+     * The ID of the message.
+     */
+    messageId: string;
+
+    /**
+     * The ID of the sender.
+     */
+    participantId: string;
+
+    /**
+     * The ID of the message this one replies to, if any.
+     */
+    replyToId?: string;
+
+    /**
+     * The text of the message.
+     */
+    text: string;
+
+    /**
+     * The time the message was archived at.
+     */
+    timestamp: string;
+}
+
+/**
+ * A correction or retraction retrieved from the room archive.
+ */
+interface IArchivedModification {
+
+    /**
+     * The MUC jid of the sender.
+     */
+    from: string;
+
+    /**
+     * Whether the message is retracted rather than corrected.
+     */
+    retract: boolean;
+
+    /**
+     * The ID of the modified message.
+     */
+    targetId: string;
+
+    /**
+     * The new text of a corrected message.
+     */
+    text: string;
+}
+
+/**
+ * Options for fetching a page of the room archive.
+ */
+export interface IMessageHistoryOptions {
+
+    /**
+     * The archive ID of the message before which to fetch, usually {@link IMessageHistoryResult.first} of the
+     * previously fetched page. When omitted the most recent messages are fetched.
+     */
+    before?: string;
+
+    /**
+     * The maximum number of archived stanzas to fetch.
+     */
+    limit?: number;
+}
+
+/**
+ * A page of the room archive.
+ */
+export interface IMessageHistoryResult {
+
+    /**
+     * Whether the beginning of the archive was reached and there are no more pages to fetch.
+     */
+    complete: boolean;
+
+    /**
+     * The archive ID of the oldest stanza in the page.
+     */
+    first?: string;
+
+    /**
+     * The archive ID of the newest stanza in the page.
+     */
+    last?: string;
+
+    /**
+     * The messages which were not delivered already, oldest first.
+     */
+    messages: IArchivedMessage[];
+}
+
+/**
+ * Retrieves the chat history of a room through XEP-0313 Message Archive Management.
+ */
+export default class MessageArchive {
+    private _pendingModifications: IArchivedModification[];
+    private _queries: Map<string, Element[]>;
+    private _room: ChatRoom;
+
+    /**
+     * Creates a new message archive handler.
+     *
+     * @param {ChatRoom} room - The room whose archive is queried.
+     */
+    constructor(room: ChatRoom) {
+        this._room = room;
+        this._pendingModifications = [];
+        this._queries = new Map();
+    }
+
+    /**
+     * Applies a correction or retraction to a message of the fetched page, if it comes from its sender.
+     *
+     * @param {IArchivedMessage} target - The modified message.
+     * @param {IArchivedModification} modification - The modification.
+     * @returns {void}
+     */
+    private _applyModification(target: IArchivedMessage, { from, retract, text }: IArchivedModification): void {
+        if (target.deleted || target.participantId !== Strophe.getResourceFromJid(from)) {
+            return;
+        }
+
+        target.deleted = retract;
+        target.edited = !retract;
+        target.text = retract ? '' : text;
+    }
+
+    /**
+     * Applies a correction or retraction to a message which was already delivered, reporting it the way a live one
+     * is reported.
+     *
+     * @param {IArchivedModification} modification - The modification.
+     * @returns {void}
+     */
+    private _applyStoredModification({ from, retract, targetId, text }: IArchivedModification): void {
+        const chatMessages = this._room.getChatMessages();
+
+        if (!chatMessages.canModify(targetId, from)) {
+            return;
+        }
+
+        if (retract) {
+            chatMessages.delete(targetId);
+            this._room.eventEmitter.emit(XMPPEvents.MESSAGE_DELETED, from, targetId, false);
+        } else {
+            chatMessages.edit(targetId, text);
+            this._room.eventEmitter.emit(XMPPEvents.MESSAGE_EDITED, from, targetId, text, false);
+        }
+    }
+
+    /**
+     * Converts the collected archive results into messages, applying corrections and retractions and leaving out
+     * the messages we already know about. The modifications of messages older than the page are kept until the page
+     * containing them is fetched.
+     *
+     * @param {Element[]} results - The archive results, oldest first.
+     * @param {boolean} complete - Whether the beginning of the archive was reached.
+     * @returns {IArchivedMessage[]}
+     */
+    private _processResults(results: Element[] = [], complete = false): IArchivedMessage[] {
+        const chatMessages = this._room.getChatMessages();
+        const messages = new Map<string, IArchivedMessage>();
+        const unmatched: IArchivedModification[] = [];
+
+        for (const result of results) {
+            const forwarded = $(result).find(`>forwarded[xmlns="${XEP.FORWARD}"]`);
+            const msg = forwarded.find('>message');
+            const from = msg.attr('from');
+            const text = msg.find('>body').text();
+            const messageId = msg.attr('id') || result.getAttribute('id');
+            const retract = msg.find(`>retract[xmlns="${XEP.MESSAGE_RETRACTION}"]`);
+            const replace = msg.find(`>replace[xmlns="${XEP.MESSAGE_CORRECTION}"]`);
+
+            if (!from) {
+                continue;
+            }
+
+            if (retract.length || replace.length) {
+                const modification = {
+                    from,
+                    retract: Boolean(retract.length),
+                    targetId: (retract.length ? retract : replace).attr('id'),
+                    text
+                };
+                const target = messages.get(modification.targetId);
+
+                if (target) {
+                    this._applyModification(target, modification);
+                } else if (chatMessages.get(modification.targetId)) {
+                    this._applyStoredModification(modification);
+                } else {
+                    unmatched.push(modification);
+                }
+
+                continue;
+            }
+
+            if (!text || messages.has(messageId) || chatMessages.get(messageId)) {
+                continue;
+            }
+
+            const displayName = msg.find('>display-name[xmlns="http://jitsi.org/protocol/display-name"]').text();
+            const replyToId = msg.find('>reply').attr('to');
+
+            messages.set(messageId, {
+                archiveId: result.getAttribute('id'),
+                deleted: false,
+                displayName: displayName || undefined,
+                edited: false,
+                messageId,
+                participantId: Strophe.getResourceFromJid(from),
+                replyToId,
+                text,
+                timestamp: forwarded.find('>delay').attr('stamp')
+            });
+        }
+
+        // The pending modifications were found in newer pages, so they apply after the ones of this page.
+        const modifications = [ ...unmatched, ...this._pendingModifications ];
+
+        this._pendingModifications = [];
+
+        for (const modification of modifications) {
+            const target = messages.get(modification.targetId);
+
+            if (target) {
+                this._applyModification(target, modification);
+            } else if (!complete) {
+                this._pendingModifications.push(modification);
+            }
+        }
+
+        // The page is older than the messages we know about, so it goes in front of them.
+        const stored = chatMessages.prepend(Array.from(messages.values(), message => ({
+            from: `${this._room.roomjid}/${message.participantId}`,
+            isPrivate: false,
+            messageId: message.messageId,
+            replyToId: message.replyToId,
+            text: message.text,
+            timestamp: message.timestamp
+        })));
+
+        for (const storedMessage of stored) {
+            const message = messages.get(storedMessage.messageId);
+
+            storedMessage.deleted = message.deleted;
+            storedMessage.edited = message.edited;
+        }
+
+        return Array.from(messages.values());
+    }
+
+    /**
+     * Processes an archived message sent by the room in response to one of our queries.
+     *
+     * @param {Element} msg - The message stanza.
+     * @returns {boolean} Whether the message was an archive result.
+     */
+    onMessage(msg: Element): boolean {
+        const result = $(msg).find(`>result[xmlns="${XEP.MESSAGE_ARCHIVE_MANAGEMENT}"]`);
+
+        if (!result.length) {
+            return false;
+        }
+
+        const results = this._queries.get(result.attr('queryid'));
+
+        if (results) {
+            results.push(result[0]);
+        } else {
+            logger.warn(`Ignoring archive result for unknown query ${result.attr('queryid')}`);
+        }
+
+        return true;
+    }
+
+    /**
+     * Fetches a page of the chat history of the room. Messages that were already delivered are left out.
+     *
+     * @param {IMessageHistoryOptions} options - Paging options.
+     * @returns {Promise<IMessageHistoryResult>}
+     */
+    fetch({ before, limit = DEFAULT_PAGE_SIZE }: IMessageHistoryOptions = {}): Promise<IMessageHistoryResult> {
+        const queryId = uuidv4();
+        const iq = $iq({
+            to: this._room.roomjid,
+            type: 'set'
+        })
+            .c('query', {
+                queryid: queryId,
+                xmlns: XEP.MESSAGE_ARCHIVE_MANAGEMENT
+            })
+            .c('set', { xmlns: XEP.RESULT_SET_MANAGEMENT })
+            .c('max', {}, String(limit))
+            .c('before', {}, before ?? '');
+
+        this._queries.set(queryId, []);
+
+        return new Promise((resolve, reject) => {
+            this._room.connection.sendIQ(
+                iq,
+                (res: Element) => {
+                    const fin = $(res).find(`>fin[xmlns="${XEP.MESSAGE_ARCHIVE_MANAGEMENT}"]`);
+                    const set = fin.find(`>set[xmlns="${XEP.RESULT_SET_MANAGEMENT}"]`);
+                    const complete = fin.attr('complete') === 'true';
+
+                    resolve({
+                        complete,
+                        first: set.find('>first').text() || undefined,
+                        last: set.find('>last').text() || undefined,
+                        messages: this._processResults(this._queries.get(queryId), complete)
+                    });
+                    this._queries.delete(queryId);
+                },
+                (error: any) => {
+                    logger.error('Fetching the message history failed', error);
+                    this._queries.delete(queryId);
+                    reject(error);
+                },
+                QUERY_TIMEOUT);
+        });
+    }
+}
@@ -0,0 +1,212 @@
+import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
+
+import ChatRoom from './ChatRoom';
+import Polls from './Polls';
+import Moderator from './moderator';
+import XMPP from './xmpp';
+import XmppConnection from './XmppConnection';
+
+describe('Polls', () => {
+    let room: ChatRoom;
+    let polls: Polls;
+    let sendMessageSpy: jasmine.Spy;
+    let sendPrivateMessageSpy: jasmine.Spy;
+    let emitterSpy: jasmine.Spy;
+
+    const receive = (from: string, payload: object) => {
+        room.eventEmitter.emit(XMPPEvents.JSON_MESSAGE_RECEIVED, from, {
+            ...payload,
+            type: 'polls'
+        });
+    };
+
+    beforeEach(() => {
+        const xmpp = {
+            moderator: new Moderator({
+                options: {}
+            } as any),
+            options: {},
+            addListener: () => {} // eslint-disable-line no-empty-function
+        };
+
+        room = new ChatRoom(
+            // eslint-disable-next-line no-empty-function
+            { send: () => {} } as any as XmppConnection /* connection */,
+            'room@muc/me',
+            'password',
+            xmpp as any as XMPP,
+            {} /* options */);
+        polls = room.getPolls();
+        sendMessageSpy = spyOn(room, 'sendMessage');
+        sendPrivateMessageSpy = spyOn(room, 'sendPrivateMessage');
+        emitterSpy = spyOn(room.eventEmitter, 'emit').and.callThrough();
+    });
+
+    it('sends a new poll', () => {
+        const pollId = polls.createPoll('Lunch?', [ 'Pizza', 'Sushi' ]);
+        const [ json, elementName ] = sendMessageSpy.calls.argsFor(0);
+
+        expect(elementName).toBe('json-message');
+        expect(JSON.parse(json)).toEqual({
+            answers: [ 'Pizza', 'Sushi' ],
+            command: 'new-poll',
+            multipleChoice: false,
+            pollId,
+            question: 'Lunch?',
+            type: 'polls'
+        });
+    });
+
+    it('tracks the votes of each participant', () => {
+        receive('room@muc/creator', {
+            answers: [ 'Pizza', 'Sushi' ],
+            command: 'new-poll',
+            pollId: 'poll1',
+            question: 'Lunch?'
+        });
+        expect(emitterSpy).toHaveBeenCalledWith(XMPPEvents.POLL_CREATED, polls.getPoll('poll1'));
+
+        receive('room@muc/p1', {
+            answers: [ 0 ],
+            command: 'answer-poll',
+            pollId: 'poll1'
+        });
+        receive('room@muc/p2', {
+            answers: [ 0 ],
+            command: 'answer-poll',
+            pollId: 'poll1'
+        });
+        receive('room@muc/p1', {
+            answers: [ 1 ],
+            command: 'answer-poll',
+            pollId: 'poll1'
+        });
+
+        const poll = polls.getPoll('poll1');
+
+        expect(poll.creatorId).toBe('creator');
+        expect(poll.answers[0].voters).toEqual([ 'p2' ]);
+        expect(poll.answers[1].voters).toEqual([ 'p1' ]);
+    });
+
+    it('ignores remote answers which are out of range or too many', () => {
+        receive('room@muc/creator', {
+            answers: [ 'Pizza', 'Sushi' ],
+            command: 'new-poll',
+            pollId: 'poll1',
+            question: 'Lunch?'
+        });
+        receive('room@muc/p1', {
+            answers: [ 0, 1 ],
+            command: 'answer-poll',
+            pollId: 'poll1'
+        });
+        receive('room@muc/p2', {
+            answers: [ 2 ],
+            command: 'answer-poll',
+            pollId: 'poll1'
+        });
+        receive('room@muc/p3', {
+            answers: [ '0' ],
+            command: 'answer-poll',
+            pollId: 'poll1'
+        });
+
+        expect(polls.getPoll('poll1').answers.map(a => a.voters)).toEqual([ [], [] ]);
+        expect(emitterSpy).not.toHaveBeenCalledWith(XMPPEvents.POLL_UPDATED, jasmine.anything());
+    });
+
+    it('only lets the creator or a moderator close a poll', () => {
+        receive('room@muc/creator', {
+            answers: [ 'Yes', 'No' ],
+            command: 'new-poll',
+            pollId: 'poll1',
+            question: 'Done?'
+        });
+        receive('room@muc/p1', {
+            command: 'close-poll',
+            pollId: 'poll1'
+        });
+        expect(polls.getPoll('poll1').closed).toBeFalse();
+
+        receive('room@muc/creator', {
+            command: 'close-poll',
+            pollId: 'poll1'
+        });
+        expect(polls.getPoll('poll1').closed).toBeTrue();
+
+        receive('room@muc/p1', {
+            answers: [ 0 ],
+            command: 'answer-poll',
+            pollId: 'poll1'
+        });
+        expect(polls.getPoll('poll1').answers[0].voters).toEqual([]);
+    });
+
+    it('replays the polls to late joiners when moderator', () => {
+        receive('room@muc/creator', {
+            answers: [ 'Yes', 'No' ],
+            command: 'new-poll',
+            pollId: 'poll1',
+            question: 'Done?'
+        });
+        room.role = 'moderator';
+        room.eventEmitter.emit(XMPPEvents.MUC_MEMBER_JOINED, 'room@muc/late', 'late', 'participant', false);
+
+        const [ to, json ] = sendPrivateMessageSpy.calls.argsFor(0);
+
+        expect(to).toBe('late');
+        expect(JSON.parse(json).polls[0].id).toBe('poll1');
+    });
+
+    it('checks the votes of the replayed polls per voter', () => {
+        receive('room@muc/creator', {
+            answers: [ 'Yes', 'No' ],
+            command: 'new-poll',
+            pollId: 'poll1',
+            question: 'Done?'
+        });
+        receive('room@muc/p1', {
+            answers: [ 0 ],
+            command: 'answer-poll',
+            pollId: 'poll1'
+        });
+        spyOn(room, 'getMemberRole').and.returnValue('moderator');
+        receive('room@muc/mod', {
+            command: 'polls-state',
+            polls: [
+                {
+                    answers: [
+                        {
+                            name: 'Yes',
+                            voters: [ 'p2', 'p3' ]
+                        },
+                        {
+                            name: 'No',
+                            voters: [ 'p1', 'p3' ]
+                        }
+                    ],
+                    id: 'poll1'
+                },
+                {
+                    answers: [
+                        {
+                            name: 'A',
+                            voters: [ 'p1' ]
+                        },
+                        {
+                            name: 'B',
+                            voters: [ 'p1', 'p2' ]
+                        }
+                    ],
+                    id: 'poll2',
+                    multipleChoice: true,
+                    question: 'Which?'
+                }
+            ]
+        });
+
+        expect(polls.getPoll('poll1').answers.map(a => a.voters)).toEqual([ [ 'p2' ], [ 'p1' ] ]);
+        expect(polls.getPoll('poll2').answers.map(a => a.voters)).toEqual([ [ 'p1' ], [ 'p1', 'p2' ] ]);
+    });
+});
@@ -0,0 +1,476 @@
+import { getLogger } from '@jitsi/logger';
+import { isEqual } from 'lodash-es';
+import { Strophe } from 'strophe.js';
+import { v4 as uuidv4 } from 'uuid';
+
+import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
+
+import type ChatRoom from './ChatRoom';
+import { JITSI_MEET_MUC_TYPE } from './xmpp';
+
+const logger = getLogger('xmpp:Polls');
+
+/**
+ * The value of the {@link JITSI_MEET_MUC_TYPE} field of the json messages carrying polls.
+ */
+export const POLLS_MESSAGE_TYPE = 'polls';
+
+/**
+ * The commands exchanged between participants.
+ */
+enum PollsCommand {
+    ANSWER = 'answer-poll',
+    CLOSE = 'close-poll',
+    NEW = 'new-poll',
+    STATE = 'polls-state'
+}
+
+/**
+ * An answer option of a poll.
+ */
+export interface IPollAnswer {
+
+    /**
+     * The text of the option.
+     */
+    name: string;
+
+    /**
+     * The IDs of the participants who voted for the option.
+     */
+    voters: string[];
+}
+
+/**
+ * A poll and its current tally.
+ */
+export interface IPoll {
+
+    /**
+     * The answer options, in the order they were created.
+     */
+    answers: IPollAnswer[];
+
+    /**
+     * Whether the poll was closed and no longer accepts votes.
+     */
+    closed: boolean;
+
+    /**
+     * The ID of the participant who created the poll.
+     */
+    creatorId: string;
+
+    /**
+     * The ID of the poll.
+     */
+    id: string;
+
+    /**
+     * Whether participants can vote for more than one option.
+     */
+    multipleChoice: boolean;
+
+    /**
+     * The question.
+     */
+    question: string;
+}
+
+/**
+ * Polls exchanged as json messages through the MUC. Moderators replay the state of all polls to participants who
+ * join later.
+ */
+export default class Polls {
+    private _polls: Map<string, IPoll>;
+    private _room: ChatRoom;
+
+    /**
+     * Constructs the polls handler.
+     *
+     * @param {ChatRoom} room - The room we are in.
+     */
+    constructor(room: ChatRoom) {
+        this._room = room;
+        this._polls = new Map();
+
+        this._onJsonMessage = this._onJsonMessage.bind(this);
+        this._onMemberJoined = this._onMemberJoined.bind(this);
+        this._room.addListener(XMPPEvents.JSON_MESSAGE_RECEIVED, this._onJsonMessage);
+        this._room.addListener(XMPPEvents.MUC_MEMBER_JOINED, this._onMemberJoined);
+    }
+
+    /**
+     * Returns the ID of the local participant.
+     *
+     * @returns {string}
+     */
+    private _getLocalId(): string {
+        return Strophe.getResourceFromJid(this._room.myroomjid);
+    }
+
+    /**
+     * Sends a polls command to everyone, or to a single participant.
+     *
+     * @param {object} message - The command.
+     * @param {string} [to] - The ID of the participant, for private messages.
+     * @returns {void}
+     */
+    private _sendMessage(message: object, to?: string): void {
+        const json = JSON.stringify({
+            ...message,
+            [JITSI_MEET_MUC_TYPE]: POLLS_MESSAGE_TYPE
+        });
+
+        if (to) {
+            this._room.sendPrivateMessage(to, json, 'json-message');
+        } else {
+            this._room.sendMessage(json, 'json-message');
+        }
+    }
+
+    /**
+     * Checks that answers are valid indices of the poll's options, and that there is only one unless the poll is
+     * multiple choice.
+     *
+     * @param {IPoll} poll - The poll.
+     * @param {unknown} answers - The indices of the selected answers.
+     * @returns {boolean}
+     */
+    private _areValidAnswers(poll: IPoll, answers: unknown): answers is number[] {
+        return Array.isArray(answers)
+            && answers.every(a => Number.isInteger(a) && a >= 0 && a < poll.answers.length)
+            && (poll.multipleChoice || answers.length <= 1);
+    }
+
+    /**
+     * Records the votes of a participant, replacing any previous ones.
+     *
+     * @param {IPoll} poll - The poll.
+     * @param {string} voterId - The ID of the participant.
+     * @param {number[]} answers - The indices of the selected answers.
+     * @returns {boolean} Whether the tally changed.
+     */
+    private _setVotes(poll: IPoll, voterId: string, answers: number[]): boolean {
+        const before = poll.answers.map(a => a.voters.includes(voterId));
+
+        poll.answers.forEach((answer, index) => {
+            answer.voters = answer.voters.filter(v => v !== voterId);
+            answers.includes(index) && answer.voters.push(voterId);
+        });
+
+        return !isEqual(before, poll.answers.map(a => a.voters.includes(voterId)));
+    }
+
+    /**
+     * Checks whether a participant is allowed to close a poll.
+     *
+     * @param {IPoll} poll - The poll.
+     * @param {string} from - The MUC jid of the participant.
+     * @returns {boolean}
+     */
+    private _canClose(poll: IPoll, from: string): boolean {
+        return poll.creatorId === Strophe.getResourceFromJid(from) || this._isModerator(from);
+    }
+
+    /**
+     * Checks whether a participant is a moderator.
+     *
+     * @param {string} from - The MUC jid of the participant.
+     * @returns {boolean}
+     */
+    private _isModerator(from: string): boolean {
+        return from === this._room.myroomjid
+            ? this._room.isModerator()
+            : this._room.getMemberRole(from) === 'moderator';
+    }
+
+    /**
+     * Records the votes replayed by a moderator. Each voter's replayed answers replace their votes as a whole, and are
+     * checked like the answers received from the voter.
+     *
+     * @param {IPoll} poll - The poll.
+     * @param {IPollAnswer[]} remoteAnswers - The replayed answers and their voters.
+     * @returns {void}
+     */
+    private _mergeVotes(poll: IPoll, remoteAnswers: IPollAnswer[]): void {
+        const votes = new Map<string, Set<number>>();
+
+        remoteAnswers.forEach((answer, index) => {
+            Array.isArray(answer?.voters) && answer.voters.forEach(voterId => {
+                if (typeof voterId === 'string' && voterId) {
+                    votes.set(voterId, (votes.get(voterId) ?? new Set()).add(index));
+                }
+            });
+        });
+
+        for (const [ voterId, indices ] of votes) {
+            const answers = Array.from(indices);
+
+            if (this._areValidAnswers(poll, answers)) {
+                this._setVotes(poll, voterId, answers);
+            } else {
+                logger.warn(`Ignoring invalid replayed answers for poll ${poll.id} from ${voterId}`);
+            }
+        }
+    }
+
+    /**
+     * Merges the state of polls replayed by a moderator.
+     *
+     * @param {IPoll[]} polls - The replayed polls.
+     * @returns {void}
+     */
+    private _mergeState(polls: IPoll[]): void {
+        for (const remote of polls) {
+            if (!remote?.id || !Array.isArray(remote.answers)) {
+                continue;
+            }
+
+            const poll = this._polls.get(remote.id);
+
+            if (!poll) {
+                const newPoll: IPoll = {
+                    answers: remote.answers.map(a => ({
+                        name: String(a?.name),
+                        voters: []
+                    })),
+                    closed: Boolean(remote.closed),
+                    creatorId: remote.creatorId,
+                    id: remote.id,
+                    multipleChoice: Boolean(remote.multipleChoice),
+                    question: String(remote.question)
+                };
+
+                this._mergeVotes(newPoll, remote.answers);
+                this._polls.set(newPoll.id, newPoll);
+                this._room.eventEmitter.emit(XMPPEvents.POLL_CREATED, newPoll);
+
+                continue;
+            }
+
+            const before = JSON.stringify(poll);
+
+            poll.closed = poll.closed || Boolean(remote.closed);
+            this._mergeVotes(poll, remote.answers);
+
+            if (before !== JSON.stringify(poll)) {
+                this._room.eventEmitter.emit(XMPPEvents.POLL_UPDATED, poll);
+            }
+        }
+    }
+
+    /**
+     * Handles a json message received through the MUC.
+     *
+     * @param {string} from - The MUC jid of the sender.
+     * @param {object} payload - The parsed message.
+     * @returns {void}
+     */
+    private _onJsonMessage(from: string, payload: any): void {
+        if (payload?.[JITSI_MEET_MUC_TYPE] !== POLLS_MESSAGE_TYPE) {
+            return;
+        }
+
+        const poll = this._polls.get(payload.pollId);
+
+        switch (payload.command) {
+        case PollsCommand.NEW: {
+            if (poll || !payload.pollId || !Array.isArray(payload.answers)) {
+                return;
+            }
+
+            const newPoll: IPoll = {
+                answers: payload.answers.map(name => ({
+                    name: String(name),
+                    voters: []
+                })),
+                closed: false,
+                creatorId: Strophe.getResourceFromJid(from),
+                id: payload.pollId,
+                multipleChoice: Boolean(payload.multipleChoice),
+                question: String(payload.question)
+            };
+
+            this._polls.set(newPoll.id, newPoll);
+            this._room.eventEmitter.emit(XMPPEvents.POLL_CREATED, newPoll);
+            break;
+        }
+        case PollsCommand.ANSWER: {
+            if (!poll || poll.closed) {
+                return;
+            }
+
+            if (!this._areValidAnswers(poll, payload.answers)) {
+                logger.warn(`Ignoring invalid answers for poll ${poll.id} from ${from}`);
+
+                return;
+            }
+
+            if (this._setVotes(poll, Strophe.getResourceFromJid(from), payload.answers)) {
+                this._room.eventEmitter.emit(XMPPEvents.POLL_UPDATED, poll);
+            }
+            break;
+        }
+        case PollsCommand.CLOSE:
+            if (!poll || poll.closed) {
+                return;
+            }
+
+            if (!this._canClose(poll, from)) {
+                logger.warn(`Ignoring close of poll ${poll.id} by ${from}`);
+
+                return;
+            }
+
+            poll.closed = true;
+            this._room.eventEmitter.emit(XMPPEvents.POLL_UPDATED, poll);
+            break;
+        case PollsCommand.STATE:
+            if (!this._isModerator(from)) {
+                logger.warn(`Ignoring polls state from non moderator ${from}`);
+
+                return;
+            }
+
+            Array.isArray(payload.polls) && this._mergeState(payload.polls);
+            break;
+        }
+    }
+
+    /**
+     * Replays the state of all polls to a participant who just joined. Only moderators replay the state, so that
+     * late joiners can trust it.
+     *
+     * @param {string} from - The MUC jid of the participant who joined.
+     * @param {string} nick - The nick of the participant.
+     * @param {string} role - The role of the participant.
+     * @param {boolean} isHiddenDomain - Whether the participant is hidden.
+     * @returns {void}
+     */
+    private _onMemberJoined(from: string, nick: string, role: string, isHiddenDomain: boolean): void {
+        if (isHiddenDomain || !this._polls.size || !this._room.isModerator()) {
+            return;
+        }
+
+        this._sendMessage({
+            command: PollsCommand.STATE,
+            polls: this.getPolls()
+        }, Strophe.getResourceFromJid(from));
+    }
+
+    /**
+     * Stops listening for events.
+     */
+    dispose(): void {
+        this._room.removeListener(XMPPEvents.JSON_MESSAGE_RECEIVED, this._onJsonMessage);
+        this._room.removeListener(XMPPEvents.MUC_MEMBER_JOINED, this._onMemberJoined);
+        this._polls.clear();
+    }
+
+    /**
+     * Creates a new poll.
+     *
+     * @param {string} question - The question.
+     * @param {string[]} answers - The answer options.
+     * @param {boolean} [multipleChoice=false] - Whether participants can vote for more than one option.
+     * @returns {string} The ID of the new poll.
+     */
+    createPoll(question: string, answers: string[], multipleChoice: boolean = false): string {
+        const pollId = uuidv4();
+
+        this._sendMessage({
+            answers,
+            command: PollsCommand.NEW,
+            multipleChoice,
+            pollId,
+            question
+        });
+
+        return pollId;
+    }
+
+    /**
+     * Votes in a poll, replacing any previous vote of the local participant.
+     *
+     * @param {string} pollId - The ID of the poll.
+     * @param {number[]} answers - The indices of the selected answers.
+     * @returns {void}
+     */
+    vote(pollId: string, answers: number[]): void {
+        const poll = this._polls.get(pollId);
+
+        if (!poll || poll.closed) {
+            logger.error(`Cannot vote in poll ${pollId} - exists:${Boolean(poll)}, closed:${poll?.closed}`);
+
+            return;
+        }
+
+        if (!this._areValidAnswers(poll, answers)) {
+            logger.error(`Invalid answers for poll ${pollId}: ${answers}`);
+
+            return;
+        }
+
+        this._sendMessage({
+            answers,
+            command: PollsCommand.ANSWER,
+            pollId
+        });
+    }
+
+    /**
+     * Closes a poll, so that it no longer accepts votes. Only the creator of the poll or a moderator can close it.
+     *
+     * @param {string} pollId - The ID of the poll.
+     * @returns {void}
+     */
+    closePoll(pollId: string): void {
+        const poll = this._polls.get(pollId);
+
+        if (!poll || !this._canClose(poll, this._room.myroomjid)) {
+            logger.error(`Cannot close poll ${pollId} - exists:${Boolean(poll)}`);
+
+            return;
+        }
+
+        this._sendMessage({
+            command: PollsCommand.CLOSE,
+            pollId
+        });
+    }
+
+    /**
+     * Returns a poll.
+     *
+     * @param {string} pollId - The ID of the poll.
+     * @returns {Optional<IPoll>}
+     */
+    getPoll(pollId: string): Optional<IPoll> {
+        return this._polls.get(pollId);
+    }
+
+    /**
+     * Returns all the polls, in the order they were created.
+     *
+     * @returns {IPoll[]}
+     */
+    getPolls(): IPoll[] {
+        return Array.from(this._polls.values());
+    }
+
+    /**
+     * Returns whether the local participant voted in a poll and for which answers.
+     *
+     * @param {string} pollId - The ID of the poll.
+     * @returns {number[]} The indices of the answers the local participant voted for.
+     */
+    getLocalVotes(pollId: string): number[] {
+        const localId = this._getLocalId();
+        const poll = this._polls.get(pollId);
+
+        return poll
+            ? poll.answers.map((a, index) => a.voters.includes(localId) ? index : -1).filter(i => i >= 0)
+            : [];
+    }
+}
@@ -0,0 +1,130 @@
+import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
+
+import RoomMetadata, { RoomMetadataError } from './RoomMetadata';
+
+describe('RoomMetadata', () => {
+    let room: any;
+    let roomMetadata: RoomMetadata;
+    let sendSpy: jasmine.Spy;
+
+    const sentMessage = (index = 0) => JSON.parse(sendSpy.calls.argsFor(index)[0].tree().textContent);
+
+    beforeEach(() => {
+        sendSpy = jasmine.createSpy('send');
+        room = {
+            eventEmitter: jasmine.createSpyObj('eventEmitter', [ 'emit' ]),
+            roomjid: 'room@muc',
+            xmpp: {
+                addListener: () => {}, // eslint-disable-line no-empty-function
+                connection: { send: sendSpy },
+                removeListener: () => {}, // eslint-disable-line no-empty-function
+                roomMetadataComponentAddress: 'metadata.example.com'
+            }
+        };
+        roomMetadata = new RoomMetadata(room);
+    });
+
+    afterEach(() => {
+        roomMetadata.dispose();
+    });
+
+    it('emits the keys which changed', () => {
+        const listener = jasmine.createSpy('listener');
+
+        roomMetadata._handleMessages({ metadata: { a: 1,
+            b: 2 } });
+        roomMetadata.subscribe('b', listener);
+        roomMetadata._handleMessages({
+            metadata: { a: 1,
+                b: 3 },
+            revisions: { a: 1,
+                b: 2 }
+        });
+
+        const change = {
+            key: 'b',
+            newValue: 3,
+            oldValue: 2,
+            revision: 2
+        };
+
+        expect(room.eventEmitter.emit).toHaveBeenCalledWith(XMPPEvents.ROOM_METADATA_CHANGED, [ change ]);
+        expect(listener).toHaveBeenCalledOnceWith(change);
+        expect(roomMetadata.getRevision('b')).toBe(2);
+    });
+
+    it('sends the known revision and resolves on the echo', async () => {
+        roomMetadata._handleMessages({
+            metadata: { a: 1 },
+            revisions: { a: 4 }
+        });
+
+        const promise = roomMetadata.setMetadataAsync('a', 2);
+        const { key, requestId, revision } = sentMessage();
+
+        expect(key).toBe('a');
+        expect(revision).toBe(4);
+
+        roomMetadata._handleMessages({
+            metadata: { a: 2 },
+            requestId,
+            revisions: { a: 5 }
+        });
+
+        await expectAsync(promise).toBeResolved();
+    });
+
+    it('acknowledges a change only on the echo of its request ID', async () => {
+        const settledSpy = jasmine.createSpy('settled');
+
+        jasmine.clock().install();
+        roomMetadata.setMetadataAsync('a', 2).then(settledSpy, settledSpy);
+        roomMetadata._handleMessages({
+            metadata: { a: 2 },
+            requestId: 'someone-else'
+        });
+        await Promise.resolve();
+
+        expect(settledSpy).not.toHaveBeenCalled();
+
+        jasmine.clock().tick(10000);
+        jasmine.clock().uninstall();
+        await Promise.resolve();
+
+        expect(settledSpy).toHaveBeenCalledOnceWith(new Error(RoomMetadataError.TIMEOUT));
+    });
+
+    it('sets metadata without waiting for the component', () => {
+        room.xmpp.roomMetadataComponentAddress = undefined;
+
+        expect(roomMetadata.setMetadata('a', 1)).toBeUndefined();
+        expect(sendSpy).not.toHaveBeenCalled();
+
+        room.xmpp.roomMetadataComponentAddress = 'metadata.example.com';
+        roomMetadata.setMetadata('a', 1);
+
+        expect(sentMessage()).toEqual(jasmine.objectContaining({
+            data: 1,
+            key: 'a'
+        }));
+        expect(sentMessage().requestId).toBeUndefined();
+    });
+
+    it('rejects a change refused because of a conflict', async () => {
+        const promise = roomMetadata.setMetadataAsync('a', 2);
+
+        roomMetadata._handleMessages({
+            error: 'conflict',
+            requestId: sentMessage().requestId
+        });
+
+        await expectAsync(promise).toBeRejectedWithError(RoomMetadataError.CONFLICT);
+    });
+
+    it('rejects changes when the component is not available', async () => {
+        room.xmpp.roomMetadataComponentAddress = undefined;
+
+        await expectAsync(roomMetadata.setMetadataAsync('a', 1)).toBeRejectedWithError(RoomMetadataError.NOT_SUPPORTED);
+        expect(sendSpy).not.toHaveBeenCalled();
+    });
+});
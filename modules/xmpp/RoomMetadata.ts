@@ -1,6 +1,7 @@
 import { getLogger } from '@jitsi/logger';
 import { isEqual } from 'lodash-es';
 import { $msg } from 'strophe.js';
+import { v4 as uuidv4 } from 'uuid';
 
 import { XMPPEvents } from '../../service/xmpp/XMPPEvents';
 
@@ -8,10 +9,65 @@ import { JITSI_MEET_MUC_TYPE } from './xmpp';
 
 const logger = getLogger('xmpp:RoomMetadata');
 
+/**
+ * How long we wait for the component to echo or refuse a change before rejecting it.
+ */
+const SET_METADATA_TIMEOUT = 10000;
+
+/**
+ * The reasons for which a metadata change can fail.
+ */
+export enum RoomMetadataError {
+    CONFLICT = 'conflict',
+    DISPOSED = 'disposed',
+    NOT_SUPPORTED = 'not-supported',
+    REJECTED = 'rejected',
+    TIMEOUT = 'timeout'
+}
+
+/**
+ * The change of a single metadata key.
+ */
+export interface IRoomMetadataChange {
+
+    /**
+     * The key which changed.
+     */
+    key: string;
+
+    /**
+     * The new value, undefined if the key was removed.
+     */
+    newValue: any;
+
+    /**
+     * The previous value, undefined if the key was added.
+     */
+    oldValue: any;
+
+    /**
+     * The revision of the key after the change, if the component tracks revisions.
+     */
+    revision?: number;
+}
+
+/**
+ * A change sent to the component which was not yet echoed back.
+ */
+interface IPendingChange {
+    key: string;
+    reject: (error: Error) => void;
+    resolve: () => void;
+    timeout: Timeout;
+}
+
 /**
  * Helper class for handling room metadata.
  */
 export default class RoomMetadata {
+    private _pending: Map<string, IPendingChange>;
+    private _revisions: { [key: string]: number; };
+    private _subscribers: Map<string, Set<(change: IRoomMetadataChange) => void>>;
     room: any;
     _metadata: any;
 
@@ -27,6 +83,56 @@ export default class RoomMetadata {
         this.room.xmpp.addListener(XMPPEvents.ROOM_METADATA_EVENT, this._handleMessages);
 
         this._metadata = {};
+        this._pending = new Map();
+        this._revisions = {};
+        this._subscribers = new Map();
+    }
+
+    /**
+     * Settles a pending change.
+     *
+     * @param {string} requestId - The ID of the change.
+     * @param {RoomMetadataError} [error] - Why the change failed, if it did.
+     * @returns {void}
+     */
+    private _settle(requestId: string, error?: RoomMetadataError): void {
+        const pending = this._pending.get(requestId);
+
+        if (!pending) {
+            return;
+        }
+
+        clearTimeout(pending.timeout);
+        this._pending.delete(requestId);
+
+        if (error) {
+            logger.warn(`Setting room metadata ${pending.key} failed: ${error}`);
+            pending.reject(new Error(error));
+        } else {
+            pending.resolve();
+        }
+    }
+
+    /**
+     * Computes the keys which differ between two versions of the metadata.
+     *
+     * @param {object} oldMetadata - The previous metadata.
+     * @param {object} newMetadata - The new metadata.
+     * @returns {IRoomMetadataChange[]}
+     */
+    private _getChanges(oldMetadata: object, newMetadata: object): IRoomMetadataChange[] {
+        const keys = new Set([ ...Object.keys(oldMetadata), ...Object.keys(newMetadata) ]);
+
+        return Array.from(keys)
+            .filter(key => !isEqual(oldMetadata[key], newMetadata[key]))
+            .map(key => {
+                return {
+                    key,
+                    newValue: newMetadata[key],
+                    oldValue: oldMetadata[key],
+                    revision: this._revisions[key]
+                };
+            });
     }
 
     /**
@@ -34,27 +140,69 @@ export default class RoomMetadata {
      */
     dispose() {
         this.room.xmpp.removeListener(XMPPEvents.ROOM_METADATA_EVENT, this._handleMessages);
+
+        for (const requestId of Array.from(this._pending.keys())) {
+            this._settle(requestId, RoomMetadataError.DISPOSED);
+        }
+        this._subscribers.clear();
     }
 
     /**
-     * Sets metadata for the given key.
+     * Sets metadata for the given key. The change is based on the last revision of the key we received, so the
+     * component refuses it if someone else changed the key in the meantime.
      *
      * @param {string} key - key under which the metadata will be stored.
      * @param {object} data - data to be stored.
+     * @returns {void}
      */
-    setMetadata(key, data) {
+    setMetadata(key: string, data: any): void {
         if (!this.isSupported()) {
             logger.error(`Cannot set room metadata - supported:${this.isSupported()}`);
 
             return;
         }
 
-        const message = {
+        this._sendMessage({
             data,
-            key
-        };
+            key,
+            revision: this._revisions[key]
+        });
+    }
+
+    /**
+     * Sets metadata for the given key like {@link setMetadata}, and waits for the component to acknowledge the change
+     * by echoing its request ID.
+     *
+     * @param {string} key - key under which the metadata will be stored.
+     * @param {object} data - data to be stored.
+     * @returns {Promise<void>} Resolved when the component echoes the change, rejected with an error whose message is
+     * a {@link RoomMetadataError} when it refuses it or does not respond in time. Components which do not echo the
+     * request ID always time out.
+     */
+    setMetadataAsync(key: string, data: any): Promise<void> {
+        if (!this.isSupported()) {
+            logger.error(`Cannot set room metadata - supported:${this.isSupported()}`);
+
+            return Promise.reject(new Error(RoomMetadataError.NOT_SUPPORTED));
+        }
 
-        this._sendMessage(message);
+        const requestId = uuidv4();
+
+        return new Promise((resolve, reject) => {
+            this._pending.set(requestId, {
+                key,
+                reject,
+                resolve,
+                timeout: setTimeout(() => this._settle(requestId, RoomMetadataError.TIMEOUT), SET_METADATA_TIMEOUT)
+            });
+
+            this._sendMessage({
+                data,
+                key,
+                requestId,
+                revision: this._revisions[key]
+            });
+        });
     }
 
     /**
@@ -66,6 +214,38 @@ export default class RoomMetadata {
         return this._metadata;
     }
 
+    /**
+     * Gets the revision of a metadata key, as last received from the component.
+     *
+     * @param {string} key - The key.
+     * @returns {Optional<number>} The revision, undefined if the component does not track revisions.
+     */
+    getRevision(key: string): Optional<number> {
+        return this._revisions[key];
+    }
+
+    /**
+     * Subscribes to the changes of a single metadata key.
+     *
+     * @param {string} key - The key.
+     * @param {Function} listener - Called with the {@link IRoomMetadataChange} every time the key changes.
+     * @returns {Function} A function which removes the subscription.
+     */
+    subscribe(key: string, listener: (change: IRoomMetadataChange) => void): () => void {
+        let listeners = this._subscribers.get(key);
+
+        if (!listeners) {
+            listeners = new Set();
+            this._subscribers.set(key, listeners);
+        }
+        listeners.add(listener);
+
+        return () => {
+            listeners.delete(listener);
+            listeners.size || this._subscribers.delete(key);
+        };
+    }
+
     /**
      * Whether Breakout Rooms support is enabled in the backend or not.
      */
@@ -83,20 +263,45 @@ export default class RoomMetadata {
     }
 
     /**
-     * Handles a message with metadata updates.
+     * Handles a message with metadata updates, or with the refusal of a change we requested.
      *
      * @param {object} payload - Arbitrary data.
      */
     _handleMessages(payload) {
-        const { metadata } = payload;
+        const { error, metadata, requestId, revisions } = payload;
+
+        if (error) {
+            this._settle(requestId, error === RoomMetadataError.CONFLICT
+                ? RoomMetadataError.CONFLICT : RoomMetadataError.REJECTED);
 
-        if (!metadata || isEqual(this._metadata, metadata)) {
             return;
         }
 
+        if (!metadata) {
+            return;
+        }
+
+        if (revisions) {
+            this._revisions = { ...revisions };
+        }
+
+        // Only our own change is acknowledged, even if someone else set the same data.
+        requestId && this._settle(requestId);
+
+        if (isEqual(this._metadata, metadata)) {
+            return;
+        }
+
+        const changes = this._getChanges(this._metadata, metadata);
+
         this._metadata = metadata;
         logger.debug('Received metadata update', metadata);
         this.room.eventEmitter.emit(XMPPEvents.ROOM_METADATA_UPDATED, metadata);
+        this.room.eventEmitter.emit(XMPPEvents.ROOM_METADATA_CHANGED, changes);
+
+        for (const change of changes) {
+            this._subscribers.get(change.key)?.forEach(listener => listener(change));
+        }
     }
 
     /**
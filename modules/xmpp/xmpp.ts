@@ -144,7 +144,9 @@ export interface IIdentity {
  * Breakout rooms features interface
  */
 interface IBreakoutRoomsFeatures {
+    broadcast?: boolean;
     rename?: boolean;
+    selfSelection?: boolean;
 }
 
 /**
@@ -236,12 +238,32 @@ export const FEATURE_JIGASI: string = 'http://jitsi.org/protocol/jigasi';
  */
 export const FEATURE_JIBRI: string = 'http://jitsi.org/protocol/jibri';
 
+/**
+ * The feature advertised by jicofo in its presence when it forwards the pause and resume requests of the recordings
+ * to jibri, see {@link JibriSession.pause}.
+ * @type {string}
+ */
+export const FEATURE_JIBRI_PAUSE: string = 'http://jitsi.org/protocol/jibri#pause';
+
+/**
+ * The feature advertised by jicofo in its presence when it forwards the chapter markers of the recordings to jibri,
+ * see {@link JibriSession.addMarker}.
+ * @type {string}
+ */
+export const FEATURE_JIBRI_MARKERS: string = 'http://jitsi.org/protocol/jibri#markers';
+
 /**
  * The feature used by jigasi transcriber participants.
  * @type {string}
  */
 export const FEATURE_TRANSCRIBER: string = 'http://jitsi.org/protocol/transcriber';
 
+/**
+ * The feature used by jigasi transcriber participants which can translate the transcripts.
+ * @type {string}
+ */
+export const FEATURE_TRANSLATION: string = 'http://jitsi.org/protocol/transcriber/translation';
+
 /**
  * The feature used by the lib to mark support for e2ee. We use the feature by putting it in the presence
  * to avoid additional signaling (disco-info).
@@ -623,6 +645,12 @@ export default class XMPP extends Listenable {
                         if (fr.endsWith('#rename')) {
                             this.breakoutRoomsFeatures.rename = true;
                         }
+                        if (fr.endsWith('#broadcast')) {
+                            this.breakoutRoomsFeatures.broadcast = true;
+                        }
+                        if (fr.endsWith('#self-selection')) {
+                            this.breakoutRoomsFeatures.selfSelection = true;
+                        }
                     });
                 };
 
@@ -21,6 +21,8 @@ describe( "/service/xmpp/XMPPEvents members", () => {
         expect( XMPPEvents.CALL_INCOMING ).toBe( 'xmpp.callincoming.jingle' );
         expect( XMPPEvents.CALL_ENDED ).toBe( 'xmpp.callended.jingle' );
         expect( XMPPEvents.CHAT_ERROR_RECEIVED ).toBe( 'xmpp.chat_error_received' );
+        expect( XMPPEvents.CHAT_MARKER_RECEIVED ).toBe( 'xmpp.chat_marker_received' );
+        expect( XMPPEvents.CHAT_STATE_RECEIVED ).toBe( 'xmpp.chat_state_received' );
         expect( XMPPEvents.SETTINGS_ERROR_RECEIVED ).toBe( 'xmpp.settings_error_received' );
         expect( XMPPEvents.CONFERENCE_PROPERTIES_CHANGED ).toBe( 'xmpp.conference_properties_changed' );
         expect( XMPPEvents.CONNECTION_ESTABLISHED ).toBe( 'xmpp.connection.connected' );
@@ -37,6 +39,7 @@ describe( "/service/xmpp/XMPPEvents members", () => {
         expect( XMPPEvents.FILE_SHARING_FILES_RECEIVED ).toBe( 'xmpp.files-sharing.list' );
         expect( XMPPEvents.FILE_SHARING_FILE_ADDED ).toBe( 'xmpp.files-sharing.add' );
         expect( XMPPEvents.FILE_SHARING_FILE_REMOVED ).toBe( 'xmpp.files-sharing.remove' );
+        expect( XMPPEvents.FILE_SHARING_REJECTED ).toBe( 'xmpp.files-sharing.rejected' );
         expect( XMPPEvents.FOCUS_DISCONNECTED ).toBe( 'xmpp.focus_disconnected' );
         expect( XMPPEvents.FOCUS_LEFT ).toBe( 'xmpp.focus_left' );
         expect( XMPPEvents.GRACEFUL_SHUTDOWN ).toBe( 'xmpp.graceful_shutdown' );
@@ -44,6 +47,10 @@ describe( "/service/xmpp/XMPPEvents members", () => {
         expect( XMPPEvents.LOCAL_ROLE_CHANGED ).toBe( 'xmpp.localrole_changed' );
         expect( XMPPEvents.MEETING_ID_SET ).toBe( 'xmpp.meeting_id_set' );
         expect( XMPPEvents.MESSAGE_RECEIVED ).toBe( 'xmpp.message_received' );
+        expect( XMPPEvents.MESSAGE_EDITED ).toBe( 'xmpp.message_edited' );
+        expect( XMPPEvents.MESSAGE_DELETED ).toBe( 'xmpp.message_deleted' );
+        expect( XMPPEvents.POLL_CREATED ).toBe( 'xmpp.polls.created' );
+        expect( XMPPEvents.POLL_UPDATED ).toBe( 'xmpp.polls.updated' );
         expect( XMPPEvents.INVITE_MESSAGE_RECEIVED ).toBe( 'xmpp.invite_message_received' );
         expect( XMPPEvents.PRIVATE_MESSAGE_RECEIVED ).toBe( 'xmpp.private_message_received' );
         expect( XMPPEvents.MUC_MEMBER_BOT_TYPE_CHANGED ).toBe( 'xmpp.muc_member_bot_type_changed' );
@@ -95,9 +102,13 @@ describe( "/service/xmpp/XMPPEvents members", () => {
         expect( XMPPEvents.AV_MODERATION_CHANGED ).toBe( 'xmpp.av_moderation.changed' );
         expect( XMPPEvents.AV_MODERATION_PARTICIPANT_APPROVED ).toBe( 'xmpp.av_moderation.participant.approved' );
         expect( XMPPEvents.AV_MODERATION_PARTICIPANT_REJECTED ).toBe( 'xmpp.av_moderation.participant.rejected' );
+        expect( XMPPEvents.AV_MODERATION_QUEUE_CHANGED ).toBe( 'xmpp.av_moderation.queue.changed' );
+        expect( XMPPEvents.BREAKOUT_ROOMS_MESSAGE ).toBe( 'xmpp.breakout-rooms.message' );
         expect( XMPPEvents.BREAKOUT_ROOMS_MOVE_TO_ROOM ).toBe( 'xmpp.breakout-rooms.move-to-room' );
+        expect( XMPPEvents.BREAKOUT_ROOMS_CLOSING ).toBe( 'xmpp.breakout-rooms.closing' );
         expect( XMPPEvents.BREAKOUT_ROOMS_EVENT ).toBe( 'xmpp.breakout-rooms.event' );
         expect( XMPPEvents.BREAKOUT_ROOMS_UPDATED ).toBe( 'xmpp.breakout-rooms.updated' );
+        expect( XMPPEvents.ROOM_METADATA_CHANGED ).toBe( 'xmpp.room-metadata.changed' );
         expect( XMPPEvents.ROOM_METADATA_EVENT ).toBe( 'xmpp.room-metadata.event' );
         expect( XMPPEvents.ROOM_METADATA_UPDATED ).toBe( 'xmpp.room-metadata.updated' );
         expect( XMPPEvents.SUBJECT_CHANGED ).toBe( 'xmpp.subject_changed' );
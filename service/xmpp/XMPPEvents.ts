@@ -31,6 +31,11 @@ export enum XMPPEvents {
      */
     AV_MODERATION_PARTICIPANT_REJECTED = 'xmpp.av_moderation.participant.rejected',
 
+    /**
+     * Event fired when the queue of participants asking to unmute changes.
+     */
+    AV_MODERATION_QUEUE_CHANGED = 'xmpp.av_moderation.queue.changed',
+
     /**
      * Event fired when we receive a message for AV moderation.
      */
@@ -41,11 +46,21 @@ export enum XMPPEvents {
     */
     AV_MODERATION_REJECTED = 'xmpp.av_moderation.rejected',
 
+    /**
+     * Event fired when the breakout rooms are about to be closed, with the number of seconds left.
+     */
+    BREAKOUT_ROOMS_CLOSING = 'xmpp.breakout-rooms.closing',
+
     /**
      * Event fired when we receive a message for breakout rooms.
      */
     BREAKOUT_ROOMS_EVENT = 'xmpp.breakout-rooms.event',
 
+    /**
+     * Event fired when a moderator broadcasts a message to all the breakout rooms.
+     */
+    BREAKOUT_ROOMS_MESSAGE = 'xmpp.breakout-rooms.message',
+
     /**
      * Event fired when a participant is requested to join a given (breakout) room.
      */
@@ -75,6 +90,12 @@ export enum XMPPEvents {
 
     CHAT_ERROR_RECEIVED = 'xmpp.chat_error_received',
 
+    // Designates an event indicating that a participant has displayed (read) a chat message (XEP-0333).
+    CHAT_MARKER_RECEIVED = 'xmpp.chat_marker_received',
+
+    // Designates an event indicating that the chat state (e.g. typing) of a participant has changed (XEP-0085).
+    CHAT_STATE_RECEIVED = 'xmpp.chat_state_received',
+
     // The conference properties (as advertised by jicofo) have changed
     CONFERENCE_PROPERTIES_CHANGED = 'xmpp.conference_properties_changed',
 
@@ -156,6 +177,11 @@ export enum XMPPEvents {
      */
     FILE_SHARING_FILE_REMOVED = 'xmpp.files-sharing.remove',
 
+    /**
+     * Event emitted when adding or removing a file is refused by the file sharing policy.
+     */
+    FILE_SHARING_REJECTED = 'xmpp.files-sharing.rejected',
+
     FOCUS_DISCONNECTED = 'xmpp.focus_disconnected',
 
     FOCUS_LEFT = 'xmpp.focus_left',
@@ -196,6 +222,12 @@ export enum XMPPEvents {
      */
     MEETING_ID_SET = 'xmpp.meeting_id_set',
 
+    // Designates an event indicating that a chat message was retracted by its sender (XEP-0424).
+    MESSAGE_DELETED = 'xmpp.message_deleted',
+
+    // Designates an event indicating that a chat message was corrected by its sender (XEP-0308).
+    MESSAGE_EDITED = 'xmpp.message_edited',
+
     // Designates an event indicating that an XMPP message in the MUC was
     // received.
     MESSAGE_RECEIVED = 'xmpp.message_received',
@@ -276,6 +308,16 @@ export enum XMPPEvents {
      * Indicates that phone number changed.
      */
     PHONE_NUMBER_CHANGED = 'conference.phoneNumberChanged',
+
+    /**
+     * Event fired when a poll was created or replayed to us after joining.
+     */
+    POLL_CREATED = 'xmpp.polls.created',
+
+    /**
+     * Event fired when the votes or the state of a poll changed.
+     */
+    POLL_UPDATED = 'xmpp.polls.updated',
     PRESENCE_RECEIVED = 'xmpp.presence_received',
     PRESENCE_STATUS = 'xmpp.presence_status',
 
@@ -322,6 +364,11 @@ export enum XMPPEvents {
      */
     ROOM_MAX_USERS_ERROR = 'xmpp.room_max_users_error',
 
+    /**
+     * Event fired with the keys of the room metadata which changed in an update.
+     */
+    ROOM_METADATA_CHANGED = 'xmpp.room-metadata.changed',
+
     /**
      * Event fired when we receive a message related to room metadata.
      */
@@ -432,7 +479,8 @@ export enum XMPPEvents {
      * STATE_ON, STATE_OFF, STATE_PENDING, STATE_RETRYING, STATE_FAILED.
      * {@see VideoSIPGWStateConstants}
      *
-     * @param {options} event - {address, oldState, newState, displayName}.
+     * @param {ISessionStateChangeEvent} event - {address, oldState, newState, displayName,
+     * remoteDisplayName, duration, failureCause, failureReason, retryCount}.
      */
     VIDEO_SIP_GW_SESSION_STATE_CHANGED = 'xmpp.videoSIPGWSessionStateChanged',
 
@@ -8,12 +8,36 @@ export enum XEP {
      */
     BUNDLE_MEDIA = 'urn:xmpp:jingle:apps:grouping:0',
 
+    /**
+     * XEP-0333 - Displayed markers, used for read receipts.
+     * https://xmpp.org/extensions/xep-0333.html
+     */
+    CHAT_MARKERS = 'urn:xmpp:chat-markers:0',
+
+    /**
+     * XEP-0085 - Chat State Notifications, used for typing indicators.
+     * https://xmpp.org/extensions/xep-0085.html
+     */
+    CHAT_STATES = 'http://jabber.org/protocol/chatstates',
+
     /**
      * XEP-0320 - Signals the use of DTLS-SRTP in Jingle session.
      * https://xmpp.org/extensions/xep-0320.html
      */
     DTLS_SRTP = 'urn:xmpp:jingle:apps:dtls:0',
 
+    /**
+     * XEP-0428 - Fallback indication for clients that do not support an extension carried in the same message.
+     * https://xmpp.org/extensions/xep-0428.html
+     */
+    FALLBACK_INDICATION = 'urn:xmpp:fallback:0',
+
+    /**
+     * XEP-0297 - Stanza Forwarding.
+     * https://xmpp.org/extensions/xep-0297.html
+     */
+    FORWARD = 'urn:xmpp:forward:0',
+
     /**
      * XEP-0176 - Signaling ICE-UDP transport method.
      * https://xmpp.org/extensions/xep-0176.html
@@ -26,11 +50,35 @@ export enum XEP {
      */
     JINGLE = 'urn:xmpp:jingle:1',
 
+    /**
+     * XEP-0313 - Message Archive Management.
+     * https://xmpp.org/extensions/xep-0313.html
+     */
+    MESSAGE_ARCHIVE_MANAGEMENT = 'urn:xmpp:mam:2',
+
+    /**
+     * XEP-0308 - Last Message Correction.
+     * https://xmpp.org/extensions/xep-0308.html
+     */
+    MESSAGE_CORRECTION = 'urn:xmpp:message-correct:0',
+
+    /**
+     * XEP-0424 - Message Retraction.
+     * https://xmpp.org/extensions/xep-0424.html
+     */
+    MESSAGE_RETRACTION = 'urn:xmpp:message-retract:1',
+
     /**
      * XEP-0327 - Rayo for allowing third-party control over media sessions.
      */
     RAYO = 'urn:xmpp:rayo:client:1',
 
+    /**
+     * XEP-0059 - Result Set Management, used for paging.
+     * https://xmpp.org/extensions/xep-0059.html
+     */
+    RESULT_SET_MANAGEMENT = 'http://jabber.org/protocol/rsm',
+
     /**
      * XEP-0167 - Signals support for RTP audio.
      * https://xmpp.org/extensions/xep-0167.html#support